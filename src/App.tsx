@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from "react"
+import { useState, useEffect, useCallback, useRef } from "react"
 import { Layout, pathToSection, sectionDefaultTab } from "@/components/layout/Layout"
 import type { BottomSection } from "@/components/layout/BottomTabBar"
 import { OverviewDashboard } from "@/components/dashboard/OverviewDashboard"
@@ -6,18 +6,43 @@ import { EmailDashboard } from "@/components/dashboard/EmailDashboard"
 import { ProductsDashboard } from "@/components/dashboard/ProductsDashboard"
 import { CustomersDashboard } from "@/components/dashboard/CustomersDashboard"
 import { FinanceDashboard } from "@/components/dashboard/FinanceDashboard"
+import { ProfitLossDashboard } from "@/components/dashboard/ProfitLossDashboard"
 import { MetaDashboard } from "@/components/dashboard/MetaDashboard"
 import { InventoryDashboard } from "@/components/dashboard/InventoryDashboard"
+import { ForecastingDashboard } from "@/components/dashboard/ForecastingDashboard"
+import { ShopifyDashboard } from "@/components/dashboard/ShopifyDashboard"
+import { ShopifyPayoutsWidget } from "@/components/dashboard/ShopifyPayoutsWidget"
+import { BankingDashboard } from "@/components/dashboard/BankingDashboard"
+import { MarketingDashboard } from "@/components/dashboard/MarketingDashboard"
 import { Login } from "@/components/Login"
+import { SettingsPage } from "@/components/SettingsPage"
 import { AuthProvider, useAuth } from "@/context/AuthContext"
 import { RealtimeProvider } from "@/context/RealtimeContext"
-import { apiFetch } from "@/lib/api"
-import { Loader2, Settings } from "lucide-react"
+import { SettingsProvider } from "@/context/SettingsContext"
+import { useSettings } from "@/hooks/useSettings"
+import { useApiQuery } from "@/hooks/useApiQuery"
+import { useLocation, useNavigate, useQueryState } from "@/hooks/useRouter"
+import { startOfflineSync } from "@/lib/offline"
+import { matchPath, type RouteParams } from "@/lib/router"
+import { Loader2 } from "lucide-react"
 import type { ShopInfo } from "@/components/layout/Sidebar"
-import type { DateRangeValue } from "@/components/layout/Header"
+import { compareOptions, dateRangeOptions, type CompareValue, type DateRangeValue } from "@/lib/date-range-labels"
 import "./index.css"
 
-type Page = "/" | "/email" | "/products" | "/customers" | "/finance" | "/meta" | "/inventory" | "/settings"
+type Page =
+  | "/"
+  | "/email"
+  | "/products"
+  | "/customers"
+  | "/finance"
+  | "/pnl"
+  | "/banking"
+  | "/forecasting"
+  | "/marketing"
+  | "/meta"
+  | "/shopify"
+  | "/inventory"
+  | "/settings"
 
 const pageConfig: Record<Page, { title: string; subtitle: string }> = {
   "/": { title: "Dashboard", subtitle: "Your e-commerce business at a glance" },
@@ -25,32 +50,74 @@ const pageConfig: Record<Page, { title: string; subtitle: string }> = {
   "/products": { title: "Products", subtitle: "Category profitability and product performance" },
   "/customers": { title: "Customers", subtitle: "Customer behavior, retention, and top products" },
   "/finance": { title: "Finance", subtitle: "Cash flow, accounts, and transactions" },
+  "/pnl": { title: "P&L", subtitle: "Monthly profit and loss statement" },
+  "/banking": { title: "Banking", subtitle: "Account balances and transaction history" },
+  "/forecasting": { title: "Forecast", subtitle: "Revenue targets, pacing, and required ad spend" },
+  "/marketing": { title: "Marketing", subtitle: "Paid social and email performance side by side" },
   "/meta": { title: "Meta Ads", subtitle: "Campaign performance, ad creatives, and insights" },
+  "/shopify": { title: "Shopify", subtitle: "Store sales, orders, and payouts" },
   "/inventory": { title: "Inventory", subtitle: "Stock levels, raw materials, and reorder alerts" },
   "/settings": { title: "Settings", subtitle: "App preferences and configuration" },
 }
 
-// Read initial page from URL hash to persist navigation across reloads
-const getInitialPage = (): Page => {
-  const hash = window.location.hash.slice(1) // Remove the '#'
-  if (hash && hash in pageConfig) {
-    return hash as Page
+// Route table - nested routes open an entity (drawer/modal) on top of their page
+const routes: { pattern: string; page: Page }[] = [
+  { pattern: "/", page: "/" },
+  { pattern: "/email", page: "/email" },
+  { pattern: "/products", page: "/products" },
+  { pattern: "/customers", page: "/customers" },
+  { pattern: "/finance", page: "/finance" },
+  { pattern: "/pnl", page: "/pnl" },
+  { pattern: "/banking", page: "/banking" },
+  { pattern: "/forecasting", page: "/forecasting" },
+  { pattern: "/marketing", page: "/marketing" },
+  { pattern: "/meta", page: "/meta" },
+  { pattern: "/meta/campaigns/:campaignId", page: "/meta" },
+  { pattern: "/meta/campaigns/:campaignId/ads/:adId", page: "/meta" },
+  { pattern: "/meta/ads/:adId", page: "/meta" },
+  { pattern: "/shopify", page: "/shopify" },
+  { pattern: "/inventory", page: "/inventory" },
+  { pattern: "/inventory/materials/:materialId", page: "/inventory" },
+  { pattern: "/inventory/:tab", page: "/inventory" },
+  { pattern: "/settings", page: "/settings" },
+]
+
+const matchRoute = (pathname: string): { page: Page; params: RouteParams } | null => {
+  for (const route of routes) {
+    const params = matchPath(route.pattern, pathname)
+    if (params) return { page: route.page, params }
   }
-  return "/"
+  return null
 }
 
-// Get initial section from page
-const getInitialSection = (page: Page): BottomSection => {
-  return pathToSection[page] || "shop"
-}
+// Pages offered as a landing page in Settings
+const landingPages = (Object.keys(pageConfig) as Page[])
+  .filter((page) => page !== "/settings")
+  .map((page) => ({ path: page, title: pageConfig[page].title }))
+
+const CUSTOM_RANGE_PATTERN = /^custom:\d{4}-\d{2}-\d{2}:\d{4}-\d{2}-\d{2}$/
+
+const isDateRangeValue = (value: string) =>
+  dateRangeOptions.some((option) => option.value === value) || CUSTOM_RANGE_PATTERN.test(value)
+
+const isCompareValue = (value: string) =>
+  compareOptions.some((option) => option.value === value) || CUSTOM_RANGE_PATTERN.test(value)
 
 function AppContent() {
-  const [currentPage, setCurrentPage] = useState<Page>(getInitialPage)
-  const [activeSection, setActiveSection] = useState<BottomSection>(() => getInitialSection(getInitialPage()))
-  const [shopInfo, setShopInfo] = useState<ShopInfo | null>(null)
-  const [dateRange, setDateRange] = useState<DateRangeValue>("today")
-  const [refreshKey, setRefreshKey] = useState(0)
+  const { pathname } = useLocation()
+  const navigate = useNavigate()
   const { isAuthenticated, isLoading, logout } = useAuth()
+  const { settings, isLoading: settingsLoading } = useSettings()
+  // Links without a range fall back to the user's default
+  const [dateRange, setDateRange] = useQueryState<DateRangeValue>("range", settings.defaultDateRange, isDateRangeValue)
+  const [compareTo, setCompareTo] = useQueryState<CompareValue>("compare", "none", isCompareValue)
+  const [refreshKey, setRefreshKey] = useState(0)
+
+  const route = matchRoute(pathname)
+  const isKnownPath = route !== null
+  const currentPage = route?.page ?? "/"
+  const routeParams = route?.params ?? {}
+  const activeSection: BottomSection = pathToSection[currentPage] || "shop"
 
   // All hooks must be called before any conditional returns
   const handleRefresh = useCallback(() => {
@@ -59,42 +126,37 @@ function AppContent() {
 
   // Handle section change from bottom nav
   const handleSectionChange = useCallback((section: BottomSection) => {
-    setActiveSection(section)
-    const defaultTab = sectionDefaultTab[section] as Page
-    setCurrentPage(defaultTab)
-  }, [])
+    navigate(sectionDefaultTab[section])
+  }, [navigate])
 
-  // Persist current page to URL hash so it survives page reloads
+  // Send unknown paths back to the dashboard
   useEffect(() => {
-    if (isAuthenticated) {
-      window.location.hash = currentPage
+    if (isAuthenticated && !isKnownPath) {
+      navigate("/", { replace: true })
     }
-  }, [currentPage, isAuthenticated])
+  }, [isAuthenticated, isKnownPath, navigate])
 
-  // Handle browser back/forward navigation
+  // Open the preferred landing page once per app launch, unless a deep link was followed
+  const landingAppliedRef = useRef(false)
   useEffect(() => {
-    const handleHashChange = () => {
-      const hash = window.location.hash.slice(1)
-      if (hash && hash in pageConfig) {
-        setCurrentPage(hash as Page)
-      }
+    if (!isAuthenticated || settingsLoading || landingAppliedRef.current) return
+    landingAppliedRef.current = true
+    if (pathname === "/" && settings.defaultLandingPage !== "/" && matchRoute(settings.defaultLandingPage)) {
+      navigate(settings.defaultLandingPage, { replace: true })
     }
-    window.addEventListener("hashchange", handleHashChange)
-    return () => window.removeEventListener("hashchange", handleHashChange)
-  }, [])
+  }, [isAuthenticated, settingsLoading, pathname, settings.defaultLandingPage, navigate])
 
   // Fetch shop info only when authenticated
+  const { data: shopData } = useApiQuery<{ shop?: ShopInfo }>(
+    isAuthenticated ? `/api/shopify/shop` : null,
+    { staleTime: 10 * 60 * 1000 }
+  )
+  const shopInfo = shopData?.shop ?? null
+
+  // Replay offline writes and refresh persisted data whenever connectivity returns
   useEffect(() => {
     if (!isAuthenticated) return
-
-    apiFetch(`/api/shopify/shop`)
-      .then((res) => res.json())
-      .then((data) => {
-        if (data.shop) {
-          setShopInfo(data.shop)
-        }
-      })
-      .catch((err) => console.error("Failed to fetch shop info:", err))
+    return startOfflineSync()
   }, [isAuthenticated])
 
   // Show loading spinner while checking auth
@@ -112,8 +174,8 @@ function AppContent() {
   }
 
   const handleNavigate = (href: string) => {
-    if (href && href in pageConfig) {
-      setCurrentPage(href as Page)
+    if (href && matchRoute(href.split("?")[0])) {
+      navigate(href)
     }
   }
 
@@ -123,39 +185,49 @@ function AppContent() {
     const link = target.closest("a")
     if (link) {
       e.preventDefault()
-      const href = link.getAttribute("href") as Page
-      handleNavigate(href)
+      const href = link.getAttribute("href")
+      if (href) handleNavigate(href)
     }
   }
 
   const renderPage = () => {
     switch (currentPage) {
       case "/email":
-        return <EmailDashboard dateRange={dateRange} refreshKey={refreshKey} />
+        return <EmailDashboard dateRange={dateRange} compareTo={compareTo} refreshKey={refreshKey} />
       case "/products":
-        return <ProductsDashboard dateRange={dateRange} refreshKey={refreshKey} />
+        return <ProductsDashboard dateRange={dateRange} compareTo={compareTo} refreshKey={refreshKey} />
       case "/customers":
-        return <CustomersDashboard dateRange={dateRange} refreshKey={refreshKey} />
+        return <CustomersDashboard dateRange={dateRange} compareTo={compareTo} refreshKey={refreshKey} />
       case "/finance":
         return <FinanceDashboard dateRange={dateRange} refreshKey={refreshKey} />
+      case "/pnl":
+        return <ProfitLossDashboard refreshKey={refreshKey} />
+      case "/banking":
+        return <BankingDashboard dateRange={dateRange} refreshKey={refreshKey} />
+      case "/forecasting":
+        return <ForecastingDashboard dateRange={dateRange} refreshKey={refreshKey} />
+      case "/marketing":
+        return <MarketingDashboard dateRange={dateRange} refreshKey={refreshKey} />
       case "/meta":
-        return <MetaDashboard />
-      case "/inventory":
-        return <InventoryDashboard />
-      case "/settings":
+        return <MetaDashboard campaignId={routeParams.campaignId} adId={routeParams.adId} />
+      case "/shopify":
         return (
-          <div className="flex flex-col items-center justify-center h-full text-muted-foreground">
-            <Settings size={48} className="mb-4 opacity-50" />
-            <p className="text-lg">Settings coming soon</p>
+          <div className="space-y-6">
+            <ShopifyDashboard dateRange={dateRange} refreshKey={refreshKey} />
+            <ShopifyPayoutsWidget refreshKey={refreshKey} />
           </div>
         )
+      case "/inventory":
+        return <InventoryDashboard tab={routeParams.tab} materialId={routeParams.materialId} />
+      case "/settings":
+        return <SettingsPage shopInfo={shopInfo} pages={landingPages} />
       case "/":
       default:
-        return <OverviewDashboard dateRange={dateRange} refreshKey={refreshKey} />
+        return <OverviewDashboard dateRange={dateRange} compareTo={compareTo} refreshKey={refreshKey} />
     }
   }
 
-  const { title, subtitle } = pageConfig[currentPage] || pageConfig["/"]
+  const { title, subtitle } = pageConfig[currentPage]
 
   return (
     <div onClick={handleNavigation}>
@@ -167,8 +239,10 @@ function AppContent() {
         shopInfo={shopInfo}
         dateRange={dateRange}
         onDateRangeChange={setDateRange}
+        compareTo={compareTo}
+        onCompareChange={setCompareTo}
         onRefresh={handleRefresh}
-        onLogout={logout}
+        onLogout={() => logout()}
         onNavigate={handleNavigate}
         onSectionChange={handleSectionChange}
       >
@@ -182,7 +256,9 @@ function App() {
   return (
     <AuthProvider>
       <RealtimeProvider>
-        <AppContent />
+        <SettingsProvider>
+          <AppContent />
+        </SettingsProvider>
       </RealtimeProvider>
     </AuthProvider>
   )
@@ -0,0 +1,51 @@
+import { useState } from "react"
+import { Loader2 } from "lucide-react"
+import type { Account, AccountRole } from "@/lib/api-types"
+import { ACCOUNT_ROLES, getAccountRole, saveAccountRole, type AccountRoles } from "@/lib/account-roles"
+
+interface AccountRoleSelectProps {
+  account: Account
+  roles: AccountRoles
+  className?: string
+}
+
+/**
+ * Dropdown that assigns a role to a linked bank account and saves it immediately
+ */
+export function AccountRoleSelect({ account, roles, className }: AccountRoleSelectProps) {
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState(false)
+
+  const handleChange = async (value: string) => {
+    setSaving(true)
+    setError(false)
+    try {
+      await saveAccountRole(roles, account.account_id, (value || null) as AccountRole | null)
+    } catch (err) {
+      console.error("Failed to save account role:", err)
+      setError(true)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-1.5">
+      {saving && <Loader2 size={12} className="animate-spin text-muted-foreground" />}
+      <select
+        value={getAccountRole(account, roles) ?? ""}
+        onChange={(e) => handleChange(e.target.value)}
+        disabled={saving}
+        title={error ? "Couldn't save role" : "Account role"}
+        className={`h-7 rounded-md border bg-background px-2 text-xs ${error ? "border-rh-negative" : ""} ${className || ""}`}
+      >
+        <option value="">No role</option>
+        {ACCOUNT_ROLES.map((role) => (
+          <option key={role.value} value={role.value} title={role.description}>
+            {role.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  )
+}
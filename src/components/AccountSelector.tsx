@@ -17,6 +17,7 @@ import {
   CheckCircle2,
   Circle,
 } from "lucide-react"
+import { getNumberFormat } from "@/lib/utils"
 
 interface Account {
   account_id: string
@@ -79,9 +80,9 @@ export function AccountSelector({
   }
 
   const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat("en-US", {
+    return new Intl.NumberFormat(getNumberFormat().locale, {
       style: "currency",
-      currency: "USD",
+      currency: getNumberFormat().currency,
       minimumFractionDigits: 2,
     }).format(value)
   }
@@ -1,12 +1,12 @@
 import { useState } from 'react'
 import { useAuth } from '@/context/AuthContext'
 import { Button } from '@/components/ui/button'
-import { Loader2, Lock, AlertCircle, Mail, CheckCircle } from 'lucide-react'
+import { Loader2, Lock, AlertCircle, Mail, CheckCircle, Clock, PlayCircle } from 'lucide-react'
 
 type AuthMode = 'login' | 'signup'
 
 export function Login() {
-  const { login, signup } = useAuth()
+  const { login, signup, authNotice, startDemo } = useAuth()
   const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
   const [error, setError] = useState('')
@@ -57,6 +57,13 @@ export function Login() {
           </div>
 
           <form onSubmit={handleSubmit} className="space-y-4">
+            {authNotice && !error && !successMessage && (
+              <div className="flex items-center gap-2 rounded-md bg-amber-50 p-3 text-sm text-amber-700">
+                <Clock className="h-4 w-4 flex-shrink-0" />
+                {authNotice}
+              </div>
+            )}
+
             {error && (
               <div className="flex items-center gap-2 rounded-md bg-red-50 p-3 text-sm text-red-600">
                 <AlertCircle className="h-4 w-4 flex-shrink-0" />
@@ -127,6 +134,22 @@ export function Login() {
                 : 'Already have an account? Sign in'}
             </button>
           </div>
+
+          <div className="mt-6 border-t pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              className="w-full"
+              onClick={startDemo}
+              disabled={loading}
+            >
+              <PlayCircle className="mr-2 h-4 w-4" />
+              Explore demo
+            </Button>
+            <p className="mt-2 text-center text-xs text-muted-foreground">
+              Sample store data, no account needed
+            </p>
+          </div>
         </div>
 
         <p className="mt-4 text-center text-xs text-muted-foreground">
@@ -0,0 +1,393 @@
+import { useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { AccountRoleSelect } from "@/components/AccountRoleSelect"
+import { PlaidLinkButton } from "@/components/PlaidLink"
+import { PlaidReconnect } from "@/components/PlaidReconnect"
+import { SyncStatus } from "@/components/SyncStatus"
+import {
+  Store,
+  SlidersHorizontal,
+  Building2,
+  Plug,
+  Bell,
+  Shield,
+  CheckCircle,
+  AlertCircle,
+  Loader2,
+  LogOut,
+  RefreshCw,
+} from "lucide-react"
+import { dateRangeOptions, type DateRangeValue } from "@/lib/date-range-labels"
+import type { ShopInfo } from "@/components/layout/Sidebar"
+import { useAuth } from "@/context/AuthContext"
+import { useSettings } from "@/hooks/useSettings"
+import { useApiQuery } from "@/hooks/useApiQuery"
+import { fetchQuery } from "@/lib/api"
+import type { AccountPreferencesResponse, AccountsResponse, EmailDashboardData, FinanceStatusResponse, MetaBillingResponse } from "@/lib/api-types"
+import type { NotificationPreferences, UserSettings } from "@/lib/settings"
+import { ACCOUNT_PREFERENCES_ENDPOINT } from "@/lib/account-roles"
+import { PACING_THRESHOLD_OPTIONS } from "@/lib/meta-pacing"
+import { formatCurrency } from "@/lib/utils"
+
+const LOCALE_OPTIONS = [
+  { value: "en-US", label: "English (US)" },
+  { value: "en-GB", label: "English (UK)" },
+  { value: "en-CA", label: "English (Canada)" },
+  { value: "en-AU", label: "English (Australia)" },
+  { value: "fr-FR", label: "Français" },
+  { value: "de-DE", label: "Deutsch" },
+  { value: "es-ES", label: "Español" },
+]
+
+const CURRENCY_OPTIONS = ["USD", "CAD", "EUR", "GBP", "AUD"]
+
+const NOTIFICATION_OPTIONS: { key: keyof NotificationPreferences; label: string; description: string }[] = [
+  { key: "syncFailures", label: "Sync failures", description: "A Shopify, Meta, Plaid or Omnisend sync fails" },
+  { key: "lowStock", label: "Low stock", description: "Products or raw materials drop below their reorder point" },
+  { key: "dailySummary", label: "Daily summary", description: "Yesterday's sales, spend and MER each morning" },
+  { key: "weeklyReport", label: "Weekly report", description: "A recap of the previous week every Monday" },
+]
+
+interface SettingsPageProps {
+  shopInfo: ShopInfo | null
+  /** Pages that can be chosen as the landing page */
+  pages: { path: string; title: string }[]
+}
+
+export function SettingsPage({ shopInfo, pages }: SettingsPageProps) {
+  const { user, isDemo, logout, signOutOtherSessions } = useAuth()
+  const { settings, updateSettings, numberFormat } = useSettings()
+  const [saveState, setSaveState] = useState<"idle" | "saving" | "saved" | "error">("idle")
+  const [checkingIntegration, setCheckingIntegration] = useState<string | null>(null)
+  const [sessionsState, setSessionsState] = useState<{ status: "idle" | "working" | "done"; error?: string }>({
+    status: "idle",
+  })
+
+  const financeStatus = useApiQuery<FinanceStatusResponse>(`/api/finance/status`)
+  const accountsQuery = useApiQuery<AccountsResponse>(`/api/finance/accounts`)
+  const rolesQuery = useApiQuery<AccountPreferencesResponse>(ACCOUNT_PREFERENCES_ENDPOINT)
+  const metaBilling = useApiQuery<MetaBillingResponse>(`/api/meta/billing`)
+  const omnisend = useApiQuery<EmailDashboardData>(`/api/omnisend/dashboard?days=7`)
+
+  const accounts = accountsQuery.data?.accounts || []
+  const accountRoles = rolesQuery.data?.roles || {}
+
+  const handleChange = async (changes: Partial<UserSettings>) => {
+    setSaveState("saving")
+    try {
+      await updateSettings(changes)
+      setSaveState("saved")
+    } catch (error) {
+      console.error("Failed to save settings:", error)
+      setSaveState("error")
+    }
+  }
+
+  const handleSignOutOthers = async () => {
+    setSessionsState({ status: "working" })
+    const result = await signOutOtherSessions()
+    setSessionsState(result.success ? { status: "done" } : { status: "idle", error: result.error })
+  }
+
+  // Reconnecting re-checks the integration once its credentials are fixed on the backend
+  const handleReconnect = async (name: string, check: () => Promise<unknown>) => {
+    setCheckingIntegration(name)
+    try {
+      await check()
+    } catch (error) {
+      console.error(`Failed to reconnect ${name}:`, error)
+    } finally {
+      setCheckingIntegration(null)
+    }
+  }
+
+  const integrations = [
+    {
+      name: "Shopify",
+      connected: !!shopInfo,
+      detail: shopInfo?.domain,
+      hint: "Set SHOPIFY_STORE_URL and SHOPIFY_ACCESS_TOKEN on the backend",
+      // Shop info is loaded by App - refetching the shared query reconnects it
+      reconnect: () => fetchQuery(`/api/shopify/shop`, { force: true }),
+    },
+    {
+      name: "Meta Ads",
+      connected: !!metaBilling.data && !metaBilling.error && metaBilling.data.configured !== false,
+      hint: "Set META_ACCESS_TOKEN and META_AD_ACCOUNT_ID on the backend",
+      reconnect: metaBilling.refetch,
+    },
+    {
+      name: "Omnisend",
+      connected: !!omnisend.data && !omnisend.error,
+      hint: "Set OMNISEND_API_KEY on the backend",
+      reconnect: omnisend.refetch,
+    },
+    {
+      name: "Plaid",
+      connected: financeStatus.data?.configured ?? false,
+      detail: accounts.length > 0 ? `${accounts.length} linked accounts` : undefined,
+      hint: "Set PLAID_CLIENT_ID and PLAID_SECRET on the backend",
+    },
+  ]
+
+  const selectClassName = "px-3 py-2 text-sm border rounded-lg bg-background"
+
+  return (
+    <div className="space-y-6 max-w-3xl">
+      {/* Store Profile */}
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base flex items-center gap-2">
+            <Store size={18} />
+            Store Profile
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {shopInfo ? (
+            <dl className="grid grid-cols-1 gap-3 text-sm sm:grid-cols-2">
+              {[
+                ["Store", shopInfo.name],
+                ["Domain", shopInfo.domain],
+                ["Owner", shopInfo.shop_owner],
+                ["Email", shopInfo.email],
+                ["Plan", shopInfo.plan_display_name],
+                ["Currency", shopInfo.currency],
+                ["Since", new Date(shopInfo.created_at).toLocaleDateString(numberFormat.locale)],
+              ].map(([label, value]) => (
+                <div key={label}>
+                  <dt className="text-xs text-muted-foreground">{label}</dt>
+                  <dd className="font-medium">{value}</dd>
+                </div>
+              ))}
+            </dl>
+          ) : (
+            <p className="text-sm text-muted-foreground">Store details are unavailable until Shopify is connected.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Preferences */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between pb-2">
+          <CardTitle className="text-base flex items-center gap-2">
+            <SlidersHorizontal size={18} />
+            Preferences
+          </CardTitle>
+          <span className="text-xs text-muted-foreground">
+            {saveState === "saving" && "Saving..."}
+            {saveState === "saved" && "Saved"}
+            {saveState === "error" && <span className="text-rh-negative">Couldn't save - change reverted</span>}
+          </span>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            <label className="space-y-1 text-sm">
+              <span className="text-muted-foreground">Default date range</span>
+              <select
+                value={settings.defaultDateRange}
+                onChange={(e) => handleChange({ defaultDateRange: e.target.value as DateRangeValue })}
+                className={`${selectClassName} w-full`}
+              >
+                {dateRangeOptions.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="space-y-1 text-sm">
+              <span className="text-muted-foreground">Landing page</span>
+              <select
+                value={settings.defaultLandingPage}
+                onChange={(e) => handleChange({ defaultLandingPage: e.target.value })}
+                className={`${selectClassName} w-full`}
+              >
+                {pages.map((page) => (
+                  <option key={page.path} value={page.path}>{page.title}</option>
+                ))}
+              </select>
+            </label>
+            <label className="space-y-1 text-sm">
+              <span className="text-muted-foreground">Number format</span>
+              <select
+                value={settings.numberLocale}
+                onChange={(e) => handleChange({ numberLocale: e.target.value })}
+                className={`${selectClassName} w-full`}
+              >
+                {LOCALE_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="space-y-1 text-sm">
+              <span className="text-muted-foreground">Currency</span>
+              <select
+                value={settings.currency ?? ""}
+                onChange={(e) => handleChange({ currency: e.target.value || null })}
+                className={`${selectClassName} w-full`}
+              >
+                <option value="">Store currency{shopInfo ? ` (${shopInfo.currency})` : ""}</option>
+                {CURRENCY_OPTIONS.map((code) => (
+                  <option key={code} value={code}>{code}</option>
+                ))}
+              </select>
+            </label>
+            <label className="space-y-1 text-sm">
+              <span className="text-muted-foreground">Budget pacing alert</span>
+              <select
+                value={settings.pacingThreshold}
+                onChange={(e) => handleChange({ pacingThreshold: Number(e.target.value) })}
+                className={`${selectClassName} w-full`}
+              >
+                {PACING_THRESHOLD_OPTIONS.map((value) => (
+                  <option key={value} value={value}>Off budget by more than ±{value}%</option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Amounts are shown as {formatCurrency(12345.67)}. Changing the currency only changes the symbol - values are not converted.
+          </p>
+        </CardContent>
+      </Card>
+
+      {/* Bank Accounts */}
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base flex items-center gap-2">
+            <Building2 size={18} />
+            Bank Accounts
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <p className="text-xs text-muted-foreground">
+            Roles decide which balances count toward operating cash, payroll runway and reserves on the Finance page.
+          </p>
+          {accounts.map((account) => (
+            <div key={account.account_id} className="flex items-center justify-between gap-4 text-sm">
+              <div className="min-w-0">
+                <p className="font-medium truncate">{account.name}</p>
+                <p className="text-xs text-muted-foreground">••••{account.mask}</p>
+              </div>
+              <AccountRoleSelect account={account} roles={accountRoles} />
+            </div>
+          ))}
+          {accounts.length === 0 && (
+            <p className="text-sm text-muted-foreground">No bank accounts linked yet.</p>
+          )}
+          <PlaidLinkButton buttonText="+ Add Account" className="w-full h-8 text-xs mt-2" />
+        </CardContent>
+      </Card>
+
+      {/* Integrations */}
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base flex items-center gap-2">
+            <Plug size={18} />
+            Integrations
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {integrations.map((integration) => (
+            <div key={integration.name} className="flex items-start justify-between gap-4 text-sm">
+              <div className="flex items-start gap-2">
+                {integration.connected ? (
+                  <CheckCircle className="mt-0.5 h-4 w-4 text-green-500" />
+                ) : (
+                  <AlertCircle className="mt-0.5 h-4 w-4 text-yellow-500" />
+                )}
+                <div>
+                  <p className="font-medium">{integration.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {integration.connected ? integration.detail || "Connected" : integration.hint}
+                  </p>
+                </div>
+              </div>
+              {integration.connected || !integration.reconnect ? (
+                <span className={`text-xs ${integration.connected ? "text-green-600" : "text-muted-foreground"}`}>
+                  {integration.connected ? "Connected" : "Not connected"}
+                </span>
+              ) : (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleReconnect(integration.name, integration.reconnect)}
+                  disabled={checkingIntegration !== null}
+                >
+                  {checkingIntegration === integration.name ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <RefreshCw className="h-4 w-4 mr-2" />
+                  )}
+                  Reconnect
+                </Button>
+              )}
+            </div>
+          ))}
+          <PlaidReconnect />
+        </CardContent>
+      </Card>
+
+      <SyncStatus />
+
+      {/* Notifications */}
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base flex items-center gap-2">
+            <Bell size={18} />
+            Notifications
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {NOTIFICATION_OPTIONS.map((option) => (
+            <label key={option.key} className="flex items-start justify-between gap-4 text-sm cursor-pointer">
+              <div>
+                <p className="font-medium">{option.label}</p>
+                <p className="text-xs text-muted-foreground">{option.description}</p>
+              </div>
+              <input
+                type="checkbox"
+                className="mt-1 h-4 w-4 accent-rh-accent"
+                checked={settings.notifications[option.key]}
+                onChange={(e) =>
+                  handleChange({ notifications: { ...settings.notifications, [option.key]: e.target.checked } })
+                }
+              />
+            </label>
+          ))}
+        </CardContent>
+      </Card>
+
+      {/* Security */}
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base flex items-center gap-2">
+            <Shield size={18} />
+            Security
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">Signed in as {user?.email}</p>
+          <div className="flex flex-wrap gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleSignOutOthers}
+              disabled={isDemo || sessionsState.status === "working"}
+            >
+              {sessionsState.status === "working" && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Sign out other sessions
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => logout()}>
+              <LogOut className="h-4 w-4 mr-2" />
+              Sign out
+            </Button>
+          </div>
+          {sessionsState.status === "done" && (
+            <p className="text-xs text-green-600">Other devices have been signed out.</p>
+          )}
+          {sessionsState.error && <p className="text-xs text-rh-negative">{sessionsState.error}</p>}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,182 @@
+import { Loader2 } from "lucide-react"
+import {
+  Area,
+  AreaChart,
+  CartesianGrid,
+  Legend,
+  Line,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts"
+import { ChangeIndicator } from "@/components/ui/change-indicator"
+import type { YoYComparisonState } from "@/hooks/useYoYComparison"
+import { formatDateForDisplay } from "@/lib/date-utils"
+import { YOY_ALIGNMENTS, formatYoYValue } from "@/lib/yoy"
+import type { YoYAlignment } from "@/lib/yoy"
+
+interface YoYComparisonChartProps<T> {
+  comparison: YoYComparisonState<T>
+  /** Hide the totals row when the page shows its own hero value */
+  showSummary?: boolean
+  className?: string
+}
+
+const CURRENT_COLOR = "#10b981"
+const BASELINE_COLOR = "#6366f1"
+
+/**
+ * Period pickers, metric toggle and a chart of one period laid over another
+ */
+export function YoYComparisonChart<T>({ comparison, showSummary = true, className }: YoYComparisonChartProps<T>) {
+  const {
+    periodOptions,
+    current,
+    setCurrent,
+    baseline,
+    setBaseline,
+    alignment,
+    setAlignment,
+    metrics,
+    metric,
+    setMetric,
+    currentLabel,
+    baselineLabel,
+    isLoading,
+  } = comparison
+  const points = comparison.comparison?.points ?? []
+  const summary = comparison.comparison?.summary
+  const format = (value: number) => formatYoYValue(value, metric.format)
+  const selectClassName = "h-8 rounded-md border bg-background px-2 text-xs"
+
+  return (
+    <div className={className}>
+      {/* Controls */}
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <select value={current} onChange={(e) => setCurrent(e.target.value)} aria-label="Period" className={selectClassName}>
+          {periodOptions.map((option) => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <span className="text-xs text-muted-foreground">vs</span>
+        <select value={baseline} onChange={(e) => setBaseline(e.target.value)} aria-label="Compared to" className={selectClassName}>
+          {periodOptions.map((option) => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <select
+          value={alignment}
+          onChange={(e) => setAlignment(e.target.value as YoYAlignment)}
+          aria-label="Align by"
+          title="Pair days by calendar date, or shift the comparison so weekdays line up"
+          className={selectClassName}
+        >
+          {YOY_ALIGNMENTS.map((option) => (
+            <option key={option.value} value={option.value}>Align by {option.label.toLowerCase()}</option>
+          ))}
+        </select>
+        <div className="flex items-center gap-1 p-1 bg-muted rounded-lg">
+          {metrics.map((m) => (
+            <button
+              key={m.value}
+              onClick={() => setMetric(m.value)}
+              className={`px-3 py-1 text-xs font-medium rounded-md transition-all ${
+                metric.value === m.value ? "bg-background text-foreground shadow-sm" : "text-muted-foreground hover:text-foreground"
+              }`}
+            >
+              {m.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {showSummary && summary && (
+        <div className="flex flex-wrap items-end gap-x-6 gap-y-1 mb-4">
+          <div>
+            <p className="text-xs text-muted-foreground uppercase tracking-wider mb-1">{metric.label} · {currentLabel}</p>
+            <p className="text-3xl font-bold">{format(summary.current)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground uppercase tracking-wider mb-1">{baselineLabel}</p>
+            <p className="text-xl font-semibold text-muted-foreground">{format(summary.baseline)}</p>
+          </div>
+          <ChangeIndicator change={summary.change} label="same days" className="mb-1" />
+        </div>
+      )}
+
+      {/* Chart */}
+      <div className="h-[280px] md:h-[350px]">
+        {isLoading || !comparison.comparison ? (
+          <div className="flex h-full items-center justify-center">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <ResponsiveContainer width="100%" height="100%">
+            <AreaChart data={points} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+              <defs>
+                <linearGradient id="yoyCurrentGradient" x1="0" y1="0" x2="0" y2="1">
+                  <stop offset="0%" stopColor={CURRENT_COLOR} stopOpacity={0.3} />
+                  <stop offset="100%" stopColor={CURRENT_COLOR} stopOpacity={0} />
+                </linearGradient>
+              </defs>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" strokeOpacity={0.3} vertical={false} />
+              <XAxis
+                dataKey="label"
+                axisLine={false}
+                tickLine={false}
+                tick={{ fill: "#9ca3af", fontSize: 11 }}
+                minTickGap={24}
+                dy={10}
+              />
+              <YAxis
+                tickFormatter={(v) => format(Number(v))}
+                axisLine={false}
+                tickLine={false}
+                tick={{ fill: "#9ca3af", fontSize: 11 }}
+                width={70}
+              />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: "hsl(var(--card))",
+                  border: "1px solid hsl(var(--border))",
+                  borderRadius: "12px",
+                }}
+                labelFormatter={(_, payload) => {
+                  const point = payload?.[0]?.payload
+                  if (!point) return ""
+                  const dates = [point.currentDate, point.baselineDate].filter(Boolean).map((d: string) => formatDateForDisplay(d))
+                  return dates.join(" vs ")
+                }}
+                formatter={(value, name) => [value == null ? "—" : format(Number(value)), name]}
+                cursor={{ stroke: "#9ca3af", strokeWidth: 1, strokeDasharray: "4 4" }}
+              />
+              <Legend verticalAlign="top" height={36} iconType="circle" />
+              <Line
+                type="monotone"
+                dataKey="baseline"
+                name={baselineLabel}
+                stroke={BASELINE_COLOR}
+                strokeWidth={2}
+                strokeDasharray="6 4"
+                dot={false}
+                connectNulls={metric.denominator !== undefined}
+              />
+              <Area
+                type="monotone"
+                dataKey="current"
+                name={currentLabel}
+                stroke={CURRENT_COLOR}
+                fill="url(#yoyCurrentGradient)"
+                strokeWidth={2.5}
+                dot={false}
+                connectNulls={metric.denominator !== undefined}
+                activeDot={{ r: 5, stroke: "#fff", strokeWidth: 2, fill: CURRENT_COLOR }}
+              />
+            </AreaChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,284 @@
+import { useMemo } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Image, Loader2, Play, X } from "lucide-react"
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts"
+import { useApiQuery } from "@/hooks/useApiQuery"
+import { useQueryState } from "@/hooks/useRouter"
+import type { EntityDailyInsightsResponse } from "@/lib/api-types"
+import { formatDateForDisplay } from "@/lib/date-utils"
+import { totalMetrics } from "@/lib/meta-columns"
+import type { MetaMetricKey, MetaMetricValues } from "@/lib/meta-columns"
+import { formatMetricValue } from "@/lib/meta-rules"
+
+// Only the fields the comparison shows from /api/meta/ads
+interface ComparedAd {
+  id: string
+  name: string
+  status: string
+  creative: {
+    thumbnailUrl?: string
+    title?: string
+    body?: string
+    cta?: string
+    hasVideo: boolean
+  }
+  metrics: MetaMetricValues
+}
+
+interface AdComparisonProps {
+  ads: ComparedAd[]
+  attribution: string
+  onRemove: (adId: string) => void
+  onOpenAd: (adId: string) => void
+  onClose: () => void
+}
+
+type TrendMetric = "roas" | "ctr" | "cpa"
+
+const TREND_METRICS: { value: TrendMetric; label: string }[] = [
+  { value: "roas", label: "ROAS" },
+  { value: "ctr", label: "CTR" },
+  { value: "cpa", label: "CPA" },
+]
+const TREND_METRIC_VALUES = TREND_METRICS.map((m) => m.value)
+
+const TREND_DAYS = 30
+
+/** Rows of the side-by-side table, and which direction wins */
+const COMPARED_METRICS: { key: MetaMetricKey; label: string; better: "higher" | "lower" | null }[] = [
+  { key: "spend", label: "Spend", better: null },
+  { key: "revenue", label: "Revenue", better: "higher" },
+  { key: "roas", label: "ROAS", better: "higher" },
+  { key: "purchases", label: "Purchases", better: "higher" },
+  { key: "cpa", label: "CPA", better: "lower" },
+  { key: "ctr", label: "CTR", better: "higher" },
+  { key: "linkCtr", label: "Link CTR", better: "higher" },
+  { key: "cpc", label: "CPC", better: "lower" },
+  { key: "cpm", label: "CPM", better: "lower" },
+  { key: "frequency", label: "Frequency", better: null },
+  { key: "addToCart", label: "Add to Cart", better: "higher" },
+]
+
+// One colour per compared ad, in selection order
+const AD_COLORS = ["#6366f1", "#10b981", "#f59e0b", "#f43f5e"]
+
+/** The index of the best value in a row, or -1 when there's nothing to pick */
+function bestIndex(ads: ComparedAd[], key: MetaMetricKey, better: "higher" | "lower" | null): number {
+  if (!better) return -1
+  const candidates = ads
+    .map((ad, index) => ({ index, value: ad.metrics[key] }))
+    // Cost metrics are 0 when nothing was bought - that's not a win
+    .filter((c) => better === "higher" || c.value > 0)
+  if (candidates.length < 2) return -1
+  const best = candidates.reduce((a, b) => ((better === "higher" ? b.value > a.value : b.value < a.value) ? b : a))
+  return best.index
+}
+
+/**
+ * Selected ads side by side - creative, copy and metrics - with their daily
+ * ROAS, CTR or CPA overlaid
+ */
+export function AdComparison({ ads, attribution, onRemove, onOpenAd, onClose }: AdComparisonProps) {
+  const [trendMetric, setTrendMetric] = useQueryState<TrendMetric>("compare_metric", "roas", TREND_METRIC_VALUES)
+
+  const { data: daily, isLoading: dailyLoading } = useApiQuery<EntityDailyInsightsResponse>(
+    `/api/meta/insights/daily?${new URLSearchParams({ level: "ad", attribution, days: String(TREND_DAYS) })}`
+  )
+
+  // One row per day with a column per ad, as recharts wants it
+  const trend = useMemo(() => {
+    if (!daily) return []
+    const byDate = new Map<string, Record<string, number | string | null>>()
+    for (const ad of ads) {
+      for (const day of daily.data[ad.id] ?? []) {
+        const row = byDate.get(day.date) ?? { date: day.date }
+        const metrics = totalMetrics([day])
+        // A day without purchases has no CPA rather than a free one
+        row[ad.id] = trendMetric === "cpa" && metrics.purchases === 0 ? null : metrics[trendMetric]
+        byDate.set(day.date, row)
+      }
+    }
+    return [...byDate.values()].sort((a, b) => String(a.date).localeCompare(String(b.date)))
+  }, [daily, ads, trendMetric])
+
+  const adName = (id: string) => ads.find((ad) => ad.id === id)?.name ?? id
+  const gridStyle = { gridTemplateColumns: `8rem repeat(${ads.length}, minmax(0, 1fr))` }
+
+  return (
+    <div className="fixed inset-0 z-50 flex">
+      {/* Backdrop */}
+      <div className="hidden flex-1 bg-black/50 lg:block" onClick={onClose} />
+
+      {/* Drawer */}
+      <div className="w-full overflow-auto bg-white shadow-xl lg:max-w-5xl">
+        {/* Header */}
+        <div className="sticky top-0 z-10 flex items-center justify-between border-b bg-white px-6 py-4">
+          <h2 className="text-lg font-semibold">Compare {ads.length} Ads</h2>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            <X className="h-5 w-5" />
+          </Button>
+        </div>
+
+        <div className="space-y-6 p-6">
+          {/* Creatives */}
+          <div className="grid gap-4" style={gridStyle}>
+            <div />
+            {ads.map((ad, index) => (
+              <div key={ad.id} className="space-y-2">
+                <div className="relative aspect-square overflow-hidden rounded-lg bg-gray-100">
+                  {ad.creative.thumbnailUrl ? (
+                    <img src={ad.creative.thumbnailUrl} alt={ad.name} className="h-full w-full object-cover" />
+                  ) : (
+                    <div className="flex h-full w-full items-center justify-center bg-gradient-to-br from-gray-100 to-gray-200">
+                      {ad.creative.hasVideo ? <Play className="h-10 w-10 text-gray-400" /> : <Image className="h-10 w-10 text-gray-400" />}
+                    </div>
+                  )}
+                  <button
+                    onClick={() => onRemove(ad.id)}
+                    className="absolute right-2 top-2 rounded-full bg-black/60 p-1 text-white hover:bg-black/80"
+                    aria-label={`Remove ${ad.name} from comparison`}
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </button>
+                </div>
+                <button onClick={() => onOpenAd(ad.id)} className="flex w-full items-center gap-2 text-left hover:underline">
+                  <span className="h-2.5 w-2.5 shrink-0 rounded-full" style={{ backgroundColor: AD_COLORS[index] }} />
+                  <span className="truncate text-sm font-medium" title={ad.name}>{ad.name}</span>
+                </button>
+                <p className="text-xs text-muted-foreground">
+                  {ad.status} · {ad.creative.hasVideo ? "Video" : "Image"}
+                </p>
+              </div>
+            ))}
+          </div>
+
+          {/* Copy */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-sm">Ad Copy</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3 text-sm">
+              {(["title", "body", "cta"] as const).map((field) => (
+                <div key={field} className="grid gap-4" style={gridStyle}>
+                  <span className="text-xs font-medium text-muted-foreground">
+                    {field === "title" ? "Headline" : field === "body" ? "Primary Text" : "Call to Action"}
+                  </span>
+                  {ads.map((ad) => (
+                    <p key={ad.id} className={field === "body" ? "whitespace-pre-line text-xs" : ""}>
+                      {ad.creative[field] || <span className="text-muted-foreground">—</span>}
+                    </p>
+                  ))}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          {/* Metrics */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-sm">Performance</CardTitle>
+            </CardHeader>
+            <CardContent className="text-sm">
+              {COMPARED_METRICS.map(({ key, label, better }) => {
+                const best = bestIndex(ads, key, better)
+                return (
+                  <div key={key} className="grid gap-4 border-b py-1.5 last:border-0" style={gridStyle}>
+                    <span className="text-muted-foreground">{label}</span>
+                    {ads.map((ad, index) => (
+                      <span
+                        key={ad.id}
+                        className={`tabular-nums ${index === best ? "font-semibold text-rh-positive" : ""}`}
+                      >
+                        {key === "cpa" && ad.metrics.purchases === 0 ? "—" : formatMetricValue(key, ad.metrics[key])}
+                      </span>
+                    ))}
+                  </div>
+                )
+              })}
+            </CardContent>
+          </Card>
+
+          {/* Daily trend */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between text-sm">
+                <span>Daily Trend · last {TREND_DAYS} days</span>
+                <span className="flex gap-1 rounded-lg bg-muted p-1">
+                  {TREND_METRICS.map((m) => (
+                    <button
+                      key={m.value}
+                      onClick={() => setTrendMetric(m.value)}
+                      className={`rounded-md px-3 py-1 text-xs font-medium transition-all ${
+                        trendMetric === m.value ? "bg-background text-foreground shadow-sm" : "text-muted-foreground hover:text-foreground"
+                      }`}
+                    >
+                      {m.label}
+                    </button>
+                  ))}
+                </span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {dailyLoading ? (
+                <div className="flex h-[240px] items-center justify-center">
+                  <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                </div>
+              ) : (
+                <div className="h-[240px]">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={trend} margin={{ top: 5, right: 0, left: -10, bottom: 0 }}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" strokeOpacity={0.5} vertical={false} />
+                      <XAxis
+                        dataKey="date"
+                        tickFormatter={(v) => formatDateForDisplay(String(v))}
+                        axisLine={false}
+                        tickLine={false}
+                        tick={{ fill: "#9ca3af", fontSize: 10 }}
+                        minTickGap={16}
+                      />
+                      <YAxis
+                        tickFormatter={(v) => formatMetricValue(trendMetric, Number(v))}
+                        axisLine={false}
+                        tickLine={false}
+                        tick={{ fill: "#9ca3af", fontSize: 10 }}
+                      />
+                      <Tooltip
+                        labelFormatter={(v) => formatDateForDisplay(String(v))}
+                        formatter={(value, name) => [
+                          value == null ? "—" : formatMetricValue(trendMetric, Number(value)),
+                          adName(String(name)),
+                        ]}
+                      />
+                      <Legend iconType="circle" formatter={(value) => adName(String(value))} />
+                      {ads.map((ad, index) => (
+                        <Line
+                          key={ad.id}
+                          type="monotone"
+                          dataKey={ad.id}
+                          stroke={AD_COLORS[index]}
+                          strokeWidth={2}
+                          dot={false}
+                          connectNulls
+                        />
+                      ))}
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,106 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Activity } from "lucide-react"
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts"
+import type { AdDailyInsight } from "@/lib/api-types"
+import { formatCurrency, formatDateForDisplay } from "@/lib/date-utils"
+import { FATIGUE_WINDOW_DAYS, getFatigueTrend } from "@/lib/meta-fatigue"
+import type { FatigueScore } from "@/lib/meta-fatigue"
+
+interface AdFatigueChartProps {
+  days: AdDailyInsight[]
+  fatigue: FatigueScore | null
+}
+
+const SERIES_LABELS: Record<string, string> = {
+  frequency: "Frequency",
+  ctr: "CTR %",
+  cpa: "CPA",
+}
+
+/**
+ * Fatigue score and rolling frequency / CTR / CPA trend for one ad
+ */
+export function AdFatigueChart({ days, fatigue }: AdFatigueChartProps) {
+  const trend = getFatigueTrend(days)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between text-sm">
+          <span className="flex items-center gap-2">
+            <Activity className="h-4 w-4 text-muted-foreground" />
+            Creative Fatigue
+          </span>
+          {fatigue && (
+            <span className={`rounded px-2 py-0.5 text-xs font-medium ${
+              fatigue.isFatigued ? "bg-rh-negative/10 text-rh-negative" : "bg-rh-positive/10 text-rh-positive"
+            }`}>
+              {fatigue.isFatigued ? "Fatigued" : "Healthy"} · {fatigue.score}/100
+            </span>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {!fatigue || trend.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Not enough delivery yet - fatigue is scored once an ad has {FATIGUE_WINDOW_DAYS * 2} days of history.
+          </p>
+        ) : (
+          <>
+            {fatigue.reasons.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Last {FATIGUE_WINDOW_DAYS} days vs the {FATIGUE_WINDOW_DAYS} before: {fatigue.reasons.join(" · ")}
+              </p>
+            )}
+            <div className="h-[200px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={trend} margin={{ top: 5, right: 0, left: -20, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" strokeOpacity={0.5} vertical={false} />
+                  <XAxis
+                    dataKey="date"
+                    tickFormatter={(v) => formatDateForDisplay(String(v))}
+                    axisLine={false}
+                    tickLine={false}
+                    tick={{ fill: "#9ca3af", fontSize: 10 }}
+                    minTickGap={16}
+                  />
+                  <YAxis yAxisId="left" axisLine={false} tickLine={false} tick={{ fill: "#9ca3af", fontSize: 10 }} />
+                  <YAxis
+                    yAxisId="right"
+                    orientation="right"
+                    tickFormatter={(v) => formatCurrency(Number(v))}
+                    axisLine={false}
+                    tickLine={false}
+                    tick={{ fill: "#9ca3af", fontSize: 10 }}
+                  />
+                  <Tooltip
+                    labelFormatter={(v) => `${FATIGUE_WINDOW_DAYS} days to ${formatDateForDisplay(String(v))}`}
+                    formatter={(value, name) => {
+                      const key = String(name)
+                      if (value == null) return ["—", SERIES_LABELS[key]]
+                      const n = Number(value)
+                      return [key === "cpa" ? formatCurrency(n) : n.toFixed(2), SERIES_LABELS[key]]
+                    }}
+                  />
+                  <Legend iconType="circle" formatter={(value) => SERIES_LABELS[value] ?? value} />
+                  <Line yAxisId="left" type="monotone" dataKey="frequency" stroke="#6366f1" strokeWidth={2} dot={false} />
+                  <Line yAxisId="left" type="monotone" dataKey="ctr" stroke="#10b981" strokeWidth={2} dot={false} />
+                  <Line yAxisId="right" type="monotone" dataKey="cpa" stroke="#f43f5e" strokeWidth={2} dot={false} connectNulls />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,104 @@
+import { useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Tags } from "lucide-react"
+import { TAG_DIMENSIONS, parseAdName } from "@/lib/creative-tags"
+import type { ManualAdTags, TagDimension } from "@/lib/creative-tags"
+
+interface AdTagEditorProps {
+  adName: string
+  /** The ad's hand-set tags, if any */
+  manual: ManualAdTags | undefined
+  /** Values already used on other ads, offered as suggestions */
+  knownValues: Record<TagDimension, string[]>
+  onSave: (tags: ManualAdTags) => Promise<void>
+}
+
+/**
+ * Creative tags for one ad - parsed from its name, editable by hand
+ */
+export function AdTagEditor({ adName, manual, knownValues, onSave }: AdTagEditorProps) {
+  const parsed = parseAdName(adName)
+  const current = (dimension: TagDimension) => manual?.[dimension] ?? parsed[dimension] ?? ""
+
+  const [draft, setDraft] = useState<Record<TagDimension, string>>(() =>
+    Object.fromEntries(TAG_DIMENSIONS.map((d) => [d.key, current(d.key)])) as Record<TagDimension, string>
+  )
+  const [status, setStatus] = useState<"idle" | "saving" | "error">("idle")
+
+  const isDirty = TAG_DIMENSIONS.some((d) => draft[d.key].trim() !== current(d.key))
+
+  const save = async () => {
+    // Only keep what differs from the name, so renaming an ad still re-tags it
+    const tags: ManualAdTags = {}
+    for (const { key } of TAG_DIMENSIONS) {
+      const value = draft[key].trim()
+      if (value !== (parsed[key] ?? "")) tags[key] = value
+    }
+    setStatus("saving")
+    try {
+      await onSave(tags)
+      setStatus("idle")
+    } catch (err) {
+      console.error("Failed to save ad tags:", err)
+      setStatus("error")
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-sm">
+          <Tags className="h-4 w-4 text-muted-foreground" />
+          Creative Tags
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2 text-sm">
+        {TAG_DIMENSIONS.map(({ key, label, suggestions }) => {
+          const options = [...new Set([...suggestions, ...knownValues[key]])]
+          const fromName = parsed[key] !== undefined && draft[key].trim() === parsed[key]
+          return (
+            <label key={key} className="flex items-center gap-3">
+              <span className="w-28 shrink-0 text-muted-foreground">{label}</span>
+              <input
+                list={`ad-tag-${key}`}
+                value={draft[key]}
+                onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+                placeholder="Untagged"
+                className="h-8 min-w-0 flex-1 rounded-md border bg-background px-2 text-xs"
+              />
+              <datalist id={`ad-tag-${key}`}>
+                {options.map((option) => <option key={option} value={option} />)}
+              </datalist>
+              <span className="w-16 shrink-0 text-right text-[10px] text-muted-foreground">{fromName ? "from name" : ""}</span>
+            </label>
+          )
+        })}
+        <div className="flex items-center justify-end gap-2 pt-1">
+          {status === "error" && <span className="text-xs text-rh-negative">Couldn't save - try again</span>}
+          {manual && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8"
+              disabled={status === "saving"}
+              onClick={() => {
+                setDraft(Object.fromEntries(TAG_DIMENSIONS.map((d) => [d.key, parsed[d.key] ?? ""])) as Record<TagDimension, string>)
+                setStatus("saving")
+                onSave({}).then(() => setStatus("idle"), (err) => {
+                  console.error("Failed to reset ad tags:", err)
+                  setStatus("error")
+                })
+              }}
+            >
+              Reset to name
+            </Button>
+          )}
+          <Button size="sm" className="h-8" disabled={!isDirty || status === "saving"} onClick={save}>
+            Save tags
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,72 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Columns3, Loader2 } from "lucide-react"
+import { formatCurrency } from "@/lib/date-utils"
+import { COMPARISON_WINDOWS, getViewThroughShare } from "@/lib/meta-attribution"
+import type { AttributionByWindow } from "@/lib/meta-attribution"
+
+interface AttributionWindowComparisonProps {
+  byWindow: AttributionByWindow | undefined
+  isLoading: boolean
+}
+
+/**
+ * Purchases, revenue, ROAS and CPA for one campaign or ad under each comparison window
+ */
+export function AttributionWindowComparison({ byWindow, isLoading }: AttributionWindowComparisonProps) {
+  const viewThroughShare = getViewThroughShare(byWindow)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-sm">
+          <Columns3 className="h-4 w-4 text-muted-foreground" />
+          Attribution Windows
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : !byWindow ? (
+          <p className="py-4 text-center text-sm text-muted-foreground">No attribution data for this period</p>
+        ) : (
+          <>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-xs text-muted-foreground">
+                  <th className="py-2 text-left font-medium">Window</th>
+                  <th className="py-2 text-right font-medium">Purchases</th>
+                  <th className="py-2 text-right font-medium">Revenue</th>
+                  <th className="py-2 text-right font-medium">ROAS</th>
+                  <th className="py-2 text-right font-medium">CPA</th>
+                </tr>
+              </thead>
+              <tbody>
+                {COMPARISON_WINDOWS.map((window) => {
+                  const m = byWindow[window.value]
+                  return (
+                    <tr key={window.value} className="border-b last:border-0">
+                      <td className="py-2 font-medium">{window.label}</td>
+                      <td className="py-2 text-right tabular-nums">{m ? m.purchases : "—"}</td>
+                      <td className="py-2 text-right tabular-nums">{m ? formatCurrency(m.revenue) : "—"}</td>
+                      <td className={`py-2 text-right tabular-nums font-medium ${m && m.roas >= 1 ? "text-rh-positive" : "text-rh-negative"}`}>
+                        {m ? `${m.roas.toFixed(2)}x` : "—"}
+                      </td>
+                      <td className="py-2 text-right tabular-nums">{m && m.purchases > 0 ? formatCurrency(m.cpa) : "—"}</td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+            {viewThroughShare !== null && (
+              <p className="text-xs text-muted-foreground">
+                {viewThroughShare.toFixed(0)}% of 7d click + 1d view revenue is credited to view-through only.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
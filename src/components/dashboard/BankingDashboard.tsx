@@ -0,0 +1,135 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { PlaidLinkButton } from "@/components/PlaidLink"
+import { PlaidReconnect } from "@/components/PlaidReconnect"
+import { TransactionTable } from "./TransactionTable"
+import {
+  Building2,
+  PiggyBank,
+  CreditCard,
+  Loader2,
+  Landmark,
+} from "lucide-react"
+import type { DateRangeValue } from "@/lib/date-range-labels"
+import type { AccountsResponse, FinanceStatusResponse } from "@/lib/api-types"
+import { useApiQuery } from "@/hooks/useApiQuery"
+import { getNumberFormat } from "@/lib/utils"
+
+interface BankingDashboardProps {
+  dateRange: DateRangeValue
+  refreshKey: number
+}
+
+export function BankingDashboard({ dateRange, refreshKey }: BankingDashboardProps) {
+  const statusQuery = useApiQuery<FinanceStatusResponse>(`/api/finance/status`, { refreshKey })
+  const accountsQuery = useApiQuery<AccountsResponse>(`/api/finance/accounts`, { refreshKey })
+
+  const loading = statusQuery.isLoading || accountsQuery.isLoading
+  const configured = statusQuery.data?.configured ?? true
+  const accounts = accountsQuery.data?.accounts || []
+
+  const fmt = (value: number) => {
+    return new Intl.NumberFormat(getNumberFormat().locale, {
+      style: "currency",
+      currency: getNumberFormat().currency,
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    }).format(value)
+  }
+
+  const getAccountIcon = (type: string, subtype: string) => {
+    if (type === "credit") return <CreditCard size={16} className="text-rh-negative" />
+    if (subtype === "checking") return <Building2 size={16} className="text-rh-accent" />
+    if (subtype === "savings") return <PiggyBank size={16} className="text-rh-positive" />
+    return <Landmark size={16} className="text-muted-foreground" />
+  }
+
+  // Cash (checking + savings) vs credit owed across linked accounts
+  const cashBalance = accounts
+    .filter(a => a.type === "depository")
+    .reduce((sum, a) => sum + a.balances.current, 0)
+  const creditBalance = accounts
+    .filter(a => a.type === "credit")
+    .reduce((sum, a) => sum + a.balances.current, 0)
+
+  if (loading) {
+    return (
+      <div className="flex h-96 items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  if (!configured) {
+    return (
+      <div className="flex h-96 flex-col items-center justify-center gap-6">
+        <div className="rounded-full bg-rh-accent/10 p-6">
+          <Landmark className="h-12 w-12 text-rh-accent" />
+        </div>
+        <div className="text-center">
+          <h2 className="text-xl font-semibold">Connect Your Bank Accounts</h2>
+          <p className="mt-2 max-w-md text-muted-foreground">
+            Link your bank accounts to see balances and search transactions.
+          </p>
+        </div>
+        <PlaidLinkButton buttonText="Connect Bank Account" className="w-full max-w-md" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6 md:space-y-8">
+      <PlaidReconnect />
+
+      {/* Balances */}
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base flex items-center gap-2">
+            <Building2 size={18} />
+            Accounts
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-3 gap-4 text-center">
+            <div>
+              <p className="text-xs text-muted-foreground">Cash</p>
+              <p className="text-lg font-bold">{fmt(cashBalance)}</p>
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground">Credit Owed</p>
+              <p className="text-lg font-bold text-rh-negative">{fmt(creditBalance)}</p>
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground">Net</p>
+              <p className={`text-lg font-bold ${cashBalance - creditBalance >= 0 ? "text-rh-positive" : "text-rh-negative"}`}>
+                {fmt(cashBalance - creditBalance)}
+              </p>
+            </div>
+          </div>
+
+          <div className="grid gap-2 border-t pt-4 sm:grid-cols-2 lg:grid-cols-3">
+            {accounts.map((account) => (
+              <div
+                key={account.account_id}
+                className="flex items-center justify-between rounded-lg border px-3 py-2"
+              >
+                <div className="flex items-center gap-2 min-w-0">
+                  {getAccountIcon(account.type, account.subtype)}
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{account.name}</p>
+                    <p className="text-xs text-muted-foreground">••••{account.mask}</p>
+                  </div>
+                </div>
+                <span className={`font-medium ${account.type === "credit" ? "text-rh-negative" : ""}`}>
+                  {fmt(account.balances.current)}
+                </span>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Transactions */}
+      <TransactionTable dateRange={dateRange} refreshKey={refreshKey} accounts={accounts} />
+    </div>
+  )
+}
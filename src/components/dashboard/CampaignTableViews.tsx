@@ -0,0 +1,299 @@
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { ArrowDown, ArrowUp, Bookmark, Columns3, Plus, Save, Trash2, X } from "lucide-react"
+import type { SavedViewsState } from "@/hooks/useSavedViews"
+import {
+  COMPUTED_COLUMN_PRESETS,
+  DEFAULT_CAMPAIGN_COLUMNS,
+  METRIC_COLUMNS,
+  computedColumnId,
+  resolveColumn,
+} from "@/lib/meta-columns"
+import type { ColumnFormat, ComputedColumn, MetaMetricKey } from "@/lib/meta-columns"
+import { DEFAULT_LAYOUT } from "@/lib/meta-views"
+import type { CampaignTableLayout } from "@/lib/meta-views"
+
+interface CampaignTableViewsProps {
+  savedViews: SavedViewsState
+  /** "" while no saved view is applied */
+  activeViewId: string
+  layout: CampaignTableLayout
+  onApply: (layout: CampaignTableLayout, viewId: string) => void
+  onColumnsChange: (columns: string[], computedColumns: ComputedColumn[]) => void
+}
+
+const FORMAT_OPTIONS: { value: ColumnFormat; label: string }[] = [
+  { value: "currency", label: "Currency" },
+  { value: "percent", label: "Percent" },
+  { value: "ratio", label: "Ratio (x)" },
+  { value: "decimal", label: "Decimal" },
+  { value: "number", label: "Whole number" },
+]
+
+const selectClassName = "h-8 rounded-md border bg-background px-2 text-xs"
+
+/**
+ * Saved view picker and column editor for the Meta campaigns table
+ */
+export function CampaignTableViews({ savedViews, activeViewId, layout, onApply, onColumnsChange }: CampaignTableViewsProps) {
+  const [showColumns, setShowColumns] = useState(false)
+  const [newViewName, setNewViewName] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [draft, setDraft] = useState<Omit<ComputedColumn, "id">>({
+    label: "",
+    numerator: "spend",
+    denominator: "addToCart",
+    multiplier: 1,
+    format: "currency",
+  })
+
+  const activeView = savedViews.views.find((v) => v.id === activeViewId) ?? null
+  const { columns, computedColumns } = layout
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError(null)
+    try {
+      await action()
+    } catch (err) {
+      console.error("Failed to save view:", err)
+      setError("Couldn't save - try again")
+    }
+  }
+
+  const saveAs = () => {
+    const name = newViewName?.trim()
+    if (!name) return
+    setNewViewName(null)
+    run(async () => {
+      const view = await savedViews.save(name, layout)
+      onApply(view.layout, view.id)
+    })
+  }
+
+  const moveColumn = (index: number, offset: number) => {
+    const next = [...columns]
+    const [column] = next.splice(index, 1)
+    next.splice(index + offset, 0, column)
+    onColumnsChange(next, computedColumns)
+  }
+
+  const removeColumn = (id: string) => {
+    onColumnsChange(
+      columns.filter((c) => c !== id),
+      // Forget computed columns once they're off the table
+      computedColumns.filter((c) => computedColumnId(c) !== id)
+    )
+  }
+
+  const addComputed = (column: ComputedColumn) => {
+    const id = computedColumnId(column)
+    if (columns.includes(id)) return
+    onColumnsChange([...columns, id], [...computedColumns.filter((c) => c.id !== column.id), column])
+  }
+
+  const addDraft = () => {
+    if (!draft.label.trim()) return
+    addComputed({ ...draft, label: draft.label.trim(), id: crypto.randomUUID().slice(0, 8) })
+    setDraft((prev) => ({ ...prev, label: "" }))
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2" onClick={(e) => e.stopPropagation()}>
+      {/* Saved views */}
+      <Bookmark className="h-4 w-4 text-muted-foreground" />
+      <select
+        value={activeViewId}
+        onChange={(e) => {
+          const view = savedViews.views.find((v) => v.id === e.target.value)
+          onApply(view ? view.layout : DEFAULT_LAYOUT, view ? view.id : "")
+        }}
+        aria-label="Saved view"
+        className={selectClassName}
+      >
+        <option value="">Default view</option>
+        {savedViews.views.map((view) => (
+          <option key={view.id} value={view.id}>{view.name}</option>
+        ))}
+      </select>
+      {activeView && (
+        <>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 px-2"
+            title={`Save changes to "${activeView.name}"`}
+            onClick={() => run(() => savedViews.save(activeView.name, layout, activeView.id))}
+          >
+            <Save className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 px-2"
+            title={`Delete "${activeView.name}"`}
+            onClick={() => run(async () => {
+              await savedViews.remove(activeView.id)
+              onApply(layout, "")
+            })}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </>
+      )}
+      {newViewName === null ? (
+        <Button variant="outline" size="sm" className="h-8" onClick={() => setNewViewName("")}>
+          Save as…
+        </Button>
+      ) : (
+        <form
+          className="flex items-center gap-1"
+          onSubmit={(e) => {
+            e.preventDefault()
+            saveAs()
+          }}
+        >
+          <input
+            autoFocus
+            value={newViewName}
+            onChange={(e) => setNewViewName(e.target.value)}
+            placeholder="View name"
+            className="h-8 w-36 rounded-md border bg-background px-2 text-xs"
+          />
+          <Button type="submit" size="sm" className="h-8" disabled={!newViewName.trim()}>
+            Save
+          </Button>
+          <Button type="button" variant="ghost" size="sm" className="h-8 px-2" onClick={() => setNewViewName(null)}>
+            <X className="h-4 w-4" />
+          </Button>
+        </form>
+      )}
+      {error && <span className="text-xs text-rh-negative">{error}</span>}
+
+      {/* Column editor */}
+      <div className="relative">
+        <Button variant={showColumns ? "default" : "outline"} size="sm" className="h-8" onClick={() => setShowColumns(!showColumns)}>
+          <Columns3 className="mr-2 h-4 w-4" />
+          Columns
+        </Button>
+        {showColumns && (
+          <div className="absolute right-0 top-full z-20 mt-1 w-80 space-y-4 rounded-md border bg-white p-3 text-sm shadow-lg">
+            <div className="space-y-1">
+              <div className="flex items-center justify-between">
+                <p className="text-xs font-medium uppercase tracking-wide text-gray-500">Columns</p>
+                <button
+                  className="text-xs text-rh-accent hover:underline"
+                  onClick={() => onColumnsChange(DEFAULT_CAMPAIGN_COLUMNS, [])}
+                >
+                  Reset
+                </button>
+              </div>
+              {columns.map((id, index) => (
+                <div key={id} className="flex items-center justify-between rounded px-1 py-0.5 hover:bg-gray-50">
+                  <span className="truncate">{resolveColumn(id, computedColumns)?.label ?? id}</span>
+                  <span className="flex shrink-0 items-center">
+                    <button
+                      className="rounded p-1 text-gray-500 hover:bg-gray-200 disabled:opacity-30"
+                      disabled={index === 0}
+                      onClick={() => moveColumn(index, -1)}
+                      aria-label="Move earlier"
+                    >
+                      <ArrowUp className="h-3.5 w-3.5" />
+                    </button>
+                    <button
+                      className="rounded p-1 text-gray-500 hover:bg-gray-200 disabled:opacity-30"
+                      disabled={index === columns.length - 1}
+                      onClick={() => moveColumn(index, 1)}
+                      aria-label="Move later"
+                    >
+                      <ArrowDown className="h-3.5 w-3.5" />
+                    </button>
+                    <button
+                      className="rounded p-1 text-gray-500 hover:bg-gray-200"
+                      onClick={() => removeColumn(id)}
+                      aria-label="Remove column"
+                    >
+                      <X className="h-3.5 w-3.5" />
+                    </button>
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            <label className="block space-y-1">
+              <span className="text-xs font-medium uppercase tracking-wide text-gray-500">Add metric</span>
+              <select
+                value=""
+                onChange={(e) => e.target.value && onColumnsChange([...columns, e.target.value], computedColumns)}
+                className={`${selectClassName} w-full`}
+              >
+                <option value="">Choose a metric…</option>
+                {METRIC_COLUMNS.filter((m) => !columns.includes(m.key)).map((m) => (
+                  <option key={m.key} value={m.key}>{m.label}</option>
+                ))}
+              </select>
+            </label>
+
+            <div className="space-y-1">
+              <p className="text-xs font-medium uppercase tracking-wide text-gray-500">Computed columns</p>
+              <div className="flex flex-wrap gap-1">
+                {COMPUTED_COLUMN_PRESETS.filter((preset) => !columns.includes(computedColumnId(preset))).map((preset) => (
+                  <button
+                    key={preset.id}
+                    onClick={() => addComputed(preset)}
+                    className="rounded-full border px-2 py-0.5 text-xs hover:bg-gray-50"
+                  >
+                    + {preset.label}
+                  </button>
+                ))}
+              </div>
+              <div className="space-y-1 rounded-md border p-2">
+                <input
+                  value={draft.label}
+                  onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+                  placeholder="Column name"
+                  className="h-8 w-full rounded-md border bg-background px-2 text-xs"
+                />
+                <div className="flex items-center gap-1">
+                  <select
+                    value={draft.numerator}
+                    onChange={(e) => setDraft({ ...draft, numerator: e.target.value as MetaMetricKey })}
+                    aria-label="Numerator"
+                    className={`${selectClassName} min-w-0 flex-1`}
+                  >
+                    {METRIC_COLUMNS.map((m) => <option key={m.key} value={m.key}>{m.label}</option>)}
+                  </select>
+                  <span className="text-xs text-muted-foreground">÷</span>
+                  <select
+                    value={draft.denominator}
+                    onChange={(e) => setDraft({ ...draft, denominator: e.target.value as MetaMetricKey })}
+                    aria-label="Denominator"
+                    className={`${selectClassName} min-w-0 flex-1`}
+                  >
+                    {METRIC_COLUMNS.map((m) => <option key={m.key} value={m.key}>{m.label}</option>)}
+                  </select>
+                </div>
+                <div className="flex items-center gap-1">
+                  <select
+                    value={draft.format}
+                    onChange={(e) => {
+                      const format = e.target.value as ColumnFormat
+                      setDraft({ ...draft, format, multiplier: format === "percent" ? 100 : 1 })
+                    }}
+                    aria-label="Format"
+                    className={`${selectClassName} flex-1`}
+                  >
+                    {FORMAT_OPTIONS.map((f) => <option key={f.value} value={f.value}>{f.label}</option>)}
+                  </select>
+                  <Button size="sm" className="h-8" disabled={!draft.label.trim()} onClick={addDraft}>
+                    <Plus className="mr-1 h-3.5 w-3.5" />
+                    Add
+                  </Button>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -2,6 +2,7 @@ import { useState, useEffect } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Loader2, Users, TrendingUp } from "lucide-react"
 import { apiFetch } from "@/lib/api"
+import { getNumberFormat } from "@/lib/utils"
 
 interface CohortPeriod {
   period: number
@@ -54,9 +55,9 @@ export function CohortAnalysisComponent({ refreshKey }: CohortAnalysisProps) {
   }, [refreshKey])
 
   const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('en-US', {
+    return new Intl.NumberFormat(getNumberFormat().locale, {
       style: 'currency',
-      currency: 'USD',
+      currency: getNumberFormat().currency,
       minimumFractionDigits: 0,
       maximumFractionDigits: 0,
     }).format(value)
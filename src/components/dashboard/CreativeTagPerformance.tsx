@@ -0,0 +1,108 @@
+import { useMemo } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Tags } from "lucide-react"
+import { useQueryState } from "@/hooks/useRouter"
+import { formatCurrency } from "@/lib/date-utils"
+import { TAG_DIMENSIONS, UNTAGGED, aggregateByTags, tagDimensionLabel } from "@/lib/creative-tags"
+import type { TagDimension, TaggedAd } from "@/lib/creative-tags"
+
+interface CreativeTagPerformanceProps {
+  /** The ads currently shown in the gallery, with their resolved tags */
+  ads: TaggedAd[]
+}
+
+const DIMENSION_VALUES = TAG_DIMENSIONS.map((d) => d.key)
+
+/**
+ * Spend, ROAS, CPA and CTR rolled up by creative tag, or by a combination of two
+ */
+export function CreativeTagPerformance({ ads }: CreativeTagPerformanceProps) {
+  const [groupBy, setGroupBy] = useQueryState<TagDimension>("tag_by", "hook", DIMENSION_VALUES)
+  const [thenBy, setThenBy] = useQueryState<TagDimension | "">("tag_then", "", ["", ...DIMENSION_VALUES])
+
+  const dimensions = useMemo(
+    () => (thenBy && thenBy !== groupBy ? [groupBy, thenBy] : [groupBy]),
+    [groupBy, thenBy]
+  )
+  const rows = useMemo(() => aggregateByTags(ads, dimensions), [ads, dimensions])
+  const taggedShare = rows.filter((row) => !row.values.includes(UNTAGGED)).reduce((sum, row) => sum + row.spendShare, 0)
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <Tags className="h-5 w-5 text-rh-accent-gold" />
+            Performance by Creative Tag
+          </CardTitle>
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <select
+              value={groupBy}
+              onChange={(e) => setGroupBy(e.target.value as TagDimension)}
+              aria-label="Group by"
+              className="h-8 rounded-md border bg-background px-2 text-xs"
+            >
+              {TAG_DIMENSIONS.map((d) => <option key={d.key} value={d.key}>{d.label}</option>)}
+            </select>
+            ×
+            <select
+              value={thenBy}
+              onChange={(e) => setThenBy(e.target.value as TagDimension | "")}
+              aria-label="Combine with"
+              className="h-8 rounded-md border bg-background px-2 text-xs"
+            >
+              <option value="">Nothing</option>
+              {TAG_DIMENSIONS.filter((d) => d.key !== groupBy).map((d) => <option key={d.key} value={d.key}>{d.label}</option>)}
+            </select>
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Tags come from ad names and can be edited in each ad's drawer. {taggedShare.toFixed(0)}% of spend is tagged by{" "}
+          {dimensions.map(tagDimensionLabel).join(" and ").toLowerCase()}.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">No ads to group</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-xs text-muted-foreground">
+                  <th className="py-2 text-left font-medium">{dimensions.map(tagDimensionLabel).join(" + ")}</th>
+                  <th className="py-2 text-right font-medium">Ads</th>
+                  <th className="py-2 text-right font-medium">Spend</th>
+                  <th className="py-2 text-right font-medium">ROAS</th>
+                  <th className="py-2 text-right font-medium">CPA</th>
+                  <th className="py-2 text-right font-medium">CTR</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr key={row.label} className="border-b last:border-0">
+                    <td className="py-2">
+                      <p className={`font-medium ${row.values.includes(UNTAGGED) ? "text-muted-foreground" : ""}`}>{row.label}</p>
+                      <div className="mt-1 h-1 w-full max-w-[160px] rounded-full bg-muted">
+                        <div className="h-1 rounded-full bg-rh-accent-gold" style={{ width: `${Math.min(row.spendShare, 100)}%` }} />
+                      </div>
+                    </td>
+                    <td className="py-2 text-right tabular-nums">{row.adIds.length}</td>
+                    <td className="py-2 text-right tabular-nums">
+                      {formatCurrency(row.metrics.spend)}
+                      <span className="block text-xs text-muted-foreground">{row.spendShare.toFixed(0)}%</span>
+                    </td>
+                    <td className={`py-2 text-right tabular-nums font-medium ${row.metrics.roas >= 1 ? "text-rh-positive" : "text-rh-negative"}`}>
+                      {row.metrics.roas.toFixed(2)}x
+                    </td>
+                    <td className="py-2 text-right tabular-nums">{row.metrics.purchases > 0 ? formatCurrency(row.metrics.cpa) : "—"}</td>
+                    <td className="py-2 text-right tabular-nums">{row.metrics.ctr.toFixed(2)}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,4 +1,3 @@
-import { useState, useEffect } from "react"
 import { MetricCard } from "./MetricCard"
 import { CohortAnalysisComponent } from "./CohortAnalysis"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
@@ -21,80 +20,68 @@ import {
   CartesianGrid,
   Tooltip,
   ResponsiveContainer,
+  Legend,
 } from "recharts"
-import type { DateRangeValue } from "@/components/layout/Header"
-import { dateRangeOptions } from "@/components/layout/Header"
-import { apiFetch } from "@/lib/api"
-
-interface CustomerMetrics {
-  totalCustomers: number
-  newCustomers: number
-  returningCustomers: number
-  returningCustomerRate: number
-  totalOrders: number
-  averageOrderValue: number
-}
-
-interface TopProduct {
-  title: string
-  grossSales: number
-  orders: number
-}
+import { formatCompareLabel, formatDateRangeLabel, type CompareValue, type DateRangeValue } from "@/lib/date-range-labels"
+import type { CustomerMetrics, TopProduct } from "@/lib/api-types"
+import { useApiQuery } from "@/hooks/useApiQuery"
+import { getNumberFormat } from "@/lib/utils"
+import { getPercentChange, resolveComparisonRange, toApiRange } from "@/lib/date-utils"
 
 interface CustomersDashboardProps {
   dateRange: DateRangeValue
+  compareTo: CompareValue
   refreshKey: number
 }
 
-export function CustomersDashboard({ dateRange, refreshKey }: CustomersDashboardProps) {
-  const [metrics, setMetrics] = useState<CustomerMetrics | null>(null)
-  const [topProducts, setTopProducts] = useState<TopProduct[]>([])
-  const [loading, setLoading] = useState(true)
-
-  const dateLabel = dateRangeOptions.find((o) => o.value === dateRange)?.label || "Last 30 days"
+export function CustomersDashboard({ dateRange, compareTo, refreshKey }: CustomersDashboardProps) {
+  const dateLabel = formatDateRangeLabel(dateRange)
+  const comparisonRange = resolveComparisonRange(dateRange, compareTo)?.value
+  const encodedComparison = comparisonRange ? encodeURIComponent(comparisonRange) : null
 
-  useEffect(() => {
-    const fetchData = async () => {
-      setLoading(true)
-      try {
-        const encodedRange = encodeURIComponent(dateRange)
-        const [customersRes, productsRes] = await Promise.all([
-          apiFetch(`/api/metrics/customers-detailed?range=${encodedRange}`),
-          apiFetch(`/api/metrics/top-products?range=${encodedRange}&limit=5`),
-        ])
-
-        if (customersRes.ok) {
-          const customersData = await customersRes.json()
-          setMetrics(customersData)
-        }
+  const encodedRange = toApiRange(dateRange)
+  const { data: metrics, isLoading: metricsLoading } = useApiQuery<CustomerMetrics>(
+    `/api/metrics/customers-detailed?range=${encodedRange}`,
+    { refreshKey }
+  )
+  const { data: topProductsData, isLoading: productsLoading } = useApiQuery<TopProduct[]>(
+    `/api/metrics/top-products?range=${encodedRange}&limit=5`,
+    { refreshKey }
+  )
+  const { data: prevMetrics } = useApiQuery<CustomerMetrics>(
+    encodedComparison ? `/api/metrics/customers-detailed?range=${encodedComparison}` : null,
+    { refreshKey }
+  )
+  // Wider list so this period's top products can usually be found in the comparison period
+  const { data: prevTopProducts } = useApiQuery<TopProduct[]>(
+    encodedComparison ? `/api/metrics/top-products?range=${encodedComparison}&limit=50` : null,
+    { refreshKey }
+  )
+  const loading = metricsLoading || productsLoading
 
-        if (productsRes.ok) {
-          const productsData = await productsRes.json()
-          setTopProducts(productsData)
-        }
-      } catch (error) {
-        console.error("Failed to fetch customer metrics:", error)
-      } finally {
-        setLoading(false)
-      }
-    }
+  const topProducts = (topProductsData || []).map((product) => ({
+    ...product,
+    prevGrossSales: prevTopProducts?.find((p) => p.title === product.title)?.grossSales,
+  }))
 
-    fetchData()
-  }, [dateRange, refreshKey])
+  // Rounded percent change vs the comparison period, or undefined without one
+  const compareLabel = comparisonRange ? formatCompareLabel(compareTo) : undefined
+  const change = (current: number | undefined, previous: number | undefined) =>
+    prevMetrics ? Number(getPercentChange(current || 0, previous || 0).toFixed(1)) : undefined
 
   const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat("en-US", {
+    return new Intl.NumberFormat(getNumberFormat().locale, {
       style: "currency",
-      currency: "USD",
+      currency: getNumberFormat().currency,
       minimumFractionDigits: 0,
       maximumFractionDigits: 0,
     }).format(value)
   }
 
   const formatCurrencyDetailed = (value: number) => {
-    return new Intl.NumberFormat("en-US", {
+    return new Intl.NumberFormat(getNumberFormat().locale, {
       style: "currency",
-      currency: "USD",
+      currency: getNumberFormat().currency,
       minimumFractionDigits: 2,
       maximumFractionDigits: 2,
     }).format(value)
@@ -115,19 +102,22 @@ export function CustomersDashboard({ dateRange, refreshKey }: CustomersDashboard
         <MetricCard
           title="Total Customers"
           value={(metrics?.totalCustomers || 0).toString()}
-          changeLabel={dateLabel}
+          change={change(metrics?.totalCustomers, prevMetrics?.totalCustomers)}
+          changeLabel={compareLabel || dateLabel}
           icon={<Users size={16} />}
         />
         <MetricCard
           title="New Customers"
           value={(metrics?.newCustomers || 0).toString()}
-          changeLabel={dateLabel}
+          change={change(metrics?.newCustomers, prevMetrics?.newCustomers)}
+          changeLabel={compareLabel || dateLabel}
           icon={<UserPlus size={16} />}
         />
         <MetricCard
           title="Returning Customers"
           value={(metrics?.returningCustomers || 0).toString()}
-          changeLabel={`${(metrics?.returningCustomerRate || 0).toFixed(1)}% of total`}
+          change={change(metrics?.returningCustomers, prevMetrics?.returningCustomers)}
+          changeLabel={compareLabel || `${(metrics?.returningCustomerRate || 0).toFixed(1)}% of total`}
           icon={<UserCheck size={16} />}
         />
       </div>
@@ -137,19 +127,22 @@ export function CustomersDashboard({ dateRange, refreshKey }: CustomersDashboard
         <MetricCard
           title="Total Orders"
           value={(metrics?.totalOrders || 0).toString()}
-          changeLabel={dateLabel}
+          change={change(metrics?.totalOrders, prevMetrics?.totalOrders)}
+          changeLabel={compareLabel || dateLabel}
           icon={<ShoppingCart size={16} />}
         />
         <MetricCard
           title="Average Order Value"
           value={formatCurrencyDetailed(metrics?.averageOrderValue || 0)}
-          changeLabel={dateLabel}
+          change={change(metrics?.averageOrderValue, prevMetrics?.averageOrderValue)}
+          changeLabel={compareLabel || dateLabel}
           icon={<DollarSign size={16} />}
         />
         <MetricCard
           title="Returning Rate"
           value={`${(metrics?.returningCustomerRate || 0).toFixed(1)}%`}
-          changeLabel="Of all customers"
+          change={change(metrics?.returningCustomerRate, prevMetrics?.returningCustomerRate)}
+          changeLabel={compareLabel || "Of all customers"}
           icon={<TrendingUp size={16} />}
         />
       </div>
@@ -265,9 +258,20 @@ export function CustomersDashboard({ dateRange, refreshKey }: CustomersDashboard
                       tickFormatter={(v) => v.length > 20 ? v.substring(0, 20) + "..." : v}
                     />
                     <Tooltip
-                      formatter={(value) => [formatCurrencyDetailed(value as number), "Gross Sales"]}
+                      formatter={(value, name) => [
+                        formatCurrencyDetailed(value as number),
+                        name === "prevGrossSales" ? `Gross Sales (${compareLabel})` : "Gross Sales",
+                      ]}
                     />
+                    {compareLabel && (
+                      <Legend
+                        formatter={(value) => (value === "prevGrossSales" ? compareLabel : "Gross Sales")}
+                      />
+                    )}
                     <Bar dataKey="grossSales" fill="#ff6b35" radius={[0, 4, 4, 0]} />
+                    {compareLabel && (
+                      <Bar dataKey="prevGrossSales" fill="#ff6b35" fillOpacity={0.35} radius={[0, 4, 4, 0]} />
+                    )}
                   </BarChart>
                 </ResponsiveContainer>
               </div>
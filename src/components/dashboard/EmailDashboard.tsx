@@ -1,5 +1,5 @@
-import { useState, useEffect } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { ChangeIndicator } from "@/components/ui/change-indicator"
 import {
   Mail,
   MousePointerClick,
@@ -24,61 +24,29 @@ import {
   AreaChart,
   Area,
 } from "recharts"
-import type { DateRangeValue } from "@/components/layout/Header"
-import { dateRangeOptions } from "@/components/layout/Header"
-import { apiFetch } from "@/lib/api"
-
-interface SubscriberCounts {
-  emailSubscribers: number
-  smsSubscribers: number
-  totalContacts: number
-}
-
-interface CampaignMetric {
-  campaignID: string
-  name: string
-  sent: number
-  opened: number
-  clicked: number
-  bounced: number
-  unsubscribed: number
-  openRate: number
-  clickRate: number
-  bounceRate: number
-  unsubscribeRate: number
-  startedAt?: string
-  finishedAt?: string
-}
-
-interface DashboardData {
-  subscribers: SubscriberCounts & { newSignups?: number }
-  campaigns: CampaignMetric[]
-  totals: {
-    sent: number
-    opened: number
-    clicked: number
-    bounced: number
-    unsubscribed: number
-    avgOpenRate: number
-    avgClickRate: number
-  }
-  subscriberGrowth?: Array<{ date: string; email: number; sms: number }>
-}
-
-interface RevenueData {
-  totalRevenue: number
-  orderCount: number
-  averageOrderValue: number
-  dailyBreakdown: Array<{ date: string; revenue: number; orders: number }>
-  byCampaign: Array<{ campaign: string; revenue: number; orders: number }>
-}
+import { formatCompareLabel, formatDateRangeLabel, type CompareValue, type DateRangeValue } from "@/lib/date-range-labels"
+import type { EmailDashboardData, EmailRevenueData } from "@/lib/api-types"
+import { useApiQuery } from "@/hooks/useApiQuery"
+import { useQueryState } from "@/hooks/useRouter"
+import { getNumberFormat } from "@/lib/utils"
+import {
+  formatDateForDisplay,
+  formatTimestampForDisplay,
+  getPercentChange,
+  getStoreToday,
+  resolveComparisonRange,
+  resolveDateRange,
+} from "@/lib/date-utils"
+import type { ResolvedDateRange } from "@/lib/date-utils"
 
 interface EmailDashboardProps {
   dateRange: DateRangeValue
+  compareTo: CompareValue
   refreshKey: number
 }
 
-type ChartTimeRange = "7d" | "14d" | "30d" | "60d" | "90d" | "365d" | "2025"
+// Trailing windows, year to date, or a past calendar year ("2025")
+type ChartTimeRange = "7d" | "14d" | "30d" | "60d" | "90d" | "365d" | "this_year" | `${number}`
 
 const CHART_TIME_RANGES: { value: ChartTimeRange; label: string }[] = [
   { value: "7d", label: "7D" },
@@ -86,73 +54,62 @@ const CHART_TIME_RANGES: { value: ChartTimeRange; label: string }[] = [
   { value: "30d", label: "30D" },
   { value: "90d", label: "90D" },
   { value: "365d", label: "1Y" },
-  { value: "2025", label: "2025" },
 ]
 
-function getDaysFromRange(range: DateRangeValue): number {
-  const option = dateRangeOptions.find((o) => o.value === range)
-  return option?.days || 30
+// How many past calendar years the year selector offers
+const CHART_YEAR_COUNT = 3
+
+function getChartYears(): ChartTimeRange[] {
+  const year = getStoreToday().getFullYear()
+  return Array.from({ length: CHART_YEAR_COUNT }, (_, i) => `${year - 1 - i}` as ChartTimeRange)
 }
 
-export function EmailDashboard({ dateRange, refreshKey }: EmailDashboardProps) {
-  const [data, setData] = useState<DashboardData | null>(null)
-  const [revenueData, setRevenueData] = useState<RevenueData | null>(null)
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
-  const [chartTimeRange, setChartTimeRange] = useState<ChartTimeRange>("30d")
-
-  const days = getDaysFromRange(dateRange)
-  const dateLabel = dateRangeOptions.find((o) => o.value === dateRange)?.label || "Last 30 days"
-
-  // Fetch dashboard data (subscribers, campaigns)
-  useEffect(() => {
-    const fetchDashboardData = async () => {
-      setLoading(true)
-      setError(null)
-
-      try {
-        const response = await apiFetch(`/api/omnisend/dashboard?days=${days}`)
-        if (!response.ok) {
-          throw new Error("Failed to fetch Omnisend data")
-        }
-        const dashboardData: DashboardData = await response.json()
-        setData(dashboardData)
-      } catch (err) {
-        console.error("Failed to fetch email metrics:", err)
-        setError("Unable to load Omnisend data. Please check your API key configuration.")
-      } finally {
-        setLoading(false)
-      }
-    }
-
-    fetchDashboardData()
-  }, [days, refreshKey])
-
-  // Fetch revenue data separately based on chart time range
-  useEffect(() => {
-    const fetchRevenueData = async () => {
-      try {
-        const response = await apiFetch(`/api/omnisend/revenue?range=${chartTimeRange}`)
-        if (response.ok) {
-          const revenue: RevenueData = await response.json()
-          setRevenueData(revenue)
-        }
-      } catch (err) {
-        console.error("Failed to fetch revenue data:", err)
-      }
-    }
-
-    fetchRevenueData()
-  }, [chartTimeRange, refreshKey])
+function isChartTimeRange(value: string): boolean {
+  return ["7d", "14d", "30d", "60d", "90d", "365d", "this_year"].includes(value) || getChartYears().includes(value as ChartTimeRange)
+}
+
+// Omnisend takes explicit dates so custom ranges and years resolve exactly
+function toOmnisendQuery({ start, end }: ResolvedDateRange): string {
+  return `startDate=${start}&endDate=${end}`
+}
+
+export function EmailDashboard({ dateRange, compareTo, refreshKey }: EmailDashboardProps) {
+  const [chartTimeRange, setChartTimeRange] = useQueryState<ChartTimeRange>("chart_range", "30d", isChartTimeRange)
+
+  const dateLabel = formatDateRangeLabel(dateRange)
+
+  // Dashboard data (subscribers, campaigns)
+  const { data, error: dashboardError, isLoading: loading } = useApiQuery<EmailDashboardData>(
+    `/api/omnisend/dashboard?${toOmnisendQuery(resolveDateRange(dateRange))}`,
+    { refreshKey }
+  )
+  const error = dashboardError
+    ? "Unable to load Omnisend data. Please check your API key configuration."
+    : null
+
+  // Revenue data is fetched separately based on chart time range
+  const { data: revenueData } = useApiQuery<EmailRevenueData>(
+    `/api/omnisend/revenue?${toOmnisendQuery(resolveDateRange(chartTimeRange))}`,
+    { refreshKey }
+  )
+
+  // Revenue is the only Omnisend figure available for an arbitrary window, so it carries the comparison
+  const comparisonRange = resolveComparisonRange(chartTimeRange, compareTo)
+  const compareLabel = comparisonRange ? formatCompareLabel(compareTo) : undefined
+  const { data: prevRevenueData } = useApiQuery<EmailRevenueData>(
+    comparisonRange ? `/api/omnisend/revenue?${toOmnisendQuery(comparisonRange)}` : null,
+    { refreshKey }
+  )
+  const isYearRange = chartTimeRange === "this_year" || /^\d{4}$/.test(chartTimeRange)
 
   const formatNumber = (value: number) => {
     return value.toLocaleString()
   }
 
   const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat("en-US", {
+    return new Intl.NumberFormat(getNumberFormat().locale, {
       style: "currency",
-      currency: "USD",
+      currency: getNumberFormat().currency,
       minimumFractionDigits: 0,
       maximumFractionDigits: 0,
     }).format(value)
@@ -197,7 +154,7 @@ export function EmailDashboard({ dateRange, refreshKey }: EmailDashboardProps) {
     .reverse()
     .map((campaign) => ({
       date: campaign.finishedAt
-        ? new Date(campaign.finishedAt).toLocaleDateString("en-US", { month: "short", day: "numeric" })
+        ? formatTimestampForDisplay(campaign.finishedAt)
         : campaign.name.slice(0, 8),
       openRate: campaign.openRate,
       clickRate: campaign.clickRate,
@@ -207,7 +164,7 @@ export function EmailDashboard({ dateRange, refreshKey }: EmailDashboardProps) {
   // Subscriber growth data - use real data if available, otherwise generate mock
   const subscriberGrowthData = data.subscriberGrowth?.length
     ? data.subscriberGrowth.map(d => ({
-        date: new Date(d.date).toLocaleDateString("en-US", { month: "short", day: "numeric" }),
+        date: formatDateForDisplay(d.date),
         subscribed: d.email,
         sms: d.sms,
       }))
@@ -345,6 +302,22 @@ export function EmailDashboard({ dateRange, refreshKey }: EmailDashboardProps) {
                   <p className="mt-1 md:mt-2 text-xs md:text-sm text-muted-foreground font-medium">
                     Email Revenue • AOV: {formatCurrency(revenueData.averageOrderValue)}
                   </p>
+                  {prevRevenueData && (
+                    <div className="mt-1 flex flex-wrap gap-x-4 gap-y-1">
+                      <ChangeIndicator
+                        change={getPercentChange(revenueData.totalRevenue, prevRevenueData.totalRevenue)}
+                        label={`revenue ${compareLabel}`}
+                      />
+                      <ChangeIndicator
+                        change={getPercentChange(revenueData.orderCount, prevRevenueData.orderCount)}
+                        label="orders"
+                      />
+                      <ChangeIndicator
+                        change={getPercentChange(revenueData.averageOrderValue, prevRevenueData.averageOrderValue)}
+                        label="AOV"
+                      />
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -364,6 +337,22 @@ export function EmailDashboard({ dateRange, refreshKey }: EmailDashboardProps) {
                       {range.label}
                     </button>
                   ))}
+                  <select
+                    value={isYearRange ? chartTimeRange : ""}
+                    onChange={(e) => e.target.value && setChartTimeRange(e.target.value as ChartTimeRange)}
+                    aria-label="Year"
+                    className={`px-2 md:px-3 py-1.5 md:py-2 text-xs md:text-sm font-medium rounded-md transition-all shrink-0 border-0 ${
+                      isYearRange
+                        ? "bg-white dark:bg-gray-700 text-gray-900 dark:text-white shadow-sm"
+                        : "bg-transparent text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+                    }`}
+                  >
+                    <option value="" disabled>Year</option>
+                    <option value="this_year">YTD</option>
+                    {getChartYears().map((year) => (
+                      <option key={year} value={year}>{year}</option>
+                    ))}
+                  </select>
                 </div>
                 <p className="text-xs text-muted-foreground">
                   {revenueData.dailyBreakdown.length} data points
@@ -375,9 +364,11 @@ export function EmailDashboard({ dateRange, refreshKey }: EmailDashboardProps) {
                 {revenueData.dailyBreakdown.length > 0 ? (
                   <ResponsiveContainer width="100%" height="100%">
                     <AreaChart
-                      data={revenueData.dailyBreakdown.map(d => ({
+                      data={revenueData.dailyBreakdown.map((d, i) => ({
                         ...d,
-                        dateDisplay: new Date(d.date).toLocaleDateString("en-US", { month: "short", day: "numeric" }),
+                        dateDisplay: formatDateForDisplay(d.date),
+                        // Same day index in the comparison period
+                        prevRevenue: prevRevenueData?.dailyBreakdown[i]?.revenue,
                       }))}
                       margin={{ top: 10, right: 10, left: 0, bottom: 0 }}
                     >
@@ -410,7 +401,10 @@ export function EmailDashboard({ dateRange, refreshKey }: EmailDashboardProps) {
                           padding: "12px 16px"
                         }}
                         labelFormatter={(v) => v}
-                        formatter={(value) => [formatCurrency(Number(value)), "Revenue"]}
+                        formatter={(value, name) => [
+                          formatCurrency(Number(value)),
+                          name === "prevRevenue" ? `Revenue (${compareLabel})` : "Revenue",
+                        ]}
                         cursor={{ stroke: "#9ca3af", strokeWidth: 1, strokeDasharray: "4 4" }}
                       />
                       <Area
@@ -423,6 +417,20 @@ export function EmailDashboard({ dateRange, refreshKey }: EmailDashboardProps) {
                         dot={false}
                         activeDot={{ r: 6, stroke: "#fff", strokeWidth: 2, fill: "#10b981" }}
                       />
+                      {prevRevenueData && (
+                        <Area
+                          type="monotoneX"
+                          dataKey="prevRevenue"
+                          name="prevRevenue"
+                          stroke="#10b981"
+                          strokeOpacity={0.5}
+                          strokeDasharray="4 4"
+                          fill="none"
+                          strokeWidth={1.5}
+                          dot={false}
+                          activeDot={false}
+                        />
+                      )}
                     </AreaChart>
                   </ResponsiveContainer>
                 ) : (
@@ -700,7 +708,7 @@ export function EmailDashboard({ dateRange, refreshKey }: EmailDashboardProps) {
                         </td>
                         <td className="text-right py-3 px-2 text-muted-foreground">
                           {campaign.finishedAt
-                            ? new Date(campaign.finishedAt).toLocaleDateString("en-US", { month: "short", day: "numeric" })
+                            ? formatTimestampForDisplay(campaign.finishedAt)
                             : "—"}
                         </td>
                       </tr>
@@ -1,9 +1,11 @@
-import { useState, useEffect } from "react"
+import { useState } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { PlaidLinkButton } from "@/components/PlaidLink"
 import { PlaidReconnect } from "@/components/PlaidReconnect"
+import { AccountRoleSelect } from "@/components/AccountRoleSelect"
 import { PayrollWidget } from "./PayrollWidget"
+import { SubscriptionsWidget } from "./SubscriptionsWidget"
 import { FormulaTooltip } from "@/components/ui/formula-tooltip"
 import {
   Building2,
@@ -21,62 +23,36 @@ import {
   AlertTriangle,
   Wallet,
   Users,
+  Repeat,
 } from "lucide-react"
-import type { DateRangeValue } from "@/components/layout/Header"
-import { apiFetch } from "@/lib/api"
-
-type FinanceTabType = "overview" | "payroll"
-
-interface Account {
-  account_id: string
-  name: string
-  official_name: string | null
-  type: "depository" | "credit" | "loan" | "investment" | "other"
-  subtype: string
-  balances: {
-    available: number | null
-    current: number
-    limit: number | null
-    iso_currency_code: string
-  }
-  mask: string
-}
-
-interface Transaction {
-  transaction_id: string
-  account_id: string
-  amount: number
-  date: string
-  name: string
-  merchant_name: string | null
-  category: string[]
-  pending: boolean
-  iso_currency_code: string
-}
-
-interface Payout {
-  id: number
-  date: string
-  currency: string
-  amount: string
-  status: "scheduled" | "in_transit" | "paid" | "failed" | "canceled"
-}
+import type { DateRangeValue } from "@/lib/date-range-labels"
+import { apiFetch, setQueryData } from "@/lib/api"
+import type {
+  AccountPreferencesResponse,
+  AccountsResponse,
+  FinanceStatusResponse,
+  TransactionsResponse,
+  PayoutSummary,
+  PayrollResponse,
+  ShopifyBillingResponse,
+  MetaBillingResponse,
+} from "@/lib/api-types"
+import { useApiQuery } from "@/hooks/useApiQuery"
+import { useQueryState } from "@/hooks/useRouter"
+import { getNumberFormat } from "@/lib/utils"
+import { formatDateForDisplay, toApiRange } from "@/lib/date-utils"
+import {
+  ACCOUNT_PREFERENCES_ENDPOINT,
+  formatAccountMasks,
+  getAccountRole,
+  getAccountRoleLabel,
+  getAccountsWithRole,
+  getRoleBalance,
+} from "@/lib/account-roles"
 
-interface PayoutSummary {
-  pendingBalance: number
-  scheduledPayouts: Payout[]
-  inTransitPayouts: Payout[]
-  recentPayouts: Payout[]
-  totalScheduled: number
-  totalInTransit: number
-}
+type FinanceTabType = "overview" | "payroll" | "subscriptions"
 
-interface PayrollSummary {
-  totalPayroll: number
-  averagePayroll: number
-  lastPayrollDate: string | null
-  payrollCount: number
-}
+const financeTabs: FinanceTabType[] = ["overview", "payroll", "subscriptions"]
 
 interface FinanceDashboardProps {
   dateRange: DateRangeValue
@@ -84,107 +60,69 @@ interface FinanceDashboardProps {
 }
 
 export function FinanceDashboard({ dateRange, refreshKey }: FinanceDashboardProps) {
-  const [activeTab, setActiveTab] = useState<FinanceTabType>("overview")
-  const [accounts, setAccounts] = useState<Account[]>([])
-  const [disabledAccounts, setDisabledAccounts] = useState<Account[]>([])
-  const [pendingTransactions, setPendingTransactions] = useState<Transaction[]>([])
-  const [payouts, setPayouts] = useState<PayoutSummary | null>(null)
-  const [payroll, setPayroll] = useState<PayrollSummary | null>(null)
-  const [shopifyBilling, setShopifyBilling] = useState<number>(0)
-  const [metaBilling, setMetaBilling] = useState<number>(0)
-  const [loading, setLoading] = useState(true)
-  const [configured, setConfigured] = useState(true)
+  const [activeTab, setActiveTab] = useQueryState<FinanceTabType>("tab", "overview", financeTabs)
   const [unlinkingAccount, setUnlinkingAccount] = useState<string | null>(null)
   const [enablingAccount, setEnablingAccount] = useState<string | null>(null)
   const [showAccounts, setShowAccounts] = useState(false)
   const [showPending, setShowPending] = useState(false)
 
-  useEffect(() => {
-    const fetchData = async () => {
-      setLoading(true)
-      try {
-        const encodedRange = encodeURIComponent(dateRange)
-        const [statusRes, accountsRes, disabledRes, pendingRes, payoutsRes, payrollRes, shopifyBillingRes, metaBillingRes] = await Promise.all([
-          apiFetch(`/api/finance/status`),
-          apiFetch(`/api/finance/accounts`),
-          apiFetch(`/api/finance/disabled-accounts`),
-          apiFetch(`/api/finance/transactions?range=${encodedRange}&limit=50&pending=true`),
-          apiFetch(`/api/shopify/payouts`),
-          apiFetch(`/api/finance/payroll?range=90d`),
-          apiFetch(`/api/shopify/billing`),
-          apiFetch(`/api/meta/billing`),
-        ])
-
-        if (statusRes.ok) {
-          const statusData = await statusRes.json()
-          setConfigured(statusData.configured)
-        }
-
-        if (accountsRes.ok) {
-          const accountsData = await accountsRes.json()
-          setAccounts(accountsData.accounts || [])
-        }
-
-        if (disabledRes.ok) {
-          const disabledData = await disabledRes.json()
-          setDisabledAccounts(disabledData.accounts || [])
-        }
-
-        if (pendingRes.ok) {
-          const pendingData = await pendingRes.json()
-          setPendingTransactions(pendingData.transactions || [])
-        }
-
-        if (payoutsRes.ok) {
-          const payoutsData = await payoutsRes.json()
-          setPayouts(payoutsData)
-        }
-
-        if (payrollRes.ok) {
-          const payrollData = await payrollRes.json()
-          setPayroll(payrollData.summary || null)
-        }
-
-        if (shopifyBillingRes.ok) {
-          const billingData = await shopifyBillingRes.json()
-          setShopifyBilling(billingData.currentBalance || 0)
-        }
-
-        if (metaBillingRes.ok) {
-          const metaData = await metaBillingRes.json()
-          setMetaBilling(metaData.balance || 0)
-        }
-      } catch (error) {
-        console.error("Failed to fetch finance data:", error)
-      } finally {
-        setLoading(false)
-      }
-    }
-
-    fetchData()
-  }, [dateRange, refreshKey])
+  const encodedRange = toApiRange(dateRange)
+  const statusQuery = useApiQuery<FinanceStatusResponse>(`/api/finance/status`, { refreshKey })
+  const accountsQuery = useApiQuery<AccountsResponse>(`/api/finance/accounts`, { refreshKey })
+  const disabledQuery = useApiQuery<AccountsResponse>(`/api/finance/disabled-accounts`, { refreshKey })
+  const rolesQuery = useApiQuery<AccountPreferencesResponse>(ACCOUNT_PREFERENCES_ENDPOINT, { refreshKey })
+  const pendingQuery = useApiQuery<TransactionsResponse>(
+    `/api/finance/transactions?range=${encodedRange}&limit=50&pending=true`,
+    { refreshKey }
+  )
+  const payoutsQuery = useApiQuery<PayoutSummary>(`/api/shopify/payouts`, { refreshKey })
+  const payrollQuery = useApiQuery<PayrollResponse>(`/api/finance/payroll?range=90d`, { refreshKey })
+  const shopifyBillingQuery = useApiQuery<ShopifyBillingResponse>(`/api/shopify/billing`, { refreshKey })
+  const metaBillingQuery = useApiQuery<MetaBillingResponse>(`/api/meta/billing`, { refreshKey })
+
+  const loading = [
+    statusQuery,
+    accountsQuery,
+    disabledQuery,
+    rolesQuery,
+    pendingQuery,
+    payoutsQuery,
+    payrollQuery,
+    shopifyBillingQuery,
+    metaBillingQuery,
+  ].some((query) => query.isLoading)
+
+  const configured = statusQuery.data?.configured ?? true
+  const accounts = accountsQuery.data?.accounts || []
+  const disabledAccounts = disabledQuery.data?.accounts || []
+  const accountRoles = rolesQuery.data?.roles || {}
+  const pendingTransactions = pendingQuery.data?.transactions || []
+  const payouts = payoutsQuery.data || null
+  const payroll = payrollQuery.data?.summary || null
+  const shopifyBilling = shopifyBillingQuery.data?.currentBalance || 0
+  const metaBilling = metaBillingQuery.data?.balance || 0
 
   // Format helpers
   const fmt = (value: number) => {
-    return new Intl.NumberFormat("en-US", {
+    return new Intl.NumberFormat(getNumberFormat().locale, {
       style: "currency",
-      currency: "USD",
+      currency: getNumberFormat().currency,
       minimumFractionDigits: 0,
       maximumFractionDigits: 0,
     }).format(value)
   }
 
   const fmtDecimal = (value: number) => {
-    return new Intl.NumberFormat("en-US", {
+    return new Intl.NumberFormat(getNumberFormat().locale, {
       style: "currency",
-      currency: "USD",
+      currency: getNumberFormat().currency,
       minimumFractionDigits: 2,
       maximumFractionDigits: 2,
     }).format(value)
   }
 
   const fmtDate = (dateStr: string) => {
-    return new Date(dateStr).toLocaleDateString("en-US", { month: "short", day: "numeric" })
+    return formatDateForDisplay(dateStr)
   }
 
   const getAccountIcon = (type: string, subtype: string) => {
@@ -205,8 +143,12 @@ export function FinanceDashboard({ dateRange, refreshKey }: FinanceDashboardProp
       if (response.ok) {
         const account = accounts.find((a) => a.account_id === accountId)
         if (account) {
-          setAccounts((prev) => prev.filter((a) => a.account_id !== accountId))
-          setDisabledAccounts((prev) => [...prev, account])
+          setQueryData<AccountsResponse>(`/api/finance/accounts`, (prev) => ({
+            accounts: (prev?.accounts || []).filter((a) => a.account_id !== accountId),
+          }))
+          setQueryData<AccountsResponse>(`/api/finance/disabled-accounts`, (prev) => ({
+            accounts: [...(prev?.accounts || []), account],
+          }))
         }
       }
     } catch (error) {
@@ -227,8 +169,12 @@ export function FinanceDashboard({ dateRange, refreshKey }: FinanceDashboardProp
       if (response.ok) {
         const account = disabledAccounts.find((a) => a.account_id === accountId)
         if (account) {
-          setDisabledAccounts((prev) => prev.filter((a) => a.account_id !== accountId))
-          setAccounts((prev) => [...prev, account])
+          setQueryData<AccountsResponse>(`/api/finance/disabled-accounts`, (prev) => ({
+            accounts: (prev?.accounts || []).filter((a) => a.account_id !== accountId),
+          }))
+          setQueryData<AccountsResponse>(`/api/finance/accounts`, (prev) => ({
+            accounts: [...(prev?.accounts || []), account],
+          }))
         }
       }
     } catch (error) {
@@ -239,26 +185,25 @@ export function FinanceDashboard({ dateRange, refreshKey }: FinanceDashboardProp
   }
 
   // ============================================
-  // SPECIFIC ACCOUNT LOOKUPS
+  // ACCOUNT ROLES
   // ============================================
 
-  // Mercury Operations account (•••8705)
-  const operationsAccount = accounts.find(a => a.mask === "8705")
-  const operationsBalance = operationsAccount?.balances.current || 0
+  // Operations account(s) - the starting balance for operating cash
+  const operationsAccounts = getAccountsWithRole(accounts, accountRoles, "operations")
+  const operationsBalance = getRoleBalance(accounts, accountRoles, "operations")
+  const operationsMasks = formatAccountMasks(operationsAccounts)
 
-  // Mercury Payroll account (•••4804)
-  const payrollAccount = accounts.find(a => a.mask === "4804")
-  const payrollAccountBalance = payrollAccount?.balances.current || 0
+  // Payroll account(s) - fund payroll runway
+  const payrollAccounts = getAccountsWithRole(accounts, accountRoles, "payroll")
+  const payrollAccountBalance = getRoleBalance(accounts, accountRoles, "payroll")
+  const payrollMasks = formatAccountMasks(payrollAccounts)
 
-  // Credit cards (sum all credit account balances)
-  const creditBalance = accounts
-    .filter(a => a.type === "credit")
-    .reduce((sum, a) => sum + a.balances.current, 0)
+  // Credit (sum of balances owed)
+  const creditBalance = getRoleBalance(accounts, accountRoles, "credit")
 
-  // Other accounts (savings, etc.)
-  const savingsBalance = accounts
-    .filter(a => a.subtype === "savings")
-    .reduce((sum, a) => sum + a.balances.current, 0)
+  // Reserves excluded from operating cash
+  const taxReserveBalance = getRoleBalance(accounts, accountRoles, "tax_reserve")
+  const savingsBalance = getRoleBalance(accounts, accountRoles, "savings")
 
   // ============================================
   // PENDING TRANSACTIONS
@@ -284,7 +229,7 @@ export function FinanceDashboard({ dateRange, refreshKey }: FinanceDashboardProp
   // OPERATING CASH CALCULATION
   // ============================================
   // Formula:
-  // = Mercury Operations (•••8705)
+  // = Operations account(s)
   // + Shopify Incoming (pending + scheduled + in-transit)
   // + Pending Credits
   // - Pending Charges
@@ -309,7 +254,7 @@ export function FinanceDashboard({ dateRange, refreshKey }: FinanceDashboardProp
   // Assume biweekly payroll = every 2 weeks
   const weeklyPayrollCost = avgPayrollPerRun / 2
 
-  // Payroll runway uses PAYROLL ACCOUNT balance (•••4804)
+  // Payroll runway uses the PAYROLL ACCOUNT balance
   const payrollRunwayWeeks = weeklyPayrollCost > 0
     ? Math.floor(payrollAccountBalance / weeklyPayrollCost)
     : 999
@@ -369,6 +314,7 @@ export function FinanceDashboard({ dateRange, refreshKey }: FinanceDashboardProp
         {[
           { id: "overview", label: "Overview", icon: <Wallet size={16} /> },
           { id: "payroll", label: "Payroll", icon: <Users size={16} /> },
+          { id: "subscriptions", label: "Subscriptions", icon: <Repeat size={16} /> },
         ].map((tab) => (
           <button
             key={tab.id}
@@ -410,8 +356,12 @@ export function FinanceDashboard({ dateRange, refreshKey }: FinanceDashboardProp
               </p>
               <div className="flex justify-between items-center py-2.5 px-3 rounded-lg bg-rh-accent/10 border border-rh-accent/20">
                 <div>
-                  <span className="text-sm font-medium">Mercury Operations</span>
-                  <span className="text-xs text-muted-foreground ml-1.5">•••8705</span>
+                  <span className="text-sm font-medium">
+                    {operationsAccounts.length === 1 ? operationsAccounts[0].name : "Operations"}
+                  </span>
+                  <span className="text-xs text-muted-foreground ml-1.5">
+                    {operationsMasks || "No account assigned"}
+                  </span>
                 </div>
                 <span className="font-bold tabular-nums text-rh-accent">{fmt(operationsBalance)}</span>
               </div>
@@ -517,7 +467,7 @@ export function FinanceDashboard({ dateRange, refreshKey }: FinanceDashboardProp
             </div>
 
             {/* Excluded Accounts Note */}
-            {(payrollAccountBalance > 0 || savingsBalance > 0) && (
+            {(payrollAccountBalance > 0 || taxReserveBalance > 0 || savingsBalance > 0) && (
               <div className="pt-2 border-t border-border/50">
                 <p className="text-[10px] font-medium text-muted-foreground uppercase tracking-wider mb-2">
                   Not Included (Reserved Funds)
@@ -525,10 +475,16 @@ export function FinanceDashboard({ dateRange, refreshKey }: FinanceDashboardProp
                 <div className="space-y-1">
                   {payrollAccountBalance > 0 && (
                     <div className="flex justify-between items-center py-1.5 px-3 text-sm">
-                      <span className="text-muted-foreground">Payroll Reserve <span className="text-xs">•••4804</span></span>
+                      <span className="text-muted-foreground">Payroll Reserve <span className="text-xs">{payrollMasks}</span></span>
                       <span className="tabular-nums text-muted-foreground">{fmt(payrollAccountBalance)}</span>
                     </div>
                   )}
+                  {taxReserveBalance > 0 && (
+                    <div className="flex justify-between items-center py-1.5 px-3 text-sm">
+                      <span className="text-muted-foreground">Tax Reserve</span>
+                      <span className="tabular-nums text-muted-foreground">{fmt(taxReserveBalance)}</span>
+                    </div>
+                  )}
                   {savingsBalance > 0 && (
                     <div className="flex justify-between items-center py-1.5 px-3 text-sm">
                       <span className="text-muted-foreground">Savings Reserve</span>
@@ -552,7 +508,7 @@ export function FinanceDashboard({ dateRange, refreshKey }: FinanceDashboardProp
           <CardContent>
             <FormulaTooltip
               delay={400}
-              formula={`Payroll Account (•••4804): ${fmt(payrollAccountBalance)}
+              formula={`Payroll Account (${payrollMasks || "none"}): ${fmt(payrollAccountBalance)}
 ÷ Weekly Payroll: ${fmt(weeklyPayrollCost)}
 ─────────────────
 = ${payrollRunwayWeeks} weeks
@@ -572,7 +528,9 @@ Weekly = Avg Payroll (${fmt(avgPayrollPerRun)}) ÷ 2
               </div>
             </FormulaTooltip>
             <p className="text-sm text-muted-foreground mt-1">
-              {fmt(payrollAccountBalance)} in payroll account (•••4804)
+              {payrollAccounts.length > 0
+                ? `${fmt(payrollAccountBalance)} in payroll account (${payrollMasks})`
+                : "Assign a payroll account under Bank Accounts"}
             </p>
 
             {payrollRunwayWeeks < 8 && (
@@ -625,12 +583,12 @@ Weekly = Avg Payroll (${fmt(avgPayrollPerRun)}) ÷ 2
               <div>
                 <p className="text-xs text-muted-foreground">Operations</p>
                 <p className="text-lg font-bold">{fmt(operationsBalance)}</p>
-                <p className="text-[10px] text-muted-foreground">•••8705</p>
+                <p className="text-[10px] text-muted-foreground">{operationsMasks || "Unassigned"}</p>
               </div>
               <div>
                 <p className="text-xs text-muted-foreground">Payroll</p>
                 <p className="text-lg font-bold">{fmt(payrollAccountBalance)}</p>
-                <p className="text-[10px] text-muted-foreground">•••4804</p>
+                <p className="text-[10px] text-muted-foreground">{payrollMasks || "Unassigned"}</p>
               </div>
               <div>
                 <p className="text-xs text-muted-foreground">Credit Owed</p>
@@ -642,9 +600,8 @@ Weekly = Avg Payroll (${fmt(avgPayrollPerRun)}) ÷ 2
             {showAccounts && (
               <div className="mt-4 pt-4 border-t space-y-2">
                 {accounts.map((account) => {
-                  const isOps = account.mask === "8705"
-                  const isPayroll = account.mask === "4804"
-                  const roleLabel = isOps ? "Operations" : isPayroll ? "Payroll" : null
+                  const role = getAccountRole(account, accountRoles)
+                  const roleLabel = role ? getAccountRoleLabel(role) : null
 
                   return (
                     <div
@@ -666,6 +623,7 @@ Weekly = Avg Payroll (${fmt(avgPayrollPerRun)}) ÷ 2
                         </div>
                       </div>
                       <div className="flex items-center gap-2">
+                        <AccountRoleSelect account={account} roles={accountRoles} />
                         <span className={`font-medium ${account.type === "credit" ? "text-rh-negative" : ""}`}>
                           {fmtDecimal(account.balances.current)}
                         </span>
@@ -799,6 +757,11 @@ Weekly = Avg Payroll (${fmt(avgPayrollPerRun)}) ÷ 2
       {activeTab === "payroll" && (
         <PayrollWidget dateRange={dateRange} refreshKey={refreshKey} />
       )}
+
+      {/* Subscriptions Tab */}
+      {activeTab === "subscriptions" && (
+        <SubscriptionsWidget refreshKey={refreshKey} />
+      )}
     </div>
   )
 }
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react"
+import { useState, useEffect, useRef } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { GroupedMetricCard } from "./GroupedMetricCard"
@@ -31,9 +31,13 @@ import {
   Legend,
   Area,
   AreaChart,
+  ReferenceArea,
 } from "recharts"
+import { dateRangeOptions, type DateRangeValue } from "@/lib/date-range-labels"
 import { apiFetch } from "@/lib/api"
-import { formatDateForDisplay } from "@/lib/date-utils"
+import { onQueuedWritesReplayed, sendOrQueue } from "@/lib/offline"
+import { formatDateForDisplay, resolveDateRange } from "@/lib/date-utils"
+import { getNumberFormat } from "@/lib/utils"
 
 // Types
 interface MonthlyTarget {
@@ -130,7 +134,12 @@ interface ForecastResult {
 
 type PacingView = "daily" | "weekly" | "monthly" | "quarterly"
 
-export function ForecastingDashboard() {
+interface ForecastingDashboardProps {
+  dateRange: DateRangeValue
+  refreshKey: number
+}
+
+export function ForecastingDashboard({ dateRange, refreshKey }: ForecastingDashboardProps) {
   // State
   const [scenarios, setScenarios] = useState<ForecastScenario[]>([])
   const [selectedScenarioId, setSelectedScenarioId] = useState<string | null>(null)
@@ -162,9 +171,18 @@ export function ForecastingDashboard() {
   const [editingMonthlyTargets, setEditingMonthlyTargets] = useState<MonthlyTarget[]>([])
   const [editorMonths, setEditorMonths] = useState<MonthInfo[]>([])
 
-  // Load scenarios on mount
+  // Load scenarios on mount and on refresh
   useEffect(() => {
     loadScenarios()
+  }, [refreshKey])
+
+  // Reload scenarios once saves made offline have been sent
+  const loadScenariosRef = useRef(() => {})
+  useEffect(() => {
+    loadScenariosRef.current = loadScenarios
+  })
+  useEffect(() => {
+    return onQueuedWritesReplayed(() => loadScenariosRef.current())
   }, [])
 
   // Load months when date range changes
@@ -174,12 +192,12 @@ export function ForecastingDashboard() {
     }
   }, [formData.startDate, formData.endDate])
 
-  // Compute forecast when scenario changes
+  // Compute forecast when scenario changes or on refresh
   useEffect(() => {
     if (selectedScenarioId) {
       computeForecast(selectedScenarioId)
     }
-  }, [selectedScenarioId])
+  }, [selectedScenarioId, refreshKey])
 
   const loadScenarios = async () => {
     try {
@@ -266,22 +284,29 @@ export function ForecastingDashboard() {
 
   const createScenario = async () => {
     try {
-      const res = await apiFetch(`/api/forecasting/scenarios`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          name: formData.name,
-          startDate: formData.startDate,
-          endDate: formData.endDate,
-          revenueTarget: parseFloat(formData.revenueTarget),
-          roas: parseFloat(formData.roas),
-          autoCatchUpEnabled: formData.autoCatchUpEnabled,
-          revenueSource: formData.revenueSource,
-          useMonthlyTargets: formData.useMonthlyTargets,
-          monthlyTargets: formData.monthlyTargets,
-        }),
-      })
-      if (res.ok) {
+      const res = await sendOrQueue(
+        `/api/forecasting/scenarios`,
+        {
+          method: "POST",
+          body: JSON.stringify({
+            name: formData.name,
+            startDate: formData.startDate,
+            endDate: formData.endDate,
+            revenueTarget: parseFloat(formData.revenueTarget),
+            roas: parseFloat(formData.roas),
+            autoCatchUpEnabled: formData.autoCatchUpEnabled,
+            revenueSource: formData.revenueSource,
+            useMonthlyTargets: formData.useMonthlyTargets,
+            monthlyTargets: formData.monthlyTargets,
+          }),
+        },
+        `Create scenario: ${formData.name}`
+      )
+      if (!res) {
+        // Queued while offline - the scenario appears once it has been replayed
+        setShowCreateForm(false)
+        resetForm()
+      } else if (res.ok) {
         const data = await res.json()
         setScenarios((prev) => [data.scenario, ...prev])
         setSelectedScenarioId(data.scenario.id)
@@ -295,12 +320,15 @@ export function ForecastingDashboard() {
 
   const updateScenario = async (id: string, updates: Partial<ForecastScenario>) => {
     try {
-      const res = await apiFetch(`/api/forecasting/scenarios/${id}`, {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(updates),
-      })
-      if (res.ok) {
+      const res = await sendOrQueue(
+        `/api/forecasting/scenarios/${id}`,
+        { method: "PATCH", body: JSON.stringify(updates) },
+        `Update scenario: ${scenarios.find((s) => s.id === id)?.name ?? id}`
+      )
+      if (!res) {
+        // Queued while offline - show the change now, the server copy follows on replay
+        setScenarios((prev) => prev.map((s) => (s.id === id ? { ...s, ...updates } : s)))
+      } else if (res.ok) {
         const data = await res.json()
         setScenarios((prev) => prev.map((s) => (s.id === id ? data.scenario : s)))
         if (selectedScenarioId === id) {
@@ -450,10 +478,19 @@ export function ForecastingDashboard() {
     }
   }, [showMonthlyTargetsEditor])
 
+  // Part of the scenario covered by the global date range, highlighted on the daily chart
+  const rangeBounds = resolveDateRange(dateRange)
+  const rangeLabel = dateRangeOptions.find((o) => o.value === dateRange)?.label || "Selected range"
+  const rangeDays = forecastResult
+    ? forecastResult.dailyData.filter((d) => d.date >= rangeBounds.start && d.date <= rangeBounds.end)
+    : []
+  const rangeActualRevenue = rangeDays.reduce((sum, d) => sum + (d.actualRevenue ?? 0), 0)
+  const rangeForecastRevenue = rangeDays.reduce((sum, d) => sum + d.forecastRevenue, 0)
+
   const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat("en-US", {
+    return new Intl.NumberFormat(getNumberFormat().locale, {
       style: "currency",
-      currency: "USD",
+      currency: getNumberFormat().currency,
       minimumFractionDigits: 0,
       maximumFractionDigits: 0,
     }).format(value)
@@ -1076,7 +1113,14 @@ export function ForecastingDashboard() {
         <Card className="overflow-hidden">
           <CardHeader className="border-b bg-slate-50/50 dark:bg-slate-800/50">
             <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
-              <CardTitle className="text-base">Revenue Pacing</CardTitle>
+              <div>
+                <CardTitle className="text-base">Revenue Pacing</CardTitle>
+                {rangeDays.length > 0 && (
+                  <p className="mt-1 text-sm text-muted-foreground">
+                    {rangeLabel}: {formatCurrency(rangeActualRevenue)} actual vs {formatCurrency(rangeForecastRevenue)} forecast
+                  </p>
+                )}
+              </div>
               <div className="flex rounded-lg bg-slate-100 p-1 dark:bg-slate-800">
                 {(["daily", "weekly", "monthly", "quarterly"] as PacingView[]).map((view) => (
                   <button
@@ -1136,6 +1180,14 @@ export function ForecastingDashboard() {
                       labelFormatter={formatDateForDisplay}
                     />
                     <Legend />
+                    {rangeDays.length > 1 && (
+                      <ReferenceArea
+                        x1={rangeDays[0].date}
+                        x2={rangeDays[rangeDays.length - 1].date}
+                        fill="#6366f1"
+                        fillOpacity={0.06}
+                      />
+                    )}
                     <Area
                       type="monotone"
                       dataKey="forecastRevenue"
@@ -1,5 +1,6 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { FormulaTooltip } from "@/components/ui/formula-tooltip"
+import { ChangeIndicator } from "@/components/ui/change-indicator"
 import { cn } from "@/lib/utils"
 
 interface MetricItem {
@@ -9,6 +10,8 @@ interface MetricItem {
   highlight?: boolean
   trend?: "up" | "down" | "neutral"
   formula?: string // Formula explanation shown on hover
+  change?: number // Percent change vs the comparison period
+  invertChange?: boolean // Lower is better
 }
 
 interface GroupedMetricCardProps {
@@ -19,9 +22,12 @@ interface GroupedMetricCardProps {
     value: string
     sublabel?: string
     formula?: string
+    change?: number
+    invertChange?: boolean
   }
   metrics: MetricItem[]
   columns?: 2 | 3 | 4
+  changeLabel?: string // e.g. "vs previous period", shown next to the hero change
   className?: string
 }
 
@@ -31,6 +37,7 @@ export function GroupedMetricCard({
   heroMetric,
   metrics,
   columns = 2,
+  changeLabel,
   className,
 }: GroupedMetricCardProps) {
   const gridCols = {
@@ -62,6 +69,14 @@ export function GroupedMetricCard({
               <p className="mt-1 text-xl font-semibold tracking-tight text-primary md:text-2xl lg:text-3xl">
                 {heroMetric.value}
               </p>
+              {heroMetric.change !== undefined && (
+                <ChangeIndicator
+                  change={heroMetric.change}
+                  invert={heroMetric.invertChange}
+                  label={changeLabel}
+                  className="mt-0.5"
+                />
+              )}
               {heroMetric.sublabel && (
                 <p className="mt-0.5 text-xs text-muted-foreground">{heroMetric.sublabel}</p>
               )}
@@ -90,6 +105,9 @@ export function GroupedMetricCard({
                 >
                   {metric.value}
                 </p>
+                {metric.change !== undefined && (
+                  <ChangeIndicator change={metric.change} invert={metric.invertChange} />
+                )}
                 {metric.sublabel && (
                   <p className="text-xs text-muted-foreground">{metric.sublabel}</p>
                 )}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react"
+import { useState } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import {
@@ -22,7 +22,10 @@ import {
   Eye,
   EyeOff,
 } from "lucide-react"
-import { apiFetch } from "@/lib/api"
+import { useApiQuery } from "@/hooks/useApiQuery"
+import { useNavigate, useQueryState } from "@/hooks/useRouter"
+import { apiFetch, invalidateQueries } from "@/lib/api"
+import { sendOrQueue } from "@/lib/offline"
 
 // Types
 interface InventoryLocation {
@@ -161,39 +164,132 @@ interface InventorySummary {
 
 type TabType = "shopify" | "materials" | "bom" | "alerts"
 
+const tabTypes: TabType[] = ["shopify", "materials", "bom", "alerts"]
+
 const categoryOptions = ["packaging", "ingredient", "component", "supply", "other"]
+const levelSortOptions = ["product_title", "sku", "on_hand", "available", "committed"]
+const sortOrderOptions = ["asc", "desc"] as const
+const viewModeOptions = ["current", "historical"] as const
 const unitOptions = ["unit", "oz", "lb", "ml", "l", "g", "kg", "piece", "roll", "sheet", "box"]
 
-export function InventoryDashboard() {
-  const [activeTab, setActiveTab] = useState<TabType>("shopify")
-  const [loading, setLoading] = useState(false)
+interface InventoryDashboardProps {
+  /** Tab from /inventory/:tab - defaults to Shopify inventory */
+  tab?: string
+  /** Material being edited (from /inventory/materials/:materialId) */
+  materialId?: string
+}
+
+export function InventoryDashboard({ tab, materialId }: InventoryDashboardProps) {
+  const navigate = useNavigate()
+  const activeTab: TabType = materialId ? "materials" : tabTypes.find((t) => t === tab) ?? "shopify"
+  const setActiveTab = (nextTab: TabType) => {
+    navigate(nextTab === "shopify" ? "/inventory" : `/inventory/${nextTab}`)
+  }
   const [syncing, setSyncing] = useState(false)
 
   // Shopify Inventory State
-  const [locations, setLocations] = useState<InventoryLocation[]>([])
-  const [levels, setLevels] = useState<InventoryLevel[]>([])
-  const [selectedLocation, setSelectedLocation] = useState<number | null>(null)
+  const [locationParam, setLocationParam] = useQueryState<string>("location", "", (value) => /^\d+$/.test(value))
+  const selectedLocation = locationParam ? parseInt(locationParam) : null
+  const setSelectedLocation = (locId: number | null) => setLocationParam(locId ? locId.toString() : "")
   const [shopifySearch, setShopifySearch] = useState("")
-  const [shopifyCategories, setShopifyCategories] = useState<InventoryCategory[]>([])
-  const [selectedCategory, setSelectedCategory] = useState<string>("")
-  const [sortBy, setSortBy] = useState<string>("product_title")
-  const [sortOrder, setSortOrder] = useState<"asc" | "desc">("asc")
-  const [shopifySummary, setShopifySummary] = useState<ShopifySummary | null>(null)
+  const [selectedCategory, setSelectedCategory] = useQueryState<string>("category", "")
+  const [sortBy, setSortBy] = useQueryState<string>("sort", "product_title", levelSortOptions)
+  const [sortOrder, setSortOrder] = useQueryState<"asc" | "desc">("order", "asc", sortOrderOptions)
 
   // View mode state
-  const [viewMode, setViewMode] = useState<ViewMode>("current")
-  const [showDiscontinued, setShowDiscontinued] = useState(false)
-  const [availableDates, setAvailableDates] = useState<string[]>([])
-  const [selectedDate, setSelectedDate] = useState<string>("")
-  const [historyRecords, setHistoryRecords] = useState<InventoryHistoryRecord[]>([])
+  const [viewMode, setViewMode] = useQueryState<ViewMode>("view", "current", viewModeOptions)
+  const [discontinuedParam, setDiscontinuedParam] = useQueryState("discontinued", "0", ["0", "1"])
+  const showDiscontinued = discontinuedParam === "1"
+  const setShowDiscontinued = (show: boolean) => setDiscontinuedParam(show ? "1" : "0")
+  const [pickedDate, setSelectedDate] = useState<string>("")
 
   // Raw Materials State
-  const [materials, setMaterials] = useState<RawMaterial[]>([])
   const [materialSearch, setMaterialSearch] = useState("")
+  // Search applied to the list - committed on Enter rather than every keystroke
+  const [submittedMaterialSearch, setSubmittedMaterialSearch] = useState("")
   const [materialCategory, setMaterialCategory] = useState<string>("")
   const [showMaterialModal, setShowMaterialModal] = useState(false)
-  const [editingMaterial, setEditingMaterial] = useState<RawMaterial | null>(null)
   const [materialForm, setMaterialForm] = useState<Partial<RawMaterial>>({})
+  const [materialFormId, setMaterialFormId] = useState<string | null>(null)
+
+  // Each tab only loads what it shows; the summary cards load everywhere
+  const isShopifyTab = activeTab === "shopify"
+  const { data: locationsData } = useApiQuery<{ locations?: InventoryLocation[] }>(
+    isShopifyTab ? `/api/inventory/locations` : null
+  )
+  const { data: categoriesData } = useApiQuery<{ categories?: InventoryCategory[] }>(
+    isShopifyTab ? `/api/inventory/categories` : null
+  )
+  const { data: shopifySummaryData } = useApiQuery<ShopifySummary>(
+    isShopifyTab ? `/api/inventory/shopify-summary` : null
+  )
+  const { data: datesData } = useApiQuery<{ dates?: string[] }>(
+    isShopifyTab ? `/api/inventory/history/dates` : null
+  )
+  const locations = locationsData?.locations || []
+  const shopifyCategories = categoriesData?.categories || []
+  const shopifySummary = shopifySummaryData ?? null
+  const availableDates = datesData?.dates || []
+  // Defaults to the most recent snapshot until a date is picked
+  const selectedDate = pickedDate || availableDates[0] || ""
+
+  const levelParams = new URLSearchParams()
+  if (selectedLocation) levelParams.append("locationId", selectedLocation.toString())
+  if (selectedCategory) levelParams.append("category", selectedCategory)
+  if (sortBy) levelParams.append("sortBy", sortBy)
+  if (sortOrder) levelParams.append("sortOrder", sortOrder)
+  // Only show active items unless showDiscontinued is true
+  levelParams.append("activeOnly", showDiscontinued ? "false" : "true")
+  const levelsQuery = useApiQuery<{ levels?: InventoryLevel[] }>(
+    isShopifyTab && viewMode === "current" ? `/api/inventory/levels?${levelParams}` : null
+  )
+  const levels = levelsQuery.data?.levels || []
+
+  const historyParams = new URLSearchParams({ date: selectedDate })
+  if (selectedCategory) historyParams.append("category", selectedCategory)
+  const historyQuery = useApiQuery<{ history?: InventoryHistoryRecord[] }>(
+    isShopifyTab && viewMode === "historical" && selectedDate ? `/api/inventory/history?${historyParams}` : null
+  )
+  const historyRecords = historyQuery.data?.history || []
+
+  const materialParams = new URLSearchParams()
+  if (materialCategory) materialParams.append("category", materialCategory)
+  if (submittedMaterialSearch) materialParams.append("search", submittedMaterialSearch)
+  const materialsQuery = useApiQuery<{ materials?: RawMaterial[] }>(
+    activeTab === "materials" || activeTab === "bom" ? `/api/inventory/materials?${materialParams}` : null
+  )
+  const materials = materialsQuery.data?.materials || []
+
+  const { data: bomData } = useApiQuery<{ materials?: ProductMaterial[] }>(
+    activeTab === "bom" ? `/api/inventory/bom` : null
+  )
+  const { data: alertsData } = useApiQuery<{ alerts?: InventoryAlert[] }>(
+    activeTab === "alerts" ? `/api/inventory/alerts` : null
+  )
+  const { data: reorderData } = useApiQuery<{ suggestions?: ReorderSuggestion[] }>(
+    activeTab === "alerts" ? `/api/inventory/reorder-suggestions` : null
+  )
+  const { data: summaryData } = useApiQuery<InventorySummary>(`/api/inventory/summary`)
+  const productMaterials = bomData?.materials || []
+  const alerts = alertsData?.alerts || []
+  const reorderSuggestions = reorderData?.suggestions || []
+  const summary = summaryData ?? null
+
+  const loading = levelsQuery.isLoading || historyQuery.isLoading || materialsQuery.isLoading
+
+  // Editing is routed (/inventory/materials/:id) so the edit modal can be linked to
+  const editingMaterial = materialId ? materials.find((m) => m.id === materialId) ?? null : null
+  if (editingMaterial && materialFormId !== editingMaterial.id) {
+    setMaterialFormId(editingMaterial.id)
+    setMaterialForm(editingMaterial)
+  }
+
+  const closeMaterialModal = () => {
+    setShowMaterialModal(false)
+    setMaterialFormId(null)
+    setMaterialForm({})
+    if (materialId) navigate("/inventory/materials")
+  }
 
   // Stock Adjustment Modal
   const [showStockModal, setShowStockModal] = useState(false)
@@ -203,203 +299,22 @@ export function InventoryDashboard() {
   const [stockNotes, setStockNotes] = useState("")
 
   // BOM State
-  const [productMaterials, setProductMaterials] = useState<ProductMaterial[]>([])
   const [showBomModal, setShowBomModal] = useState(false)
   const [bomProductId, setBomProductId] = useState("")
   const [bomVariantId, setBomVariantId] = useState("")
   const [bomMaterialId, setBomMaterialId] = useState("")
   const [bomQuantity, setBomQuantity] = useState("")
 
-  // Alerts State
-  const [alerts, setAlerts] = useState<InventoryAlert[]>([])
-  const [reorderSuggestions, setReorderSuggestions] = useState<ReorderSuggestion[]>([])
-  const [summary, setSummary] = useState<InventorySummary | null>(null)
-
-  // Fetch data based on active tab
-  useEffect(() => {
-    if (activeTab === "shopify") {
-      fetchLocations()
-      fetchShopifyCategories()
-      fetchShopifySummary()
-      fetchAvailableDates()
-      if (viewMode === "current") {
-        fetchLevels()
-      }
-    } else if (activeTab === "materials") {
-      fetchMaterials()
-    } else if (activeTab === "bom") {
-      fetchProductMaterials()
-      fetchMaterials()
-    } else if (activeTab === "alerts") {
-      fetchAlerts()
-      fetchReorderSuggestions()
-    }
-    fetchSummary()
-  }, [activeTab])
-
-  // Re-fetch levels when filters change (current view)
-  useEffect(() => {
-    if (activeTab === "shopify" && viewMode === "current") {
-      fetchLevels()
-    }
-  }, [selectedLocation, selectedCategory, sortBy, sortOrder, showDiscontinued])
-
-  // Fetch history when date or view mode changes
-  useEffect(() => {
-    if (activeTab === "shopify" && viewMode === "historical" && selectedDate) {
-      fetchHistoryRecords()
-    }
-  }, [viewMode, selectedDate, selectedCategory])
-
-  // Fetch functions
-  const fetchLocations = async () => {
-    try {
-      const res = await apiFetch(`/api/inventory/locations`)
-      const data = await res.json()
-      setLocations(data.locations || [])
-    } catch (error) {
-      console.error("Failed to fetch locations:", error)
-    }
-  }
-
-  const fetchLevels = async () => {
-    setLoading(true)
-    try {
-      const params = new URLSearchParams()
-      if (selectedLocation) params.append("locationId", selectedLocation.toString())
-      if (selectedCategory) params.append("category", selectedCategory)
-      if (sortBy) params.append("sortBy", sortBy)
-      if (sortOrder) params.append("sortOrder", sortOrder)
-      // Only show active items unless showDiscontinued is true
-      if (!showDiscontinued) params.append("activeOnly", "true")
-      else params.append("activeOnly", "false")
-      const res = await apiFetch(`/api/inventory/levels?${params}`)
-      const data = await res.json()
-      setLevels(data.levels || [])
-    } catch (error) {
-      console.error("Failed to fetch levels:", error)
-    } finally {
-      setLoading(false)
-    }
-  }
-
-  const fetchShopifyCategories = async () => {
-    try {
-      const res = await apiFetch(`/api/inventory/categories`)
-      const data = await res.json()
-      setShopifyCategories(data.categories || [])
-    } catch (error) {
-      console.error("Failed to fetch categories:", error)
-    }
-  }
-
-  const fetchShopifySummary = async () => {
-    try {
-      const res = await apiFetch(`/api/inventory/shopify-summary`)
-      const data = await res.json()
-      setShopifySummary(data)
-    } catch (error) {
-      console.error("Failed to fetch shopify summary:", error)
-    }
-  }
-
-  const fetchAvailableDates = async () => {
-    try {
-      const res = await apiFetch(`/api/inventory/history/dates`)
-      const data = await res.json()
-      setAvailableDates(data.dates || [])
-      // Auto-select the most recent date if none selected
-      if (data.dates?.length > 0 && !selectedDate) {
-        setSelectedDate(data.dates[0])
-      }
-    } catch (error) {
-      console.error("Failed to fetch available dates:", error)
-    }
-  }
-
-  const fetchHistoryRecords = async () => {
-    if (!selectedDate) return
-    setLoading(true)
-    try {
-      const params = new URLSearchParams()
-      params.append("date", selectedDate)
-      if (selectedCategory) params.append("category", selectedCategory)
-      const res = await apiFetch(`/api/inventory/history?${params}`)
-      const data = await res.json()
-      setHistoryRecords(data.history || [])
-    } catch (error) {
-      console.error("Failed to fetch history:", error)
-    } finally {
-      setLoading(false)
-    }
-  }
-
-  const fetchMaterials = async () => {
-    setLoading(true)
-    try {
-      const params = new URLSearchParams()
-      if (materialCategory) params.append("category", materialCategory)
-      if (materialSearch) params.append("search", materialSearch)
-      const res = await apiFetch(`/api/inventory/materials?${params}`)
-      const data = await res.json()
-      setMaterials(data.materials || [])
-    } catch (error) {
-      console.error("Failed to fetch materials:", error)
-    } finally {
-      setLoading(false)
-    }
-  }
-
-  const fetchProductMaterials = async () => {
-    try {
-      const res = await apiFetch(`/api/inventory/bom`)
-      const data = await res.json()
-      setProductMaterials(data.materials || [])
-    } catch (error) {
-      console.error("Failed to fetch BOM:", error)
-    }
-  }
-
-  const fetchAlerts = async () => {
-    try {
-      const res = await apiFetch(`/api/inventory/alerts`)
-      const data = await res.json()
-      setAlerts(data.alerts || [])
-    } catch (error) {
-      console.error("Failed to fetch alerts:", error)
-    }
-  }
-
-  const fetchReorderSuggestions = async () => {
-    try {
-      const res = await apiFetch(`/api/inventory/reorder-suggestions`)
-      const data = await res.json()
-      setReorderSuggestions(data.suggestions || [])
-    } catch (error) {
-      console.error("Failed to fetch reorder suggestions:", error)
-    }
-  }
-
-  const fetchSummary = async () => {
-    try {
-      const res = await apiFetch(`/api/inventory/summary`)
-      const data = await res.json()
-      setSummary(data)
-    } catch (error) {
-      console.error("Failed to fetch summary:", error)
-    }
-  }
+  // Refetch every inventory list on screen after a change (writes replayed
+  // from the offline queue are picked up by the sync's own invalidation)
+  const refreshInventory = () => invalidateQueries("/api/inventory")
 
   // Sync Shopify Inventory
   const syncShopifyInventory = async () => {
     setSyncing(true)
     try {
       await apiFetch(`/api/inventory/sync-shopify`, { method: "POST" })
-      await fetchLocations()
-      await fetchLevels()
-      await fetchShopifyCategories()
-      await fetchShopifySummary()
-      await fetchSummary()
+      refreshInventory()
     } catch (error) {
       console.error("Failed to sync Shopify inventory:", error)
     } finally {
@@ -423,11 +338,8 @@ export function InventoryDashboard() {
           body: JSON.stringify(materialForm),
         })
       }
-      setShowMaterialModal(false)
-      setEditingMaterial(null)
-      setMaterialForm({})
-      fetchMaterials()
-      fetchSummary()
+      closeMaterialModal()
+      refreshInventory()
     } catch (error) {
       console.error("Failed to save material:", error)
     }
@@ -437,8 +349,7 @@ export function InventoryDashboard() {
     if (!confirm("Are you sure you want to delete this material?")) return
     try {
       await apiFetch(`/api/inventory/materials/${id}`, { method: "DELETE" })
-      fetchMaterials()
-      fetchSummary()
+      refreshInventory()
     } catch (error) {
       console.error("Failed to delete material:", error)
     }
@@ -449,20 +360,25 @@ export function InventoryDashboard() {
     if (!stockMaterial || !stockQuantity) return
     try {
       const endpoint = stockAction === "add" ? "add-stock" : stockAction === "deduct" ? "deduct-stock" : "adjust-stock"
-      await apiFetch(`/api/inventory/materials/${stockMaterial.id}/${endpoint}`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          quantity: parseFloat(stockQuantity),
-          notes: stockNotes,
-        }),
-      })
+      const label = stockAction === "add" ? "Add stock" : stockAction === "deduct" ? "Deduct stock" : "Set stock"
+      const res = await sendOrQueue(
+        `/api/inventory/materials/${stockMaterial.id}/${endpoint}`,
+        {
+          method: "POST",
+          body: JSON.stringify({
+            quantity: parseFloat(stockQuantity),
+            notes: stockNotes,
+          }),
+        },
+        `${label}: ${stockMaterial.name}`
+      )
       setShowStockModal(false)
       setStockMaterial(null)
       setStockQuantity("")
       setStockNotes("")
-      fetchMaterials()
-      fetchSummary()
+      // Queued while offline - the lists refresh once the write is replayed
+      if (!res) return
+      refreshInventory()
     } catch (error) {
       console.error("Failed to adjust stock:", error)
     }
@@ -487,7 +403,7 @@ export function InventoryDashboard() {
       setBomVariantId("")
       setBomMaterialId("")
       setBomQuantity("")
-      fetchProductMaterials()
+      refreshInventory()
     } catch (error) {
       console.error("Failed to add BOM entry:", error)
     }
@@ -500,7 +416,7 @@ export function InventoryDashboard() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ productId, materialId, variantId }),
       })
-      fetchProductMaterials()
+      refreshInventory()
     } catch (error) {
       console.error("Failed to delete BOM entry:", error)
     }
@@ -978,16 +894,13 @@ export function InventoryDashboard() {
                   placeholder="Search materials..."
                   value={materialSearch}
                   onChange={(e) => setMaterialSearch(e.target.value)}
-                  onKeyDown={(e) => e.key === "Enter" && fetchMaterials()}
+                  onKeyDown={(e) => e.key === "Enter" && setSubmittedMaterialSearch(materialSearch)}
                   className="pl-9 pr-4 py-2 text-sm border rounded-lg bg-background w-64"
                 />
               </div>
               <select
                 value={materialCategory}
-                onChange={(e) => {
-                  setMaterialCategory(e.target.value)
-                  setTimeout(fetchMaterials, 0)
-                }}
+                onChange={(e) => setMaterialCategory(e.target.value)}
                 className="px-3 py-2 text-sm border rounded-lg bg-background"
               >
                 <option value="">All Categories</option>
@@ -999,7 +912,6 @@ export function InventoryDashboard() {
               </select>
               <Button
                 onClick={() => {
-                  setEditingMaterial(null)
                   setMaterialForm({ category: "other", unit: "unit" })
                   setShowMaterialModal(true)
                 }}
@@ -1071,11 +983,7 @@ export function InventoryDashboard() {
                               <Plus size={14} />
                             </button>
                             <button
-                              onClick={() => {
-                                setEditingMaterial(material)
-                                setMaterialForm(material)
-                                setShowMaterialModal(true)
-                              }}
+                              onClick={() => navigate(`/inventory/materials/${encodeURIComponent(material.id)}`)}
                               className="p-1.5 hover:bg-blue-500/10 rounded text-blue-500"
                               title="Edit"
                             >
@@ -1265,7 +1173,7 @@ export function InventoryDashboard() {
       )}
 
       {/* Material Add/Edit Modal */}
-      {showMaterialModal && (
+      {(showMaterialModal || editingMaterial) && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
           <div className="bg-background border rounded-xl shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto m-4">
             <div className="sticky top-0 bg-background border-b px-6 py-4 flex items-center justify-between">
@@ -1273,11 +1181,7 @@ export function InventoryDashboard() {
                 {editingMaterial ? "Edit Material" : "Add New Material"}
               </h2>
               <button
-                onClick={() => {
-                  setShowMaterialModal(false)
-                  setEditingMaterial(null)
-                  setMaterialForm({})
-                }}
+                onClick={closeMaterialModal}
                 className="p-1 hover:bg-muted rounded"
               >
                 <X size={20} />
@@ -1433,11 +1337,7 @@ export function InventoryDashboard() {
             <div className="border-t px-6 py-4 flex justify-end gap-3">
               <Button
                 variant="outline"
-                onClick={() => {
-                  setShowMaterialModal(false)
-                  setEditingMaterial(null)
-                  setMaterialForm({})
-                }}
+                onClick={closeMaterialModal}
               >
                 Cancel
               </Button>
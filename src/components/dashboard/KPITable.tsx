@@ -16,6 +16,7 @@ import {
   MoreHorizontal,
 } from "lucide-react"
 import { apiFetch } from "@/lib/api"
+import { getNumberFormat } from "@/lib/utils"
 
 interface DailyKPIRow {
   date: string
@@ -104,9 +105,9 @@ export function KPITable({ refreshKey }: KPITableProps) {
   }
 
   const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat("en-US", {
+    return new Intl.NumberFormat(getNumberFormat().locale, {
       style: "currency",
-      currency: "USD",
+      currency: getNumberFormat().currency,
       minimumFractionDigits: 0,
       maximumFractionDigits: 0,
     }).format(value)
@@ -0,0 +1,173 @@
+import { GroupedMetricCard } from "./GroupedMetricCard"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  Megaphone,
+  Mail,
+  Loader2,
+  ArrowRight,
+  TrendingUp,
+} from "lucide-react"
+import {
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  AreaChart,
+  Area,
+  Legend,
+} from "recharts"
+import { formatDateRangeLabel, type DateRangeValue } from "@/lib/date-range-labels"
+import type { DailyMetric, EmailRevenueData, OverviewMetrics } from "@/lib/api-types"
+import { useApiQuery } from "@/hooks/useApiQuery"
+import { formatDateForDisplay, resolveDateRange, toApiRange } from "@/lib/date-utils"
+import { getNumberFormat } from "@/lib/utils"
+
+interface MarketingDashboardProps {
+  dateRange: DateRangeValue
+  refreshKey: number
+}
+
+/**
+ * Blended marketing view - paid social and email side by side, with links
+ * into the Meta and Email dashboards for channel detail
+ */
+export function MarketingDashboard({ dateRange, refreshKey }: MarketingDashboardProps) {
+  const encodedRange = toApiRange(dateRange)
+  const { start, end } = resolveDateRange(dateRange)
+  const dateLabel = formatDateRangeLabel(dateRange)
+
+  const { data: metrics, isLoading: metricsLoading } = useApiQuery<OverviewMetrics>(
+    `/api/metrics/overview?range=${encodedRange}`,
+    { refreshKey }
+  )
+  const { data: emailRevenue, isLoading: emailLoading } = useApiQuery<EmailRevenueData>(
+    `/api/omnisend/revenue?startDate=${start}&endDate=${end}`,
+    { refreshKey }
+  )
+  const { data: dailyMetrics } = useApiQuery<DailyMetric[]>(
+    `/api/metrics/daily-metrics?range=${encodedRange}`,
+    { refreshKey }
+  )
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat(getNumberFormat().locale, {
+      style: "currency",
+      currency: getNumberFormat().currency,
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(value)
+  }
+
+  if (metricsLoading || emailLoading) {
+    return (
+      <div className="flex h-96 items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  const adSpend = metrics?.adSpend || 0
+  const netSales = metrics?.netSales || 0
+  const mer = metrics?.mer || 0
+  const acquisitionMer = metrics?.acquisitionMer || 0
+  const cac = metrics?.cac || 0
+  const newCustomers = metrics?.newCustomers || 0
+
+  const emailTotal = emailRevenue?.totalRevenue || 0
+  const emailOrders = emailRevenue?.orderCount || 0
+  const emailAov = emailRevenue?.averageOrderValue || 0
+  const emailShare = netSales > 0 ? (emailTotal / netSales) * 100 : 0
+
+  // Daily spend against sales, oldest first
+  const chartData = [...(dailyMetrics || [])]
+    .sort((a, b) => a.dateRaw.localeCompare(b.dateRaw))
+    .map((d) => ({ date: d.dateRaw, netSales: d.netSales, adSpend: d.adSpend }))
+
+  return (
+    <div className="space-y-6">
+      {/* Channel cards */}
+      <div className="grid gap-6 lg:grid-cols-2">
+        <GroupedMetricCard
+          title="Paid Social"
+          icon={<Megaphone size={18} />}
+          heroMetric={{
+            label: "Ad Spend",
+            value: formatCurrency(adSpend),
+            sublabel: dateLabel,
+          }}
+          metrics={[
+            { label: "MER", value: `${mer.toFixed(2)}x`, formula: "Net Sales ÷ Ad Spend" },
+            { label: "aMER", value: `${acquisitionMer.toFixed(2)}x`, formula: "New Customer Revenue ÷ Ad Spend" },
+            { label: "CAC", value: formatCurrency(cac), formula: "Ad Spend ÷ New Customers" },
+            { label: "New Customers", value: newCustomers.toLocaleString() },
+          ]}
+          columns={2}
+        />
+
+        <GroupedMetricCard
+          title="Email & SMS"
+          icon={<Mail size={18} />}
+          heroMetric={{
+            label: "Attributed Revenue",
+            value: formatCurrency(emailTotal),
+            sublabel: `${emailShare.toFixed(1)}% of Net Sales`,
+          }}
+          metrics={[
+            { label: "Orders", value: emailOrders.toLocaleString() },
+            { label: "AOV", value: formatCurrency(emailAov) },
+          ]}
+          columns={2}
+        />
+      </div>
+
+      {/* Spend vs sales */}
+      {chartData.length > 1 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-base">
+              <TrendingUp size={18} />
+              Ad Spend vs Net Sales
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="h-[300px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <AreaChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                  <XAxis dataKey="date" tickFormatter={formatDateForDisplay} className="text-xs" />
+                  <YAxis className="text-xs" tickFormatter={(v) => `$${Number(v).toLocaleString()}`} />
+                  <Tooltip
+                    formatter={(value, name) => [formatCurrency(Number(value) || 0), name]}
+                    labelFormatter={formatDateForDisplay}
+                  />
+                  <Legend />
+                  <Area type="monotone" dataKey="netSales" name="Net Sales" stroke="#10b981" fill="#10b981" fillOpacity={0.1} />
+                  <Area type="monotone" dataKey="adSpend" name="Ad Spend" stroke="#6366f1" fill="#6366f1" fillOpacity={0.1} />
+                </AreaChart>
+              </ResponsiveContainer>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Channel drill-down */}
+      <div className="grid gap-4 sm:grid-cols-2">
+        <a href="/meta" className="flex items-center justify-between rounded-xl border p-4 transition-colors hover:bg-muted">
+          <div className="flex items-center gap-3">
+            <Megaphone size={18} className="text-rh-accent" />
+            <span className="font-medium">Meta Ads</span>
+          </div>
+          <ArrowRight size={16} className="text-muted-foreground" />
+        </a>
+        <a href="/email" className="flex items-center justify-between rounded-xl border p-4 transition-colors hover:bg-muted">
+          <div className="flex items-center gap-3">
+            <Mail size={18} className="text-rh-accent" />
+            <span className="font-medium">Email & SMS</span>
+          </div>
+          <ArrowRight size={16} className="text-muted-foreground" />
+        </a>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,102 @@
+import { useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Loader2, PieChart } from "lucide-react"
+import type { MetaBreakdown, MetaBreakdownResponse } from "@/lib/api-types"
+import { useApiQuery } from "@/hooks/useApiQuery"
+import { formatCurrency } from "@/lib/date-utils"
+
+interface MetaBreakdownTabsProps {
+  level: "campaign" | "ad"
+  entityId: string
+  datePreset: string
+  attribution: string
+}
+
+const BREAKDOWN_TABS: { value: MetaBreakdown; label: string }[] = [
+  { value: "age", label: "Age" },
+  { value: "gender", label: "Gender" },
+  { value: "region", label: "Region" },
+  { value: "publisher_platform", label: "Platform" },
+  { value: "platform_position", label: "Placement" },
+]
+
+/**
+ * Spend, ROAS, CPA and CTR for a campaign or ad split by audience and placement
+ */
+export function MetaBreakdownTabs({ level, entityId, datePreset, attribution }: MetaBreakdownTabsProps) {
+  const [breakdown, setBreakdown] = useState<MetaBreakdown>("age")
+
+  const params = new URLSearchParams({ level, id: entityId, breakdown, datePreset, attribution })
+  const { data, error, isLoading } = useApiQuery<MetaBreakdownResponse>(`/api/meta/breakdowns?${params}`)
+  const rows = data?.rows ?? []
+  const totalSpend = rows.reduce((sum, row) => sum + row.spend, 0)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-sm">
+          <PieChart className="h-4 w-4 text-muted-foreground" />
+          Breakdowns
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex gap-1 overflow-x-auto rounded-lg bg-muted p-1">
+          {BREAKDOWN_TABS.map((tab) => (
+            <button
+              key={tab.value}
+              onClick={() => setBreakdown(tab.value)}
+              className={`shrink-0 rounded-md px-3 py-1 text-xs font-medium transition-all ${
+                breakdown === tab.value ? "bg-background text-foreground shadow-sm" : "text-muted-foreground hover:text-foreground"
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : error || rows.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            {error ? "Couldn't load this breakdown" : "No delivery in this period"}
+          </p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-xs text-muted-foreground">
+                <th className="py-2 text-left font-medium">Segment</th>
+                <th className="py-2 text-right font-medium">Spend</th>
+                <th className="py-2 text-right font-medium">ROAS</th>
+                <th className="py-2 text-right font-medium">CPA</th>
+                <th className="py-2 text-right font-medium">CTR</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.value} className="border-b last:border-0">
+                  <td className="py-2">
+                    <p className="font-medium">{row.label}</p>
+                    <div className="mt-1 h-1 w-full max-w-[120px] rounded-full bg-muted">
+                      <div
+                        className="h-1 rounded-full bg-rh-accent"
+                        style={{ width: `${totalSpend > 0 ? (row.spend / totalSpend) * 100 : 0}%` }}
+                      />
+                    </div>
+                  </td>
+                  <td className="py-2 text-right tabular-nums">{formatCurrency(row.spend)}</td>
+                  <td className={`py-2 text-right tabular-nums font-medium ${row.roas >= 1 ? "text-rh-positive" : "text-rh-negative"}`}>
+                    {row.roas.toFixed(2)}x
+                  </td>
+                  <td className="py-2 text-right tabular-nums">{row.purchases > 0 ? formatCurrency(row.cpa) : "—"}</td>
+                  <td className="py-2 text-right tabular-nums">{row.ctr.toFixed(2)}%</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
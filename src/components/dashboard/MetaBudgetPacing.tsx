@@ -0,0 +1,206 @@
+import { useMemo } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Gauge, Loader2 } from "lucide-react"
+import { useApiQuery } from "@/hooks/useApiQuery"
+import { useSettings } from "@/hooks/useSettings"
+import { formatCurrency } from "@/lib/date-utils"
+import {
+  PACING_THRESHOLD_OPTIONS,
+  getAccountPacing,
+  getCampaignPacing,
+  getMonthProgress,
+} from "@/lib/meta-pacing"
+import type { PacingStatus } from "@/lib/meta-pacing"
+
+// Only the fields pacing needs from /api/meta/entities
+interface BudgetEntity {
+  id: string
+  name: string
+  status: string
+  campaignId?: string
+  dailyBudget: number
+  metrics: { spend: number }
+}
+
+interface MetaBudgetPacingProps {
+  attribution: string
+  onSelectCampaign: (campaignId: string) => void
+}
+
+const PACING_BADGES: Record<PacingStatus, { label: string; className: string }> = {
+  on_track: { label: "On track", className: "bg-rh-positive/10 text-rh-positive" },
+  under: { label: "Under-delivering", className: "bg-yellow-100 text-yellow-700" },
+  over: { label: "Over-delivering", className: "bg-rh-negative/10 text-rh-negative" },
+  no_budget: { label: "No daily budget", className: "bg-muted text-muted-foreground" },
+}
+
+/**
+ * Today and month-to-date spend against each campaign's daily budget, with a
+ * month-end projection
+ */
+export function MetaBudgetPacing({ attribution, onSelectCampaign }: MetaBudgetPacingProps) {
+  const { settings, updateSettings } = useSettings()
+  const threshold = settings.pacingThreshold
+
+  const query = (datePreset: string, level: string) =>
+    `/api/meta/entities?${new URLSearchParams({ datePreset, attribution, level, limit: "200" })}`
+  const { data: today, isLoading: todayLoading } = useApiQuery<{ data: BudgetEntity[] }>(query("today", "campaign"))
+  const { data: month, isLoading: monthLoading } = useApiQuery<{ data: BudgetEntity[] }>(query("this_month", "campaign"))
+  // Campaigns without a budget of their own spend against their ad sets' budgets
+  const { data: adsets } = useApiQuery<{ data: BudgetEntity[] }>(query("this_month", "adset"))
+
+  const campaigns = useMemo(() => {
+    if (!month) return []
+    const progress = getMonthProgress()
+    const todaySpend = new Map((today?.data ?? []).map((c) => [c.id, c.metrics.spend]))
+    const adsetBudgets = new Map<string, number>()
+    for (const adset of adsets?.data ?? []) {
+      if (adset.status !== "ACTIVE" || !adset.campaignId) continue
+      adsetBudgets.set(adset.campaignId, (adsetBudgets.get(adset.campaignId) ?? 0) + adset.dailyBudget)
+    }
+
+    return month.data
+      .map((c) =>
+        getCampaignPacing(
+          {
+            id: c.id,
+            name: c.name,
+            status: c.status,
+            dailyBudget: c.dailyBudget || adsetBudgets.get(c.id) || 0,
+            todaySpend: todaySpend.get(c.id) ?? 0,
+            monthSpend: c.metrics.spend,
+          },
+          threshold,
+          progress
+        )
+      )
+      .sort((a, b) => Math.abs(b.deviation ?? 0) - Math.abs(a.deviation ?? 0))
+  }, [today, month, adsets, threshold])
+
+  const account = getAccountPacing(campaigns)
+  const active = campaigns.filter((c) => c.status === "ACTIVE")
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <Gauge className="h-5 w-5 text-rh-accent" />
+            Budget Pacing
+            {account.flagged > 0 && (
+              <span className="ml-2 rounded-full bg-rh-negative/10 px-2 py-0.5 text-xs font-medium text-rh-negative">
+                {account.flagged} off pace
+              </span>
+            )}
+          </CardTitle>
+          <label className="flex items-center gap-2 text-xs text-muted-foreground">
+            Flag beyond
+            <select
+              value={threshold}
+              onChange={(e) => updateSettings({ pacingThreshold: Number(e.target.value) }).catch((err) => {
+                console.error("Failed to save pacing threshold:", err)
+              })}
+              className="h-7 rounded-md border bg-background px-2 text-xs"
+            >
+              {PACING_THRESHOLD_OPTIONS.map((value) => (
+                <option key={value} value={value}>±{value}%</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {todayLoading || monthLoading ? (
+          <div className="flex h-32 items-center justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            {/* Account summary */}
+            <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">Today</p>
+                <p className="text-lg font-semibold">{formatCurrency(account.todaySpend)}</p>
+                <p className="text-xs text-muted-foreground">of {formatCurrency(account.todayExpected)} expected so far</p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">Month to date</p>
+                <p className="text-lg font-semibold">{formatCurrency(account.monthSpend)}</p>
+                <p className="text-xs text-muted-foreground">of {formatCurrency(account.monthExpected)} expected so far</p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">Projected month-end</p>
+                <p className="text-lg font-semibold">{formatCurrency(account.projectedMonthSpend)}</p>
+                <p className="text-xs text-muted-foreground">vs {formatCurrency(account.monthBudget)} budgeted</p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">Account pace</p>
+                <p className={`text-lg font-semibold ${
+                  account.deviation === null || Math.abs(account.deviation) <= threshold
+                    ? ""
+                    : account.deviation > 0 ? "text-rh-negative" : "text-yellow-600"
+                }`}>
+                  {account.deviation === null ? "—" : `${account.deviation > 0 ? "+" : ""}${account.deviation.toFixed(0)}%`}
+                </p>
+                <p className="text-xs text-muted-foreground">vs budget month to date</p>
+              </div>
+            </div>
+
+            {/* Per campaign */}
+            {active.length === 0 ? (
+              <p className="py-4 text-center text-sm text-muted-foreground">No active campaigns</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-xs text-muted-foreground">
+                      <th className="py-2 text-left font-medium">Campaign</th>
+                      <th className="py-2 text-right font-medium">Daily budget</th>
+                      <th className="py-2 text-right font-medium">Today</th>
+                      <th className="py-2 text-right font-medium">Month to date</th>
+                      <th className="py-2 text-right font-medium">Projected</th>
+                      <th className="py-2 text-right font-medium">Pace</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {active.map((c) => (
+                      <tr
+                        key={c.id}
+                        onClick={() => onSelectCampaign(c.id)}
+                        className="cursor-pointer border-b last:border-0 hover:bg-gray-50"
+                      >
+                        <td className="max-w-[220px] truncate py-2 font-medium">{c.name}</td>
+                        <td className="py-2 text-right tabular-nums">{c.dailyBudget !== null ? formatCurrency(c.dailyBudget) : "—"}</td>
+                        <td className="py-2 text-right tabular-nums">{formatCurrency(c.todaySpend)}</td>
+                        <td className="py-2 text-right tabular-nums">
+                          {formatCurrency(c.monthSpend)}
+                          {c.monthExpected > 0 && (
+                            <span className="block text-xs text-muted-foreground">of {formatCurrency(c.monthExpected)}</span>
+                          )}
+                        </td>
+                        <td className="py-2 text-right tabular-nums">
+                          {formatCurrency(c.projectedMonthSpend)}
+                          {c.monthBudget > 0 && (
+                            <span className="block text-xs text-muted-foreground">of {formatCurrency(c.monthBudget)}</span>
+                          )}
+                        </td>
+                        <td className="py-2 text-right">
+                          <span className={`whitespace-nowrap rounded px-2 py-0.5 text-xs font-medium ${PACING_BADGES[c.pacing].className}`}>
+                            {c.deviation !== null && c.pacing !== "on_track"
+                              ? `${c.deviation > 0 ? "+" : ""}${c.deviation.toFixed(0)}% · `
+                              : ""}
+                            {PACING_BADGES[c.pacing].label}
+                          </span>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -32,6 +32,9 @@ import {
   TrendingDown,
   Percent,
   Activity,
+  BatteryLow,
+  Columns3,
+  ListTree,
 } from "lucide-react"
 import {
   Line,
@@ -45,6 +48,35 @@ import {
   Legend,
 } from "recharts"
 import { apiFetch } from "@/lib/api"
+import { useNavigate, useQueryState } from "@/hooks/useRouter"
+import { getNumberFormat } from "@/lib/utils"
+import { formatDateForDisplay, formatDateWithWeekday, resolveDateRange } from "@/lib/date-utils"
+import { formatYoYValue } from "@/lib/yoy"
+import type { YoYMetric } from "@/lib/yoy"
+import { useYoYComparison } from "@/hooks/useYoYComparison"
+import { YoYComparisonChart } from "@/components/YoYComparisonChart"
+import { useApiQuery } from "@/hooks/useApiQuery"
+import type { AdDailyInsightsResponse, MetaAttributionResponse } from "@/lib/api-types"
+import { FATIGUE_LOOKBACK_DAYS, scoreAdsFatigue } from "@/lib/meta-fatigue"
+import { AdFatigueChart } from "./AdFatigueChart"
+import { MetaBreakdownTabs } from "./MetaBreakdownTabs"
+import { MetaBudgetPacing } from "./MetaBudgetPacing"
+import { MetaRulesPanel } from "./MetaRulesPanel"
+import { COMPARISON_WINDOWS, getViewThroughShare, sumAttributionWindows } from "@/lib/meta-attribution"
+import { AttributionWindowComparison } from "./AttributionWindowComparison"
+import { MetaShopifyReconciliation } from "./MetaShopifyReconciliation"
+import { CampaignTableViews } from "./CampaignTableViews"
+import { AdComparison } from "./AdComparison"
+import { MetaHierarchyExplorer } from "./MetaHierarchyExplorer"
+import { AdTagEditor } from "./AdTagEditor"
+import { CreativeTagPerformance } from "./CreativeTagPerformance"
+import { useAdTags } from "@/hooks/useAdTags"
+import { TAG_DIMENSIONS, resolveAdTags } from "@/lib/creative-tags"
+import type { AdTags, TagDimension } from "@/lib/creative-tags"
+import { useSavedViews } from "@/hooks/useSavedViews"
+import { DEFAULT_CAMPAIGN_COLUMNS, METRIC_KEYS, resolveColumn, resolveColumns, totalMetrics } from "@/lib/meta-columns"
+import type { ColumnFormat, ComputedColumn, MetaMetricKey } from "@/lib/meta-columns"
+import type { CampaignTableLayout } from "@/lib/meta-views"
 
 // Types
 interface MetaMetrics {
@@ -124,7 +156,7 @@ interface OverviewData {
 }
 
 type DatePreset = "today" | "yesterday" | "last_7d" | "last_14d" | "last_30d" | "last_60d" | "last_90d" | "this_month" | "last_month"
-type Attribution = "1d_click" | "7d_click" | "28d_click" | "1d_view" | "7d_view"
+type Attribution = "1d_click" | "7d_click" | "28d_click" | "1d_view" | "7d_view" | "7d_click_1d_view"
 type Level = "account" | "campaign" | "adset" | "ad"
 type SortField = "spend" | "roas" | "purchases" | "cpm" | "ctr" | "cpc"
 type ChartMetric = "revenue_spend" | "mer" | "amer" | "cpa" | "roas" | "purchases" | "ctr" | "cpm" | "performance" | "yoy_comparison"
@@ -148,6 +180,7 @@ const ATTRIBUTION_WINDOWS: { value: Attribution; label: string }[] = [
   { value: "28d_click", label: "28-Day Click" },
   { value: "1d_view", label: "1-Day View" },
   { value: "7d_view", label: "7-Day View" },
+  { value: "7d_click_1d_view", label: "7-Day Click + 1-Day View" },
 ]
 
 const SORT_OPTIONS: { value: SortField; label: string }[] = [
@@ -161,7 +194,7 @@ const SORT_OPTIONS: { value: SortField; label: string }[] = [
 
 const CHART_METRICS: { value: ChartMetric; label: string; description: string }[] = [
   { value: "revenue_spend", label: "Revenue vs Spend", description: "Compare revenue to ad spend" },
-  { value: "yoy_comparison", label: "2025 vs 2026", description: "Year-over-year comparison by calendar day" },
+  { value: "yoy_comparison", label: "Year over Year", description: "Spend, revenue, ROAS or purchases against another year" },
   { value: "performance", label: "Performance Overview", description: "CPA, ROAS, CTR & Purchases combined" },
   { value: "mer", label: "MER", description: "Marketing Efficiency Ratio" },
   { value: "amer", label: "aMER (7-day)", description: "7-day rolling average MER" },
@@ -172,6 +205,14 @@ const CHART_METRICS: { value: ChartMetric; label: string; description: string }[
   { value: "cpm", label: "CPM", description: "Cost Per 1000 Impressions" },
 ]
 
+// Metrics the year-over-year chart can compare
+const YOY_METRICS: YoYMetric<TimeSeriesPoint>[] = [
+  { value: "spend", label: "Spend", numerator: (d) => d.spend, format: "currency" },
+  { value: "revenue", label: "Revenue", numerator: (d) => d.revenue, format: "currency" },
+  { value: "roas", label: "ROAS", numerator: (d) => d.revenue, denominator: (d) => d.spend, format: "ratio" },
+  { value: "purchases", label: "Purchases", numerator: (d) => d.purchases, format: "number" },
+]
+
 const CHART_TIME_RANGES: { value: ChartTimeRange; label: string }[] = [
   { value: 7, label: "7D" },
   { value: 14, label: "14D" },
@@ -180,48 +221,91 @@ const CHART_TIME_RANGES: { value: ChartTimeRange; label: string }[] = [
   { value: 90, label: "90D" },
 ]
 
-export function MetaDashboard() {
-  // Global state
-  const [datePreset, setDatePreset] = useState<DatePreset>("today")
-  const [attribution, setAttribution] = useState<Attribution>("7d_click")
+const DATE_PRESET_VALUES = DATE_PRESETS.map((preset) => preset.value)
+const ATTRIBUTION_VALUES = ATTRIBUTION_WINDOWS.map((attr) => attr.value)
+const SORT_FIELD_VALUES = SORT_OPTIONS.map((option) => option.value)
+const CHART_METRIC_VALUES = CHART_METRICS.map((metric) => metric.value)
+const CHART_TIME_RANGE_VALUES = CHART_TIME_RANGES.map((range) => String(range.value))
+const SORT_DIRECTION_VALUES = ["asc", "desc"] as const
+const VIEW_MODE_VALUES = ["grid", "list", "tree"] as const
+const MAX_COMPARED_ADS = 4
+const isMetricKey = (value: string): value is MetaMetricKey => METRIC_KEYS.includes(value as MetaMetricKey)
+// Any metric, or a computed column (which may only exist in a saved view)
+const isCampaignSortField = (value: string) => isMetricKey(value) || value.startsWith("computed:")
+
+interface MetaDashboardProps {
+  /** Campaign whose detail drawer is open (from /meta/campaigns/:campaignId) */
+  campaignId?: string
+  /** Ad whose detail drawer is open (from /meta/ads/:adId) */
+  adId?: string
+}
+
+export function MetaDashboard({ campaignId, adId }: MetaDashboardProps) {
+  const navigate = useNavigate()
+
+  // Global state - filters live in the URL so a view can be shared
+  const [datePreset, setDatePreset] = useQueryState<DatePreset>("preset", "today", DATE_PRESET_VALUES)
+  const [attribution, setAttribution] = useQueryState<Attribution>("attribution", "7d_click", ATTRIBUTION_VALUES)
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   const [_level, _setLevel] = useState<Level>("ad")
 
   // Data state
-  const [overview, setOverview] = useState<OverviewData | null>(null)
-  const [campaigns, setCampaigns] = useState<Campaign[]>([])
-  const [ads, setAds] = useState<AdCard[]>([])
-  const [loading, setLoading] = useState(true)
-  const [campaignsLoading, setCampaignsLoading] = useState(false)
-  const [adsLoading, setAdsLoading] = useState(false)
-  const [configured, setConfigured] = useState(true)
-  const [lastUpdated, setLastUpdated] = useState<Date | null>(null)
+  const [refreshing, setRefreshing] = useState(false)
 
   // Campaigns table state
-  const [campaignSortField, setCampaignSortField] = useState<SortField>("spend")
-  const [campaignSortDirection, setCampaignSortDirection] = useState<"asc" | "desc">("desc")
+  const [campaignSortField, setCampaignSortField] = useQueryState<string>("campaign_sort", "spend", isCampaignSortField)
+  const [campaignSortDirection, setCampaignSortDirection] = useQueryState<"asc" | "desc">(
+    "campaign_dir",
+    "desc",
+    SORT_DIRECTION_VALUES
+  )
   const [expandedCampaigns, setExpandedCampaigns] = useState<Set<string>>(new Set())
   const [campaignsCollapsed, setCampaignsCollapsed] = useState(false)
   const [adsCollapsed, setAdsCollapsed] = useState(false)
-  const [hidePaused, setHidePaused] = useState(false)
+  const [hidePausedParam, setHidePausedParam] = useQueryState("hide_paused", "0", ["0", "1"])
+  const hidePaused = hidePausedParam === "1"
+  const setHidePaused = (hide: boolean) => setHidePausedParam(hide ? "1" : "0")
+  const [fatiguedOnlyParam, setFatiguedOnlyParam] = useQueryState("fatigued", "0", ["0", "1"])
+  const fatiguedOnly = fatiguedOnlyParam === "1"
+  const setFatiguedOnly = (only: boolean) => setFatiguedOnlyParam(only ? "1" : "0")
+  const [compareWindowsParam, setCompareWindowsParam] = useQueryState("attr_compare", "0", ["0", "1"])
+  const compareWindows = compareWindowsParam === "1"
+  const setCompareWindows = (compare: boolean) => setCompareWindowsParam(compare ? "1" : "0")
+
+  // Campaigns table columns, saved with sort, filter and attribution as named views
+  const savedViews = useSavedViews()
+  const [activeViewId, setActiveViewId] = useQueryState<string>("campaign_view", "")
+  const [campaignColumns, setCampaignColumns] = useState<string[]>(DEFAULT_CAMPAIGN_COLUMNS)
+  const [computedColumns, setComputedColumns] = useState<ComputedColumn[]>([])
+  const visibleColumns = useMemo(() => resolveColumns(campaignColumns, computedColumns), [campaignColumns, computedColumns])
+  // Sort, filter and attribution live in the URL; columns are restored once a linked view has loaded
+  const [restoredViewId, setRestoredViewId] = useState("")
+  const linkedView = savedViews.views.find((v) => v.id === activeViewId)
+  if (linkedView && restoredViewId !== linkedView.id) {
+    setRestoredViewId(linkedView.id)
+    setCampaignColumns(linkedView.layout.columns)
+    setComputedColumns(linkedView.layout.computedColumns)
+  }
 
   // Campaign detail state
-  const [selectedCampaign, setSelectedCampaign] = useState<Campaign | null>(null)
-  const [campaignDrawerOpen, setCampaignDrawerOpen] = useState(false)
   const [campaignAdsets, setCampaignAdsets] = useState<Map<string, AdSet[]>>(new Map())
   const [campaignAds, setCampaignAds] = useState<Map<string, AdCard[]>>(new Map())
   const [loadingAdsets, setLoadingAdsets] = useState<Set<string>>(new Set())
 
   // Gallery state
-  const [searchQuery, setSearchQuery] = useState("")
-  const [sortField, setSortField] = useState<SortField>("spend")
-  const [sortDirection, setSortDirection] = useState<"asc" | "desc">("desc")
-  const [statusFilter, setStatusFilter] = useState<string[]>([])
-  const [viewMode, setViewMode] = useState<"grid" | "list">("grid")
-
-  // Drawer state
-  const [selectedAd, setSelectedAd] = useState<AdCard | null>(null)
-  const [drawerOpen, setDrawerOpen] = useState(false)
+  const [searchQuery, setSearchQuery] = useQueryState<string>("q", "")
+  const [sortField, setSortField] = useQueryState<SortField>("sort", "spend", SORT_FIELD_VALUES)
+  const [sortDirection, setSortDirection] = useQueryState<"asc" | "desc">("dir", "desc", SORT_DIRECTION_VALUES)
+  const [statusParam, setStatusParam] = useQueryState<string>("status", "")
+  const statusFilter = useMemo(() => (statusParam ? statusParam.split(",") : []), [statusParam])
+  const setStatusFilter = (statuses: string[]) => setStatusParam(statuses.join(","))
+  const [viewMode, setViewMode] = useQueryState<"grid" | "list" | "tree">("view", "grid", VIEW_MODE_VALUES)
+
+  // Ads picked for side-by-side comparison
+  const [compareParam, setCompareParam] = useQueryState<string>("compare_ads", "")
+  const compareIds = useMemo(() => (compareParam ? compareParam.split(",") : []), [compareParam])
+  const setCompareIds = (ids: string[]) => setCompareParam(ids.join(","))
+  const [comparisonOpenParam, setComparisonOpenParam] = useQueryState("compare_open", "0", ["0", "1"])
 
   // Dropdown states
   const [showDateDropdown, setShowDateDropdown] = useState(false)
@@ -230,9 +314,22 @@ export function MetaDashboard() {
   const [showFilterDropdown, setShowFilterDropdown] = useState(false)
 
   // Chart state
-  const [selectedChartMetric, setSelectedChartMetric] = useState<ChartMetric>("revenue_spend")
+  const [selectedChartMetric, setSelectedChartMetric] = useQueryState<ChartMetric>(
+    "chart",
+    "revenue_spend",
+    CHART_METRIC_VALUES
+  )
   const [showChartMetricDropdown, setShowChartMetricDropdown] = useState(false)
-  const [chartTimeRange, setChartTimeRange] = useState<ChartTimeRange>(30)
+  const [chartDaysParam, setChartDaysParam] = useQueryState("chart_days", "30", CHART_TIME_RANGE_VALUES)
+  const chartTimeRange = Number(chartDaysParam) as ChartTimeRange
+  const setChartTimeRange = (days: ChartTimeRange) => setChartDaysParam(String(days))
+  const yoy = useYoYComparison<OverviewData, TimeSeriesPoint>({
+    getEndpoint: (range) => `/api/meta/overview?since=${range.start}&until=${range.end}&attribution=${attribution}&level=account`,
+    getRows: (data) => data.timeSeries,
+    getDate: (point) => point.date,
+    metrics: YOY_METRICS,
+    enabled: selectedChartMetric === "yoy_comparison",
+  })
 
   // Compute effective date preset for fetching - needs to cover both KPI period and chart range
   const getEffectiveDatePreset = useCallback((): DatePreset => {
@@ -245,21 +342,8 @@ export function MetaDashboard() {
       90: "last_90d",
     }
 
-    // Map date presets to their day counts
-    const presetToDays: Record<DatePreset, number> = {
-      today: 1,
-      yesterday: 1,
-      last_7d: 7,
-      last_14d: 14,
-      last_30d: 30,
-      last_60d: 60,
-      last_90d: 90,
-      this_month: 31,
-      last_month: 31,
-    }
-
     const chartDays = chartTimeRange
-    const presetDays = presetToDays[datePreset] || 30
+    const presetDays = resolveDateRange(datePreset).days
 
     // Use whichever requires more data
     if (chartDays > presetDays) {
@@ -268,97 +352,79 @@ export function MetaDashboard() {
     return datePreset
   }, [datePreset, chartTimeRange])
 
-  // Fetch overview data
-  const fetchOverview = useCallback(async () => {
-    try {
-      const effectivePreset = getEffectiveDatePreset()
-      const res = await apiFetch(
-        `/api/meta/overview?datePreset=${effectivePreset}&attribution=${attribution}&level=account`
-      )
-      if (res.ok) {
-        const data = await res.json()
-        setOverview(data)
-        setConfigured(data.configured)
-      }
-    } catch (error) {
-      console.error("Failed to fetch overview:", error)
-    }
-  }, [getEffectiveDatePreset, attribution])
-
-  // Fetch campaigns with metrics
-  const fetchCampaigns = useCallback(async () => {
-    try {
-      setCampaignsLoading(true)
-      const params = new URLSearchParams({
-        datePreset,
-        attribution,
-        level: "campaign",
-        sortField: campaignSortField,
-        sortDirection: campaignSortDirection,
-        limit: "50",
-      })
+  // Account overview - KPIs and the time series chart
+  const overviewQuery = useApiQuery<OverviewData>(
+    `/api/meta/overview?datePreset=${getEffectiveDatePreset()}&attribution=${attribution}&level=account`
+  )
+  const overview = overviewQuery.data ?? null
+  const configured = overview?.configured ?? true
+  const loading = overviewQuery.isLoading
+
+  // Campaigns with metrics
+  const campaignParams = new URLSearchParams({
+    datePreset,
+    attribution,
+    level: "campaign",
+    sortField: isMetricKey(campaignSortField) ? campaignSortField : "spend",
+    sortDirection: campaignSortDirection,
+    limit: "50",
+  })
+  const campaignsQuery = useApiQuery<{ data?: Campaign[] }>(`/api/meta/entities?${campaignParams}`)
+  const campaigns = useMemo(() => campaignsQuery.data?.data || [], [campaignsQuery.data])
+  const campaignsLoading = campaignsQuery.isLoading
+
+  // Ads gallery
+  const adParams = new URLSearchParams({
+    datePreset,
+    attribution,
+    sortField,
+    sortDirection,
+    limit: "100",
+  })
+  if (statusFilter.length > 0) {
+    adParams.set("status", statusFilter.join(","))
+  }
+  if (searchQuery) {
+    adParams.set("search", searchQuery)
+  }
+  const adsQuery = useApiQuery<{ data?: AdCard[] }>(`/api/meta/ads?${adParams}`)
+  const ads = useMemo(() => adsQuery.data?.data || [], [adsQuery.data])
+  const adsLoading = adsQuery.isLoading
+  const lastUpdated = overviewQuery.updatedAt ? new Date(overviewQuery.updatedAt) : null
+
+  // Per-ad daily delivery for fatigue scoring - fixed lookback, independent of the date preset
+  const { data: adDaily, refetch: refetchAdDaily } = useApiQuery<AdDailyInsightsResponse>(
+    `/api/meta/ads/daily?days=${FATIGUE_LOOKBACK_DAYS}&attribution=${attribution}`
+  )
+  const fatigueScores = useMemo(() => scoreAdsFatigue(adDaily?.data ?? {}), [adDaily])
+  const fatiguedAdCount = ads.filter((ad) => fatigueScores.get(ad.id)?.isFatigued).length
 
-      const res = await apiFetch(`/api/meta/entities?${params}`)
-      if (res.ok) {
-        const data = await res.json()
-        setCampaigns(data.data || [])
-      }
-    } catch (error) {
-      console.error("Failed to fetch campaigns:", error)
-    } finally {
-      setCampaignsLoading(false)
-    }
-  }, [datePreset, attribution, campaignSortField, campaignSortDirection])
+  // Several attribution windows side by side - only loaded while comparing
+  const { data: campaignWindows, refetch: refetchCampaignWindows } = useApiQuery<MetaAttributionResponse>(
+    compareWindows ? `/api/meta/attribution?level=campaign&datePreset=${datePreset}` : null
+  )
+  const { data: adWindows, isLoading: adWindowsLoading, refetch: refetchAdWindows } = useApiQuery<MetaAttributionResponse>(
+    compareWindows && adId ? `/api/meta/attribution?level=ad&id=${encodeURIComponent(adId)}&datePreset=${datePreset}` : null
+  )
 
-  // Fetch ads gallery
-  const fetchAds = useCallback(async () => {
+  // Refresh handler
+  const handleRefresh = async () => {
+    setRefreshing(true)
     try {
-      setAdsLoading(true)
-      const params = new URLSearchParams({
-        datePreset,
-        attribution,
-        sortField,
-        sortDirection,
-        limit: "100",
-      })
-
-      if (statusFilter.length > 0) {
-        params.set("status", statusFilter.join(","))
-      }
-      if (searchQuery) {
-        params.set("search", searchQuery)
-      }
-
-      const res = await apiFetch(`/api/meta/ads?${params}`)
-      if (res.ok) {
-        const data = await res.json()
-        setAds(data.data || [])
-      }
+      await apiFetch(`/api/meta/refresh`, { method: "POST" })
+      await Promise.all([
+        overviewQuery.refetch(),
+        campaignsQuery.refetch(),
+        adsQuery.refetch(),
+        refetchAdDaily(),
+        compareWindows ? refetchCampaignWindows() : undefined,
+        compareWindows && adId ? refetchAdWindows() : undefined,
+      ])
     } catch (error) {
-      console.error("Failed to fetch ads:", error)
+      console.error("Failed to refresh Meta data:", error)
     } finally {
-      setAdsLoading(false)
-    }
-  }, [datePreset, attribution, sortField, sortDirection, statusFilter, searchQuery])
-
-  // Initial load
-  useEffect(() => {
-    const loadData = async () => {
-      setLoading(true)
-      await Promise.all([fetchOverview(), fetchCampaigns(), fetchAds()])
-      setLastUpdated(new Date())
-      setLoading(false)
+      setRefreshing(false)
     }
-    loadData()
-  }, [fetchOverview, fetchCampaigns, fetchAds])
-
-  // Refresh handler
-  const handleRefresh = async () => {
-    setLoading(true)
-    await apiFetch(`/api/meta/refresh`, { method: "POST" })
-    await Promise.all([fetchOverview(), fetchCampaigns(), fetchAds()])
-    setLastUpdated(new Date())
-    setLoading(false)
   }
 
   // Fetch adsets for a campaign
@@ -435,38 +501,138 @@ export function MetaDashboard() {
     }
   }
 
+  // Drawers are driven by the route, so the entity is looked up once its list has loaded
+  const selectedCampaign = useMemo(
+    () => (campaignId ? campaigns.find((c) => c.id === campaignId) ?? null : null),
+    [campaigns, campaignId]
+  )
+
+  const selectedAd = useMemo(() => {
+    if (!adId) return null
+    const campaignAdList = campaignId ? campaignAds.get(campaignId) || [] : []
+    return (
+      campaignAdList.find((ad) => ad.id === adId) ??
+      ads.find((ad) => ad.id === adId) ??
+      Array.from(campaignAds.values()).flat().find((ad) => ad.id === adId) ??
+      null
+    )
+  }, [ads, campaignAds, campaignId, adId])
+
+  // Load the campaign's ads when its drawer is opened (including from a shared link)
+  useEffect(() => {
+    if (campaignId) {
+      fetchCampaignAds(campaignId)
+    }
+  }, [campaignId, fetchCampaignAds])
+
   // Open campaign detail drawer
-  const openCampaignDrawer = async (campaign: Campaign) => {
-    setSelectedCampaign(campaign)
-    setCampaignDrawerOpen(true)
-    await fetchCampaignAds(campaign.id)
+  const openCampaignDrawer = (campaign: Campaign) => {
+    navigate(`/meta/campaigns/${encodeURIComponent(campaign.id)}`)
+  }
+
+  const closeCampaignDrawer = () => {
+    navigate("/meta")
+  }
+
+  // Open ad detail drawer, nested under the campaign drawer when one is open
+  const openAdDrawer = (ad: AdCard) => {
+    const adPath = `ads/${encodeURIComponent(ad.id)}`
+    navigate(campaignId ? `/meta/campaigns/${encodeURIComponent(campaignId)}/${adPath}` : `/meta/${adPath}`)
+  }
+
+  const closeAdDrawer = () => {
+    navigate(campaignId ? `/meta/campaigns/${encodeURIComponent(campaignId)}` : "/meta")
   }
 
+  const toggleCompareAd = (adId: string) => {
+    if (compareIds.includes(adId)) {
+      setCompareIds(compareIds.filter((id) => id !== adId))
+    } else if (compareIds.length < MAX_COMPARED_ADS) {
+      setCompareIds([...compareIds, adId])
+    }
+  }
+
+  const comparedAds = useMemo(
+    () => compareIds.map((id) => ads.find((ad) => ad.id === id)).filter((ad): ad is AdCard => ad !== undefined),
+    [ads, compareIds]
+  )
+  const showComparison = comparisonOpenParam === "1" && comparedAds.length > 0
+
+  // Creative tags - parsed from ad names, with hand-set overrides
+  const adTags = useAdTags()
+  const galleryAdTags = useMemo(
+    () => new Map<string, AdTags>(ads.map((ad) => [ad.id, resolveAdTags(ad.name, adTags.tags[ad.id])])),
+    [ads, adTags.tags]
+  )
+  const knownTagValues = useMemo(() => {
+    const values = Object.fromEntries(TAG_DIMENSIONS.map((d) => [d.key, new Set<string>()])) as Record<TagDimension, Set<string>>
+    for (const tags of galleryAdTags.values()) {
+      for (const [dimension, value] of Object.entries(tags) as [TagDimension, string][]) {
+        values[dimension].add(value)
+      }
+    }
+    return Object.fromEntries(
+      TAG_DIMENSIONS.map((d) => [d.key, [...values[d.key]].sort()])
+    ) as Record<TagDimension, string[]>
+  }, [galleryAdTags])
+
   // Sorted campaigns
   const sortedCampaigns = useMemo(() => {
     let filtered = [...campaigns]
     if (hidePaused) {
       filtered = filtered.filter(c => c.status === "ACTIVE")
     }
+    const sortColumn = resolveColumn(campaignSortField, computedColumns) ?? resolveColumn("spend", [])!
     return filtered.sort((a, b) => {
-      const aVal = a.metrics[campaignSortField] || 0
-      const bVal = b.metrics[campaignSortField] || 0
+      const aVal = sortColumn.value(a.metrics) || 0
+      const bVal = sortColumn.value(b.metrics) || 0
       return campaignSortDirection === "asc" ? aVal - bVal : bVal - aVal
     })
-  }, [campaigns, campaignSortField, campaignSortDirection, hidePaused])
+  }, [campaigns, campaignSortField, campaignSortDirection, hidePaused, computedColumns])
+
+  const campaignLayout: CampaignTableLayout = {
+    columns: campaignColumns,
+    computedColumns,
+    sortField: campaignSortField,
+    sortDirection: campaignSortDirection,
+    hidePaused,
+    attribution,
+  }
+
+  const applyCampaignLayout = (layout: CampaignTableLayout, viewId: string) => {
+    setRestoredViewId(viewId)
+    setActiveViewId(viewId)
+    setCampaignColumns(layout.columns)
+    setComputedColumns(layout.computedColumns)
+    setCampaignSortField(isCampaignSortField(layout.sortField) ? layout.sortField : "spend")
+    setCampaignSortDirection(layout.sortDirection)
+    setHidePaused(layout.hidePaused)
+    if (ATTRIBUTION_VALUES.includes(layout.attribution as Attribution)) {
+      setAttribution(layout.attribution as Attribution)
+    }
+  }
+
+  const toggleCampaignSort = (field: string) => {
+    if (campaignSortField === field) {
+      setCampaignSortDirection(campaignSortDirection === "asc" ? "desc" : "asc")
+    } else {
+      setCampaignSortField(field)
+      setCampaignSortDirection("desc")
+    }
+  }
 
   // Format helpers
   const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('en-US', {
+    return new Intl.NumberFormat(getNumberFormat().locale, {
       style: 'currency',
-      currency: 'USD',
+      currency: getNumberFormat().currency,
       minimumFractionDigits: 2,
       maximumFractionDigits: 2,
     }).format(value)
   }
 
   const formatNumber = (value: number) => {
-    return new Intl.NumberFormat('en-US', {
+    return new Intl.NumberFormat(getNumberFormat().locale, {
       minimumFractionDigits: 0,
       maximumFractionDigits: 0,
     }).format(value)
@@ -475,11 +641,47 @@ export function MetaDashboard() {
   const formatPercent = (value: number) => `${value.toFixed(2)}%`
   const formatRoas = (value: number) => `${value.toFixed(2)}x`
 
+  const formatColumnValue = (value: number, format: ColumnFormat) => {
+    switch (format) {
+      case "currency":
+        return formatCurrency(value)
+      case "percent":
+        return formatPercent(value)
+      case "ratio":
+        return formatRoas(value)
+      case "decimal":
+        return value.toFixed(2)
+      default:
+        return formatNumber(value)
+    }
+  }
+
   const calculateDelta = (current: number, previous: number) => {
     if (previous === 0) return current > 0 ? 100 : 0
     return ((current - previous) / previous) * 100
   }
 
+  // Picks an ad for the comparison without opening its drawer
+  const CompareCheckbox = ({ adId, className }: { adId: string; className: string }) => {
+    const checked = compareIds.includes(adId)
+    return (
+      <label
+        className={`flex cursor-pointer items-center gap-1 text-xs ${className}`}
+        title={!checked && compareIds.length >= MAX_COMPARED_ADS ? `Compare up to ${MAX_COMPARED_ADS} ads` : "Compare"}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <input
+          type="checkbox"
+          checked={checked}
+          disabled={!checked && compareIds.length >= MAX_COMPARED_ADS}
+          onChange={() => toggleCompareAd(adId)}
+          className="rounded"
+        />
+        Compare
+      </label>
+    )
+  }
+
   // Ad Card component
   const AdCardComponent = ({ ad }: { ad: AdCard }) => {
     const statusColors: Record<string, string> = {
@@ -488,13 +690,14 @@ export function MetaDashboard() {
       DELETED: "bg-rh-negative/10 text-rh-negative",
       ARCHIVED: "bg-muted text-muted-foreground",
     }
+    const fatigue = fatigueScores.get(ad.id)
+    const tags = Object.values(galleryAdTags.get(ad.id) ?? {})
 
     return (
       <Card
         className="cursor-pointer overflow-hidden transition-all hover:shadow-lg hover:-translate-y-1"
         onClick={() => {
-          setSelectedAd(ad)
-          setDrawerOpen(true)
+          openAdDrawer(ad)
         }}
       >
         {/* Creative Preview */}
@@ -526,11 +729,28 @@ export function MetaDashboard() {
           <div className={`absolute left-2 top-2 rounded-full px-2.5 py-0.5 text-xs font-medium shadow-sm ${statusColors[ad.status] || "bg-gray-100"}`}>
             {ad.status}
           </div>
+          <CompareCheckbox adId={ad.id} className="absolute bottom-2 left-2 rounded-full bg-white/90 px-2 py-1 shadow-sm" />
+          {fatigue?.isFatigued && (
+            <div
+              className="absolute right-2 top-2 flex items-center gap-1 rounded-full bg-rh-negative px-2.5 py-0.5 text-xs font-medium text-white shadow-sm"
+              title={fatigue.reasons.join(" · ")}
+            >
+              <BatteryLow className="h-3 w-3" />
+              Fatigued
+            </div>
+          )}
         </div>
 
         {/* Ad Info */}
         <CardContent className="p-3">
           <h3 className="truncate text-sm font-medium">{ad.name}</h3>
+          {tags.length > 0 && (
+            <div className="mt-1 flex flex-wrap gap-1">
+              {tags.map((tag) => (
+                <span key={tag} className="rounded bg-muted px-1.5 py-0.5 text-[10px] text-muted-foreground">{tag}</span>
+              ))}
+            </div>
+          )}
 
           {/* Metrics Grid */}
           <div className="mt-3 grid grid-cols-3 gap-2 text-center text-xs">
@@ -591,6 +811,11 @@ export function MetaDashboard() {
       result = result.filter(ad => statusFilter.includes(ad.status))
     }
 
+    // Fatigue filter
+    if (fatiguedOnly) {
+      result = result.filter(ad => fatigueScores.get(ad.id)?.isFatigued)
+    }
+
     // Sort
     result.sort((a, b) => {
       const aVal = a.metrics[sortField] || 0
@@ -599,7 +824,12 @@ export function MetaDashboard() {
     })
 
     return result
-  }, [ads, searchQuery, statusFilter, sortField, sortDirection, hidePaused])
+  }, [ads, searchQuery, statusFilter, sortField, sortDirection, hidePaused, fatiguedOnly, fatigueScores])
+
+  const taggedAds = useMemo(
+    () => filteredAds.map((ad) => ({ id: ad.id, tags: galleryAdTags.get(ad.id) ?? {}, metrics: ad.metrics })),
+    [filteredAds, galleryAdTags]
+  )
 
   if (loading) {
     return (
@@ -697,7 +927,7 @@ export function MetaDashboard() {
               <ChevronDown className="ml-2 h-4 w-4" />
             </Button>
             {showAttrDropdown && (
-              <div className="absolute left-0 top-full z-20 mt-1 w-48 rounded-md border bg-white shadow-lg">
+              <div className="absolute left-0 top-full z-20 mt-1 w-56 rounded-md border bg-white shadow-lg">
                 {ATTRIBUTION_WINDOWS.map(attr => (
                   <button
                     key={attr.value}
@@ -716,6 +946,17 @@ export function MetaDashboard() {
             )}
           </div>
 
+          {/* Attribution Window Comparison Toggle */}
+          <Button
+            variant={compareWindows ? "default" : "outline"}
+            size="sm"
+            onClick={() => setCompareWindows(!compareWindows)}
+            title="Show purchases, revenue, ROAS and CPA under several attribution windows"
+          >
+            <Columns3 className="mr-2 h-4 w-4" />
+            Compare Windows
+          </Button>
+
           <div className="flex-1" />
 
           {/* Hide Paused Toggle */}
@@ -730,8 +971,8 @@ export function MetaDashboard() {
           </Button>
 
           {/* Refresh Button */}
-          <Button variant="outline" size="sm" onClick={handleRefresh} disabled={loading}>
-            <RefreshCw className={`mr-2 h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+          <Button variant="outline" size="sm" onClick={handleRefresh} disabled={refreshing}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${refreshing ? "animate-spin" : ""}`} />
             Refresh
           </Button>
 
@@ -779,13 +1020,13 @@ export function MetaDashboard() {
             case "revenue_spend":
               return { value: formatCurrency(overview.kpis.revenue), change: calculateDelta(latest.revenue, previous.revenue), subtitle: `vs ${formatCurrency(overview.kpis.spend)} spend` }
             case "yoy_comparison": {
-              // Calculate totals for 2025 and 2026 Jan data
-              const data2025 = overview.timeSeries.filter(d => d.date.startsWith("2025-01"))
-              const data2026 = overview.timeSeries.filter(d => d.date.startsWith("2026-01"))
-              const spend2025 = data2025.reduce((sum, d) => sum + d.spend, 0)
-              const spend2026 = data2026.reduce((sum, d) => sum + d.spend, 0)
-              const yoyChange = spend2025 > 0 ? ((spend2026 - spend2025) / spend2025) * 100 : 0
-              return { value: formatCurrency(spend2026), change: yoyChange, subtitle: `2026 YTD vs ${formatCurrency(spend2025)} in 2025` }
+              const summary = yoy.comparison?.summary
+              if (!summary) return { value: "—", change: 0, subtitle: `${yoy.currentLabel} vs ${yoy.baselineLabel}` }
+              return {
+                value: formatYoYValue(summary.current, yoy.metric.format),
+                change: summary.change,
+                subtitle: `${yoy.metric.label}, ${yoy.currentLabel} vs ${formatYoYValue(summary.baseline, yoy.metric.format)} in ${yoy.baselineLabel}`,
+              }
             }
             case "performance":
               return { value: formatRoas(overview.kpis.roas), change: calculateDelta(overview.kpis.roas, overview.previousKpis.roas), subtitle: "ROAS • CPA • CTR • Purchases" }
@@ -877,480 +1118,360 @@ export function MetaDashboard() {
                   </div>
                 </div>
 
-                {/* Time Range Selector */}
-                <div className="flex items-center justify-between mb-6">
-                  <div className="flex items-center gap-1 p-1 bg-gray-100 dark:bg-gray-800 rounded-lg">
-                    {CHART_TIME_RANGES.map((range) => (
-                      <button
-                        key={range.value}
-                        onClick={() => setChartTimeRange(range.value)}
-                        className={`px-4 py-2 text-sm font-medium rounded-md transition-all ${
-                          chartTimeRange === range.value
-                            ? "bg-white dark:bg-gray-700 text-gray-900 dark:text-white shadow-sm"
-                            : "text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
-                        }`}
-                      >
-                        {range.label}
-                      </button>
-                    ))}
-                  </div>
-                  <p className="text-xs text-muted-foreground">
-                    {chartData.length} data points
-                  </p>
-                </div>
-
-                {/* Chart */}
-                <div className="h-[380px] -mx-2">
-                  <ResponsiveContainer width="100%" height="100%">
-                    {selectedChartMetric === "yoy_comparison" ? (() => {
-                      // Build YoY comparison data - align by calendar day (MM-DD)
-                      const data2025 = overview.timeSeries
-                        .filter(d => d.date.startsWith("2025-01"))
-                        .map(d => ({
-                          day: parseInt(d.date.split("-")[2]),
-                          dayLabel: `Jan ${parseInt(d.date.split("-")[2])}`,
-                          revenue2025: d.revenue,
-                          spend2025: d.spend,
-                        }))
-
-                      const data2026 = overview.timeSeries
-                        .filter(d => d.date.startsWith("2026-01"))
-                        .map(d => ({
-                          day: parseInt(d.date.split("-")[2]),
-                          revenue2026: d.revenue,
-                          spend2026: d.spend,
-                        }))
-
-                      // Merge by day
-                      const maxDay = Math.max(
-                        ...data2025.map(d => d.day),
-                        ...data2026.map(d => d.day)
-                      )
-
-                      const yoyData = []
-                      for (let day = 1; day <= maxDay; day++) {
-                        const d2025 = data2025.find(d => d.day === day)
-                        const d2026 = data2026.find(d => d.day === day)
-                        yoyData.push({
-                          day,
-                          dayLabel: `Jan ${day}`,
-                          revenue2025: d2025?.revenue2025 || 0,
-                          spend2025: d2025?.spend2025 || 0,
-                          revenue2026: d2026?.revenue2026 || 0,
-                          spend2026: d2026?.spend2026 || 0,
-                        })
-                      }
+                {selectedChartMetric === "yoy_comparison" ? (
+                  <YoYComparisonChart comparison={yoy} showSummary={false} />
+                ) : (
+                  <>
+                    {/* Time Range Selector */}
+                    <div className="flex items-center justify-between mb-6">
+                      <div className="flex items-center gap-1 p-1 bg-gray-100 dark:bg-gray-800 rounded-lg">
+                        {CHART_TIME_RANGES.map((range) => (
+                          <button
+                            key={range.value}
+                            onClick={() => setChartTimeRange(range.value)}
+                            className={`px-4 py-2 text-sm font-medium rounded-md transition-all ${
+                              chartTimeRange === range.value
+                                ? "bg-white dark:bg-gray-700 text-gray-900 dark:text-white shadow-sm"
+                                : "text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+                            }`}
+                          >
+                            {range.label}
+                          </button>
+                        ))}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {chartData.length} data points
+                      </p>
+                    </div>
 
-                      return (
-                        <AreaChart data={yoyData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
-                          <defs>
-                            <linearGradient id="revenue2025Gradient" x1="0" y1="0" x2="0" y2="1">
-                              <stop offset="0%" stopColor="#6366f1" stopOpacity={0.3}/>
-                              <stop offset="100%" stopColor="#6366f1" stopOpacity={0}/>
-                            </linearGradient>
-                            <linearGradient id="revenue2026Gradient" x1="0" y1="0" x2="0" y2="1">
-                              <stop offset="0%" stopColor="#10b981" stopOpacity={0.3}/>
-                              <stop offset="100%" stopColor="#10b981" stopOpacity={0}/>
-                            </linearGradient>
-                          </defs>
-                          <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" strokeOpacity={0.5} vertical={false} />
-                          <XAxis
-                            dataKey="dayLabel"
-                            axisLine={false}
-                            tickLine={false}
-                            tick={{ fill: "#9ca3af", fontSize: 11, fontWeight: 500 }}
-                            dy={10}
-                          />
-                          <YAxis
-                            tickFormatter={(v) => formatCurrency(v)}
-                            axisLine={false}
-                            tickLine={false}
-                            tick={{ fill: "#9ca3af", fontSize: 11, fontWeight: 500 }}
-                            dx={-10}
-                          />
-                          <Tooltip
-                            contentStyle={{
-                              borderRadius: "12px",
-                              border: "none",
-                              boxShadow: "0 20px 25px -5px rgb(0 0 0 / 0.1), 0 8px 10px -6px rgb(0 0 0 / 0.1)",
-                              padding: "12px 16px"
-                            }}
-                            formatter={(value, name) => [formatCurrency(Number(value)), name]}
-                            cursor={{ stroke: "#9ca3af", strokeWidth: 1, strokeDasharray: "4 4" }}
-                          />
-                          <Legend
-                            verticalAlign="top"
-                            height={36}
-                            iconType="circle"
-                            wrapperStyle={{ paddingBottom: "20px" }}
-                          />
-                          {/* 2025 lines - dashed */}
-                          <Area
-                            type="monotoneX"
-                            dataKey="revenue2025"
-                            name="Revenue 2025"
-                            stroke="#6366f1"
-                            fill="url(#revenue2025Gradient)"
-                            strokeWidth={2}
-                            strokeDasharray="6 4"
-                            dot={false}
-                            activeDot={{ r: 5, stroke: "#fff", strokeWidth: 2, fill: "#6366f1" }}
-                          />
-                          <Line
-                            type="monotoneX"
-                            dataKey="spend2025"
-                            name="Spend 2025"
-                            stroke="#f59e0b"
-                            strokeWidth={2}
-                            strokeDasharray="6 4"
-                            dot={false}
-                            activeDot={{ r: 5, stroke: "#fff", strokeWidth: 2, fill: "#f59e0b" }}
-                          />
-                          {/* 2026 lines - solid */}
-                          <Area
-                            type="monotoneX"
-                            dataKey="revenue2026"
-                            name="Revenue 2026"
-                            stroke="#10b981"
-                            fill="url(#revenue2026Gradient)"
-                            strokeWidth={3}
-                            dot={false}
-                            activeDot={{ r: 6, stroke: "#fff", strokeWidth: 2, fill: "#10b981" }}
-                          />
-                          <Line
-                            type="monotoneX"
-                            dataKey="spend2026"
-                            name="Spend 2026"
-                            stroke="#f43f5e"
-                            strokeWidth={3}
-                            dot={false}
-                            activeDot={{ r: 6, stroke: "#fff", strokeWidth: 2, fill: "#f43f5e" }}
-                          />
-                        </AreaChart>
-                      )
-                    })() : selectedChartMetric === "performance" ? (
-                      <AreaChart data={chartData.filter(d => d.roas !== null)} margin={{ top: 10, right: 60, left: 0, bottom: 0 }}>
-                        <defs>
-                          <linearGradient id="roasGradient" x1="0" y1="0" x2="0" y2="1">
-                            <stop offset="0%" stopColor="#10b981" stopOpacity={0.2}/>
-                            <stop offset="100%" stopColor="#10b981" stopOpacity={0}/>
-                          </linearGradient>
-                        </defs>
-                        <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" strokeOpacity={0.5} vertical={false} />
-                        <XAxis
-                          dataKey="date"
-                          tickFormatter={(v) => new Date(v).toLocaleDateString("en-US", { month: "short", day: "numeric" })}
-                          axisLine={false}
-                          tickLine={false}
-                          tick={{ fill: "#9ca3af", fontSize: 11, fontWeight: 500 }}
-                          dy={10}
-                        />
-                        <YAxis
-                          yAxisId="roas"
-                          orientation="left"
-                          tickFormatter={(v) => `${v.toFixed(1)}x`}
-                          axisLine={false}
-                          tickLine={false}
-                          tick={{ fill: "#10b981", fontSize: 11, fontWeight: 500 }}
-                          domain={[0, 'auto']}
-                        />
-                        <YAxis
-                          yAxisId="cpa"
-                          orientation="right"
-                          tickFormatter={(v) => `$${v.toFixed(0)}`}
-                          axisLine={false}
-                          tickLine={false}
-                          tick={{ fill: "#f59e0b", fontSize: 11, fontWeight: 500 }}
-                        />
-                        <YAxis
-                          yAxisId="ctr"
-                          orientation="right"
-                          tickFormatter={(v) => `${v.toFixed(1)}%`}
-                          axisLine={false}
-                          tickLine={false}
-                          tick={{ fill: "#8b5cf6", fontSize: 11, fontWeight: 500 }}
-                          hide
-                        />
-                        <YAxis
-                          yAxisId="purchases"
-                          orientation="right"
-                          axisLine={false}
-                          tickLine={false}
-                          tick={{ fill: "#3b82f6", fontSize: 11, fontWeight: 500 }}
-                          hide
-                        />
-                        <Tooltip
-                          contentStyle={{
-                            borderRadius: "12px",
-                            border: "none",
-                            boxShadow: "0 20px 25px -5px rgb(0 0 0 / 0.1), 0 8px 10px -6px rgb(0 0 0 / 0.1)",
-                            padding: "12px 16px"
-                          }}
-                          labelFormatter={(v) => new Date(v).toLocaleDateString("en-US", { weekday: "long", month: "short", day: "numeric" })}
-                          formatter={(value, name) => {
-                            if (value == null) return ["—", name]
-                            const numValue = Number(value)
-                            if (name === "ROAS") return [`${numValue.toFixed(2)}x`, name]
-                            if (name === "CPA") return [formatCurrency(numValue), name]
-                            if (name === "CTR") return [`${numValue.toFixed(2)}%`, name]
-                            return [formatNumber(numValue), name]
-                          }}
-                          cursor={{ stroke: "#9ca3af", strokeWidth: 1, strokeDasharray: "4 4" }}
-                        />
-                        <Legend
-                          verticalAlign="top"
-                          height={36}
-                          iconType="circle"
-                          wrapperStyle={{ paddingBottom: "20px" }}
-                        />
-                        <Area
-                          yAxisId="roas"
-                          type="monotoneX"
-                          dataKey="roas"
-                          name="ROAS"
-                          stroke="#10b981"
-                          fill="url(#roasGradient)"
-                          strokeWidth={3}
-                          dot={false}
-                          activeDot={{ r: 5, stroke: "#fff", strokeWidth: 2, fill: "#10b981" }}
-                          connectNulls
-                        />
-                        <Line
-                          yAxisId="cpa"
-                          type="monotoneX"
-                          dataKey="cpa"
-                          name="CPA"
-                          stroke="#f59e0b"
-                          strokeWidth={2.5}
-                          dot={false}
-                          activeDot={{ r: 5, stroke: "#fff", strokeWidth: 2, fill: "#f59e0b" }}
-                          connectNulls
-                        />
-                        <Line
-                          yAxisId="ctr"
-                          type="monotoneX"
-                          dataKey="ctr"
-                          name="CTR"
-                          stroke="#8b5cf6"
-                          strokeWidth={2.5}
-                          dot={false}
-                          activeDot={{ r: 5, stroke: "#fff", strokeWidth: 2, fill: "#8b5cf6" }}
-                          connectNulls
-                        />
-                        <Line
-                          yAxisId="purchases"
-                          type="monotoneX"
-                          dataKey="purchases"
-                          name="Purchases"
-                          stroke="#3b82f6"
-                          strokeWidth={2.5}
-                          dot={false}
-                          activeDot={{ r: 5, stroke: "#fff", strokeWidth: 2, fill: "#3b82f6" }}
-                        />
-                      </AreaChart>
-                    ) : selectedChartMetric === "revenue_spend" ? (
-                      <AreaChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
-                        <defs>
-                          <linearGradient id="revenueGradient" x1="0" y1="0" x2="0" y2="1">
-                            <stop offset="0%" stopColor="#10b981" stopOpacity={0.4}/>
-                            <stop offset="50%" stopColor="#10b981" stopOpacity={0.15}/>
-                            <stop offset="100%" stopColor="#10b981" stopOpacity={0}/>
-                          </linearGradient>
-                          <linearGradient id="spendGradient" x1="0" y1="0" x2="0" y2="1">
-                            <stop offset="0%" stopColor="#f43f5e" stopOpacity={0.3}/>
-                            <stop offset="50%" stopColor="#f43f5e" stopOpacity={0.1}/>
-                            <stop offset="100%" stopColor="#f43f5e" stopOpacity={0}/>
-                          </linearGradient>
-                          <filter id="shadow" x="-20%" y="-20%" width="140%" height="140%">
-                            <feDropShadow dx="0" dy="4" stdDeviation="8" floodColor="#10b981" floodOpacity="0.3"/>
-                          </filter>
-                        </defs>
-                        <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" strokeOpacity={0.5} vertical={false} />
-                        <XAxis
-                          dataKey="date"
-                          tickFormatter={(v) => new Date(v).toLocaleDateString("en-US", { month: "short", day: "numeric" })}
-                          axisLine={false}
-                          tickLine={false}
-                          tick={{ fill: "#9ca3af", fontSize: 11, fontWeight: 500 }}
-                          dy={10}
-                        />
-                        <YAxis
-                          tickFormatter={(v) => formatCurrency(v)}
-                          axisLine={false}
-                          tickLine={false}
-                          tick={{ fill: "#9ca3af", fontSize: 11, fontWeight: 500 }}
-                          dx={-10}
-                        />
-                        <Tooltip
-                          contentStyle={{
-                            borderRadius: "12px",
-                            border: "none",
-                            boxShadow: "0 20px 25px -5px rgb(0 0 0 / 0.1), 0 8px 10px -6px rgb(0 0 0 / 0.1)",
-                            padding: "12px 16px"
-                          }}
-                          labelFormatter={(v) => new Date(v).toLocaleDateString("en-US", { weekday: "long", month: "short", day: "numeric" })}
-                          formatter={(value, name) => [formatCurrency(Number(value)), name]}
-                          cursor={{ stroke: "#9ca3af", strokeWidth: 1, strokeDasharray: "4 4" }}
-                        />
-                        <Legend
-                          verticalAlign="top"
-                          height={36}
-                          iconType="circle"
-                          wrapperStyle={{ paddingBottom: "20px" }}
-                        />
-                        <Area
-                          type="monotoneX"
-                          dataKey="revenue"
-                          name="Revenue"
-                          stroke="#10b981"
-                          fill="url(#revenueGradient)"
-                          strokeWidth={3}
-                          dot={false}
-                          activeDot={{ r: 6, stroke: "#fff", strokeWidth: 2, fill: "#10b981" }}
-                        />
-                        <Area
-                          type="monotoneX"
-                          dataKey="spend"
-                          name="Ad Spend"
-                          stroke="#f43f5e"
-                          fill="url(#spendGradient)"
-                          strokeWidth={3}
-                          dot={false}
-                          activeDot={{ r: 6, stroke: "#fff", strokeWidth: 2, fill: "#f43f5e" }}
-                        />
-                      </AreaChart>
-                    ) : selectedChartMetric === "amer" ? (
-                      <AreaChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
-                        <defs>
-                          <linearGradient id="amerGradient" x1="0" y1="0" x2="0" y2="1">
-                            <stop offset="0%" stopColor={primaryColor} stopOpacity={0.4}/>
-                            <stop offset="50%" stopColor={primaryColor} stopOpacity={0.15}/>
-                            <stop offset="100%" stopColor={primaryColor} stopOpacity={0}/>
-                          </linearGradient>
-                        </defs>
-                        <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" strokeOpacity={0.5} vertical={false} />
-                        <XAxis
-                          dataKey="date"
-                          tickFormatter={(v) => new Date(v).toLocaleDateString("en-US", { month: "short", day: "numeric" })}
-                          axisLine={false}
-                          tickLine={false}
-                          tick={{ fill: "#9ca3af", fontSize: 11, fontWeight: 500 }}
-                          dy={10}
-                        />
-                        <YAxis
-                          tickFormatter={(v) => `${v.toFixed(1)}x`}
-                          axisLine={false}
-                          tickLine={false}
-                          tick={{ fill: "#9ca3af", fontSize: 11, fontWeight: 500 }}
-                          domain={[0, 'auto']}
-                          dx={-10}
-                        />
-                        <Tooltip
-                          contentStyle={{
-                            borderRadius: "12px",
-                            border: "none",
-                            boxShadow: "0 20px 25px -5px rgb(0 0 0 / 0.1), 0 8px 10px -6px rgb(0 0 0 / 0.1)",
-                            padding: "12px 16px"
-                          }}
-                          labelFormatter={(v) => new Date(v).toLocaleDateString("en-US", { weekday: "long", month: "short", day: "numeric" })}
-                          formatter={(value, name) => [`${Number(value).toFixed(2)}x`, name]}
-                          cursor={{ stroke: "#9ca3af", strokeWidth: 1, strokeDasharray: "4 4" }}
-                        />
-                        <Legend
-                          verticalAlign="top"
-                          height={36}
-                          iconType="circle"
-                          wrapperStyle={{ paddingBottom: "20px" }}
-                        />
-                        <Area
-                          type="monotoneX"
-                          dataKey="mer"
-                          name="Daily MER"
-                          stroke="#c4b5fd"
-                          fill="none"
-                          strokeWidth={2}
-                          strokeDasharray="6 4"
-                          dot={false}
-                        />
-                        <Area
-                          type="monotoneX"
-                          dataKey="amer"
-                          name="7-Day aMER"
-                          stroke={primaryColor}
-                          fill="url(#amerGradient)"
-                          strokeWidth={3}
-                          dot={false}
-                          activeDot={{ r: 6, stroke: "#fff", strokeWidth: 2, fill: primaryColor }}
-                        />
-                      </AreaChart>
-                    ) : (
-                      <AreaChart
-                        data={chartData.filter(d => {
-                          if (selectedChartMetric === "cpa") return d.cpa != null && d.cpa > 0
-                          return true
-                        })}
-                        margin={{ top: 10, right: 10, left: 0, bottom: 0 }}
-                      >
-                        <defs>
-                          <linearGradient id="metricGradient" x1="0" y1="0" x2="0" y2="1">
-                            <stop offset="0%" stopColor={primaryColor} stopOpacity={0.4}/>
-                            <stop offset="50%" stopColor={primaryColor} stopOpacity={0.15}/>
-                            <stop offset="100%" stopColor={primaryColor} stopOpacity={0}/>
-                          </linearGradient>
-                        </defs>
-                        <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" strokeOpacity={0.5} vertical={false} />
-                        <XAxis
-                          dataKey="date"
-                          tickFormatter={(v) => new Date(v).toLocaleDateString("en-US", { month: "short", day: "numeric" })}
-                          axisLine={false}
-                          tickLine={false}
-                          tick={{ fill: "#9ca3af", fontSize: 11, fontWeight: 500 }}
-                          dy={10}
-                        />
-                        <YAxis
-                          tickFormatter={(v) => {
-                            if (selectedChartMetric === "mer" || selectedChartMetric === "roas") return `${v.toFixed(1)}x`
-                            if (selectedChartMetric === "cpa" || selectedChartMetric === "cpm") return `$${v.toFixed(0)}`
-                            if (selectedChartMetric === "ctr") return `${v.toFixed(1)}%`
-                            return formatNumber(v)
-                          }}
-                          axisLine={false}
-                          tickLine={false}
-                          tick={{ fill: "#9ca3af", fontSize: 11, fontWeight: 500 }}
-                          domain={selectedChartMetric === "mer" || selectedChartMetric === "roas" ? [0, 'auto'] : undefined}
-                          dx={-10}
-                        />
-                        <Tooltip
-                          contentStyle={{
-                            borderRadius: "12px",
-                            border: "none",
-                            boxShadow: "0 20px 25px -5px rgb(0 0 0 / 0.1), 0 8px 10px -6px rgb(0 0 0 / 0.1)",
-                            padding: "12px 16px"
-                          }}
-                          labelFormatter={(v) => new Date(v).toLocaleDateString("en-US", { weekday: "long", month: "short", day: "numeric" })}
-                          formatter={(value) => {
-                            const numValue = Number(value)
-                            if (selectedChartMetric === "mer" || selectedChartMetric === "roas") return [`${numValue.toFixed(2)}x`, selectedChartMetric.toUpperCase()]
-                            if (selectedChartMetric === "cpa" || selectedChartMetric === "cpm") return [formatCurrency(numValue), selectedChartMetric.toUpperCase()]
-                            if (selectedChartMetric === "ctr") return [`${numValue.toFixed(2)}%`, "CTR"]
-                            return [formatNumber(numValue), "Purchases"]
-                          }}
-                          cursor={{ stroke: "#9ca3af", strokeWidth: 1, strokeDasharray: "4 4" }}
-                        />
-                        <Area
-                          type="monotoneX"
-                          dataKey={selectedChartMetric}
-                          name={CHART_METRICS.find(m => m.value === selectedChartMetric)?.label}
-                          stroke={primaryColor}
-                          fill="url(#metricGradient)"
-                          strokeWidth={3}
-                          dot={false}
-                          activeDot={{ r: 6, stroke: "#fff", strokeWidth: 2, fill: primaryColor }}
-                        />
-                      </AreaChart>
-                    )}
-                  </ResponsiveContainer>
-                </div>
+                    {/* Chart */}
+                    <div className="h-[380px] -mx-2">
+                      <ResponsiveContainer width="100%" height="100%">
+                        {selectedChartMetric === "performance" ? (
+                          <AreaChart data={chartData.filter(d => d.roas !== null)} margin={{ top: 10, right: 60, left: 0, bottom: 0 }}>
+                            <defs>
+                              <linearGradient id="roasGradient" x1="0" y1="0" x2="0" y2="1">
+                                <stop offset="0%" stopColor="#10b981" stopOpacity={0.2}/>
+                                <stop offset="100%" stopColor="#10b981" stopOpacity={0}/>
+                              </linearGradient>
+                            </defs>
+                            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" strokeOpacity={0.5} vertical={false} />
+                            <XAxis
+                              dataKey="date"
+                              tickFormatter={formatDateForDisplay}
+                              axisLine={false}
+                              tickLine={false}
+                              tick={{ fill: "#9ca3af", fontSize: 11, fontWeight: 500 }}
+                              dy={10}
+                            />
+                            <YAxis
+                              yAxisId="roas"
+                              orientation="left"
+                              tickFormatter={(v) => `${v.toFixed(1)}x`}
+                              axisLine={false}
+                              tickLine={false}
+                              tick={{ fill: "#10b981", fontSize: 11, fontWeight: 500 }}
+                              domain={[0, 'auto']}
+                            />
+                            <YAxis
+                              yAxisId="cpa"
+                              orientation="right"
+                              tickFormatter={(v) => `$${v.toFixed(0)}`}
+                              axisLine={false}
+                              tickLine={false}
+                              tick={{ fill: "#f59e0b", fontSize: 11, fontWeight: 500 }}
+                            />
+                            <YAxis
+                              yAxisId="ctr"
+                              orientation="right"
+                              tickFormatter={(v) => `${v.toFixed(1)}%`}
+                              axisLine={false}
+                              tickLine={false}
+                              tick={{ fill: "#8b5cf6", fontSize: 11, fontWeight: 500 }}
+                              hide
+                            />
+                            <YAxis
+                              yAxisId="purchases"
+                              orientation="right"
+                              axisLine={false}
+                              tickLine={false}
+                              tick={{ fill: "#3b82f6", fontSize: 11, fontWeight: 500 }}
+                              hide
+                            />
+                            <Tooltip
+                              contentStyle={{
+                                borderRadius: "12px",
+                                border: "none",
+                                boxShadow: "0 20px 25px -5px rgb(0 0 0 / 0.1), 0 8px 10px -6px rgb(0 0 0 / 0.1)",
+                                padding: "12px 16px"
+                              }}
+                              labelFormatter={(v) => formatDateWithWeekday(String(v))}
+                              formatter={(value, name) => {
+                                if (value == null) return ["—", name]
+                                const numValue = Number(value)
+                                if (name === "ROAS") return [`${numValue.toFixed(2)}x`, name]
+                                if (name === "CPA") return [formatCurrency(numValue), name]
+                                if (name === "CTR") return [`${numValue.toFixed(2)}%`, name]
+                                return [formatNumber(numValue), name]
+                              }}
+                              cursor={{ stroke: "#9ca3af", strokeWidth: 1, strokeDasharray: "4 4" }}
+                            />
+                            <Legend
+                              verticalAlign="top"
+                              height={36}
+                              iconType="circle"
+                              wrapperStyle={{ paddingBottom: "20px" }}
+                            />
+                            <Area
+                              yAxisId="roas"
+                              type="monotoneX"
+                              dataKey="roas"
+                              name="ROAS"
+                              stroke="#10b981"
+                              fill="url(#roasGradient)"
+                              strokeWidth={3}
+                              dot={false}
+                              activeDot={{ r: 5, stroke: "#fff", strokeWidth: 2, fill: "#10b981" }}
+                              connectNulls
+                            />
+                            <Line
+                              yAxisId="cpa"
+                              type="monotoneX"
+                              dataKey="cpa"
+                              name="CPA"
+                              stroke="#f59e0b"
+                              strokeWidth={2.5}
+                              dot={false}
+                              activeDot={{ r: 5, stroke: "#fff", strokeWidth: 2, fill: "#f59e0b" }}
+                              connectNulls
+                            />
+                            <Line
+                              yAxisId="ctr"
+                              type="monotoneX"
+                              dataKey="ctr"
+                              name="CTR"
+                              stroke="#8b5cf6"
+                              strokeWidth={2.5}
+                              dot={false}
+                              activeDot={{ r: 5, stroke: "#fff", strokeWidth: 2, fill: "#8b5cf6" }}
+                              connectNulls
+                            />
+                            <Line
+                              yAxisId="purchases"
+                              type="monotoneX"
+                              dataKey="purchases"
+                              name="Purchases"
+                              stroke="#3b82f6"
+                              strokeWidth={2.5}
+                              dot={false}
+                              activeDot={{ r: 5, stroke: "#fff", strokeWidth: 2, fill: "#3b82f6" }}
+                            />
+                          </AreaChart>
+                        ) : selectedChartMetric === "revenue_spend" ? (
+                          <AreaChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                            <defs>
+                              <linearGradient id="revenueGradient" x1="0" y1="0" x2="0" y2="1">
+                                <stop offset="0%" stopColor="#10b981" stopOpacity={0.4}/>
+                                <stop offset="50%" stopColor="#10b981" stopOpacity={0.15}/>
+                                <stop offset="100%" stopColor="#10b981" stopOpacity={0}/>
+                              </linearGradient>
+                              <linearGradient id="spendGradient" x1="0" y1="0" x2="0" y2="1">
+                                <stop offset="0%" stopColor="#f43f5e" stopOpacity={0.3}/>
+                                <stop offset="50%" stopColor="#f43f5e" stopOpacity={0.1}/>
+                                <stop offset="100%" stopColor="#f43f5e" stopOpacity={0}/>
+                              </linearGradient>
+                              <filter id="shadow" x="-20%" y="-20%" width="140%" height="140%">
+                                <feDropShadow dx="0" dy="4" stdDeviation="8" floodColor="#10b981" floodOpacity="0.3"/>
+                              </filter>
+                            </defs>
+                            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" strokeOpacity={0.5} vertical={false} />
+                            <XAxis
+                              dataKey="date"
+                              tickFormatter={formatDateForDisplay}
+                              axisLine={false}
+                              tickLine={false}
+                              tick={{ fill: "#9ca3af", fontSize: 11, fontWeight: 500 }}
+                              dy={10}
+                            />
+                            <YAxis
+                              tickFormatter={(v) => formatCurrency(v)}
+                              axisLine={false}
+                              tickLine={false}
+                              tick={{ fill: "#9ca3af", fontSize: 11, fontWeight: 500 }}
+                              dx={-10}
+                            />
+                            <Tooltip
+                              contentStyle={{
+                                borderRadius: "12px",
+                                border: "none",
+                                boxShadow: "0 20px 25px -5px rgb(0 0 0 / 0.1), 0 8px 10px -6px rgb(0 0 0 / 0.1)",
+                                padding: "12px 16px"
+                              }}
+                              labelFormatter={(v) => formatDateWithWeekday(String(v))}
+                              formatter={(value, name) => [formatCurrency(Number(value)), name]}
+                              cursor={{ stroke: "#9ca3af", strokeWidth: 1, strokeDasharray: "4 4" }}
+                            />
+                            <Legend
+                              verticalAlign="top"
+                              height={36}
+                              iconType="circle"
+                              wrapperStyle={{ paddingBottom: "20px" }}
+                            />
+                            <Area
+                              type="monotoneX"
+                              dataKey="revenue"
+                              name="Revenue"
+                              stroke="#10b981"
+                              fill="url(#revenueGradient)"
+                              strokeWidth={3}
+                              dot={false}
+                              activeDot={{ r: 6, stroke: "#fff", strokeWidth: 2, fill: "#10b981" }}
+                            />
+                            <Area
+                              type="monotoneX"
+                              dataKey="spend"
+                              name="Ad Spend"
+                              stroke="#f43f5e"
+                              fill="url(#spendGradient)"
+                              strokeWidth={3}
+                              dot={false}
+                              activeDot={{ r: 6, stroke: "#fff", strokeWidth: 2, fill: "#f43f5e" }}
+                            />
+                          </AreaChart>
+                        ) : selectedChartMetric === "amer" ? (
+                          <AreaChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                            <defs>
+                              <linearGradient id="amerGradient" x1="0" y1="0" x2="0" y2="1">
+                                <stop offset="0%" stopColor={primaryColor} stopOpacity={0.4}/>
+                                <stop offset="50%" stopColor={primaryColor} stopOpacity={0.15}/>
+                                <stop offset="100%" stopColor={primaryColor} stopOpacity={0}/>
+                              </linearGradient>
+                            </defs>
+                            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" strokeOpacity={0.5} vertical={false} />
+                            <XAxis
+                              dataKey="date"
+                              tickFormatter={formatDateForDisplay}
+                              axisLine={false}
+                              tickLine={false}
+                              tick={{ fill: "#9ca3af", fontSize: 11, fontWeight: 500 }}
+                              dy={10}
+                            />
+                            <YAxis
+                              tickFormatter={(v) => `${v.toFixed(1)}x`}
+                              axisLine={false}
+                              tickLine={false}
+                              tick={{ fill: "#9ca3af", fontSize: 11, fontWeight: 500 }}
+                              domain={[0, 'auto']}
+                              dx={-10}
+                            />
+                            <Tooltip
+                              contentStyle={{
+                                borderRadius: "12px",
+                                border: "none",
+                                boxShadow: "0 20px 25px -5px rgb(0 0 0 / 0.1), 0 8px 10px -6px rgb(0 0 0 / 0.1)",
+                                padding: "12px 16px"
+                              }}
+                              labelFormatter={(v) => formatDateWithWeekday(String(v))}
+                              formatter={(value, name) => [`${Number(value).toFixed(2)}x`, name]}
+                              cursor={{ stroke: "#9ca3af", strokeWidth: 1, strokeDasharray: "4 4" }}
+                            />
+                            <Legend
+                              verticalAlign="top"
+                              height={36}
+                              iconType="circle"
+                              wrapperStyle={{ paddingBottom: "20px" }}
+                            />
+                            <Area
+                              type="monotoneX"
+                              dataKey="mer"
+                              name="Daily MER"
+                              stroke="#c4b5fd"
+                              fill="none"
+                              strokeWidth={2}
+                              strokeDasharray="6 4"
+                              dot={false}
+                            />
+                            <Area
+                              type="monotoneX"
+                              dataKey="amer"
+                              name="7-Day aMER"
+                              stroke={primaryColor}
+                              fill="url(#amerGradient)"
+                              strokeWidth={3}
+                              dot={false}
+                              activeDot={{ r: 6, stroke: "#fff", strokeWidth: 2, fill: primaryColor }}
+                            />
+                          </AreaChart>
+                        ) : (
+                          <AreaChart
+                            data={chartData.filter(d => {
+                              if (selectedChartMetric === "cpa") return d.cpa != null && d.cpa > 0
+                              return true
+                            })}
+                            margin={{ top: 10, right: 10, left: 0, bottom: 0 }}
+                          >
+                            <defs>
+                              <linearGradient id="metricGradient" x1="0" y1="0" x2="0" y2="1">
+                                <stop offset="0%" stopColor={primaryColor} stopOpacity={0.4}/>
+                                <stop offset="50%" stopColor={primaryColor} stopOpacity={0.15}/>
+                                <stop offset="100%" stopColor={primaryColor} stopOpacity={0}/>
+                              </linearGradient>
+                            </defs>
+                            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" strokeOpacity={0.5} vertical={false} />
+                            <XAxis
+                              dataKey="date"
+                              tickFormatter={formatDateForDisplay}
+                              axisLine={false}
+                              tickLine={false}
+                              tick={{ fill: "#9ca3af", fontSize: 11, fontWeight: 500 }}
+                              dy={10}
+                            />
+                            <YAxis
+                              tickFormatter={(v) => {
+                                if (selectedChartMetric === "mer" || selectedChartMetric === "roas") return `${v.toFixed(1)}x`
+                                if (selectedChartMetric === "cpa" || selectedChartMetric === "cpm") return `$${v.toFixed(0)}`
+                                if (selectedChartMetric === "ctr") return `${v.toFixed(1)}%`
+                                return formatNumber(v)
+                              }}
+                              axisLine={false}
+                              tickLine={false}
+                              tick={{ fill: "#9ca3af", fontSize: 11, fontWeight: 500 }}
+                              domain={selectedChartMetric === "mer" || selectedChartMetric === "roas" ? [0, 'auto'] : undefined}
+                              dx={-10}
+                            />
+                            <Tooltip
+                              contentStyle={{
+                                borderRadius: "12px",
+                                border: "none",
+                                boxShadow: "0 20px 25px -5px rgb(0 0 0 / 0.1), 0 8px 10px -6px rgb(0 0 0 / 0.1)",
+                                padding: "12px 16px"
+                              }}
+                              labelFormatter={(v) => formatDateWithWeekday(String(v))}
+                              formatter={(value) => {
+                                const numValue = Number(value)
+                                if (selectedChartMetric === "mer" || selectedChartMetric === "roas") return [`${numValue.toFixed(2)}x`, selectedChartMetric.toUpperCase()]
+                                if (selectedChartMetric === "cpa" || selectedChartMetric === "cpm") return [formatCurrency(numValue), selectedChartMetric.toUpperCase()]
+                                if (selectedChartMetric === "ctr") return [`${numValue.toFixed(2)}%`, "CTR"]
+                                return [formatNumber(numValue), "Purchases"]
+                              }}
+                              cursor={{ stroke: "#9ca3af", strokeWidth: 1, strokeDasharray: "4 4" }}
+                            />
+                            <Area
+                              type="monotoneX"
+                              dataKey={selectedChartMetric}
+                              name={CHART_METRICS.find(m => m.value === selectedChartMetric)?.label}
+                              stroke={primaryColor}
+                              fill="url(#metricGradient)"
+                              strokeWidth={3}
+                              dot={false}
+                              activeDot={{ r: 6, stroke: "#fff", strokeWidth: 2, fill: primaryColor }}
+                            />
+                          </AreaChart>
+                        )}
+                      </ResponsiveContainer>
+                    </div>
+                  </>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -1751,6 +1872,11 @@ export function MetaDashboard() {
                     insights.push({ type: "info", message: `Low frequency (${kpis.frequency.toFixed(1)}) - room to increase impressions` })
                   }
 
+                  // Creative fatigue
+                  if (fatiguedAdCount > 0) {
+                    insights.push({ type: "warning", message: `${fatiguedAdCount} ${fatiguedAdCount === 1 ? "ad is" : "ads are"} showing creative fatigue - rotate in fresh creative` })
+                  }
+
                   // CPA trend
                   const cpaDelta = calculateDelta(kpis.cpa, prevKpis.cpa)
                   if (cpaDelta < -10 && kpis.purchases > 5) {
@@ -1905,10 +2031,22 @@ export function MetaDashboard() {
         </Card>
       )}
 
+      {/* Budget Pacing */}
+      <MetaBudgetPacing
+        attribution={attribution}
+        onSelectCampaign={(id) => navigate(`/meta/campaigns/${encodeURIComponent(id)}`)}
+      />
+
+      {/* Automated Rules */}
+      <MetaRulesPanel attribution={attribution} />
+
+      {/* Platform vs Shopify */}
+      <MetaShopifyReconciliation datePreset={datePreset} attribution={attribution} />
+
       {/* Campaigns Table */}
       <Card>
         <CardHeader className="cursor-pointer" onClick={() => setCampaignsCollapsed(!campaignsCollapsed)}>
-          <div className="flex items-center justify-between">
+          <div className="flex flex-wrap items-center justify-between gap-2">
             <CardTitle className="flex items-center gap-2 text-base">
               <Layers className="h-5 w-5 text-rh-accent" />
               Ad Campaigns
@@ -1916,9 +2054,23 @@ export function MetaDashboard() {
                 {campaigns.length}
               </span>
             </CardTitle>
-            <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
-              {campaignsCollapsed ? <ChevronDown className="h-4 w-4" /> : <ChevronUp className="h-4 w-4" />}
-            </Button>
+            <div className="flex items-center gap-2">
+              {!campaignsCollapsed && (
+                <CampaignTableViews
+                  savedViews={savedViews}
+                  activeViewId={activeViewId}
+                  layout={campaignLayout}
+                  onApply={applyCampaignLayout}
+                  onColumnsChange={(columns, computed) => {
+                    setCampaignColumns(columns)
+                    setComputedColumns(computed)
+                  }}
+                />
+              )}
+              <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
+                {campaignsCollapsed ? <ChevronDown className="h-4 w-4" /> : <ChevronUp className="h-4 w-4" />}
+              </Button>
+            </div>
           </div>
         </CardHeader>
         {!campaignsCollapsed && <CardContent>
@@ -1942,69 +2094,30 @@ export function MetaDashboard() {
                     <th className="whitespace-nowrap px-4 py-3 text-center font-medium text-gray-600">
                       Status
                     </th>
-                    <th
-                      className="whitespace-nowrap px-4 py-3 text-right font-medium text-gray-600 cursor-pointer hover:text-gray-900"
-                      onClick={() => {
-                        if (campaignSortField === "spend") {
-                          setCampaignSortDirection(d => d === "asc" ? "desc" : "asc")
-                        } else {
-                          setCampaignSortField("spend")
-                          setCampaignSortDirection("desc")
-                        }
-                      }}
-                    >
-                      <span className="inline-flex items-center gap-1">
-                        Spend
-                        {campaignSortField === "spend" && (campaignSortDirection === "desc" ? <ChevronDown className="h-3 w-3" /> : <ChevronUp className="h-3 w-3" />)}
-                      </span>
-                    </th>
-                    <th
-                      className="whitespace-nowrap px-4 py-3 text-right font-medium text-gray-600 cursor-pointer hover:text-gray-900"
-                      onClick={() => {
-                        if (campaignSortField === "roas") {
-                          setCampaignSortDirection(d => d === "asc" ? "desc" : "asc")
-                        } else {
-                          setCampaignSortField("roas")
-                          setCampaignSortDirection("desc")
-                        }
-                      }}
-                    >
-                      <span className="inline-flex items-center gap-1">
-                        ROAS
-                        {campaignSortField === "roas" && (campaignSortDirection === "desc" ? <ChevronDown className="h-3 w-3" /> : <ChevronUp className="h-3 w-3" />)}
-                      </span>
-                    </th>
-                    <th
-                      className="whitespace-nowrap px-4 py-3 text-right font-medium text-gray-600 cursor-pointer hover:text-gray-900"
-                      onClick={() => {
-                        if (campaignSortField === "purchases") {
-                          setCampaignSortDirection(d => d === "asc" ? "desc" : "asc")
-                        } else {
-                          setCampaignSortField("purchases")
-                          setCampaignSortDirection("desc")
-                        }
-                      }}
-                    >
-                      <span className="inline-flex items-center gap-1">
-                        Purchases
-                        {campaignSortField === "purchases" && (campaignSortDirection === "desc" ? <ChevronDown className="h-3 w-3" /> : <ChevronUp className="h-3 w-3" />)}
-                      </span>
-                    </th>
-                    <th className="whitespace-nowrap px-4 py-3 text-right font-medium text-gray-600">
-                      Revenue
-                    </th>
-                    <th className="whitespace-nowrap px-4 py-3 text-right font-medium text-gray-600">
-                      CPA
-                    </th>
-                    <th className="whitespace-nowrap px-4 py-3 text-right font-medium text-gray-600">
-                      CPM
-                    </th>
-                    <th className="whitespace-nowrap px-4 py-3 text-right font-medium text-gray-600">
-                      CTR
-                    </th>
-                    <th className="whitespace-nowrap px-4 py-3 text-right font-medium text-gray-600">
-                      Impressions
-                    </th>
+                    {visibleColumns.map((column) => (
+                      <th
+                        key={column.id}
+                        className="whitespace-nowrap px-4 py-3 text-right font-medium text-gray-600 cursor-pointer hover:text-gray-900"
+                        onClick={() => toggleCampaignSort(column.id)}
+                      >
+                        <span className="inline-flex items-center gap-1">
+                          {column.label}
+                          {campaignSortField === column.id && (campaignSortDirection === "desc" ? <ChevronDown className="h-3 w-3" /> : <ChevronUp className="h-3 w-3" />)}
+                        </span>
+                      </th>
+                    ))}
+                    {compareWindows && (
+                      <>
+                        {COMPARISON_WINDOWS.map((window) => (
+                          <th key={window.value} className="whitespace-nowrap border-l px-4 py-3 text-right font-medium text-gray-600">
+                            {window.label}
+                          </th>
+                        ))}
+                        <th className="whitespace-nowrap px-4 py-3 text-right font-medium text-gray-600" title="Share of 7d click + 1d view revenue only view-through credits">
+                          View-through
+                        </th>
+                      </>
+                    )}
                     <th className="whitespace-nowrap px-4 py-3 text-center font-medium text-gray-600">
                       Actions
                     </th>
@@ -2067,32 +2180,55 @@ export function MetaDashboard() {
                             {campaign.status}
                           </span>
                         </td>
-                        <td className="px-4 py-3 text-right font-medium">
-                          {formatCurrency(campaign.metrics.spend)}
-                        </td>
-                        <td className="px-4 py-3 text-right">
-                          <span className={`font-semibold ${campaign.metrics.roas >= 1 ? "text-rh-positive" : "text-rh-negative"}`}>
-                            {formatRoas(campaign.metrics.roas)}
-                          </span>
-                        </td>
-                        <td className="px-4 py-3 text-right font-medium">
-                          {campaign.metrics.purchases}
-                        </td>
-                        <td className="px-4 py-3 text-right font-medium text-rh-positive">
-                          {formatCurrency(campaign.metrics.revenue)}
-                        </td>
-                        <td className="px-4 py-3 text-right">
-                          {formatCurrency(campaign.metrics.cpa)}
-                        </td>
-                        <td className="px-4 py-3 text-right">
-                          {formatCurrency(campaign.metrics.cpm)}
-                        </td>
-                        <td className="px-4 py-3 text-right">
-                          {formatPercent(campaign.metrics.ctr)}
-                        </td>
-                        <td className="px-4 py-3 text-right">
-                          {formatNumber(campaign.metrics.impressions)}
-                        </td>
+                        {visibleColumns.map((column) => {
+                          const value = column.value(campaign.metrics)
+                          return (
+                            <td
+                              key={column.id}
+                              className={`px-4 py-3 text-right ${
+                                column.id === "revenue" ? "font-medium text-rh-positive" : column.id === "spend" || column.id === "purchases" ? "font-medium" : ""
+                              }`}
+                            >
+                              {column.isReturn ? (
+                                <span className={`font-semibold ${value >= 1 ? "text-rh-positive" : "text-rh-negative"}`}>
+                                  {formatColumnValue(value, column.format)}
+                                </span>
+                              ) : (
+                                formatColumnValue(value, column.format)
+                              )}
+                            </td>
+                          )
+                        })}
+                        {compareWindows && (
+                          <>
+                            {COMPARISON_WINDOWS.map((window) => {
+                              const m = campaignWindows?.data[campaign.id]?.[window.value]
+                              return (
+                                <td key={window.value} className="whitespace-nowrap border-l px-4 py-3 text-right">
+                                  {m ? (
+                                    <>
+                                      <p>
+                                        <span className={`font-semibold ${m.roas >= 1 ? "text-rh-positive" : "text-rh-negative"}`}>{formatRoas(m.roas)}</span>
+                                        <span className="ml-2 text-gray-600">{formatCurrency(m.revenue)}</span>
+                                      </p>
+                                      <p className="text-xs text-gray-500">
+                                        {m.purchases} purch · {m.purchases > 0 ? `${formatCurrency(m.cpa)} CPA` : "no CPA"}
+                                      </p>
+                                    </>
+                                  ) : (
+                                    <span className="text-gray-400">-</span>
+                                  )}
+                                </td>
+                              )
+                            })}
+                            <td className="px-4 py-3 text-right">
+                              {(() => {
+                                const share = getViewThroughShare(campaignWindows?.data[campaign.id])
+                                return share === null ? "-" : formatPercent(share)
+                              })()}
+                            </td>
+                          </>
+                        )}
                         <td className="px-4 py-3 text-center">
                           <div className="flex items-center justify-center gap-1">
                             <Button
@@ -2125,7 +2261,7 @@ export function MetaDashboard() {
                       {/* Expanded adsets and ads */}
                       {expandedCampaigns.has(campaign.id) && (
                         <tr key={`${campaign.id}-adsets`}>
-                          <td colSpan={11} className="bg-gray-50/80 px-4 py-3">
+                          <td colSpan={3 + visibleColumns.length + (compareWindows ? COMPARISON_WINDOWS.length + 1 : 0)} className="bg-gray-50/80 px-4 py-3">
                             {loadingAdsets.has(campaign.id) ? (
                               <div className="flex items-center justify-center py-4">
                                 <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
@@ -2203,8 +2339,7 @@ export function MetaDashboard() {
                                             className="rounded-lg border bg-white overflow-hidden cursor-pointer hover:shadow-md transition-all hover:-translate-y-0.5"
                                             onClick={(e) => {
                                               e.stopPropagation()
-                                              setSelectedAd(ad)
-                                              setDrawerOpen(true)
+                                              openAdDrawer(ad)
                                             }}
                                           >
                                             <div className="relative aspect-square bg-gray-100">
@@ -2288,47 +2423,51 @@ export function MetaDashboard() {
                       Total ({sortedCampaigns.length} campaigns)
                     </td>
                     <td className="px-4 py-3"></td>
-                    <td className="px-4 py-3 text-right">
-                      {formatCurrency(sortedCampaigns.reduce((sum, c) => sum + c.metrics.spend, 0))}
-                    </td>
-                    <td className="px-4 py-3 text-right">
-                      {(() => {
-                        const totalSpend = sortedCampaigns.reduce((sum, c) => sum + c.metrics.spend, 0)
-                        const totalRevenue = sortedCampaigns.reduce((sum, c) => sum + c.metrics.revenue, 0)
-                        const avgRoas = totalSpend > 0 ? totalRevenue / totalSpend : 0
-                        return <span className={avgRoas >= 1 ? "text-rh-positive" : "text-rh-negative"}>{formatRoas(avgRoas)}</span>
-                      })()}
-                    </td>
-                    <td className="px-4 py-3 text-right">
-                      {sortedCampaigns.reduce((sum, c) => sum + c.metrics.purchases, 0)}
-                    </td>
-                    <td className="px-4 py-3 text-right text-rh-positive">
-                      {formatCurrency(sortedCampaigns.reduce((sum, c) => sum + c.metrics.revenue, 0))}
-                    </td>
-                    <td className="px-4 py-3 text-right">
-                      {(() => {
-                        const totalSpend = sortedCampaigns.reduce((sum, c) => sum + c.metrics.spend, 0)
-                        const totalPurchases = sortedCampaigns.reduce((sum, c) => sum + c.metrics.purchases, 0)
-                        return totalPurchases > 0 ? formatCurrency(totalSpend / totalPurchases) : "-"
-                      })()}
-                    </td>
-                    <td className="px-4 py-3 text-right">
-                      {(() => {
-                        const totalSpend = sortedCampaigns.reduce((sum, c) => sum + c.metrics.spend, 0)
-                        const totalImpressions = sortedCampaigns.reduce((sum, c) => sum + c.metrics.impressions, 0)
-                        return totalImpressions > 0 ? formatCurrency((totalSpend / totalImpressions) * 1000) : "-"
-                      })()}
-                    </td>
-                    <td className="px-4 py-3 text-right">
-                      {(() => {
-                        const totalClicks = sortedCampaigns.reduce((sum, c) => sum + c.metrics.clicks, 0)
-                        const totalImpressions = sortedCampaigns.reduce((sum, c) => sum + c.metrics.impressions, 0)
-                        return totalImpressions > 0 ? formatPercent((totalClicks / totalImpressions) * 100) : "-"
-                      })()}
-                    </td>
-                    <td className="px-4 py-3 text-right">
-                      {formatNumber(sortedCampaigns.reduce((sum, c) => sum + c.metrics.impressions, 0))}
-                    </td>
+                    {(() => {
+                      const totals = totalMetrics(sortedCampaigns.map((c) => c.metrics))
+                      return visibleColumns.map((column) => {
+                        const value = column.value(totals)
+                        return (
+                          <td
+                            key={column.id}
+                            className={`px-4 py-3 text-right ${
+                              column.isReturn ? (value >= 1 ? "text-rh-positive" : "text-rh-negative") : column.id === "revenue" ? "text-rh-positive" : ""
+                            }`}
+                          >
+                            {formatColumnValue(value, column.format)}
+                          </td>
+                        )
+                      })
+                    })()}
+                    {compareWindows && (() => {
+                      const totals = sumAttributionWindows(
+                        sortedCampaigns.map((c) => ({ spend: c.metrics.spend, byWindow: campaignWindows?.data[c.id] }))
+                      )
+                      const share = getViewThroughShare(campaignWindows ? totals : undefined)
+                      return (
+                        <>
+                          {COMPARISON_WINDOWS.map((window) => {
+                            const m = totals[window.value]
+                            return (
+                              <td key={window.value} className="whitespace-nowrap border-l px-4 py-3 text-right">
+                                {campaignWindows && m ? (
+                                  <>
+                                    <p>
+                                      <span className={m.roas >= 1 ? "text-rh-positive" : "text-rh-negative"}>{formatRoas(m.roas)}</span>
+                                      <span className="ml-2 text-gray-600">{formatCurrency(m.revenue)}</span>
+                                    </p>
+                                    <p className="text-xs font-normal text-gray-500">
+                                      {m.purchases} purch · {m.purchases > 0 ? `${formatCurrency(m.cpa)} CPA` : "no CPA"}
+                                    </p>
+                                  </>
+                                ) : "-"}
+                              </td>
+                            )
+                          })}
+                          <td className="px-4 py-3 text-right">{share === null ? "-" : formatPercent(share)}</td>
+                        </>
+                      )
+                    })()}
                     <td className="px-4 py-3"></td>
                   </tr>
                 </tfoot>
@@ -2380,7 +2519,7 @@ export function MetaDashboard() {
                         key={option.value}
                         onClick={() => {
                           if (sortField === option.value) {
-                            setSortDirection(d => d === "asc" ? "desc" : "asc")
+                            setSortDirection(sortDirection === "asc" ? "desc" : "asc")
                           } else {
                             setSortField(option.value)
                             setSortDirection("desc")
@@ -2444,6 +2583,49 @@ export function MetaDashboard() {
                 )}
               </div>
 
+              {/* Fatigue Filter */}
+              <Button
+                variant={fatiguedOnly ? "default" : "outline"}
+                size="sm"
+                onClick={() => setFatiguedOnly(!fatiguedOnly)}
+                title="Rising frequency with falling CTR and rising CPA over the last week"
+              >
+                <BatteryLow className="mr-2 h-4 w-4" />
+                Fatigued
+                {fatiguedAdCount > 0 && (
+                  <span className="ml-1 rounded-full bg-rh-negative/10 px-1.5 text-xs text-rh-negative">
+                    {fatiguedAdCount}
+                  </span>
+                )}
+              </Button>
+
+              {/* Compare */}
+              <div className="flex">
+                <Button
+                  variant={compareIds.length > 0 ? "default" : "outline"}
+                  size="sm"
+                  disabled={comparedAds.length < 2}
+                  onClick={() => setComparisonOpenParam("1")}
+                  className={compareIds.length > 0 ? "rounded-r-none" : ""}
+                  title={comparedAds.length < 2 ? `Tick 2-${MAX_COMPARED_ADS} ads to compare them` : undefined}
+                >
+                  <Columns3 className="mr-2 h-4 w-4" />
+                  Compare
+                  {compareIds.length > 0 && ` (${compareIds.length})`}
+                </Button>
+                {compareIds.length > 0 && (
+                  <Button
+                    variant="default"
+                    size="sm"
+                    className="rounded-l-none border-l border-white/20 px-2"
+                    onClick={() => setCompareIds([])}
+                    aria-label="Clear comparison"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+
               {/* View Toggle */}
               <div className="flex rounded-md border" onClick={(e) => e.stopPropagation()}>
                 <Button
@@ -2458,10 +2640,19 @@ export function MetaDashboard() {
                   variant={viewMode === "list" ? "default" : "ghost"}
                   size="sm"
                   onClick={() => setViewMode("list")}
-                  className="rounded-l-none"
+                  className="rounded-none"
                 >
                   <List className="h-4 w-4" />
                 </Button>
+                <Button
+                  variant={viewMode === "tree" ? "default" : "ghost"}
+                  size="sm"
+                  onClick={() => setViewMode("tree")}
+                  className="rounded-l-none"
+                  title="Campaign → ad set → ad"
+                >
+                  <ListTree className="h-4 w-4" />
+                </Button>
               </div>
 
               {/* Collapse Toggle */}
@@ -2476,6 +2667,16 @@ export function MetaDashboard() {
             <div className="flex h-48 items-center justify-center">
               <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
             </div>
+          ) : viewMode === "tree" ? (
+            <MetaHierarchyExplorer
+              campaigns={campaigns}
+              ads={filteredAds}
+              datePreset={datePreset}
+              attribution={attribution}
+              hidePaused={hidePaused}
+              onSelectCampaign={(id) => navigate(`/meta/campaigns/${encodeURIComponent(id)}`)}
+              onSelectAd={(id) => navigate(`/meta/ads/${encodeURIComponent(id)}`)}
+            />
           ) : filteredAds.length === 0 ? (
             <div className="flex h-48 flex-col items-center justify-center text-muted-foreground">
               <Image className="h-12 w-12 mb-2" />
@@ -2493,11 +2694,11 @@ export function MetaDashboard() {
                 <div
                   key={ad.id}
                   onClick={() => {
-                    setSelectedAd(ad)
-                    setDrawerOpen(true)
+                    openAdDrawer(ad)
                   }}
                   className="flex cursor-pointer items-center gap-4 rounded-lg border p-3 hover:bg-gray-50"
                 >
+                  <CompareCheckbox adId={ad.id} className="shrink-0 text-muted-foreground" />
                   <div className="h-12 w-12 flex-shrink-0 overflow-hidden rounded bg-gray-100">
                     {ad.creative.thumbnailUrl ? (
                       <img src={ad.creative.thumbnailUrl} alt="" className="h-full w-full object-cover" />
@@ -2509,7 +2710,10 @@ export function MetaDashboard() {
                   </div>
                   <div className="min-w-0 flex-1">
                     <p className="truncate font-medium">{ad.name}</p>
-                    <p className="text-xs text-muted-foreground">{ad.status}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {ad.status}
+                      {fatigueScores.get(ad.id)?.isFatigued && <span className="ml-2 font-medium text-rh-negative">Fatigued</span>}
+                    </p>
                   </div>
                   <div className="grid grid-cols-4 gap-4 text-center text-sm">
                     <div>
@@ -2538,13 +2742,16 @@ export function MetaDashboard() {
         </CardContent>}
       </Card>
 
+      {/* Performance by Creative Tag */}
+      {!adsLoading && filteredAds.length > 0 && <CreativeTagPerformance ads={taggedAds} />}
+
       {/* Campaign Detail Drawer */}
-      {campaignDrawerOpen && selectedCampaign && (
+      {selectedCampaign && (
         <div className="fixed inset-0 z-50 flex">
           {/* Backdrop */}
           <div
             className="flex-1 bg-black/50"
-            onClick={() => setCampaignDrawerOpen(false)}
+            onClick={closeCampaignDrawer}
           />
 
           {/* Drawer */}
@@ -2560,7 +2767,7 @@ export function MetaDashboard() {
                   <p className="text-sm text-muted-foreground">{selectedCampaign.objective || "Traffic"}</p>
                 </div>
               </div>
-              <Button variant="ghost" size="sm" onClick={() => setCampaignDrawerOpen(false)}>
+              <Button variant="ghost" size="sm" onClick={closeCampaignDrawer}>
                 <X className="h-5 w-5" />
               </Button>
             </div>
@@ -2672,6 +2879,14 @@ export function MetaDashboard() {
                 </CardContent>
               </Card>
 
+              {/* Breakdowns */}
+              <MetaBreakdownTabs
+                level="campaign"
+                entityId={selectedCampaign.id}
+                datePreset={datePreset}
+                attribution={attribution}
+              />
+
               {/* Ads in Campaign */}
               <Card>
                 <CardHeader>
@@ -2706,8 +2921,7 @@ export function MetaDashboard() {
                           key={ad.id}
                           className="rounded-lg border overflow-hidden cursor-pointer hover:shadow-md transition-shadow"
                           onClick={() => {
-                            setSelectedAd(ad)
-                            setDrawerOpen(true)
+                            openAdDrawer(ad)
                           }}
                         >
                           <div className="relative aspect-square bg-gray-100">
@@ -2779,13 +2993,27 @@ export function MetaDashboard() {
         </div>
       )}
 
+      {/* Ad Comparison */}
+      {showComparison && (
+        <AdComparison
+          ads={comparedAds}
+          attribution={attribution}
+          onRemove={(id) => {
+            toggleCompareAd(id)
+            if (comparedAds.length <= 2) setComparisonOpenParam("0")
+          }}
+          onOpenAd={(id) => navigate(`/meta/ads/${encodeURIComponent(id)}`)}
+          onClose={() => setComparisonOpenParam("0")}
+        />
+      )}
+
       {/* Ad Detail Drawer */}
-      {drawerOpen && selectedAd && (
+      {selectedAd && (
         <div className="fixed inset-0 z-50 flex">
           {/* Backdrop */}
           <div
             className="flex-1 bg-black/50"
-            onClick={() => setDrawerOpen(false)}
+            onClick={closeAdDrawer}
           />
 
           {/* Drawer */}
@@ -2793,7 +3021,7 @@ export function MetaDashboard() {
             {/* Header */}
             <div className="sticky top-0 flex items-center justify-between border-b bg-white px-6 py-4">
               <h2 className="text-lg font-semibold">Ad Details</h2>
-              <Button variant="ghost" size="sm" onClick={() => setDrawerOpen(false)}>
+              <Button variant="ghost" size="sm" onClick={closeAdDrawer}>
                 <X className="h-5 w-5" />
               </Button>
             </div>
@@ -2928,6 +3156,20 @@ export function MetaDashboard() {
                 </CardContent>
               </Card>
 
+              {/* Attribution Windows */}
+              {compareWindows && (
+                <AttributionWindowComparison byWindow={adWindows?.data[selectedAd.id]} isLoading={adWindowsLoading} />
+              )}
+
+              {/* Breakdowns */}
+              <MetaBreakdownTabs level="ad" entityId={selectedAd.id} datePreset={datePreset} attribution={attribution} />
+
+              {/* Creative Fatigue */}
+              <AdFatigueChart
+                days={adDaily?.data[selectedAd.id] ?? []}
+                fatigue={fatigueScores.get(selectedAd.id) ?? null}
+              />
+
               {/* Creative Details */}
               {(selectedAd.creative.title || selectedAd.creative.body) && (
                 <Card>
@@ -2969,6 +3211,15 @@ export function MetaDashboard() {
                   </CardContent>
                 </Card>
               )}
+
+              {/* Creative Tags */}
+              <AdTagEditor
+                key={selectedAd.id}
+                adName={selectedAd.name}
+                manual={adTags.tags[selectedAd.id]}
+                knownValues={knownTagValues}
+                onSave={(tags) => adTags.save(selectedAd.id, tags)}
+              />
             </div>
           </div>
         </div>
@@ -0,0 +1,308 @@
+import { useMemo, useState } from "react"
+import type { ReactNode } from "react"
+import { ChevronDown, Image, Layers, Loader2, Target } from "lucide-react"
+import { Sparkline } from "@/components/ui/sparkline"
+import { useApiQuery } from "@/hooks/useApiQuery"
+import { useQueryState } from "@/hooks/useRouter"
+import type { EntityDailyInsight, EntityDailyInsightsResponse } from "@/lib/api-types"
+import { formatCurrency } from "@/lib/date-utils"
+
+// Only the fields the explorer shows from /api/meta/entities and /api/meta/ads
+interface HierarchyEntity {
+  id: string
+  name: string
+  status: string
+  campaignId?: string
+  adsetId?: string
+  /** Cents */
+  dailyBudget?: number
+  /** Cents */
+  lifetimeBudget?: number
+  metrics: { spend: number; revenue: number; roas: number }
+}
+
+interface MetaHierarchyExplorerProps {
+  campaigns: HierarchyEntity[]
+  /** The gallery's ads (already filtered), shown when flattened */
+  ads: HierarchyEntity[]
+  datePreset: string
+  attribution: string
+  hidePaused: boolean
+  onSelectCampaign: (campaignId: string) => void
+  onSelectAd: (adId: string) => void
+}
+
+const TREND_DAYS = 14
+
+const STATUS_STYLES: Record<string, string> = {
+  ACTIVE: "bg-rh-positive/10 text-rh-positive",
+  PAUSED: "bg-yellow-100 text-yellow-700",
+}
+
+const dailyQuery = (level: string, attribution: string, campaignId?: string) =>
+  `/api/meta/insights/daily?${new URLSearchParams({
+    level,
+    attribution,
+    days: String(TREND_DAYS),
+    ...(campaignId ? { campaignId } : {}),
+  })}`
+
+/** Daily spend and ROAS series for an entity's sparklines */
+function trendSeries(days: EntityDailyInsight[] | undefined) {
+  return {
+    spend: (days ?? []).map((d) => d.spend),
+    roas: (days ?? []).map((d) => (d.spend > 0 ? d.revenue / d.spend : 0)),
+  }
+}
+
+function budgetLabel(entity: HierarchyEntity): string | null {
+  if (entity.dailyBudget) return `${formatCurrency(entity.dailyBudget / 100)}/day`
+  if (entity.lifetimeBudget) return `${formatCurrency(entity.lifetimeBudget / 100)} lifetime`
+  return null
+}
+
+interface EntityRowProps {
+  entity: HierarchyEntity
+  icon: ReactNode
+  depth: number
+  days: EntityDailyInsight[] | undefined
+  accountSpend: number
+  expanded?: boolean
+  onToggle?: () => void
+  onOpen: () => void
+}
+
+/**
+ * One campaign, ad set or ad: name, status and budget, then 14-day spend and
+ * ROAS sparklines and share of account spend. Wraps to two lines on a phone.
+ */
+function EntityRow({ entity, icon, depth, days, accountSpend, expanded, onToggle, onOpen }: EntityRowProps) {
+  const trend = trendSeries(days)
+  const share = accountSpend > 0 ? (entity.metrics.spend / accountSpend) * 100 : 0
+  const budget = budgetLabel(entity)
+
+  return (
+    <div
+      className="flex flex-wrap items-center gap-x-4 gap-y-2 border-b py-2 pr-2 last:border-0 hover:bg-gray-50"
+      style={{ paddingLeft: `${depth * 1.25}rem` }}
+    >
+      <div className="flex min-w-0 flex-1 basis-56 items-center gap-2">
+        {onToggle ? (
+          <button onClick={onToggle} className="rounded p-0.5 hover:bg-gray-200" aria-label={expanded ? "Collapse" : "Expand"}>
+            <ChevronDown className={`h-4 w-4 text-gray-400 transition-transform ${expanded ? "" : "-rotate-90"}`} />
+          </button>
+        ) : (
+          <span className="w-5 shrink-0" />
+        )}
+        <span className="shrink-0 text-muted-foreground">{icon}</span>
+        <button onClick={onOpen} className="min-w-0 text-left">
+          <p className="truncate text-sm font-medium hover:underline" title={entity.name}>{entity.name}</p>
+          <p className="flex items-center gap-2 text-[11px] text-muted-foreground">
+            <span className={`rounded-full px-1.5 py-0.5 text-[10px] font-medium ${STATUS_STYLES[entity.status] ?? "bg-gray-100 text-gray-600"}`}>
+              {entity.status}
+            </span>
+            {budget && <span>{budget}</span>}
+          </p>
+        </button>
+      </div>
+
+      <div className="ml-7 flex items-center gap-4 sm:ml-0">
+        <div className="w-24">
+          <p className="text-[11px] text-muted-foreground">Spend</p>
+          <p className="text-sm font-medium tabular-nums">{formatCurrency(entity.metrics.spend)}</p>
+          <Sparkline data={trend.spend} width={96} height={20} color="gold" />
+        </div>
+        <div className="w-24">
+          <p className="text-[11px] text-muted-foreground">ROAS</p>
+          <p className={`text-sm font-medium tabular-nums ${entity.metrics.roas >= 1 ? "text-rh-positive" : "text-rh-negative"}`}>
+            {entity.metrics.roas.toFixed(2)}x
+          </p>
+          <Sparkline data={trend.roas} width={96} height={20} />
+        </div>
+        <div className="w-16">
+          <p className="text-[11px] text-muted-foreground">Share</p>
+          <p className="text-sm font-medium tabular-nums">{share.toFixed(1)}%</p>
+          <div className="mt-1 h-1 w-full rounded-full bg-muted">
+            <div className="h-1 rounded-full bg-rh-accent" style={{ width: `${Math.min(share, 100)}%` }} />
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function LoadingRow({ depth }: { depth: number }) {
+  return (
+    <div className="flex items-center gap-2 py-2 text-xs text-muted-foreground" style={{ paddingLeft: `${depth * 1.25 + 1.75}rem` }}>
+      <Loader2 className="h-3.5 w-3.5 animate-spin" />
+      Loading…
+    </div>
+  )
+}
+
+interface CampaignNodeProps extends Omit<MetaHierarchyExplorerProps, "campaigns" | "ads"> {
+  campaign: HierarchyEntity
+  days: EntityDailyInsight[] | undefined
+  accountSpend: number
+}
+
+/**
+ * A campaign and, once expanded, its ad sets and their ads - each level is
+ * only fetched when first opened
+ */
+function CampaignNode({ campaign, days, accountSpend, datePreset, attribution, hidePaused, onSelectCampaign, onSelectAd }: CampaignNodeProps) {
+  const [expanded, setExpanded] = useState(false)
+  const [expandedAdsets, setExpandedAdsets] = useState<Set<string>>(new Set())
+
+  const params = new URLSearchParams({ datePreset, attribution, campaignId: campaign.id })
+  const { data: adsets, isLoading: adsetsLoading } = useApiQuery<{ data: HierarchyEntity[] }>(
+    expanded ? `/api/meta/entities?${params}&level=adset&limit=50` : null
+  )
+  const { data: adsetDaily } = useApiQuery<EntityDailyInsightsResponse>(
+    expanded ? dailyQuery("adset", attribution, campaign.id) : null
+  )
+  const anyAdsetOpen = expanded && expandedAdsets.size > 0
+  const { data: ads, isLoading: adsLoading } = useApiQuery<{ data: HierarchyEntity[] }>(
+    anyAdsetOpen ? `/api/meta/ads?${params}&limit=200` : null
+  )
+  const { data: adDaily } = useApiQuery<EntityDailyInsightsResponse>(
+    anyAdsetOpen ? dailyQuery("ad", attribution, campaign.id) : null
+  )
+
+  const visible = (e: HierarchyEntity) => !hidePaused || e.status === "ACTIVE"
+  const toggleAdset = (adsetId: string) => {
+    setExpandedAdsets((prev) => {
+      const next = new Set(prev)
+      if (next.has(adsetId)) next.delete(adsetId)
+      else next.add(adsetId)
+      return next
+    })
+  }
+
+  return (
+    <>
+      <EntityRow
+        entity={campaign}
+        icon={<Layers className="h-4 w-4" />}
+        depth={0}
+        days={days}
+        accountSpend={accountSpend}
+        expanded={expanded}
+        onToggle={() => setExpanded(!expanded)}
+        onOpen={() => onSelectCampaign(campaign.id)}
+      />
+      {expanded && (adsetsLoading ? (
+        <LoadingRow depth={1} />
+      ) : (
+        (adsets?.data ?? []).filter(visible).map((adset) => {
+          const adsetOpen = expandedAdsets.has(adset.id)
+          const adsetAds = (ads?.data ?? []).filter((ad) => ad.adsetId === adset.id && visible(ad))
+          return (
+            <div key={adset.id}>
+              <EntityRow
+                entity={adset}
+                icon={<Target className="h-4 w-4" />}
+                depth={1}
+                days={adsetDaily?.data[adset.id]}
+                accountSpend={accountSpend}
+                expanded={adsetOpen}
+                onToggle={() => toggleAdset(adset.id)}
+                onOpen={() => toggleAdset(adset.id)}
+              />
+              {adsetOpen && (adsLoading ? (
+                <LoadingRow depth={2} />
+              ) : adsetAds.length === 0 ? (
+                <p className="py-2 text-xs text-muted-foreground" style={{ paddingLeft: "4.25rem" }}>No ads</p>
+              ) : (
+                adsetAds.map((ad) => (
+                  <EntityRow
+                    key={ad.id}
+                    entity={ad}
+                    icon={<Image className="h-4 w-4" />}
+                    depth={2}
+                    days={adDaily?.data[ad.id]}
+                    accountSpend={accountSpend}
+                    onOpen={() => onSelectAd(ad.id)}
+                  />
+                ))
+              ))}
+            </div>
+          )
+        })
+      ))}
+    </>
+  )
+}
+
+/**
+ * Campaign → ad set → ad tree with 14-day spend and ROAS sparklines on every
+ * row, or every ad in one flat list
+ */
+export function MetaHierarchyExplorer({ campaigns, ads, ...nodeProps }: MetaHierarchyExplorerProps) {
+  const { attribution, hidePaused, onSelectAd } = nodeProps
+  const [flattenParam, setFlattenParam] = useQueryState("flatten", "0", ["0", "1"])
+  const flatten = flattenParam === "1"
+
+  const { data: campaignDaily } = useApiQuery<EntityDailyInsightsResponse>(flatten ? null : dailyQuery("campaign", attribution))
+  const { data: adDaily, isLoading: adDailyLoading } = useApiQuery<EntityDailyInsightsResponse>(
+    flatten ? dailyQuery("ad", attribution) : null
+  )
+
+  // Shares are of everything the account spent, paused campaigns included
+  const accountSpend = useMemo(() => campaigns.reduce((sum, c) => sum + c.metrics.spend, 0), [campaigns])
+  const visibleCampaigns = campaigns
+    .filter((c) => !hidePaused || c.status === "ACTIVE")
+    .sort((a, b) => b.metrics.spend - a.metrics.spend)
+  const flatAds = useMemo(() => [...ads].sort((a, b) => b.metrics.spend - a.metrics.spend), [ads])
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>Spend and ROAS over the last {TREND_DAYS} days · share of account spend</span>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={flatten}
+            onChange={(e) => setFlattenParam(e.target.checked ? "1" : "0")}
+            className="rounded"
+          />
+          Flatten to ads
+        </label>
+      </div>
+
+      <div className="rounded-lg border">
+        {flatten ? (
+          adDailyLoading ? (
+            <LoadingRow depth={0} />
+          ) : flatAds.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">No ads found</p>
+          ) : (
+            flatAds.map((ad) => (
+              <EntityRow
+                key={ad.id}
+                entity={ad}
+                icon={<Image className="h-4 w-4" />}
+                depth={0}
+                days={adDaily?.data[ad.id]}
+                accountSpend={accountSpend}
+                onOpen={() => onSelectAd(ad.id)}
+              />
+            ))
+          )
+        ) : visibleCampaigns.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">No campaigns found</p>
+        ) : (
+          visibleCampaigns.map((campaign) => (
+            <CampaignNode
+              key={campaign.id}
+              {...nodeProps}
+              campaign={campaign}
+              days={campaignDaily?.data[campaign.id]}
+              accountSpend={accountSpend}
+            />
+          ))
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,198 @@
+import { Button } from "@/components/ui/button"
+import { Plus, X } from "lucide-react"
+import type { MetaRuleAction, MetaRuleCondition, MetaRuleLevel } from "@/lib/api-types"
+import { METRIC_COLUMNS } from "@/lib/meta-columns"
+import { RULE_ACTIONS, RULE_LEVELS, RULE_LOOKBACK_OPTIONS } from "@/lib/meta-rules"
+import type { MetaRuleDraft } from "@/lib/meta-rules"
+
+interface MetaRuleEditorProps {
+  draft: MetaRuleDraft
+  onChange: (draft: MetaRuleDraft) => void
+  onSave: () => void
+  onCancel: () => void
+  isSaving: boolean
+}
+
+const selectClassName = "h-8 rounded-md border bg-background px-2 text-xs"
+const inputClassName = "h-8 rounded-md border bg-background px-2 text-xs"
+
+/**
+ * Form for a Meta rule's conditions and action
+ */
+export function MetaRuleEditor({ draft, onChange, onSave, onCancel, isSaving }: MetaRuleEditorProps) {
+  const updateCondition = (index: number, updates: Partial<MetaRuleCondition>) => {
+    onChange({ ...draft, conditions: draft.conditions.map((c, i) => (i === index ? { ...c, ...updates } : c)) })
+  }
+
+  const isBudgetAction = draft.action === "increase_budget" || draft.action === "decrease_budget"
+  const canSave = draft.name.trim() !== "" && draft.conditions.length > 0 && !isSaving
+
+  return (
+    <form
+      className="space-y-3 rounded-lg border p-3"
+      onSubmit={(e) => {
+        e.preventDefault()
+        if (canSave) onSave()
+      }}
+    >
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          autoFocus
+          value={draft.name}
+          onChange={(e) => onChange({ ...draft, name: e.target.value })}
+          placeholder="Rule name"
+          className={`${inputClassName} min-w-0 flex-1`}
+        />
+        <select
+          value={draft.level}
+          onChange={(e) => onChange({ ...draft, level: e.target.value as MetaRuleLevel })}
+          aria-label="Applies to"
+          className={selectClassName}
+        >
+          {RULE_LEVELS.map((l) => <option key={l.value} value={l.value}>{l.label}</option>)}
+        </select>
+        <select
+          value={draft.lookbackDays}
+          onChange={(e) => onChange({ ...draft, lookbackDays: Number(e.target.value) })}
+          aria-label="Lookback"
+          className={selectClassName}
+        >
+          {RULE_LOOKBACK_OPTIONS.map((days) => (
+            <option key={days} value={days}>{days === 1 ? "Yesterday" : `Last ${days} days`}</option>
+          ))}
+        </select>
+      </div>
+
+      {/* Conditions - all must hold */}
+      <div className="space-y-2">
+        <p className="text-xs font-medium uppercase tracking-wide text-gray-500">When all of</p>
+        {draft.conditions.map((condition, index) => {
+          const hasTarget = condition.target != null
+          return (
+            <div key={index} className="flex flex-wrap items-center gap-1">
+              <select
+                value={condition.metric}
+                onChange={(e) => updateCondition(index, { metric: e.target.value })}
+                aria-label="Metric"
+                className={selectClassName}
+              >
+                {METRIC_COLUMNS.map((m) => <option key={m.key} value={m.key}>{m.label}</option>)}
+              </select>
+              <select
+                value={condition.operator}
+                onChange={(e) => {
+                  const operator = e.target.value as MetaRuleCondition["operator"]
+                  // Against a target, "below" means a negative percent and "above" a positive one
+                  const value = hasTarget ? (operator === "lt" ? -1 : 1) * Math.abs(condition.value) : condition.value
+                  updateCondition(index, { operator, value })
+                }}
+                aria-label="Operator"
+                className={selectClassName}
+              >
+                <option value="lt">{hasTarget ? "is below" : "<"}</option>
+                <option value="gt">{hasTarget ? "is above" : ">"}</option>
+              </select>
+              {hasTarget ? (
+                <>
+                  <input
+                    type="number"
+                    min={0}
+                    value={Math.abs(condition.value)}
+                    onChange={(e) => {
+                      const percent = Math.abs(Number(e.target.value))
+                      updateCondition(index, { value: condition.operator === "lt" ? -percent : percent })
+                    }}
+                    aria-label="Percent from target"
+                    className={`${inputClassName} w-16`}
+                  />
+                  <span className="text-xs text-muted-foreground">% from target</span>
+                  <input
+                    type="number"
+                    step="any"
+                    value={condition.target ?? 0}
+                    onChange={(e) => updateCondition(index, { target: Number(e.target.value) })}
+                    aria-label="Target"
+                    className={`${inputClassName} w-20`}
+                  />
+                </>
+              ) : (
+                <input
+                  type="number"
+                  step="any"
+                  value={condition.value}
+                  onChange={(e) => updateCondition(index, { value: Number(e.target.value) })}
+                  aria-label="Threshold"
+                  className={`${inputClassName} w-24`}
+                />
+              )}
+              <button
+                type="button"
+                className="text-xs text-rh-accent hover:underline"
+                onClick={() =>
+                  updateCondition(index, hasTarget
+                    ? { target: null, value: condition.target ?? 0 }
+                    : { target: condition.value, value: condition.operator === "lt" ? -20 : 20 })
+                }
+              >
+                {hasTarget ? "Use a fixed value" : "Compare to a target"}
+              </button>
+              <button
+                type="button"
+                className="ml-auto rounded p-1 text-gray-500 hover:bg-gray-200"
+                onClick={() => onChange({ ...draft, conditions: draft.conditions.filter((_, i) => i !== index) })}
+                aria-label="Remove condition"
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          )
+        })}
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2 text-xs"
+          onClick={() => onChange({ ...draft, conditions: [...draft.conditions, { metric: "spend", operator: "gt", value: 100 }] })}
+        >
+          <Plus className="mr-1 h-3.5 w-3.5" />
+          Add condition
+        </Button>
+      </div>
+
+      {/* Action */}
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs font-medium uppercase tracking-wide text-gray-500">Then</span>
+        <select
+          value={draft.action}
+          onChange={(e) => onChange({ ...draft, action: e.target.value as MetaRuleAction })}
+          aria-label="Action"
+          className={selectClassName}
+        >
+          {RULE_ACTIONS.map((a) => <option key={a.value} value={a.value}>{a.label}</option>)}
+        </select>
+        {isBudgetAction && (
+          <label className="flex items-center gap-1 text-xs text-muted-foreground">
+            by
+            <input
+              type="number"
+              min={1}
+              max={100}
+              value={draft.actionValue}
+              onChange={(e) => onChange({ ...draft, actionValue: Number(e.target.value) })}
+              className={`${inputClassName} w-16`}
+            />
+            %
+          </label>
+        )}
+        <span className="ml-auto flex gap-2">
+          <Button type="button" variant="ghost" size="sm" className="h-8" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button type="submit" size="sm" className="h-8" disabled={!canSave}>
+            {draft.id ? "Save rule" : "Create rule"}
+          </Button>
+        </span>
+      </div>
+    </form>
+  )
+}
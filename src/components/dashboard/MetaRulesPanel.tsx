@@ -0,0 +1,381 @@
+import { useMemo, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Check, Loader2, Pencil, Plus, Trash2, Workflow, X } from "lucide-react"
+import { useApiQuery } from "@/hooks/useApiQuery"
+import { apiFetch } from "@/lib/api"
+import { formatCurrency, formatDateForDisplay, resolveDateRange } from "@/lib/date-utils"
+import type { EntityDailyInsightsResponse, MetaRule, MetaRuleLevel, MetaRulesResponse } from "@/lib/api-types"
+import {
+  DRY_RUN_DAYS,
+  EMPTY_RULE_DRAFT,
+  RULE_LEVELS,
+  RULE_LOOKBACK_OPTIONS,
+  describeAction,
+  describeRule,
+  dryRunRule,
+  evaluateRule,
+  formatMetricValue,
+  metricLabel,
+  proposedBudget,
+} from "@/lib/meta-rules"
+import type { DryRunResult, MetaRuleDraft, RuleHit } from "@/lib/meta-rules"
+import { MetaRuleEditor } from "./MetaRuleEditor"
+
+interface MetaRulesPanelProps {
+  attribution: string
+}
+
+type RulesTab = "inbox" | "rules" | "dry_run"
+
+const TABS: { value: RulesTab; label: string }[] = [
+  { value: "inbox", label: "Inbox" },
+  { value: "rules", label: "Rules" },
+  { value: "dry_run", label: "Dry run" },
+]
+
+// Enough history to dry-run the longest lookback over the whole preview
+const INSIGHT_DAYS = DRY_RUN_DAYS + Math.max(...RULE_LOOKBACK_OPTIONS)
+
+const levelLabel = (level: MetaRuleLevel) => RULE_LEVELS.find((l) => l.value === level)?.label ?? level
+
+const asRule = (draft: MetaRuleDraft): MetaRule => ({ ...draft, id: draft.id ?? "draft", createdAt: "" })
+
+/** What approving a hit means, spelled out for the confirmation message */
+function describeOutcome(hit: RuleHit): string {
+  const budget = proposedBudget(hit)
+  if (budget !== null) {
+    return `${describeAction(hit.rule)} on ${hit.entityName}: ${formatCurrency(hit.dailyBudget / 100)} → ${formatCurrency(budget)}/day`
+  }
+  if (hit.rule.action === "pause") return `Pause ${hit.entityName}`
+  return `${hit.entityName} flagged for review`
+}
+
+function DryRunPreview({ result, isLoading }: { result: DryRunResult | null; isLoading: boolean }) {
+  if (isLoading || !result) {
+    return (
+      <div className="flex h-24 items-center justify-center">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  const totalHits = result.entities.reduce((sum, e) => sum + e.hitDates.length, 0)
+  if (totalHits === 0) {
+    return <p className="py-4 text-center text-sm text-muted-foreground">Wouldn't have fired in the last {result.dates.length} days</p>
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">
+        Would have fired {totalHits} times on {result.entities.length} {result.entities.length === 1 ? "entity" : "entities"} over the last {result.dates.length} days
+      </p>
+      <div className="space-y-1">
+        {result.entities.map((entity) => {
+          const hitDates = new Set(entity.hitDates)
+          return (
+            <div key={entity.entityId} className="flex items-center gap-3 text-sm">
+              <span className="w-48 shrink-0 truncate" title={entity.entityName}>{entity.entityName}</span>
+              <span className="flex flex-1 gap-px">
+                {result.dates.map((date) => (
+                  <span
+                    key={date}
+                    title={`${formatDateForDisplay(date)}${hitDates.has(date) ? " - would fire" : ""}`}
+                    className={`h-4 flex-1 rounded-sm ${hitDates.has(date) ? "bg-rh-negative" : "bg-muted"}`}
+                  />
+                ))}
+              </span>
+              <span className="w-10 shrink-0 text-right text-xs tabular-nums text-muted-foreground">{entity.hitDates.length}d</span>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Automated rules over campaign, ad set and ad metrics, with an inbox of
+ * hits to approve or dismiss and a dry run against recent history
+ */
+export function MetaRulesPanel({ attribution }: MetaRulesPanelProps) {
+  const [tab, setTab] = useState<RulesTab>("inbox")
+  const [draft, setDraft] = useState<MetaRuleDraft | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [dryRunRuleId, setDryRunRuleId] = useState("")
+  const [message, setMessage] = useState<string | null>(null)
+
+  const { data: rulesData, isLoading: rulesLoading, refetch: refetchRules } = useApiQuery<MetaRulesResponse>("/api/meta/rules")
+  const rules = useMemo(() => rulesData?.rules ?? [], [rulesData])
+  const dryRunTarget = rules.find((r) => r.id === dryRunRuleId) ?? rules[0] ?? null
+
+  // Rules judge complete days, so the inbox is as of yesterday
+  const evaluationDate = resolveDateRange("yesterday").start
+
+  // Only fetch the levels some rule (or the open draft) is about
+  const neededLevels = new Set<MetaRuleLevel>(rules.filter((r) => r.enabled).map((r) => r.level))
+  if (draft) neededLevels.add(draft.level)
+  if (tab === "dry_run" && dryRunTarget) neededLevels.add(dryRunTarget.level)
+  const insightsQuery = (level: MetaRuleLevel) =>
+    neededLevels.has(level)
+      ? `/api/meta/insights/daily?${new URLSearchParams({ level, attribution, days: String(INSIGHT_DAYS) })}`
+      : null
+  const campaignInsights = useApiQuery<EntityDailyInsightsResponse>(insightsQuery("campaign"))
+  const adsetInsights = useApiQuery<EntityDailyInsightsResponse>(insightsQuery("adset"))
+  const adInsights = useApiQuery<EntityDailyInsightsResponse>(insightsQuery("ad"))
+  const insightsByLevel: Record<MetaRuleLevel, typeof campaignInsights> = {
+    campaign: campaignInsights,
+    adset: adsetInsights,
+    ad: adInsights,
+  }
+  const campaignData = campaignInsights.data
+  const adsetData = adsetInsights.data
+  const adData = adInsights.data
+
+  const pendingHits = useMemo(() => {
+    const byLevel: Record<MetaRuleLevel, EntityDailyInsightsResponse | undefined> = {
+      campaign: campaignData,
+      adset: adsetData,
+      ad: adData,
+    }
+    const decided = new Set((rulesData?.decisions ?? []).map((d) => `${d.ruleId}:${d.entityId}:${d.date}`))
+    return rules
+      .filter((rule) => rule.enabled)
+      .flatMap((rule) => {
+        const insights = byLevel[rule.level]
+        return insights ? evaluateRule(rule, insights, evaluationDate) : []
+      })
+      .filter((hit) => !decided.has(`${hit.rule.id}:${hit.entityId}:${hit.date}`))
+  }, [rules, rulesData, campaignData, adsetData, adData, evaluationDate])
+
+  const runDryRun = (rule: MetaRule | null) => {
+    const insights = rule ? insightsByLevel[rule.level].data : undefined
+    return rule && insights ? dryRunRule(rule, insights, evaluationDate) : null
+  }
+  const draftPreview = draft && draft.conditions.length > 0 ? runDryRun(asRule(draft)) : null
+  const savedPreview = tab === "dry_run" ? runDryRun(dryRunTarget) : null
+
+  const send = async (url: string, method: string, body?: unknown) => {
+    const res = await apiFetch(url, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    })
+    if (!res.ok) throw new Error(`${method} ${url} failed with ${res.status}`)
+    await refetchRules()
+  }
+
+  const decide = async (hit: RuleHit, decision: "approved" | "dismissed") => {
+    try {
+      await send("/api/meta/rules/decisions", "POST", { ruleId: hit.rule.id, entityId: hit.entityId, date: hit.date, decision })
+      setMessage(decision === "approved" ? `Approved - ${describeOutcome(hit)}` : null)
+    } catch (error) {
+      console.error("Failed to record rule decision:", error)
+      setMessage("Couldn't record that decision - try again")
+    }
+  }
+
+  const saveDraft = async () => {
+    if (!draft) return
+    setIsSaving(true)
+    try {
+      const { id, ...rule } = draft
+      await send(id ? `/api/meta/rules/${id}` : "/api/meta/rules", id ? "PATCH" : "POST", { ...rule, name: rule.name.trim() })
+      setDraft(null)
+    } catch (error) {
+      console.error("Failed to save rule:", error)
+      setMessage("Couldn't save the rule - try again")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const updateRule = async (rule: MetaRule, updates: Partial<MetaRule>) => {
+    try {
+      await send(`/api/meta/rules/${rule.id}`, "PATCH", updates)
+    } catch (error) {
+      console.error("Failed to update rule:", error)
+    }
+  }
+
+  const deleteRule = async (rule: MetaRule) => {
+    try {
+      await send(`/api/meta/rules/${rule.id}`, "DELETE")
+    } catch (error) {
+      console.error("Failed to delete rule:", error)
+    }
+  }
+
+  const inboxLoading = rulesLoading || [...neededLevels].some((level) => insightsByLevel[level].isLoading)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Workflow className="h-5 w-5 text-rh-accent" />
+          Automated Rules
+          {pendingHits.length > 0 && (
+            <span className="ml-2 rounded-full bg-rh-negative/10 px-2 py-0.5 text-xs font-medium text-rh-negative">
+              {pendingHits.length} to review
+            </span>
+          )}
+        </CardTitle>
+        <p className="text-xs text-muted-foreground">
+          Rules only suggest - approve a hit here, then make the change in Ads Manager.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex gap-1 overflow-x-auto rounded-lg bg-muted p-1">
+          {TABS.map((t) => (
+            <button
+              key={t.value}
+              onClick={() => setTab(t.value)}
+              className={`shrink-0 rounded-md px-3 py-1 text-xs font-medium transition-all ${
+                tab === t.value ? "bg-background text-foreground shadow-sm" : "text-muted-foreground hover:text-foreground"
+              }`}
+            >
+              {t.label}
+            </button>
+          ))}
+        </div>
+
+        {message && (
+          <div className="flex items-center justify-between rounded-md bg-muted px-3 py-2 text-xs">
+            <span>{message}</span>
+            <button onClick={() => setMessage(null)} aria-label="Dismiss message" className="text-muted-foreground hover:text-foreground">
+              <X className="h-3.5 w-3.5" />
+            </button>
+          </div>
+        )}
+
+        {/* Inbox */}
+        {tab === "inbox" && (
+          inboxLoading ? (
+            <div className="flex h-24 items-center justify-center">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : pendingHits.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">
+              Nothing to review for {formatDateForDisplay(evaluationDate)}
+            </p>
+          ) : (
+            <div className="divide-y">
+              {pendingHits.map((hit) => (
+                <div key={`${hit.rule.id}:${hit.entityId}`} className="flex flex-wrap items-center gap-3 py-2">
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate text-sm font-medium">{hit.entityName}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {hit.rule.name} · {hit.rule.lookbackDays}-day{" "}
+                      {hit.rule.conditions
+                        .map((c) => `${metricLabel(c.metric)} ${formatMetricValue(c.metric, hit.metrics[c.metric as keyof typeof hit.metrics] ?? 0)}`)
+                        .join(" · ")}
+                    </p>
+                  </div>
+                  <span className="whitespace-nowrap rounded bg-muted px-2 py-0.5 text-xs font-medium">
+                    {describeAction(hit.rule)}
+                    {proposedBudget(hit) !== null && ` → ${formatCurrency(proposedBudget(hit) ?? 0)}/day`}
+                  </span>
+                  <span className="flex gap-1">
+                    <Button size="sm" className="h-8" onClick={() => decide(hit, "approved")}>
+                      <Check className="mr-1 h-3.5 w-3.5" />
+                      Approve
+                    </Button>
+                    <Button variant="ghost" size="sm" className="h-8" onClick={() => decide(hit, "dismissed")}>
+                      Dismiss
+                    </Button>
+                  </span>
+                </div>
+              ))}
+            </div>
+          )
+        )}
+
+        {/* Rules */}
+        {tab === "rules" && (
+          <div className="space-y-3">
+            {rules.length === 0 && !draft && (
+              <p className="py-4 text-center text-sm text-muted-foreground">No rules yet</p>
+            )}
+            <div className="divide-y">
+              {rules.map((rule) => (
+                <div key={rule.id} className="flex items-center gap-3 py-2">
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled}
+                    onChange={(e) => updateRule(rule, { enabled: e.target.checked })}
+                    aria-label={`Enable ${rule.name}`}
+                  />
+                  <div className={`min-w-0 flex-1 ${rule.enabled ? "" : "opacity-50"}`}>
+                    <p className="truncate text-sm font-medium">
+                      {rule.name}
+                      <span className="ml-2 text-xs font-normal text-muted-foreground">{levelLabel(rule.level)}</span>
+                    </p>
+                    <p className="text-xs text-muted-foreground">{describeRule(rule)}</p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 px-2"
+                    title={`Edit "${rule.name}"`}
+                    onClick={() => setDraft({ ...rule })}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 px-2"
+                    title={`Delete "${rule.name}"`}
+                    onClick={() => deleteRule(rule)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            {draft ? (
+              <>
+                <MetaRuleEditor
+                  draft={draft}
+                  onChange={setDraft}
+                  onSave={saveDraft}
+                  onCancel={() => setDraft(null)}
+                  isSaving={isSaving}
+                />
+                {draft.conditions.length > 0 && (
+                  <DryRunPreview result={draftPreview} isLoading={insightsByLevel[draft.level].isLoading} />
+                )}
+              </>
+            ) : (
+              <Button variant="outline" size="sm" className="h-8" onClick={() => setDraft(EMPTY_RULE_DRAFT)}>
+                <Plus className="mr-1 h-3.5 w-3.5" />
+                New rule
+              </Button>
+            )}
+          </div>
+        )}
+
+        {/* Dry run */}
+        {tab === "dry_run" && (
+          !dryRunTarget ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">Create a rule to preview it</p>
+          ) : (
+            <div className="space-y-3">
+              <select
+                value={dryRunTarget.id}
+                onChange={(e) => setDryRunRuleId(e.target.value)}
+                aria-label="Rule"
+                className="h-8 rounded-md border bg-background px-2 text-xs"
+              >
+                {rules.map((rule) => <option key={rule.id} value={rule.id}>{rule.name}</option>)}
+              </select>
+              <p className="text-xs text-muted-foreground">{describeRule(dryRunTarget)}</p>
+              <DryRunPreview result={savedPreview} isLoading={insightsByLevel[dryRunTarget.level].isLoading} />
+            </div>
+          )
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,193 @@
+import { Fragment, useMemo, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { AlertTriangle, ChevronDown, Loader2, Scale } from "lucide-react"
+import type { UtmOrdersResponse } from "@/lib/api-types"
+import { useApiQuery } from "@/hooks/useApiQuery"
+import { formatCurrency, resolveDateRange, toCustomRange } from "@/lib/date-utils"
+import { OVER_REPORTING_THRESHOLD, reconcileMetaWithShopify } from "@/lib/utm-reconciliation"
+import type { PlatformEntity, ReconciledRow } from "@/lib/utm-reconciliation"
+
+// Only the fields reconciliation needs from /api/meta/entities and /api/meta/ads
+interface MetaEntity {
+  id: string
+  name: string
+  campaignId?: string
+  metrics: { spend: number; revenue: number; purchases: number }
+}
+
+interface MetaShopifyReconciliationProps {
+  datePreset: string
+  attribution: string
+}
+
+const toPlatformEntity = (e: MetaEntity): PlatformEntity => ({
+  id: e.id,
+  name: e.name,
+  campaignId: e.campaignId,
+  spend: e.metrics.spend,
+  revenue: e.metrics.revenue,
+  purchases: e.metrics.purchases,
+})
+
+function ReconciledCells({ row }: { row: ReconciledRow }) {
+  return (
+    <>
+      <td className="py-2 text-right tabular-nums">{formatCurrency(row.spend)}</td>
+      <td className="py-2 text-right tabular-nums">
+        {formatCurrency(row.metaRevenue)}
+        <span className="block text-xs text-muted-foreground">{row.metaRoas.toFixed(2)}x · {row.metaPurchases} purch</span>
+      </td>
+      <td className="py-2 text-right tabular-nums">
+        {formatCurrency(row.shopifyRevenue)}
+        <span className="block text-xs text-muted-foreground">{row.shopifyRoas.toFixed(2)}x · {row.shopifyOrders} orders</span>
+      </td>
+      <td className="py-2 text-right">
+        {row.overReporting === null ? (
+          <span className={`text-xs ${row.isOverReported ? "font-medium text-rh-negative" : "text-muted-foreground"}`}>
+            {row.isOverReported ? "No matched orders" : "—"}
+          </span>
+        ) : (
+          <span className={`rounded px-2 py-0.5 text-xs font-medium tabular-nums ${
+            row.isOverReported ? "bg-rh-negative/10 text-rh-negative" : "bg-muted text-muted-foreground"
+          }`}>
+            {row.overReporting > 0 ? "+" : ""}{row.overReporting.toFixed(0)}%
+          </span>
+        )}
+      </td>
+    </>
+  )
+}
+
+/**
+ * Meta-reported revenue and ROAS next to Shopify revenue matched by UTM, per campaign and ad
+ */
+export function MetaShopifyReconciliation({ datePreset, attribution }: MetaShopifyReconciliationProps) {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set())
+
+  const metaParams = new URLSearchParams({ datePreset, attribution })
+  const { data: campaigns, isLoading: campaignsLoading } = useApiQuery<{ data: MetaEntity[] }>(
+    `/api/meta/entities?${metaParams}&level=campaign&limit=200`
+  )
+  const { data: ads, isLoading: adsLoading } = useApiQuery<{ data: MetaEntity[] }>(`/api/meta/ads?${metaParams}&limit=500`)
+  const range = resolveDateRange(datePreset)
+  const { data: orders, error: ordersError, isLoading: ordersLoading } = useApiQuery<UtmOrdersResponse>(
+    `/api/shopify/orders/utm?range=${toCustomRange(range.start, range.end)}`
+  )
+
+  const reconciliation = useMemo(() => {
+    if (!campaigns || !ads || !orders) return null
+    return reconcileMetaWithShopify(orders.orders, campaigns.data.map(toPlatformEntity), ads.data.map(toPlatformEntity))
+  }, [campaigns, ads, orders])
+
+  const rows = (reconciliation?.campaigns ?? [])
+    .filter((row) => row.spend > 0 || row.shopifyOrders > 0)
+    .sort((a, b) => b.metaRevenue - a.metaRevenue)
+  const overReportedCount = rows.filter((row) => row.isOverReported).length
+
+  const toggle = (campaignId: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev)
+      if (next.has(campaignId)) next.delete(campaignId)
+      else next.add(campaignId)
+      return next
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Scale className="h-5 w-5 text-rh-accent" />
+          Platform vs Shopify
+          {overReportedCount > 0 && (
+            <span className="ml-2 rounded-full bg-rh-negative/10 px-2 py-0.5 text-xs font-medium text-rh-negative">
+              {overReportedCount} over-reported
+            </span>
+          )}
+        </CardTitle>
+        <p className="text-xs text-muted-foreground">
+          Meta's Pixel revenue against Shopify orders whose UTMs name the campaign or ad. Flagged when Meta reports more than {OVER_REPORTING_THRESHOLD}% above Shopify.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {campaignsLoading || adsLoading || ordersLoading ? (
+          <div className="flex h-32 items-center justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : ordersError || !reconciliation ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">Couldn't load Shopify orders for this period</p>
+        ) : (
+          <>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-xs text-muted-foreground">
+                    <th className="py-2 text-left font-medium">Campaign</th>
+                    <th className="py-2 text-right font-medium">Spend</th>
+                    <th className="py-2 text-right font-medium">Meta reported</th>
+                    <th className="py-2 text-right font-medium">Shopify (UTM)</th>
+                    <th className="py-2 text-right font-medium">Meta vs Shopify</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row) => {
+                    const adRows = (reconciliation.ads.get(row.id) ?? []).filter((ad) => ad.spend > 0 || ad.shopifyOrders > 0)
+                    const isExpanded = expanded.has(row.id)
+                    return (
+                      <Fragment key={row.id}>
+                        <tr
+                          onClick={() => toggle(row.id)}
+                          className={`cursor-pointer border-b hover:bg-gray-50 ${row.isOverReported ? "bg-rh-negative/5" : ""}`}
+                        >
+                          <td className="py-2">
+                            <span className="flex items-center gap-2 font-medium">
+                              <ChevronDown className={`h-4 w-4 shrink-0 text-gray-400 transition-transform ${isExpanded ? "" : "-rotate-90"}`} />
+                              <span className="max-w-[220px] truncate">{row.name}</span>
+                              {row.isOverReported && <AlertTriangle className="h-3.5 w-3.5 shrink-0 text-rh-negative" />}
+                            </span>
+                          </td>
+                          <ReconciledCells row={row} />
+                        </tr>
+                        {isExpanded && adRows.map((ad) => (
+                          <tr key={ad.id} className="border-b bg-gray-50/60 text-xs">
+                            <td className="max-w-[260px] truncate py-2 pl-8 text-gray-600">{ad.name}</td>
+                            <ReconciledCells row={ad} />
+                          </tr>
+                        ))}
+                        {isExpanded && adRows.length === 0 && (
+                          <tr className="border-b bg-gray-50/60">
+                            <td colSpan={5} className="py-2 pl-8 text-xs text-muted-foreground">No ads with delivery in this period</td>
+                          </tr>
+                        )}
+                      </Fragment>
+                    )
+                  })}
+                </tbody>
+                <tfoot>
+                  <tr className="border-t-2 font-medium">
+                    <td className="py-2">Total</td>
+                    <ReconciledCells row={reconciliation.total} />
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+
+            <div className="flex flex-wrap gap-x-6 gap-y-1 text-xs text-muted-foreground">
+              <span>
+                {reconciliation.allOrders.orders > 0
+                  ? `${((reconciliation.total.shopifyOrders / reconciliation.allOrders.orders) * 100).toFixed(0)}%`
+                  : "0%"}{" "}
+                of {reconciliation.allOrders.orders.toLocaleString()} Shopify orders matched a Meta campaign
+              </span>
+              {reconciliation.unmatched.orders > 0 && (
+                <span>
+                  {reconciliation.unmatched.orders} Meta-tagged orders ({formatCurrency(reconciliation.unmatched.revenue)}) name a campaign not in this account
+                </span>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
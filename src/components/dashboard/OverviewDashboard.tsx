@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from "react"
+import { useState, useMemo } from "react"
 import { GroupedMetricCard } from "./GroupedMetricCard"
 import { KPITable } from "./KPITable"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
@@ -32,53 +32,29 @@ import {
   YAxis,
   Legend,
 } from "recharts"
-import type { DateRangeValue } from "@/components/layout/Header"
-import { apiFetch } from "@/lib/api"
+import { formatCompareLabel, type CompareValue, type DateRangeValue } from "@/lib/date-range-labels"
+import type { OverviewMetrics, PayrollResponse, DailyMetric } from "@/lib/api-types"
+import { useApiQuery } from "@/hooks/useApiQuery"
 import { useMobile } from "@/hooks/useMobile"
-
-interface OverviewMetrics {
-  mer: number
-  aov: number
-  roas: number
-  ncRoas: number
-  cac: number
-  grossSales: number
-  netSales: number
-  totalSales: number
-  cogs: number
-  shipping: number
-  adSpend: number
-  returns: number
-  contributionMargin: number
-  contributionMarginPercent: number
-  totalOrders: number
-  totalCustomers: number
-  newCustomers: number
-  returningCustomers: number
-  returningCustomerRate: number
-  newCustomerRevenue: number
-  returningCustomerRevenue: number
-  acquisitionMer: number
-  newCustomerOrders?: number
-  returningCustomerOrders?: number
-}
-
-interface PayrollData {
-  summary: {
-    totalPayroll: number
-    averagePayroll: number
-    lastPayrollDate: string | null
-    payrollCount: number
-  }
-}
+import { useQueryState } from "@/hooks/useRouter"
+import { useSubscriptions } from "@/hooks/useSubscriptions"
+import { getNumberFormat } from "@/lib/utils"
+import { getPercentChange, resolveComparisonRange, resolveDateRange, toApiRange, toCustomRange } from "@/lib/date-utils"
+import { softwareSpend } from "@/lib/subscriptions"
+import type { YoYMetric } from "@/lib/yoy"
+import { useYoYComparison } from "@/hooks/useYoYComparison"
+import { YoYComparisonChart } from "@/components/YoYComparisonChart"
 
 interface OverviewDashboardProps {
   dateRange: DateRangeValue
+  compareTo: CompareValue
   refreshKey: number
 }
 
 type BreakdownTimeRange = "7d" | "14d" | "30d" | "60d" | "90d"
 
+const breakdownRanges: BreakdownTimeRange[] = ["7d", "14d", "30d", "60d", "90d"]
+
 const BREAKDOWN_TIME_RANGES: { value: BreakdownTimeRange; label: string }[] = [
   { value: "7d", label: "7D" },
   { value: "14d", label: "14D" },
@@ -88,36 +64,71 @@ const BREAKDOWN_TIME_RANGES: { value: BreakdownTimeRange; label: string }[] = [
 ]
 
 // Robinhood-style chart configuration
-type ChartMetricType = "revenue_vs_spend" | "mer" | "contribution" | "orders" | "customers"
+type ChartMetricType = "revenue_vs_spend" | "mer" | "contribution" | "orders" | "customers" | "yoy"
 type ChartTimeRange = "7d" | "14d" | "30d"
 
+const chartMetricTypes: ChartMetricType[] = ["revenue_vs_spend", "mer", "contribution", "orders", "customers", "yoy"]
+const chartTimeRanges: ChartTimeRange[] = ["7d", "14d", "30d"]
+
 const CHART_METRICS: { value: ChartMetricType; label: string; description: string }[] = [
   { value: "revenue_vs_spend", label: "Revenue vs Ad Spend", description: "Compare daily revenue and ad spend" },
   { value: "mer", label: "MER (Efficiency)", description: "Marketing Efficiency Ratio over time" },
   { value: "contribution", label: "Contribution Margin", description: "Daily contribution margin" },
   { value: "orders", label: "Orders", description: "Daily order count" },
   { value: "customers", label: "New vs Returning", description: "Customer acquisition breakdown" },
+  { value: "yoy", label: "Year over Year", description: "Revenue, spend, MER or orders against another year" },
 ]
 
+// Metrics the year-over-year chart can compare
+const YOY_METRICS: YoYMetric<DailyMetric>[] = [
+  { value: "revenue", label: "Revenue", numerator: (d) => d.netSales, format: "currency" },
+  { value: "spend", label: "Ad Spend", numerator: (d) => d.adSpend, format: "currency" },
+  { value: "mer", label: "MER", numerator: (d) => d.netSales, denominator: (d) => d.adSpend, format: "ratio" },
+  { value: "orders", label: "Orders", numerator: (d) => d.orders, format: "number" },
+]
+
+// Tooltip/legend names for chart series, including the comparison overlays
+const SERIES_LABELS: Record<string, string> = {
+  netSales: "Revenue",
+  adSpend: "Ad Spend",
+  mer: "MER",
+  contributionMargin: "Contribution Margin",
+  orders: "Orders",
+  newCustomerRevenue: "New Customers",
+  returningCustomerRevenue: "Returning",
+  prevNetSales: "Revenue (compared)",
+  prevAdSpend: "Ad Spend (compared)",
+  prevMer: "MER (compared)",
+  prevContributionMargin: "Contribution Margin (compared)",
+  prevOrders: "Orders (compared)",
+  prevNewCustomerRevenue: "New Customers (compared)",
+  prevReturningCustomerRevenue: "Returning (compared)",
+}
+
+// Comparison series are drawn as dashed, unfilled lines under the current period
+const COMPARISON_SERIES_PROPS = {
+  fill: "none",
+  strokeWidth: 1.5,
+  strokeDasharray: "4 4",
+  strokeOpacity: 0.6,
+  dot: false,
+  activeDot: false,
+} as const
+
 const CHART_TIME_RANGES: { value: ChartTimeRange; label: string }[] = [
   { value: "7d", label: "7D" },
   { value: "14d", label: "14D" },
   { value: "30d", label: "30D" },
 ]
 
-interface DailyMetric {
-  date: string
-  dateRaw: string
-  netSales: number
-  grossSales: number
-  totalSales: number
-  orders: number
-  adSpend: number
-  cogs: number
-  shipping: number
-  contributionMargin: number
-  newCustomerRevenue?: number
-  returningCustomerRevenue?: number
+// Daily metrics with the comparison period's values for the same day index
+type ChartPoint = DailyMetric & {
+  prevNetSales?: number
+  prevAdSpend?: number
+  prevContributionMargin?: number
+  prevOrders?: number
+  prevNewCustomerRevenue?: number
+  prevReturningCustomerRevenue?: number
 }
 
 interface BreakdownMetrics {
@@ -125,135 +136,124 @@ interface BreakdownMetrics {
   cogs: number
   adSpend: number
   payroll: number
+  software: number
   shipping: number
   returns: number
   netProfit: number
 }
 
-export function OverviewDashboard({ dateRange, refreshKey }: OverviewDashboardProps) {
-  const [metrics, setMetrics] = useState<OverviewMetrics | null>(null)
-  const [payrollData, setPayrollData] = useState<PayrollData | null>(null)
-  const [loading, setLoading] = useState(true)
+export function OverviewDashboard({ dateRange, compareTo, refreshKey }: OverviewDashboardProps) {
   const isMobile = useMobile()
 
-  // Breakdown chart state
-  const [breakdownRange, setBreakdownRange] = useState<BreakdownTimeRange>("7d")
-  const [breakdownMetrics, setBreakdownMetrics] = useState<BreakdownMetrics | null>(null)
-  const [breakdownLoading, setBreakdownLoading] = useState(false)
-
-  // Robinhood-style chart state
-  const [chartMetric, setChartMetric] = useState<ChartMetricType>("revenue_vs_spend")
-  const [chartTimeRange, setChartTimeRange] = useState<ChartTimeRange>("30d")
-  const [chartData, setChartData] = useState<DailyMetric[]>([])
-  const [chartLoading, setChartLoading] = useState(false)
-  const [showMetricDropdown, setShowMetricDropdown] = useState(false)
-
-  useEffect(() => {
-    const fetchData = async () => {
-      setLoading(true)
-      try {
-        const encodedRange = encodeURIComponent(dateRange)
-        const [metricsRes, payrollRes] = await Promise.all([
-          apiFetch(`/api/metrics/overview?range=${encodedRange}`),
-          apiFetch(`/api/finance/payroll?range=${encodedRange}`),
-        ])
-
-        if (metricsRes.ok) {
-          const metricsData = await metricsRes.json()
-          setMetrics(metricsData)
-        }
-
-        if (payrollRes.ok) {
-          const payroll = await payrollRes.json()
-          setPayrollData(payroll)
-        }
-      } catch (error) {
-        console.error("Failed to fetch metrics:", error)
-      } finally {
-        setLoading(false)
-      }
-    }
+  const encodedRange = toApiRange(dateRange)
+  const comparisonWindow = resolveComparisonRange(dateRange, compareTo)
+  const comparisonRange = comparisonWindow?.value
+  const encodedComparison = comparisonRange ? encodeURIComponent(comparisonRange) : null
+  const { data: metrics, isLoading: metricsLoading } = useApiQuery<OverviewMetrics>(
+    `/api/metrics/overview?range=${encodedRange}`,
+    { refreshKey }
+  )
+  const { data: payrollData, isLoading: payrollLoading } = useApiQuery<PayrollResponse>(
+    `/api/finance/payroll?range=${encodedRange}`,
+    { refreshKey }
+  )
+  const { data: prevMetrics } = useApiQuery<OverviewMetrics>(
+    encodedComparison ? `/api/metrics/overview?range=${encodedComparison}` : null,
+    { refreshKey }
+  )
+  const { data: prevPayrollData } = useApiQuery<PayrollResponse>(
+    encodedComparison ? `/api/finance/payroll?range=${encodedComparison}` : null,
+    { refreshKey }
+  )
 
-    fetchData()
-  }, [dateRange, refreshKey])
+  // Breakdown chart state
+  const [breakdownRange, setBreakdownRange] = useQueryState<BreakdownTimeRange>("breakdown", "7d", breakdownRanges)
 
-  // Fetch breakdown data based on selected range
-  const fetchBreakdownData = useCallback(async (range: BreakdownTimeRange) => {
-    setBreakdownLoading(true)
-    try {
-      const [metricsRes, payrollRes] = await Promise.all([
-        apiFetch(`/api/metrics/overview?range=${range}`),
-        apiFetch(`/api/finance/payroll?range=${range}`),
-      ])
+  // Software costs are what detected SaaS subscriptions charged the bank accounts in each window.
+  // The bank history loads separately, so KPIs don't wait on it - software counts as 0 until it arrives
+  const currentWindow = resolveDateRange(dateRange)
+  const breakdownWindow = resolveDateRange(breakdownRange)
+  const { subscriptions } = useSubscriptions({ refreshKey })
+  const loading = metricsLoading || payrollLoading
 
-      let breakdownData: BreakdownMetrics = {
-        netSales: 0,
-        cogs: 0,
-        adSpend: 0,
-        payroll: 0,
-        shipping: 0,
-        returns: 0,
-        netProfit: 0,
-      }
+  const { data: breakdownOverview, isLoading: breakdownOverviewLoading } = useApiQuery<OverviewMetrics>(
+    `/api/metrics/overview?range=${toApiRange(breakdownRange)}`,
+    { refreshKey }
+  )
+  const { data: breakdownPayroll, isLoading: breakdownPayrollLoading } = useApiQuery<PayrollResponse>(
+    `/api/finance/payroll?range=${toApiRange(breakdownRange)}`,
+    { refreshKey }
+  )
+  const breakdownLoading = breakdownOverviewLoading || breakdownPayrollLoading
 
-      if (metricsRes.ok) {
-        const data = await metricsRes.json()
-        breakdownData.netSales = data.netSales || 0
-        breakdownData.cogs = data.cogs || 0
-        breakdownData.adSpend = data.adSpend || 0
-        breakdownData.shipping = data.shipping || 0
-        breakdownData.returns = data.returns || 0
-      }
+  // Robinhood-style chart state
+  const [chartMetric, setChartMetric] = useQueryState<ChartMetricType>("chart", "revenue_vs_spend", chartMetricTypes)
+  const [chartTimeRange, setChartTimeRange] = useQueryState<ChartTimeRange>("chart_range", "30d", chartTimeRanges)
+  const [showMetricDropdown, setShowMetricDropdown] = useState(false)
+  const { data: dailyMetrics, isLoading: chartLoading } = useApiQuery<DailyMetric[]>(
+    `/api/metrics/daily-metrics?range=${toApiRange(chartTimeRange)}`,
+    { refreshKey }
+  )
+  const chartComparisonRange = resolveComparisonRange(chartTimeRange, compareTo)?.value
+  const { data: prevDailyMetrics } = useApiQuery<DailyMetric[]>(
+    chartComparisonRange ? `/api/metrics/daily-metrics?range=${encodeURIComponent(chartComparisonRange)}` : null,
+    { refreshKey }
+  )
+  const showComparison = compareTo !== "none"
+  const yoy = useYoYComparison<DailyMetric[], DailyMetric>({
+    getEndpoint: (range) => `/api/metrics/daily-metrics?range=${encodeURIComponent(toCustomRange(range.start, range.end))}`,
+    getRows: (rows) => rows,
+    getDate: (row) => row.dateRaw,
+    metrics: YOY_METRICS,
+    enabled: chartMetric === "yoy",
+    refreshKey,
+  })
 
-      if (payrollRes.ok) {
-        const payroll = await payrollRes.json()
-        breakdownData.payroll = payroll?.summary?.totalPayroll || 0
+  // Sort by date ascending for chart, pairing each day with the same day of the comparison period
+  const chartData = useMemo((): ChartPoint[] => {
+    const byDate = (a: DailyMetric, b: DailyMetric) =>
+      new Date(a.dateRaw).getTime() - new Date(b.dateRaw).getTime()
+    const previous = showComparison ? [...(prevDailyMetrics || [])].sort(byDate) : []
+    return [...(dailyMetrics || [])].sort(byDate).map((d, i) => {
+      const prev = previous[i]
+      if (!prev) return d
+      return {
+        ...d,
+        prevNetSales: prev.netSales,
+        prevAdSpend: prev.adSpend,
+        prevContributionMargin: prev.contributionMargin,
+        prevOrders: prev.orders,
+        prevNewCustomerRevenue: prev.newCustomerRevenue,
+        prevReturningCustomerRevenue: prev.returningCustomerRevenue,
       }
+    })
+  }, [dailyMetrics, prevDailyMetrics, showComparison])
 
-      // Calculate net profit (contribution margin - payroll)
-      const contributionMargin = breakdownData.netSales - breakdownData.cogs - breakdownData.shipping - breakdownData.adSpend - breakdownData.returns
-      breakdownData.netProfit = contributionMargin - breakdownData.payroll
+  const breakdownMetrics = useMemo((): BreakdownMetrics | null => {
+    if (!breakdownOverview && !breakdownPayroll) return null
 
-      setBreakdownMetrics(breakdownData)
-    } catch (error) {
-      console.error("Failed to fetch breakdown data:", error)
-    } finally {
-      setBreakdownLoading(false)
+    const breakdownData: BreakdownMetrics = {
+      netSales: breakdownOverview?.netSales || 0,
+      cogs: breakdownOverview?.cogs || 0,
+      adSpend: breakdownOverview?.adSpend || 0,
+      payroll: breakdownPayroll?.summary?.totalPayroll || 0,
+      software: softwareSpend(subscriptions, breakdownWindow.start, breakdownWindow.end),
+      shipping: breakdownOverview?.shipping || 0,
+      returns: breakdownOverview?.returns || 0,
+      netProfit: 0,
     }
-  }, [])
 
-  useEffect(() => {
-    fetchBreakdownData(breakdownRange)
-  }, [breakdownRange, fetchBreakdownData, refreshKey])
+    // Calculate net profit (contribution margin - payroll - software)
+    const contributionMargin = breakdownData.netSales - breakdownData.cogs - breakdownData.shipping - breakdownData.adSpend - breakdownData.returns
+    breakdownData.netProfit = contributionMargin - breakdownData.payroll - breakdownData.software
 
-  // Fetch chart data for Robinhood-style chart
-  useEffect(() => {
-    const fetchChartData = async () => {
-      setChartLoading(true)
-      try {
-        const response = await apiFetch(`/api/metrics/daily-metrics?range=${chartTimeRange}`)
-        if (response.ok) {
-          const data = await response.json()
-          // Sort by date ascending for chart
-          const sortedData = [...data].sort((a: DailyMetric, b: DailyMetric) =>
-            new Date(a.dateRaw).getTime() - new Date(b.dateRaw).getTime()
-          )
-          setChartData(sortedData)
-        }
-      } catch (error) {
-        console.error("Failed to fetch chart data:", error)
-      } finally {
-        setChartLoading(false)
-      }
-    }
-
-    fetchChartData()
-  }, [chartTimeRange, refreshKey])
+    return breakdownData
+  }, [breakdownOverview, breakdownPayroll, subscriptions, breakdownWindow.start, breakdownWindow.end])
 
   const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat("en-US", {
+    return new Intl.NumberFormat(getNumberFormat().locale, {
       style: "currency",
-      currency: "USD",
+      currency: getNumberFormat().currency,
       minimumFractionDigits: 2,
       maximumFractionDigits: 2,
     }).format(value)
@@ -284,7 +284,7 @@ export function OverviewDashboard({ dateRange, refreshKey }: OverviewDashboardPr
 
   // Calculate payroll and net profit
   const payroll = payrollData?.summary?.totalPayroll || 0
-  const softwareCosts = 0 // TODO: Pull from finance transactions
+  const softwareCosts = softwareSpend(subscriptions, currentWindow.start, currentWindow.end)
   const netProfit = contributionMargin - payroll - softwareCosts
   const netProfitPercent = grossSales > 0 ? (netProfit / grossSales) * 100 : 0
 
@@ -322,6 +322,16 @@ export function OverviewDashboard({ dateRange, refreshKey }: OverviewDashboardPr
   const aov = metrics?.aov || 0
   const cac = metrics?.cac || 0
 
+  // Change vs the comparison period (undefined hides the indicator)
+  const compareLabel = showComparison ? formatCompareLabel(compareTo) : undefined
+  const change = (current: number, previous: number | undefined) =>
+    prevMetrics ? getPercentChange(current, previous || 0) : undefined
+  const prevNetProfit = prevMetrics
+    ? (prevMetrics.contributionMargin || 0) -
+      (prevPayrollData?.summary?.totalPayroll || 0) -
+      (comparisonWindow ? softwareSpend(subscriptions, comparisonWindow.start, comparisonWindow.end) : 0)
+    : 0
+
   return (
     <div className="space-y-6 md:space-y-8">
       {/* Robinhood-Style Performance Chart - FIRST, Full Width */}
@@ -380,21 +390,23 @@ export function OverviewDashboard({ dateRange, refreshKey }: OverviewDashboardPr
           </div>
 
           {/* Time Range Selector */}
-          <div className="flex items-center gap-1 p-1 bg-white/5 rounded-lg">
-            {CHART_TIME_RANGES.map((range) => (
-              <button
-                key={range.value}
-                onClick={() => setChartTimeRange(range.value)}
-                className={`px-4 py-2 text-sm font-medium rounded-md transition-all ${
-                  chartTimeRange === range.value
-                    ? 'bg-rh-accent text-white shadow-sm'
-                    : 'text-gray-400 hover:text-white'
-                }`}
-              >
-                {range.label}
-              </button>
-            ))}
-          </div>
+          {chartMetric !== "yoy" && (
+            <div className="flex items-center gap-1 p-1 bg-white/5 rounded-lg">
+              {CHART_TIME_RANGES.map((range) => (
+                <button
+                  key={range.value}
+                  onClick={() => setChartTimeRange(range.value)}
+                  className={`px-4 py-2 text-sm font-medium rounded-md transition-all ${
+                    chartTimeRange === range.value
+                      ? 'bg-rh-accent text-white shadow-sm'
+                      : 'text-gray-400 hover:text-white'
+                  }`}
+                >
+                  {range.label}
+                </button>
+              ))}
+            </div>
+          )}
         </div>
 
         {/* Hero Values based on metric type */}
@@ -426,166 +438,192 @@ export function OverviewDashboard({ dateRange, refreshKey }: OverviewDashboardPr
         )}
 
         {/* Chart */}
-        <div className="h-[280px] md:h-[350px]">
-          {chartLoading ? (
-            <div className="flex h-full items-center justify-center">
-              <Loader2 className="h-8 w-8 animate-spin text-gray-500" />
-            </div>
-          ) : chartData.length > 0 ? (
-            <ResponsiveContainer width="100%" height="100%">
-              {chartMetric === "revenue_vs_spend" ? (
-                <AreaChart data={chartData} margin={{ top: 10, right: 10, left: -20, bottom: 0 }}>
-                  <defs>
-                    <linearGradient id="revenueGradientMain" x1="0" y1="0" x2="0" y2="1">
-                      <stop offset="0%" stopColor="#00c853" stopOpacity={0.4} />
-                      <stop offset="100%" stopColor="#00c853" stopOpacity={0} />
-                    </linearGradient>
-                    <linearGradient id="spendGradientMain" x1="0" y1="0" x2="0" y2="1">
-                      <stop offset="0%" stopColor="#ff6b35" stopOpacity={0.4} />
-                      <stop offset="100%" stopColor="#ff6b35" stopOpacity={0} />
-                    </linearGradient>
-                  </defs>
-                  <XAxis
-                    dataKey="date"
-                    axisLine={false}
-                    tickLine={false}
-                    tick={{ fill: '#6b7280', fontSize: 10 }}
-                    dy={10}
-                  />
-                  <YAxis
-                    axisLine={false}
-                    tickLine={false}
-                    tick={{ fill: '#6b7280', fontSize: 10 }}
-                    tickFormatter={(v) => formatCurrency(v)}
-                  />
-                  <Tooltip
-                    contentStyle={{
-                      backgroundColor: '#1c1c1e',
-                      border: '1px solid rgba(255,255,255,0.1)',
-                      borderRadius: '12px',
-                      boxShadow: '0 10px 40px rgba(0,0,0,0.4)',
-                    }}
-                    labelStyle={{ color: '#fff' }}
-                    formatter={(value: number | undefined, name?: string) => [
-                      formatCurrency(value ?? 0),
-                      name === 'netSales' ? 'Revenue' : 'Ad Spend'
-                    ]}
-                  />
-                  <Legend
-                    verticalAlign="top"
-                    height={36}
-                    formatter={(value) => <span style={{ color: '#9ca3af' }}>{value === 'netSales' ? 'Revenue' : 'Ad Spend'}</span>}
-                  />
-                  <Area
-                    type="monotone"
-                    dataKey="netSales"
-                    name="netSales"
-                    stroke="#00c853"
-                    fill="url(#revenueGradientMain)"
-                    strokeWidth={2}
-                    dot={false}
-                    activeDot={{ r: 6, stroke: '#000', strokeWidth: 2, fill: '#00c853' }}
-                  />
-                  <Area
-                    type="monotone"
-                    dataKey="adSpend"
-                    name="adSpend"
-                    stroke="#ff6b35"
-                    fill="url(#spendGradientMain)"
-                    strokeWidth={2}
-                    dot={false}
-                    activeDot={{ r: 6, stroke: '#000', strokeWidth: 2, fill: '#ff6b35' }}
-                  />
-                </AreaChart>
-              ) : chartMetric === "mer" ? (
-                <AreaChart
-                  data={chartData.map(d => ({
-                    ...d,
-                    mer: d.adSpend > 0 ? d.netSales / d.adSpend : 0
-                  }))}
-                  margin={{ top: 10, right: 10, left: -20, bottom: 0 }}
-                >
-                  <defs>
-                    <linearGradient id="merGradientMain" x1="0" y1="0" x2="0" y2="1">
-                      <stop offset="0%" stopColor="#d4af37" stopOpacity={0.5} />
-                      <stop offset="100%" stopColor="#d4af37" stopOpacity={0} />
-                    </linearGradient>
-                  </defs>
-                  <XAxis dataKey="date" axisLine={false} tickLine={false} tick={{ fill: '#6b7280', fontSize: 10 }} />
-                  <YAxis axisLine={false} tickLine={false} tick={{ fill: '#6b7280', fontSize: 10 }} />
-                  <Tooltip
-                    contentStyle={{ backgroundColor: '#1c1c1e', border: '1px solid rgba(255,255,255,0.1)', borderRadius: '12px' }}
-                    labelStyle={{ color: '#fff' }}
-                    formatter={(value: number | undefined) => [(value ?? 0).toFixed(2), 'MER']}
-                  />
-                  <Area type="monotone" dataKey="mer" stroke="#d4af37" fill="url(#merGradientMain)" strokeWidth={3} dot={false} />
-                </AreaChart>
-              ) : chartMetric === "contribution" ? (
-                <AreaChart data={chartData} margin={{ top: 10, right: 10, left: -20, bottom: 0 }}>
-                  <defs>
-                    <linearGradient id="contribGradientMain" x1="0" y1="0" x2="0" y2="1">
-                      <stop offset="0%" stopColor="#00c853" stopOpacity={0.5} />
-                      <stop offset="100%" stopColor="#00c853" stopOpacity={0} />
-                    </linearGradient>
-                  </defs>
-                  <XAxis dataKey="date" axisLine={false} tickLine={false} tick={{ fill: '#6b7280', fontSize: 10 }} />
-                  <YAxis axisLine={false} tickLine={false} tick={{ fill: '#6b7280', fontSize: 10 }} tickFormatter={(v) => formatCurrency(v)} />
-                  <Tooltip
-                    contentStyle={{ backgroundColor: '#1c1c1e', border: '1px solid rgba(255,255,255,0.1)', borderRadius: '12px' }}
-                    labelStyle={{ color: '#fff' }}
-                    formatter={(value: number | undefined) => [formatCurrency(value ?? 0), 'Contribution Margin']}
-                  />
-                  <Area type="monotone" dataKey="contributionMargin" stroke="#00c853" fill="url(#contribGradientMain)" strokeWidth={3} dot={false} />
-                </AreaChart>
-              ) : chartMetric === "orders" ? (
-                <AreaChart data={chartData} margin={{ top: 10, right: 10, left: -20, bottom: 0 }}>
-                  <defs>
-                    <linearGradient id="ordersGradientMain" x1="0" y1="0" x2="0" y2="1">
-                      <stop offset="0%" stopColor="#ff6b35" stopOpacity={0.5} />
-                      <stop offset="100%" stopColor="#ff6b35" stopOpacity={0} />
-                    </linearGradient>
-                  </defs>
-                  <XAxis dataKey="date" axisLine={false} tickLine={false} tick={{ fill: '#6b7280', fontSize: 10 }} />
-                  <YAxis axisLine={false} tickLine={false} tick={{ fill: '#6b7280', fontSize: 10 }} />
-                  <Tooltip
-                    contentStyle={{ backgroundColor: '#1c1c1e', border: '1px solid rgba(255,255,255,0.1)', borderRadius: '12px' }}
-                    labelStyle={{ color: '#fff' }}
-                    formatter={(value: number | undefined) => [value ?? 0, 'Orders']}
-                  />
-                  <Area type="monotone" dataKey="orders" stroke="#ff6b35" fill="url(#ordersGradientMain)" strokeWidth={3} dot={false} />
-                </AreaChart>
-              ) : (
-                <AreaChart data={chartData} margin={{ top: 10, right: 10, left: -20, bottom: 0 }}>
-                  <defs>
-                    <linearGradient id="newGradientMain" x1="0" y1="0" x2="0" y2="1">
-                      <stop offset="0%" stopColor="#00c853" stopOpacity={0.4} />
-                      <stop offset="100%" stopColor="#00c853" stopOpacity={0} />
-                    </linearGradient>
-                    <linearGradient id="returningGradientMain" x1="0" y1="0" x2="0" y2="1">
-                      <stop offset="0%" stopColor="#d4af37" stopOpacity={0.4} />
-                      <stop offset="100%" stopColor="#d4af37" stopOpacity={0} />
-                    </linearGradient>
-                  </defs>
-                  <XAxis dataKey="date" axisLine={false} tickLine={false} tick={{ fill: '#6b7280', fontSize: 10 }} />
-                  <YAxis axisLine={false} tickLine={false} tick={{ fill: '#6b7280', fontSize: 10 }} tickFormatter={(v) => formatCurrency(v)} />
-                  <Tooltip
-                    contentStyle={{ backgroundColor: '#1c1c1e', border: '1px solid rgba(255,255,255,0.1)', borderRadius: '12px' }}
-                    labelStyle={{ color: '#fff' }}
-                    formatter={(value: number | undefined, name?: string) => [formatCurrency(value ?? 0), name === 'newCustomerRevenue' ? 'New Customer' : 'Returning']}
-                  />
-                  <Legend verticalAlign="top" height={36} formatter={(value) => <span style={{ color: '#9ca3af' }}>{value === 'newCustomerRevenue' ? 'New Customers' : 'Returning'}</span>} />
-                  <Area type="monotone" dataKey="newCustomerRevenue" stroke="#00c853" fill="url(#newGradientMain)" strokeWidth={2} dot={false} />
-                  <Area type="monotone" dataKey="returningCustomerRevenue" stroke="#d4af37" fill="url(#returningGradientMain)" strokeWidth={2} dot={false} />
-                </AreaChart>
-              )}
-            </ResponsiveContainer>
-          ) : (
-            <div className="flex h-full flex-col items-center justify-center text-gray-500 gap-2">
-              <TrendingUp className="h-12 w-12 opacity-20" />
-              <p>No data available for this period</p>
-            </div>
-          )}
-        </div>
+        {chartMetric === "yoy" ? (
+          <YoYComparisonChart comparison={yoy} />
+        ) : (
+          <div className="h-[280px] md:h-[350px]">
+            {chartLoading ? (
+              <div className="flex h-full items-center justify-center">
+                <Loader2 className="h-8 w-8 animate-spin text-gray-500" />
+              </div>
+            ) : chartData.length > 0 ? (
+              <ResponsiveContainer width="100%" height="100%">
+                {chartMetric === "revenue_vs_spend" ? (
+                  <AreaChart data={chartData} margin={{ top: 10, right: 10, left: -20, bottom: 0 }}>
+                    <defs>
+                      <linearGradient id="revenueGradientMain" x1="0" y1="0" x2="0" y2="1">
+                        <stop offset="0%" stopColor="#00c853" stopOpacity={0.4} />
+                        <stop offset="100%" stopColor="#00c853" stopOpacity={0} />
+                      </linearGradient>
+                      <linearGradient id="spendGradientMain" x1="0" y1="0" x2="0" y2="1">
+                        <stop offset="0%" stopColor="#ff6b35" stopOpacity={0.4} />
+                        <stop offset="100%" stopColor="#ff6b35" stopOpacity={0} />
+                      </linearGradient>
+                    </defs>
+                    <XAxis
+                      dataKey="date"
+                      axisLine={false}
+                      tickLine={false}
+                      tick={{ fill: '#6b7280', fontSize: 10 }}
+                      dy={10}
+                    />
+                    <YAxis
+                      axisLine={false}
+                      tickLine={false}
+                      tick={{ fill: '#6b7280', fontSize: 10 }}
+                      tickFormatter={(v) => formatCurrency(v)}
+                    />
+                    <Tooltip
+                      contentStyle={{
+                        backgroundColor: '#1c1c1e',
+                        border: '1px solid rgba(255,255,255,0.1)',
+                        borderRadius: '12px',
+                        boxShadow: '0 10px 40px rgba(0,0,0,0.4)',
+                      }}
+                      labelStyle={{ color: '#fff' }}
+                      formatter={(value: number | undefined, name?: string) => [
+                        formatCurrency(value ?? 0),
+                        SERIES_LABELS[name ?? ''] ?? 'Ad Spend'
+                      ]}
+                    />
+                    <Legend
+                      verticalAlign="top"
+                      height={36}
+                      formatter={(value) => <span style={{ color: '#9ca3af' }}>{SERIES_LABELS[value] ?? 'Ad Spend'}</span>}
+                    />
+                    <Area
+                      type="monotone"
+                      dataKey="netSales"
+                      name="netSales"
+                      stroke="#00c853"
+                      fill="url(#revenueGradientMain)"
+                      strokeWidth={2}
+                      dot={false}
+                      activeDot={{ r: 6, stroke: '#000', strokeWidth: 2, fill: '#00c853' }}
+                    />
+                    <Area
+                      type="monotone"
+                      dataKey="adSpend"
+                      name="adSpend"
+                      stroke="#ff6b35"
+                      fill="url(#spendGradientMain)"
+                      strokeWidth={2}
+                      dot={false}
+                      activeDot={{ r: 6, stroke: '#000', strokeWidth: 2, fill: '#ff6b35' }}
+                    />
+                    {showComparison && (
+                      <Area type="monotone" dataKey="prevNetSales" name="prevNetSales" {...COMPARISON_SERIES_PROPS} stroke="#00c853" />
+                    )}
+                    {showComparison && (
+                      <Area type="monotone" dataKey="prevAdSpend" name="prevAdSpend" {...COMPARISON_SERIES_PROPS} stroke="#ff6b35" />
+                    )}
+                  </AreaChart>
+                ) : chartMetric === "mer" ? (
+                  <AreaChart
+                    data={chartData.map(d => ({
+                      ...d,
+                      mer: d.adSpend > 0 ? d.netSales / d.adSpend : 0,
+                      prevMer: d.prevAdSpend ? (d.prevNetSales || 0) / d.prevAdSpend : undefined,
+                    }))}
+                    margin={{ top: 10, right: 10, left: -20, bottom: 0 }}
+                  >
+                    <defs>
+                      <linearGradient id="merGradientMain" x1="0" y1="0" x2="0" y2="1">
+                        <stop offset="0%" stopColor="#d4af37" stopOpacity={0.5} />
+                        <stop offset="100%" stopColor="#d4af37" stopOpacity={0} />
+                      </linearGradient>
+                    </defs>
+                    <XAxis dataKey="date" axisLine={false} tickLine={false} tick={{ fill: '#6b7280', fontSize: 10 }} />
+                    <YAxis axisLine={false} tickLine={false} tick={{ fill: '#6b7280', fontSize: 10 }} />
+                    <Tooltip
+                      contentStyle={{ backgroundColor: '#1c1c1e', border: '1px solid rgba(255,255,255,0.1)', borderRadius: '12px' }}
+                      labelStyle={{ color: '#fff' }}
+                      formatter={(value: number | undefined, name?: string) => [(value ?? 0).toFixed(2), SERIES_LABELS[name ?? ''] ?? 'MER']}
+                    />
+                    <Area type="monotone" dataKey="mer" stroke="#d4af37" fill="url(#merGradientMain)" strokeWidth={3} dot={false} />
+                    {showComparison && (
+                      <Area type="monotone" dataKey="prevMer" name="prevMer" {...COMPARISON_SERIES_PROPS} stroke="#d4af37" />
+                    )}
+                  </AreaChart>
+                ) : chartMetric === "contribution" ? (
+                  <AreaChart data={chartData} margin={{ top: 10, right: 10, left: -20, bottom: 0 }}>
+                    <defs>
+                      <linearGradient id="contribGradientMain" x1="0" y1="0" x2="0" y2="1">
+                        <stop offset="0%" stopColor="#00c853" stopOpacity={0.5} />
+                        <stop offset="100%" stopColor="#00c853" stopOpacity={0} />
+                      </linearGradient>
+                    </defs>
+                    <XAxis dataKey="date" axisLine={false} tickLine={false} tick={{ fill: '#6b7280', fontSize: 10 }} />
+                    <YAxis axisLine={false} tickLine={false} tick={{ fill: '#6b7280', fontSize: 10 }} tickFormatter={(v) => formatCurrency(v)} />
+                    <Tooltip
+                      contentStyle={{ backgroundColor: '#1c1c1e', border: '1px solid rgba(255,255,255,0.1)', borderRadius: '12px' }}
+                      labelStyle={{ color: '#fff' }}
+                      formatter={(value: number | undefined, name?: string) => [formatCurrency(value ?? 0), SERIES_LABELS[name ?? ''] ?? 'Contribution Margin']}
+                    />
+                    <Area type="monotone" dataKey="contributionMargin" stroke="#00c853" fill="url(#contribGradientMain)" strokeWidth={3} dot={false} />
+                    {showComparison && (
+                      <Area type="monotone" dataKey="prevContributionMargin" name="prevContributionMargin" {...COMPARISON_SERIES_PROPS} stroke="#00c853" />
+                    )}
+                  </AreaChart>
+                ) : chartMetric === "orders" ? (
+                  <AreaChart data={chartData} margin={{ top: 10, right: 10, left: -20, bottom: 0 }}>
+                    <defs>
+                      <linearGradient id="ordersGradientMain" x1="0" y1="0" x2="0" y2="1">
+                        <stop offset="0%" stopColor="#ff6b35" stopOpacity={0.5} />
+                        <stop offset="100%" stopColor="#ff6b35" stopOpacity={0} />
+                      </linearGradient>
+                    </defs>
+                    <XAxis dataKey="date" axisLine={false} tickLine={false} tick={{ fill: '#6b7280', fontSize: 10 }} />
+                    <YAxis axisLine={false} tickLine={false} tick={{ fill: '#6b7280', fontSize: 10 }} />
+                    <Tooltip
+                      contentStyle={{ backgroundColor: '#1c1c1e', border: '1px solid rgba(255,255,255,0.1)', borderRadius: '12px' }}
+                      labelStyle={{ color: '#fff' }}
+                      formatter={(value: number | undefined, name?: string) => [value ?? 0, SERIES_LABELS[name ?? ''] ?? 'Orders']}
+                    />
+                    <Area type="monotone" dataKey="orders" stroke="#ff6b35" fill="url(#ordersGradientMain)" strokeWidth={3} dot={false} />
+                    {showComparison && (
+                      <Area type="monotone" dataKey="prevOrders" name="prevOrders" {...COMPARISON_SERIES_PROPS} stroke="#ff6b35" />
+                    )}
+                  </AreaChart>
+                ) : (
+                  <AreaChart data={chartData} margin={{ top: 10, right: 10, left: -20, bottom: 0 }}>
+                    <defs>
+                      <linearGradient id="newGradientMain" x1="0" y1="0" x2="0" y2="1">
+                        <stop offset="0%" stopColor="#00c853" stopOpacity={0.4} />
+                        <stop offset="100%" stopColor="#00c853" stopOpacity={0} />
+                      </linearGradient>
+                      <linearGradient id="returningGradientMain" x1="0" y1="0" x2="0" y2="1">
+                        <stop offset="0%" stopColor="#d4af37" stopOpacity={0.4} />
+                        <stop offset="100%" stopColor="#d4af37" stopOpacity={0} />
+                      </linearGradient>
+                    </defs>
+                    <XAxis dataKey="date" axisLine={false} tickLine={false} tick={{ fill: '#6b7280', fontSize: 10 }} />
+                    <YAxis axisLine={false} tickLine={false} tick={{ fill: '#6b7280', fontSize: 10 }} tickFormatter={(v) => formatCurrency(v)} />
+                    <Tooltip
+                      contentStyle={{ backgroundColor: '#1c1c1e', border: '1px solid rgba(255,255,255,0.1)', borderRadius: '12px' }}
+                      labelStyle={{ color: '#fff' }}
+                      formatter={(value: number | undefined, name?: string) => [formatCurrency(value ?? 0), SERIES_LABELS[name ?? ''] ?? 'Returning']}
+                    />
+                    <Legend verticalAlign="top" height={36} formatter={(value) => <span style={{ color: '#9ca3af' }}>{SERIES_LABELS[value] ?? 'Returning'}</span>} />
+                    <Area type="monotone" dataKey="newCustomerRevenue" stroke="#00c853" fill="url(#newGradientMain)" strokeWidth={2} dot={false} />
+                    <Area type="monotone" dataKey="returningCustomerRevenue" stroke="#d4af37" fill="url(#returningGradientMain)" strokeWidth={2} dot={false} />
+                    {showComparison && (
+                      <Area type="monotone" dataKey="prevNewCustomerRevenue" name="prevNewCustomerRevenue" {...COMPARISON_SERIES_PROPS} stroke="#00c853" />
+                    )}
+                    {showComparison && (
+                      <Area type="monotone" dataKey="prevReturningCustomerRevenue" name="prevReturningCustomerRevenue" {...COMPARISON_SERIES_PROPS} stroke="#d4af37" />
+                    )}
+                  </AreaChart>
+                )}
+              </ResponsiveContainer>
+            ) : (
+              <div className="flex h-full flex-col items-center justify-center text-gray-500 gap-2">
+                <TrendingUp className="h-12 w-12 opacity-20" />
+                <p>No data available for this period</p>
+              </div>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Mobile Robinhood-Style Hero Section */}
@@ -644,32 +682,39 @@ export function OverviewDashboard({ dateRange, refreshKey }: OverviewDashboardPr
             value: formatCurrency(totalSales),
             sublabel: "Includes shipping & taxes",
             formula: "Gross Sales + Shipping + Taxes",
+            change: change(totalSales, prevMetrics?.totalSales),
           }}
           metrics={[
             {
               label: "Net Sales",
               value: formatCurrency(netSales),
               formula: "Gross Sales − Discounts − Returns",
+              change: change(netSales, prevMetrics?.netSales),
             },
             {
               label: "Contribution Margin",
               value: formatCurrency(contributionMargin),
               sublabel: `${contributionMarginPercent.toFixed(1)}% of Net Sales`,
               formula: "Net Sales − COGS − Shipping − Processing Fees − Ad Spend",
+              change: change(contributionMargin, prevMetrics?.contributionMargin),
             },
             {
               label: "COGS",
               value: formatCurrency(cogs),
               formula: "Sum of (Unit Cost × Quantity Sold)\nfrom Shopify inventory",
+              change: change(cogs, prevMetrics?.cogs),
+              invertChange: true,
             },
             {
               label: "Net Profit",
               value: formatCurrency(netProfit),
               highlight: true,
               formula: "Contribution Margin − Payroll − Software Costs",
+              change: change(netProfit, prevNetProfit),
             },
           ]}
           columns={2}
+          changeLabel={compareLabel}
         />
 
         {/* Orders & Customers Card */}
@@ -681,31 +726,37 @@ export function OverviewDashboard({ dateRange, refreshKey }: OverviewDashboardPr
             value: totalOrders.toLocaleString(),
             sublabel: `${totalCustomers.toLocaleString()} unique customers`,
             formula: "Count of all paid orders\nin date range",
+            change: change(totalOrders, prevMetrics?.totalOrders),
           }}
           metrics={[
             {
               label: "New Customer Orders",
               value: displayNewOrders.toLocaleString(),
               formula: "Orders from customers\nwith no prior purchases",
+              change: change(newCustomerOrders, prevMetrics?.newCustomerOrders),
             },
             {
               label: "Returning Orders",
               value: displayReturningOrders.toLocaleString(),
               formula: "Orders from customers\nwith previous purchases",
+              change: change(returningCustomerOrders, prevMetrics?.returningCustomerOrders),
             },
             {
               label: "New Revenue",
               value: formatCompact(newCustomerRevenue),
               formula: "Revenue from first-time\ncustomer orders",
+              change: change(newCustomerRevenue, prevMetrics?.newCustomerRevenue),
             },
             {
               label: "Returning Revenue",
               value: formatCompact(returningCustomerRevenue),
               sublabel: `${returningRate.toFixed(1)}% return rate`,
               formula: "Revenue from repeat\ncustomer orders",
+              change: change(returningCustomerRevenue, prevMetrics?.returningCustomerRevenue),
             },
           ]}
           columns={2}
+          changeLabel={compareLabel}
         />
 
         {/* Marketing Efficiency Card */}
@@ -717,40 +768,49 @@ export function OverviewDashboard({ dateRange, refreshKey }: OverviewDashboardPr
             value: mer.toFixed(2),
             sublabel: "Marketing Efficiency Ratio",
             formula: "Net Sales ÷ Ad Spend",
+            change: change(mer, prevMetrics?.mer),
           }}
           metrics={[
             {
               label: "Acquisition MER",
               value: acquisitionMer.toFixed(2),
               formula: "New Customer Revenue ÷ Ad Spend",
+              change: change(acquisitionMer, prevMetrics?.acquisitionMer),
             },
             {
               label: "NC ROAS",
               value: ncRoas.toFixed(2),
               formula: "New Customer Revenue ÷ Ad Spend\n(same as Acquisition MER)",
+              change: change(ncRoas, prevMetrics?.ncRoas),
             },
             {
               label: "ROAS",
               value: roas.toFixed(2),
               formula: "Net Sales ÷ Ad Spend\n(Return on Ad Spend)",
+              change: change(roas, prevMetrics?.roas),
             },
             {
               label: "AOV",
               value: formatCurrency(aov),
               formula: "Net Sales ÷ Total Orders\n(Average Order Value)",
+              change: change(aov, prevMetrics?.aov),
             },
             {
               label: "CAC",
               value: formatCurrency(cac),
               formula: "Ad Spend ÷ New Customers\n(Customer Acquisition Cost)",
+              change: change(cac, prevMetrics?.cac),
+              invertChange: true,
             },
             {
               label: "Return Rate",
               value: `${returningRate.toFixed(1)}%`,
               formula: "Returning Customers ÷ Total Customers × 100",
+              change: change(returningRate, prevMetrics?.returningCustomerRate),
             },
           ]}
           columns={3}
+          changeLabel={compareLabel}
         />
       </div>
 
@@ -898,6 +958,7 @@ export function OverviewDashboard({ dateRange, refreshKey }: OverviewDashboardPr
                         { name: "COGS", value: breakdownMetrics?.cogs || 0, color: "#ff5252" },
                         { name: "Ad Spend", value: breakdownMetrics?.adSpend || 0, color: "#ff6b35" },
                         { name: "Payroll", value: breakdownMetrics?.payroll || 0, color: "#d4af37" },
+                        { name: "Software", value: breakdownMetrics?.software || 0, color: "#8b5cf6" },
                         { name: "Shipping", value: breakdownMetrics?.shipping || 0, color: "#8e8e93" },
                         { name: "Returns", value: breakdownMetrics?.returns || 0, color: "#ff8a65" },
                         { name: "Net Profit", value: Math.max(breakdownMetrics?.netProfit || 0, 0), color: "#00c853" },
@@ -913,6 +974,7 @@ export function OverviewDashboard({ dateRange, refreshKey }: OverviewDashboardPr
                         { name: "COGS", value: breakdownMetrics?.cogs || 0, color: "#ff5252" },
                         { name: "Ad Spend", value: breakdownMetrics?.adSpend || 0, color: "#ff6b35" },
                         { name: "Payroll", value: breakdownMetrics?.payroll || 0, color: "#d4af37" },
+                        { name: "Software", value: breakdownMetrics?.software || 0, color: "#8b5cf6" },
                         { name: "Shipping", value: breakdownMetrics?.shipping || 0, color: "#8e8e93" },
                         { name: "Returns", value: breakdownMetrics?.returns || 0, color: "#ff8a65" },
                         { name: "Net Profit", value: Math.max(breakdownMetrics?.netProfit || 0, 0), color: "#00c853" },
@@ -968,6 +1030,18 @@ export function OverviewDashboard({ dateRange, refreshKey }: OverviewDashboardPr
                     </span>
                   </div>
                 </div>
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <div className="h-3 w-3 rounded-full" style={{ backgroundColor: "#8b5cf6" }} />
+                    <span>Software</span>
+                  </div>
+                  <div className="text-right">
+                    <span className="font-medium">{formatCurrency(breakdownMetrics?.software || 0)}</span>
+                    <span className="text-muted-foreground ml-2 text-xs">
+                      {(breakdownMetrics?.netSales || 0) > 0 ? (((breakdownMetrics?.software || 0) / (breakdownMetrics?.netSales || 1)) * 100).toFixed(1) : 0}%
+                    </span>
+                  </div>
+                </div>
                 <div className="flex items-center justify-between">
                   <div className="flex items-center gap-2">
                     <div className="h-3 w-3 rounded-full bg-rh-text-secondary" />
@@ -23,9 +23,10 @@ import {
   ResponsiveContainer,
   Cell,
 } from "recharts"
-import type { DateRangeValue } from "@/components/layout/Header"
+import type { DateRangeValue } from "@/lib/date-range-labels"
 import { apiFetch } from "@/lib/api"
 import { formatDateForDisplay } from "@/lib/date-utils"
+import { getNumberFormat } from "@/lib/utils"
 
 interface PayrollTransaction {
   transaction_id: string
@@ -205,9 +206,9 @@ export function PayrollWidget({ dateRange, refreshKey }: PayrollWidgetProps) {
   }, [filteredTransactions])
 
   const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat("en-US", {
+    return new Intl.NumberFormat(getNumberFormat().locale, {
       style: "currency",
-      currency: "USD",
+      currency: getNumberFormat().currency,
       minimumFractionDigits: 2,
       maximumFractionDigits: 2,
     }).format(value)
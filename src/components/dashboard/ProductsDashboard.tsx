@@ -1,6 +1,6 @@
-import { useState, useEffect } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { MobileCardView } from "@/components/ui/mobile-card-view"
+import { ChangeIndicator } from "@/components/ui/change-indicator"
 import {
   DollarSign,
   Package,
@@ -11,72 +11,50 @@ import {
   ArrowUp,
   ArrowDown,
 } from "lucide-react"
-import type { DateRangeValue } from "@/components/layout/Header"
-import { apiFetch } from "@/lib/api"
-
-interface CategoryMetrics {
-  category: string
-  netSales: number
-  cogs: number
-  grossProfit: number
-  marginPercent: number
-  unitsSold: number
-  orderCount: number
-  aov: number
-  percentOfTotal: number
-}
-
-interface CategoryMetricsResponse {
-  categories: CategoryMetrics[]
-  totals: {
-    netSales: number
-    cogs: number
-    grossProfit: number
-    marginPercent: number
-  }
-}
+import { formatCompareLabel, type CompareValue, type DateRangeValue } from "@/lib/date-range-labels"
+import type { CategoryMetricsResponse } from "@/lib/api-types"
+import { useApiQuery } from "@/hooks/useApiQuery"
+import { useQueryState } from "@/hooks/useRouter"
+import { getNumberFormat } from "@/lib/utils"
+import { getPercentChange, resolveComparisonRange, toApiRange } from "@/lib/date-utils"
 
 interface ProductsDashboardProps {
   dateRange: DateRangeValue
+  compareTo: CompareValue
   refreshKey: number
 }
 
 type SortField = "category" | "netSales" | "cogs" | "grossProfit" | "marginPercent" | "unitsSold" | "orderCount" | "aov" | "percentOfTotal"
 type SortDirection = "asc" | "desc"
 
-export function ProductsDashboard({ dateRange, refreshKey }: ProductsDashboardProps) {
-  const [data, setData] = useState<CategoryMetricsResponse | null>(null)
-  const [loading, setLoading] = useState(true)
-  const [sortField, setSortField] = useState<SortField>("netSales")
-  const [sortDirection, setSortDirection] = useState<SortDirection>("desc")
+const sortFields: SortField[] = ["category", "netSales", "cogs", "grossProfit", "marginPercent", "unitsSold", "orderCount", "aov", "percentOfTotal"]
+const sortDirections: SortDirection[] = ["asc", "desc"]
 
-  useEffect(() => {
-    const fetchData = async () => {
-      setLoading(true)
-      try {
-        const encodedRange = encodeURIComponent(dateRange)
-        const response = await apiFetch(
-          `/api/metrics/product-categories?range=${encodedRange}`
-        )
+export function ProductsDashboard({ dateRange, compareTo, refreshKey }: ProductsDashboardProps) {
+  const [sortField, setSortField] = useQueryState<SortField>("sort", "netSales", sortFields)
+  const [sortDirection, setSortDirection] = useQueryState<SortDirection>("dir", "desc", sortDirections)
 
-        if (response.ok) {
-          const result = await response.json()
-          setData(result)
-        }
-      } catch (error) {
-        console.error("Failed to fetch product category metrics:", error)
-      } finally {
-        setLoading(false)
-      }
-    }
+  const { data, isLoading: loading } = useApiQuery<CategoryMetricsResponse>(
+    `/api/metrics/product-categories?range=${toApiRange(dateRange)}`,
+    { refreshKey }
+  )
+  const comparisonRange = resolveComparisonRange(dateRange, compareTo)?.value
+  const { data: prevData } = useApiQuery<CategoryMetricsResponse>(
+    comparisonRange ? `/api/metrics/product-categories?range=${encodeURIComponent(comparisonRange)}` : null,
+    { refreshKey }
+  )
+  const compareLabel = comparisonRange ? formatCompareLabel(compareTo) : undefined
 
-    fetchData()
-  }, [dateRange, refreshKey])
+  // Percent change vs the comparison period, or undefined without one
+  const change = (current: number, previous: number | undefined) =>
+    prevData ? getPercentChange(current, previous || 0) : undefined
+  const categoryChange = (category: string, netSales: number) =>
+    change(netSales, prevData?.categories.find((c) => c.category === category)?.netSales)
 
   const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat("en-US", {
+    return new Intl.NumberFormat(getNumberFormat().locale, {
       style: "currency",
-      currency: "USD",
+      currency: getNumberFormat().currency,
       minimumFractionDigits: 0,
       maximumFractionDigits: 0,
     }).format(value)
@@ -87,7 +65,7 @@ export function ProductsDashboard({ dateRange, refreshKey }: ProductsDashboardPr
   }
 
   const formatNumber = (value: number) => {
-    return new Intl.NumberFormat("en-US").format(value)
+    return new Intl.NumberFormat(getNumberFormat().locale).format(value)
   }
 
   const getMarginColor = (margin: number) => {
@@ -143,6 +121,18 @@ export function ProductsDashboard({ dateRange, refreshKey }: ProductsDashboardPr
       })
     : []
 
+  const renderTotalChange = (current: number, previous: number | undefined, invert?: boolean) => {
+    const value = change(current, previous)
+    if (value === undefined) return null
+    return <ChangeIndicator change={value} invert={invert} label={compareLabel} className="mt-0.5" />
+  }
+
+  const formatCategoryChange = (category: string, netSales: number) => {
+    const value = categoryChange(category, netSales)
+    if (value === undefined) return undefined
+    return `${value > 0 ? "+" : ""}${value.toFixed(1)}% net sales ${compareLabel}`
+  }
+
   if (loading) {
     return (
       <div className="flex h-96 items-center justify-center">
@@ -166,6 +156,7 @@ export function ProductsDashboard({ dateRange, refreshKey }: ProductsDashboardPr
                 <p className="text-lg md:text-2xl font-bold">
                   {formatCurrency(data?.totals.netSales || 0)}
                 </p>
+                {renderTotalChange(data?.totals.netSales || 0, prevData?.totals.netSales)}
               </div>
             </div>
           </CardContent>
@@ -182,6 +173,7 @@ export function ProductsDashboard({ dateRange, refreshKey }: ProductsDashboardPr
                 <p className="text-lg md:text-2xl font-bold">
                   {formatCurrency(data?.totals.cogs || 0)}
                 </p>
+                {renderTotalChange(data?.totals.cogs || 0, prevData?.totals.cogs, true)}
               </div>
             </div>
           </CardContent>
@@ -198,6 +190,7 @@ export function ProductsDashboard({ dateRange, refreshKey }: ProductsDashboardPr
                 <p className="text-lg md:text-2xl font-bold">
                   {formatCurrency(data?.totals.grossProfit || 0)}
                 </p>
+                {renderTotalChange(data?.totals.grossProfit || 0, prevData?.totals.grossProfit)}
               </div>
             </div>
           </CardContent>
@@ -214,6 +207,7 @@ export function ProductsDashboard({ dateRange, refreshKey }: ProductsDashboardPr
                 <p className={`text-2xl font-bold ${getMarginColor(data?.totals.marginPercent || 0)}`}>
                   {formatPercent(data?.totals.marginPercent || 0)}
                 </p>
+                {renderTotalChange(data?.totals.marginPercent || 0, prevData?.totals.marginPercent)}
               </div>
             </div>
           </CardContent>
@@ -230,6 +224,7 @@ export function ProductsDashboard({ dateRange, refreshKey }: ProductsDashboardPr
             data={sortedCategories}
             renderCard={(cat) => ({
               title: cat.category,
+              subtitle: formatCategoryChange(cat.category, cat.netSales),
               fields: [
                 { label: "Net Sales", value: formatCurrency(cat.netSales) },
                 { label: "COGS", value: formatCurrency(cat.cogs) },
@@ -328,7 +323,12 @@ export function ProductsDashboard({ dateRange, refreshKey }: ProductsDashboardPr
                     {sortedCategories.map((cat) => (
                       <tr key={cat.category} className="border-b hover:bg-muted/30">
                         <td className="px-4 py-3 font-medium">{cat.category}</td>
-                        <td className="px-4 py-3 text-right">{formatCurrency(cat.netSales)}</td>
+                        <td className="px-4 py-3 text-right">
+                          {formatCurrency(cat.netSales)}
+                          {categoryChange(cat.category, cat.netSales) !== undefined && (
+                            <ChangeIndicator change={categoryChange(cat.category, cat.netSales) || 0} className="flex justify-end" />
+                          )}
+                        </td>
                         <td className="px-4 py-3 text-right">{formatCurrency(cat.cogs)}</td>
                         <td className="px-4 py-3 text-right">{formatCurrency(cat.grossProfit)}</td>
                         <td className={`px-4 py-3 text-right font-medium ${getMarginColor(cat.marginPercent)}`}>
@@ -0,0 +1,308 @@
+import { useMemo } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { FileSpreadsheet, Loader2, X } from "lucide-react"
+import { useApiQuery } from "@/hooks/useApiQuery"
+import { useQueryState } from "@/hooks/useRouter"
+import type { DailyMetric, PayoutSummary, PayrollResponse, TransactionsResponse } from "@/lib/api-types"
+import { formatCurrency, formatDateForFullDisplay, toCustomRange } from "@/lib/date-utils"
+import {
+  PNL_MONTH_OPTIONS,
+  buildPnlLines,
+  buildPnlRows,
+  formatPnlMonth,
+  lineEntries,
+  pnlMonths,
+} from "@/lib/pnl"
+import type { PnlLine, PnlRow } from "@/lib/pnl"
+
+interface ProfitLossDashboardProps {
+  refreshKey: number
+}
+
+// Only the daily spend the P&L reads from /api/meta/overview
+interface MetaOverviewResponse {
+  timeSeries: { date: string; spend: number }[]
+}
+
+// Enough for a year of bank activity in one request
+const TRANSACTION_LIMIT = 10000
+
+const isLineId = (value: string) => value.length > 0
+const isMonth = (value: string) => /^\d{4}-\d{2}$/.test(value)
+
+/** A signed P&L amount, costs in parentheses */
+function formatAmount(value: number): string {
+  if (Math.abs(value) < 0.5) return "—"
+  return value < 0 ? `(${formatCurrency(-value)})` : formatCurrency(value)
+}
+
+function formatShare(value: number, revenue: number): string {
+  return revenue > 0 ? `${((value / revenue) * 100).toFixed(1)}%` : "—"
+}
+
+interface PnlDrillDownProps {
+  line: PnlLine
+  /** "YYYY-MM", or undefined for every month in the statement */
+  month: string | undefined
+  months: string[]
+  onClose: () => void
+}
+
+/**
+ * The records behind one P&L line - for a month or the whole statement
+ */
+function PnlDrillDown({ line, month, months, onClose }: PnlDrillDownProps) {
+  const entries = useMemo(
+    () => lineEntries(line, month).filter((entry) => months.some((m) => entry.date.startsWith(m))).sort((a, b) => b.date.localeCompare(a.date)),
+    [line, month, months]
+  )
+  const total = entries.reduce((sum, entry) => sum + entry.amount, 0)
+  const period = month ? formatPnlMonth(month) : `${formatPnlMonth(months[0])} – ${formatPnlMonth(months[months.length - 1])}`
+
+  return (
+    <div className="fixed inset-0 z-50 flex">
+      {/* Backdrop */}
+      <div className="hidden flex-1 bg-black/50 lg:block" onClick={onClose} />
+
+      {/* Drawer */}
+      <div className="w-full overflow-auto bg-white shadow-xl lg:max-w-xl">
+        <div className="sticky top-0 z-10 flex items-center justify-between border-b bg-white px-6 py-4">
+          <div>
+            <h2 className="text-lg font-semibold">{line.label}</h2>
+            <p className="text-xs text-muted-foreground">
+              {period} · {entries.length} {entries.length === 1 ? "record" : "records"} · {formatCurrency(total)}
+            </p>
+          </div>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            <X className="h-5 w-5" />
+          </Button>
+        </div>
+
+        {entries.length === 0 ? (
+          <p className="py-12 text-center text-sm text-muted-foreground">Nothing recorded for this period</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-xs text-muted-foreground">
+                <th className="px-6 py-2 text-left font-medium">Date</th>
+                <th className="py-2 text-left font-medium">Description</th>
+                <th className="px-6 py-2 text-right font-medium">Amount</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((entry, index) => (
+                <tr key={`${entry.date}-${index}`} className="border-b last:border-0">
+                  <td className="whitespace-nowrap px-6 py-2 text-muted-foreground">{formatDateForFullDisplay(entry.date)}</td>
+                  <td className="py-2">
+                    <p>{entry.description}</p>
+                    <p className="text-xs text-muted-foreground">{entry.source}</p>
+                  </td>
+                  <td className="px-6 py-2 text-right tabular-nums">{formatCurrency(entry.amount)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Monthly profit and loss statement built from Shopify sales, Meta spend,
+ * payroll and bank transactions, with drill-down into every line
+ */
+export function ProfitLossDashboard({ refreshKey }: ProfitLossDashboardProps) {
+  const [monthCount, setMonthCount] = useQueryState("pnl_months", "6", PNL_MONTH_OPTIONS)
+  const [showShare, setShowShare] = useQueryState("pnl_pct", "0", ["0", "1"])
+  const [lineId, setLineId] = useQueryState<string>("pnl_line", "", isLineId)
+  const [drillMonth, setDrillMonth] = useQueryState<string>("pnl_month", "", isMonth)
+
+  const { months, start, end } = useMemo(() => pnlMonths(Number(monthCount)), [monthCount])
+  const range = encodeURIComponent(toCustomRange(start, end))
+
+  const dailyQuery = useApiQuery<DailyMetric[]>(`/api/metrics/daily-metrics?range=${range}`, { refreshKey })
+  const metaQuery = useApiQuery<MetaOverviewResponse>(`/api/meta/overview?since=${start}&until=${end}`, { refreshKey })
+  const payoutsQuery = useApiQuery<PayoutSummary>(`/api/shopify/payouts?range=${range}`, { refreshKey })
+  const payrollQuery = useApiQuery<PayrollResponse>(`/api/finance/payroll?range=${range}`, { refreshKey })
+  const transactionsQuery = useApiQuery<TransactionsResponse>(
+    `/api/finance/transactions?range=${range}&limit=${TRANSACTION_LIMIT}`,
+    { refreshKey }
+  )
+  const loading =
+    dailyQuery.isLoading || metaQuery.isLoading || payoutsQuery.isLoading || payrollQuery.isLoading || transactionsQuery.isLoading
+
+  const lines = useMemo(
+    () =>
+      buildPnlLines({
+        daily: dailyQuery.data ?? [],
+        metaDaily: metaQuery.data?.timeSeries ?? [],
+        payouts: payoutsQuery.data?.recentPayouts ?? [],
+        // Loaded without a list of runs stays undefined so the line shows as not reported
+        payroll: payrollQuery.data ? payrollQuery.data.transactions : [],
+        transactions: transactionsQuery.data?.transactions ?? [],
+      }),
+    [dailyQuery.data, metaQuery.data, payoutsQuery.data, payrollQuery.data, transactionsQuery.data]
+  )
+  const rows = useMemo(() => buildPnlRows(lines, months), [lines, months])
+
+  // Percentages are of net sales, the revenue the business keeps
+  const netSales = rows.find((row) => row.id === "subtotal:revenue")
+  const drillLine = lines.find((line) => line.id === lineId)
+  const missing = [
+    !dailyQuery.data && "Shopify",
+    !metaQuery.data && "Meta",
+    !payrollQuery.data && "payroll",
+    !transactionsQuery.data && "bank transactions",
+  ].filter(Boolean)
+  // A backend without ranged payouts only returns the latest ones, so say how far fees reach back
+  const oldestPayout = payoutsQuery.data?.recentPayouts.reduce<string | null>(
+    (oldest, payout) => (!oldest || payout.date < oldest ? payout.date : oldest),
+    null
+  )
+  const feesPartial = !!oldestPayout && oldestPayout > start
+  // Loaded, but the backend leaves these figures out - counted as zero in the subtotals
+  const unreported = lines.filter((line) => line.unreported).map((line) => line.label)
+
+  const openDrillDown = (line: PnlLine, month: string) => {
+    setLineId(line.id)
+    setDrillMonth(month)
+  }
+  const closeDrillDown = () => {
+    setLineId("")
+    setDrillMonth("")
+  }
+
+  const renderCell = ({ id, line }: PnlRow, value: number, revenue: number, month: string, key: string) => (
+    <td key={key} className={`px-3 py-2 text-right tabular-nums ${month === "" ? "bg-gray-50" : ""}`}>
+      {line?.unreported ? (
+        <span className="text-xs text-muted-foreground">not reported</span>
+      ) : line && Math.abs(value) >= 0.5 ? (
+        <button onClick={() => openDrillDown(line, month)} className="hover:text-rh-accent hover:underline">
+          {formatAmount(value)}
+        </button>
+      ) : (
+        <span className={id === "subtotal:operating" ? (value >= 0 ? "text-rh-positive" : "text-rh-negative") : ""}>
+          {formatAmount(value)}
+        </span>
+      )}
+      {showShare === "1" && !line?.unreported && <span className="block text-[11px] font-normal text-muted-foreground">{formatShare(value, revenue)}</span>}
+    </td>
+  )
+
+  if (loading) {
+    return (
+      <div className="flex h-96 items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <CardTitle className="flex items-center gap-2 text-base">
+              <FileSpreadsheet className="h-5 w-5 text-rh-accent" />
+              Profit & Loss
+            </CardTitle>
+            <div className="flex items-center gap-3 text-xs text-muted-foreground">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={showShare === "1"}
+                  onChange={(e) => setShowShare(e.target.checked ? "1" : "0")}
+                  className="rounded"
+                />
+                % of revenue
+              </label>
+              <span className="flex gap-1 rounded-lg bg-muted p-1">
+                {PNL_MONTH_OPTIONS.map((option) => (
+                  <button
+                    key={option}
+                    onClick={() => setMonthCount(option)}
+                    className={`rounded-md px-3 py-1 text-xs font-medium transition-all ${
+                      monthCount === option ? "bg-background text-foreground shadow-sm" : "text-muted-foreground hover:text-foreground"
+                    }`}
+                  >
+                    {option}M
+                  </button>
+                ))}
+              </span>
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Sales, COGS and shipping from Shopify, ad spend from Meta and bank charges, payroll runs, and other costs grouped by bank
+            category. Click any amount to see what it's made of.
+            {missing.length > 0 && <span className="text-rh-negative"> Couldn't load {missing.join(", ")} - those lines are empty.</span>}
+            {feesPartial && oldestPayout && (
+              <span> Merchant fees cover payouts from {formatDateForFullDisplay(oldestPayout)} on.</span>
+            )}
+            {unreported.length > 0 && (
+              <span className="text-rh-negative"> Not reported by the backend: {unreported.join(", ")} - subtotals leave them out.</span>
+            )}
+          </p>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-xs text-muted-foreground">
+                  <th className="sticky left-0 z-10 bg-white py-2 pr-3 text-left font-medium" />
+                  {months.map((month, index) => (
+                    <th key={month} className="whitespace-nowrap px-3 py-2 text-right font-medium">
+                      {formatPnlMonth(month)}
+                      {index === months.length - 1 && <span className="block text-[10px] font-normal">to date</span>}
+                    </th>
+                  ))}
+                  <th className="bg-gray-50 px-3 py-2 text-right font-medium">Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => {
+                  if (row.kind === "heading") {
+                    return (
+                      <tr key={row.id}>
+                        <td colSpan={months.length + 2} className="pb-1 pt-4 text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                          {row.label}
+                        </td>
+                      </tr>
+                    )
+                  }
+                  const isSubtotal = row.kind === "subtotal"
+                  const { line } = row
+                  return (
+                    <tr key={row.id} className={isSubtotal ? "border-t font-semibold" : "hover:bg-gray-50"}>
+                      <td className={`sticky left-0 z-10 whitespace-nowrap bg-white py-2 pr-3 ${isSubtotal ? "" : "pl-3"}`}>
+                        {line ? (
+                          <button onClick={() => openDrillDown(line, "")} className="text-left hover:underline">
+                            {row.label}
+                          </button>
+                        ) : (
+                          row.label
+                        )}
+                      </td>
+                      {row.values.map((value, index) => renderCell(row, value, netSales?.values[index] ?? 0, months[index], months[index]))}
+                      {renderCell(row, row.total, netSales?.total ?? 0, "", "total")}
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {drillLine && (
+        <PnlDrillDown
+          line={drillLine}
+          month={months.includes(drillMonth) ? drillMonth : undefined}
+          months={months}
+          onClose={closeDrillDown}
+        />
+      )}
+    </div>
+  )
+}
@@ -17,9 +17,9 @@ import {
   Tooltip,
   ResponsiveContainer,
 } from "recharts"
-import type { DateRangeValue } from "@/components/layout/Header"
-import { dateRangeOptions } from "@/components/layout/Header"
+import { dateRangeOptions, type DateRangeValue } from "@/lib/date-range-labels"
 import { apiFetch } from "@/lib/api"
+import { getNumberFormat } from "@/lib/utils"
 
 interface RevenueMetrics {
   grossSales: number
@@ -77,9 +77,9 @@ export function RevenueDashboard({ dateRange, refreshKey }: RevenueDashboardProp
   }, [dateRange, refreshKey])
 
   const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat("en-US", {
+    return new Intl.NumberFormat(getNumberFormat().locale, {
       style: "currency",
-      currency: "USD",
+      currency: getNumberFormat().currency,
       minimumFractionDigits: 2,
       maximumFractionDigits: 2,
     }).format(value)
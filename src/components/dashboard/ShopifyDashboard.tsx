@@ -26,8 +26,10 @@ import {
   AreaChart,
   Area,
 } from "recharts"
-import type { DateRangeValue } from "@/components/layout/Header"
+import type { DateRangeValue } from "@/lib/date-range-labels"
 import { apiFetch } from "@/lib/api"
+import { toApiRange } from "@/lib/date-utils"
+import { getNumberFormat } from "@/lib/utils"
 
 type ChartTimeRange = "7d" | "30d" | "90d"
 
@@ -78,10 +80,10 @@ export function ShopifyDashboard({ dateRange, refreshKey }: ShopifyDashboardProp
     const fetchData = async () => {
       setLoading(true)
       try {
-        const encodedRange = encodeURIComponent(dateRange)
+        const encodedRange = toApiRange(dateRange)
         const [metricsRes, chartRes] = await Promise.all([
           apiFetch(`/api/metrics/overview?range=${encodedRange}`),
-          apiFetch(`/api/metrics/revenue-chart?range=${chartTimeRange}`),
+          apiFetch(`/api/metrics/revenue-chart?range=${toApiRange(chartTimeRange)}`),
         ])
 
         if (metricsRes.ok) {
@@ -104,9 +106,9 @@ export function ShopifyDashboard({ dateRange, refreshKey }: ShopifyDashboardProp
   }, [dateRange, refreshKey, chartTimeRange])
 
   const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat("en-US", {
+    return new Intl.NumberFormat(getNumberFormat().locale, {
       style: "currency",
-      currency: "USD",
+      currency: getNumberFormat().currency,
       minimumFractionDigits: 0,
       maximumFractionDigits: 0,
     }).format(value)
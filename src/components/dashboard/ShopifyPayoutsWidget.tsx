@@ -1,4 +1,3 @@
-import { useState, useEffect } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import {
   Store,
@@ -11,9 +10,10 @@ import {
   Calendar,
   TrendingUp,
 } from "lucide-react"
-import type { DateRangeValue } from "@/components/layout/Header"
-import { apiFetch } from "@/lib/api"
+import { useApiQuery } from "@/hooks/useApiQuery"
+import { ApiError } from "@/lib/api"
 import { formatDateForDisplay } from "@/lib/date-utils"
+import { getNumberFormat } from "@/lib/utils"
 
 interface Payout {
   id: number
@@ -48,53 +48,25 @@ interface PayoutSummary {
   nextPayoutAmount: number | null
 }
 
-interface ApiError {
-  error: string
-  code?: string
-  message?: string
-  setupUrl?: string
-}
-
 interface ShopifyPayoutsWidgetProps {
-  dateRange: DateRangeValue
   refreshKey: number
 }
 
+/**
+ * Pending balance, upcoming and recent Shopify Payments payouts
+ *
+ * Always the latest payouts - the widget shows upcoming and recent deposits,
+ * not a period, so it doesn't follow the header date range.
+ */
 export function ShopifyPayoutsWidget({ refreshKey }: ShopifyPayoutsWidgetProps) {
-  const [data, setData] = useState<PayoutSummary | null>(null)
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<ApiError | null>(null)
-
-  useEffect(() => {
-    const fetchPayouts = async () => {
-      setLoading(true)
-      setError(null)
-      try {
-        const response = await apiFetch(`/api/shopify/payouts`)
-
-        if (response.ok) {
-          const payoutData = await response.json()
-          setData(payoutData)
-        } else {
-          const errData: ApiError = await response.json()
-          setError(errData)
-        }
-      } catch (err) {
-        console.error("Failed to fetch Shopify payouts:", err)
-        setError({ error: "Failed to connect to Shopify" })
-      } finally {
-        setLoading(false)
-      }
-    }
-
-    fetchPayouts()
-  }, [refreshKey])
+  const { data, error: queryError, isLoading: loading } = useApiQuery<PayoutSummary>(`/api/shopify/payouts`, { refreshKey })
+  const error = !queryError || queryError instanceof ApiError ? queryError : new ApiError(0, "Failed to connect to Shopify")
 
   const formatCurrency = (value: number | string) => {
     const num = typeof value === "string" ? parseFloat(value) : value
-    return new Intl.NumberFormat("en-US", {
+    return new Intl.NumberFormat(getNumberFormat().locale, {
       style: "currency",
-      currency: "USD",
+      currency: getNumberFormat().currency,
       minimumFractionDigits: 2,
       maximumFractionDigits: 2,
     }).format(num)
@@ -219,7 +191,7 @@ export function ShopifyPayoutsWidget({ refreshKey }: ShopifyPayoutsWidgetProps)
           ) : (
             <div className="flex h-48 flex-col items-center justify-center gap-2 text-muted-foreground">
               <XCircle size={32} className="text-red-400" />
-              <p>{error.error || error.message || "Failed to fetch payouts"}</p>
+              <p>{error.message || "Failed to fetch payouts"}</p>
               <p className="text-sm">Check your Shopify Payments configuration</p>
             </div>
           )}
@@ -0,0 +1,164 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { AlertTriangle, Loader2, Repeat } from "lucide-react"
+import { useSubscriptions } from "@/hooks/useSubscriptions"
+import { useQueryState } from "@/hooks/useRouter"
+import { formatDateForFullDisplay } from "@/lib/date-utils"
+import { PRICE_ALERT_DAYS, priceChangeAlerts } from "@/lib/subscriptions"
+import { getNumberFormat } from "@/lib/utils"
+
+interface SubscriptionsWidgetProps {
+  refreshKey: number
+}
+
+const fmt = (value: number) =>
+  new Intl.NumberFormat(getNumberFormat().locale, {
+    style: "currency",
+    currency: getNumberFormat().currency,
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(value)
+
+/**
+ * Recurring charges detected in bank transactions - what each costs a year,
+ * when it bills next, and which ones just changed price
+ */
+export function SubscriptionsWidget({ refreshKey }: SubscriptionsWidgetProps) {
+  const [scope, setScope] = useQueryState("subs", "software", ["software", "all"])
+  const { subscriptions, isLoading, error } = useSubscriptions({ refreshKey })
+
+  if (isLoading) {
+    return (
+      <div className="flex h-96 items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  const active = subscriptions.filter((s) => !s.isLapsed)
+  const software = active.filter((s) => s.isSoftware)
+  const softwareAnnual = software.reduce((sum, s) => sum + s.annualizedCost, 0)
+  const allAnnual = active.reduce((sum, s) => sum + s.annualizedCost, 0)
+  const alerts = priceChangeAlerts(subscriptions)
+  const shown = subscriptions.filter((s) => scope === "all" || s.isSoftware)
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 gap-4 lg:grid-cols-4">
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-xs text-muted-foreground">Software / month</p>
+            <p className="text-xl font-bold">{fmt(softwareAnnual / 12)}</p>
+            <p className="text-xs text-muted-foreground">{software.length} active subscriptions</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-xs text-muted-foreground">Software / year</p>
+            <p className="text-xl font-bold">{fmt(softwareAnnual)}</p>
+            <p className="text-xs text-muted-foreground">At current prices</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-xs text-muted-foreground">All recurring / year</p>
+            <p className="text-xl font-bold">{fmt(allAnnual)}</p>
+            <p className="text-xs text-muted-foreground">Incl. rent and insurance</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-xs text-muted-foreground">Price changes</p>
+            <p className={`text-xl font-bold ${alerts.length > 0 ? "text-amber-600" : ""}`}>{alerts.length}</p>
+            <p className="text-xs text-muted-foreground">Last {PRICE_ALERT_DAYS} days</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {alerts.length > 0 && (
+        <Card className="border-amber-200 bg-amber-50/50">
+          <CardContent className="space-y-2 p-4">
+            {alerts.map((s) => s.priceChange && (
+              <div key={s.id} className="flex items-start gap-2 text-sm">
+                <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-amber-600" />
+                <p>
+                  <span className="font-medium">{s.merchant}</span> went from {fmt(s.priceChange.previous)} to{" "}
+                  {fmt(s.priceChange.current)} ({s.priceChange.percent > 0 ? "+" : ""}
+                  {s.priceChange.percent.toFixed(1)}%) on {formatDateForFullDisplay(s.priceChange.date)} -{" "}
+                  {fmt((s.priceChange.current - s.priceChange.previous) * (s.cadence === "monthly" ? 12 : 1))}/year
+                </p>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-2">
+            <CardTitle className="flex items-center gap-2 text-base">
+              <Repeat className="h-5 w-5 text-rh-accent" />
+              Subscriptions
+            </CardTitle>
+            <span className="flex gap-1 rounded-lg bg-muted p-1">
+              {(["software", "all"] as const).map((value) => (
+                <button
+                  key={value}
+                  onClick={() => setScope(value)}
+                  className={`rounded-md px-3 py-1 text-xs font-medium transition-all ${
+                    scope === value ? "bg-background text-foreground shadow-sm" : "text-muted-foreground hover:text-foreground"
+                  }`}
+                >
+                  {value === "software" ? "Software" : "All recurring"}
+                </button>
+              ))}
+            </span>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Found from repeat charges by the same merchant for a similar amount, monthly or yearly. Software spend feeds net profit on
+            the dashboard.
+          </p>
+        </CardHeader>
+        <CardContent>
+          {error ? (
+            <p className="py-6 text-center text-sm text-rh-negative">Couldn't load bank transactions</p>
+          ) : shown.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">No recurring charges found yet</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-xs text-muted-foreground">
+                    <th className="py-2 text-left font-medium">Merchant</th>
+                    <th className="py-2 text-right font-medium">Last Charge</th>
+                    <th className="py-2 text-right font-medium">Next Expected</th>
+                    <th className="py-2 text-right font-medium">Annualized</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {shown.map((s) => (
+                    <tr key={s.id} className={`border-b last:border-0 ${s.isLapsed ? "text-muted-foreground" : ""}`}>
+                      <td className="py-2">
+                        <p className="font-medium">{s.merchant}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {s.cadence === "monthly" ? "Monthly" : "Yearly"} · {s.category} · {s.charges.length} charges
+                        </p>
+                      </td>
+                      <td className="py-2 text-right tabular-nums">
+                        {fmt(s.lastCharge.amount)}
+                        <span className="block text-xs text-muted-foreground">{formatDateForFullDisplay(s.lastCharge.date)}</span>
+                      </td>
+                      <td className="py-2 text-right">
+                        {s.isLapsed ? <span className="text-xs">Stopped - likely cancelled</span> : formatDateForFullDisplay(s.nextExpected)}
+                      </td>
+                      <td className="py-2 text-right font-medium tabular-nums">{s.isLapsed ? "—" : fmt(s.annualizedCost)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -32,9 +32,10 @@ import {
   Receipt,
   Download,
 } from "lucide-react"
-import type { DateRangeValue } from "@/components/layout/Header"
+import type { DateRangeValue } from "@/lib/date-range-labels"
 import { apiFetch } from "@/lib/api"
 import { formatDateForDisplay } from "@/lib/date-utils"
+import { getNumberFormat } from "@/lib/utils"
 
 interface Transaction {
   transaction_id: string
@@ -158,9 +159,9 @@ export function TransactionTable({ dateRange, refreshKey, accounts }: Transactio
   }, [debouncedSearch, categoryFilter, accountFilter, minAmount, maxAmount, dateRange])
 
   const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat("en-US", {
+    return new Intl.NumberFormat(getNumberFormat().locale, {
       style: "currency",
-      currency: "USD",
+      currency: getNumberFormat().currency,
       minimumFractionDigits: 2,
       maximumFractionDigits: 2,
     }).format(value)
@@ -1,7 +1,16 @@
 import { useState, useEffect } from "react"
-import { Calendar as CalendarIcon, RefreshCw, ChevronDown, X, LogOut, Menu } from "lucide-react"
+import { Calendar as CalendarIcon, RefreshCw, ChevronDown, X, LogOut, Menu, ArrowLeftRight } from "lucide-react"
 import { format } from "date-fns"
 import type { DateRange } from "react-day-picker"
+import { getStoreToday } from "@/lib/date-utils"
+import {
+  compareOptions,
+  dateRangeOptions,
+  formatCompareLabel,
+  formatDateRangeLabel,
+  type CompareValue,
+  type DateRangeValue,
+} from "@/lib/date-range-labels"
 import { Button } from "@/components/ui/button"
 import { Calendar } from "@/components/ui/calendar"
 import {
@@ -18,53 +27,23 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog"
 
-export const dateRangeOptions = [
-  { label: "Today", value: "today", days: 1 },
-  { label: "Yesterday", value: "yesterday", days: 1 },
-  { label: "Last 7 days", value: "7d", days: 7 },
-  { label: "Last 14 days", value: "14d", days: 14 },
-  { label: "Last 30 days", value: "30d", days: 30 },
-  { label: "Last 90 days", value: "90d", days: 90 },
-  { label: "This month", value: "this_month", days: 30 },
-  { label: "Last month", value: "last_month", days: 30 },
-  { label: "This year", value: "this_year", days: 365 },
-]
-
-// DateRangeValue can be a preset string or a custom range string like "custom:2024-01-01:2024-01-31"
-export type DateRangeValue = typeof dateRangeOptions[number]["value"] | `custom:${string}:${string}`
-
-export interface CustomDateRange {
-  start: Date
-  end: Date
-}
-
-export function parseCustomRange(value: DateRangeValue): CustomDateRange | null {
-  if (typeof value === "string" && value.startsWith("custom:")) {
-    const [, startStr, endStr] = value.split(":")
-    // Parse as local date, not UTC
-    const [startYear, startMonth, startDay] = startStr.split("-").map(Number)
-    const [endYear, endMonth, endDay] = endStr.split("-").map(Number)
-    return {
-      start: new Date(startYear, startMonth - 1, startDay),
-      end: new Date(endYear, endMonth - 1, endDay),
-    }
-  }
-  return null
-}
-
 interface HeaderProps {
   title: string
   subtitle?: string
   dateRange: DateRangeValue
   onDateRangeChange: (value: DateRangeValue) => void
+  compareTo: CompareValue
+  onCompareChange: (value: CompareValue) => void
   onRefresh?: () => void
   onLogout?: () => void
   onOpenNav?: () => void
 }
 
-export function Header({ title, subtitle, dateRange, onDateRangeChange, onRefresh, onLogout, onOpenNav }: HeaderProps) {
+export function Header({ title, subtitle, dateRange, onDateRangeChange, compareTo, onCompareChange, onRefresh, onLogout, onOpenNav }: HeaderProps) {
   const [selectedRange, setSelectedRange] = useState<DateRange | undefined>(undefined)
   const [isDialogOpen, setIsDialogOpen] = useState(false)
+  // Which value the custom range dialog is picking
+  const [dialogTarget, setDialogTarget] = useState<"range" | "compare">("range")
   const [isMobile, setIsMobile] = useState(false)
 
   useEffect(() => {
@@ -75,25 +54,21 @@ export function Header({ title, subtitle, dateRange, onDateRangeChange, onRefres
   }, [])
 
   const isCustomRange = dateRange.startsWith("custom:")
-  const customRange = parseCustomRange(dateRange)
 
-  const getSelectedLabel = () => {
-    if (isCustomRange && customRange) {
-      // If start and end are the same, show single date
-      if (customRange.start.getTime() === customRange.end.getTime()) {
-        return format(customRange.start, "MMM d, yyyy")
-      }
-      return `${format(customRange.start, "MMM d")} - ${format(customRange.end, "MMM d, yyyy")}`
-    }
-    return dateRangeOptions.find((o) => o.value === dateRange)?.label || "Last 30 days"
-  }
+  const getSelectedLabel = () => formatDateRangeLabel(dateRange)
+
+  const isCustomCompare = compareTo.startsWith("custom:")
 
   const handleApplyCustomRange = () => {
     if (selectedRange?.from) {
       const startStr = format(selectedRange.from, "yyyy-MM-dd")
       // If no end date, use start date (single day)
       const endStr = selectedRange.to ? format(selectedRange.to, "yyyy-MM-dd") : startStr
-      onDateRangeChange(`custom:${startStr}:${endStr}`)
+      if (dialogTarget === "compare") {
+        onCompareChange(`custom:${startStr}:${endStr}`)
+      } else {
+        onDateRangeChange(`custom:${startStr}:${endStr}`)
+      }
       setIsDialogOpen(false)
       setSelectedRange(undefined)
     }
@@ -103,9 +78,10 @@ export function Header({ title, subtitle, dateRange, onDateRangeChange, onRefres
     onDateRangeChange(value as DateRangeValue)
   }
 
-  const handleOpenCustomDialog = () => {
+  const handleOpenCustomDialog = (target: "range" | "compare") => {
     // Start fresh - no pre-selection
     setSelectedRange(undefined)
+    setDialogTarget(target)
     setIsDialogOpen(true)
   }
 
@@ -189,7 +165,7 @@ export function Header({ title, subtitle, dateRange, onDateRangeChange, onRefres
             ))}
             <DropdownMenuSeparator />
             <DropdownMenuItem
-              onClick={handleOpenCustomDialog}
+              onClick={() => handleOpenCustomDialog("range")}
               className={isCustomRange ? "bg-accent" : ""}
             >
               Custom Range...
@@ -197,10 +173,42 @@ export function Header({ title, subtitle, dateRange, onDateRangeChange, onRefres
           </DropdownMenuContent>
         </DropdownMenu>
 
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="outline"
+              size="sm"
+              className={`gap-1.5 max-w-[140px] xs:max-w-[180px] md:max-w-[240px] ${compareTo !== "none" ? "border-rh-accent/50" : ""}`}
+            >
+              <ArrowLeftRight size={14} className="shrink-0" />
+              <span className="truncate text-xs md:text-sm">{compareTo === "none" ? "Compare" : formatCompareLabel(compareTo)}</span>
+              <ChevronDown size={12} className="shrink-0" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="w-52">
+            {compareOptions.map((option) => (
+              <DropdownMenuItem
+                key={option.value}
+                onClick={() => onCompareChange(option.value as CompareValue)}
+                className={compareTo === option.value ? "bg-accent" : ""}
+              >
+                {option.label}
+              </DropdownMenuItem>
+            ))}
+            <DropdownMenuSeparator />
+            <DropdownMenuItem
+              onClick={() => handleOpenCustomDialog("compare")}
+              className={isCustomCompare ? "bg-accent" : ""}
+            >
+              Custom Period...
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+
         <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
           <DialogContent className="sm:max-w-fit">
             <DialogHeader>
-              <DialogTitle>Select Date Range</DialogTitle>
+              <DialogTitle>{dialogTarget === "compare" ? "Select Comparison Period" : "Select Date Range"}</DialogTitle>
             </DialogHeader>
 
             <div className="pt-2">
@@ -228,8 +236,8 @@ export function Header({ title, subtitle, dateRange, onDateRangeChange, onRefres
                 selected={selectedRange}
                 onSelect={setSelectedRange}
                 numberOfMonths={isMobile ? 1 : 2}
-                disabled={(date: Date) => date > new Date()}
-                defaultMonth={new Date(new Date().getFullYear(), new Date().getMonth() - 1)}
+                disabled={(date: Date) => date > getStoreToday()}
+                defaultMonth={new Date(getStoreToday().getFullYear(), getStoreToday().getMonth() - 1)}
               />
             </div>
 
@@ -2,10 +2,11 @@ import { useState, useCallback } from "react"
 import { Sidebar } from "./Sidebar"
 import type { ShopInfo } from "./Sidebar"
 import { Header } from "./Header"
-import type { DateRangeValue } from "./Header"
+import type { CompareValue, DateRangeValue } from "@/lib/date-range-labels"
 import { BottomTabBar } from "./BottomTabBar"
 import type { BottomSection } from "./BottomTabBar"
 import { SlidingTabs } from "./SlidingTabs"
+import { OfflineBanner } from "./OfflineBanner"
 import { Dialog, DialogContent } from "@/components/ui/dialog"
 import { useSwipe } from "@/hooks/useSwipe"
 
@@ -13,14 +14,19 @@ import { useSwipe } from "@/hooks/useSwipe"
 const sectionTabs: Record<BottomSection, { id: string; label: string }[]> = {
   finance: [
     { id: "/finance", label: "Finance" },
+    { id: "/pnl", label: "P&L" },
+    { id: "/banking", label: "Banking" },
+    { id: "/forecasting", label: "Forecast" },
   ],
   shop: [
     { id: "/", label: "Dashboard" },
+    { id: "/shopify", label: "Shopify" },
     { id: "/customers", label: "Customers" },
     { id: "/products", label: "Products" },
     { id: "/inventory", label: "Inventory" },
   ],
   marketing: [
+    { id: "/marketing", label: "Overview" },
     { id: "/meta", label: "Meta" },
     { id: "/email", label: "Email" },
   ],
@@ -30,10 +36,15 @@ const sectionTabs: Record<BottomSection, { id: string; label: string }[]> = {
 // Map page paths to their section
 export const pathToSection: Record<string, BottomSection> = {
   "/finance": "finance",
+  "/pnl": "finance",
+  "/banking": "finance",
+  "/forecasting": "finance",
   "/": "shop",
+  "/shopify": "shop",
   "/customers": "shop",
   "/products": "shop",
   "/inventory": "shop",
+  "/marketing": "marketing",
   "/meta": "marketing",
   "/email": "marketing",
   "/settings": "settings",
@@ -43,7 +54,7 @@ export const pathToSection: Record<string, BottomSection> = {
 export const sectionDefaultTab: Record<BottomSection, string> = {
   finance: "/finance",
   shop: "/",
-  marketing: "/meta",
+  marketing: "/marketing",
   settings: "/settings",
 }
 
@@ -56,13 +67,15 @@ interface LayoutProps {
   shopInfo?: ShopInfo | null
   dateRange: DateRangeValue
   onDateRangeChange: (value: DateRangeValue) => void
+  compareTo: CompareValue
+  onCompareChange: (value: CompareValue) => void
   onRefresh?: () => void
   onLogout?: () => void
   onNavigate?: (href: string) => void
   onSectionChange: (section: BottomSection) => void
 }
 
-export function Layout({ children, title, subtitle, currentPath, activeSection, shopInfo, dateRange, onDateRangeChange, onRefresh, onLogout, onNavigate, onSectionChange }: LayoutProps) {
+export function Layout({ children, title, subtitle, currentPath, activeSection, shopInfo, dateRange, onDateRangeChange, compareTo, onCompareChange, onRefresh, onLogout, onNavigate, onSectionChange }: LayoutProps) {
   const [mobileNavOpen, setMobileNavOpen] = useState(false)
 
   // Get tabs for current section
@@ -102,11 +115,15 @@ export function Layout({ children, title, subtitle, currentPath, activeSection,
           subtitle={subtitle}
           dateRange={dateRange}
           onDateRangeChange={onDateRangeChange}
+          compareTo={compareTo}
+          onCompareChange={onCompareChange}
           onRefresh={onRefresh}
           onLogout={onLogout}
           onOpenNav={() => setMobileNavOpen(true)}
         />
 
+        <OfflineBanner />
+
         {/* Mobile Sliding Tabs - only show if section has multiple tabs */}
         {currentTabs.length > 1 && (
           <div className="md:hidden border-b border-border flex-shrink-0">
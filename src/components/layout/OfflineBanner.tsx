@@ -0,0 +1,53 @@
+import { useState, useEffect } from "react"
+import { CloudOff, RefreshCw } from "lucide-react"
+import { useOfflineStatus } from "@/hooks/useOfflineStatus"
+
+const formatAge = (since: number, now: number) => {
+  const diffMins = Math.max(0, Math.floor((now - since) / 60000))
+  if (diffMins < 1) return "just now"
+  if (diffMins < 60) return `${diffMins}m ago`
+  if (diffMins < 1440) return `${Math.floor(diffMins / 60)}h ago`
+  return `${Math.floor(diffMins / 1440)}d ago`
+}
+
+export function OfflineBanner() {
+  const { isOffline, offlineDataSince, pendingWrites } = useOfflineStatus()
+  const [now, setNow] = useState(() => Date.now())
+
+  // Keep the "2h ago" label current while the banner is up
+  useEffect(() => {
+    if (offlineDataSince === null) return
+    const interval = setInterval(() => setNow(Date.now()), 60000)
+    return () => clearInterval(interval)
+  }, [offlineDataSince])
+
+  if (!isOffline && offlineDataSince === null && pendingWrites === 0) {
+    return null
+  }
+
+  const showingSnapshot = offlineDataSince !== null
+  const status = isOffline ? "Offline" : showingSnapshot ? "Can't reach server" : "Syncing"
+  const detail = showingSnapshot
+    ? `showing data from ${formatAge(offlineDataSince, Math.max(now, offlineDataSince))}`
+    : isOffline
+      ? "no saved data for this view"
+      : null
+  const changes = `${pendingWrites} ${pendingWrites === 1 ? "change" : "changes"}`
+
+  return (
+    <div className="flex items-center gap-2 border-b border-rh-accent-gold/30 bg-rh-accent-gold/10 px-4 py-2 text-xs text-rh-accent-gold md:px-6">
+      {isOffline || showingSnapshot ? (
+        <CloudOff size={14} className="shrink-0" />
+      ) : (
+        <RefreshCw size={14} className="shrink-0 animate-spin" />
+      )}
+      <span className="font-medium">{status}</span>
+      {detail && <span>— {detail}</span>}
+      {pendingWrites > 0 && (
+        <span className="ml-auto text-rh-text-secondary">
+          {isOffline || showingSnapshot ? `${changes} will sync when back online` : `Sending ${changes}…`}
+        </span>
+      )}
+    </div>
+  )
+}
@@ -16,6 +16,7 @@ import {
   Clock,
   TrendingUp,
   Warehouse,
+  FileSpreadsheet,
 } from "lucide-react"
 import { cn } from "@/lib/utils"
 import { apiFetch } from "@/lib/api"
@@ -38,6 +39,7 @@ const navItems: NavItem[] = [
   { label: "Products", icon: <Package size={22} />, href: "/products" },
   { label: "Customers", icon: <Users size={22} />, href: "/customers" },
   { label: "Finance", icon: <CreditCard size={22} />, href: "/finance" },
+  { label: "P&L", icon: <FileSpreadsheet size={22} />, href: "/pnl" },
   { label: "Inventory", icon: <Warehouse size={22} />, href: "/inventory" },
   { label: "Marketing", icon: <Megaphone size={22} />, href: "/marketing" },
   { label: "Email", icon: <Mail size={22} />, href: "/email" },
@@ -58,6 +60,8 @@ export interface ShopInfo {
   shop_owner: string
   email: string
   created_at: string
+  /** IANA timezone the store reports in, e.g. "America/Chicago" */
+  iana_timezone?: string
 }
 
 interface SidebarProps {
@@ -0,0 +1,36 @@
+import { ArrowDownRight, ArrowUpRight } from "lucide-react"
+import { cn } from "@/lib/utils"
+
+interface ChangeIndicatorProps {
+  change: number // Percent change vs the comparison period
+  invert?: boolean // Lower is better (e.g. CAC, refunds)
+  label?: string
+  className?: string
+}
+
+export function ChangeIndicator({ change, invert = false, label, className }: ChangeIndicatorProps) {
+  const rounded = Math.round(change * 10) / 10
+  const isUp = rounded > 0
+  const isDown = rounded < 0
+  const isGood = invert ? isDown : isUp
+  const isBad = invert ? isUp : isDown
+
+  return (
+    <span className={cn("inline-flex items-center gap-1 text-xs", className)}>
+      <span
+        className={cn(
+          "inline-flex items-center gap-0.5 font-medium tabular-nums",
+          isGood && "text-rh-positive",
+          isBad && "text-rh-negative",
+          !isGood && !isBad && "text-muted-foreground"
+        )}
+      >
+        {isUp && <ArrowUpRight size={12} />}
+        {isDown && <ArrowDownRight size={12} />}
+        {isUp && "+"}
+        {rounded.toFixed(1)}%
+      </span>
+      {label && <span className="text-muted-foreground">{label}</span>}
+    </span>
+  )
+}
@@ -1,4 +1,4 @@
-import { cn } from "@/lib/utils"
+import { cn, getNumberFormat } from "@/lib/utils"
 import { TrendingUp, TrendingDown } from "lucide-react"
 
 interface HeroMetricProps {
@@ -24,9 +24,9 @@ export function HeroMetric({
 }: HeroMetricProps) {
   const formatChange = (val: number) => {
     const absVal = Math.abs(val)
-    return new Intl.NumberFormat('en-US', {
+    return new Intl.NumberFormat(getNumberFormat().locale, {
       style: 'currency',
-      currency: 'USD',
+      currency: getNumberFormat().currency,
       minimumFractionDigits: 0,
       maximumFractionDigits: 0,
     }).format(absVal)
@@ -1,7 +1,10 @@
-import { createContext, useContext, useState, useEffect } from 'react'
+import { createContext, useContext, useState, useEffect, useRef } from 'react'
 import type { ReactNode } from 'react'
 import type { Session, User } from '@supabase/supabase-js'
 import { supabase } from '@/config/supabase'
+import { clearQueryCache, setAuthFailureHandler } from '@/lib/api'
+import { DEMO_USER, createDemoSession, enterDemoMode, exitDemoMode, isDemoMode } from '@/lib/demo'
+import { clearOfflineStore } from '@/lib/offline-store'
 
 interface AuthContextType {
   isAuthenticated: boolean
@@ -10,9 +13,22 @@ interface AuthContextType {
   session: Session | null
   login: (email: string, password: string) => Promise<{ success: boolean; error?: string }>
   signup: (email: string, password: string) => Promise<{ success: boolean; error?: string }>
-  logout: () => Promise<void>
+  logout: (reason?: LogoutReason) => Promise<void>
+  /** Revokes every session for this user except the current one */
+  signOutOtherSessions: () => Promise<{ success: boolean; error?: string }>
+  /** Message explaining why the user was signed out (shown on Login) */
+  authNotice: string | null
+  /** Whether the app is running against demo fixtures (see lib/demo) */
+  isDemo: boolean
+  /** Signs in as the demo user without touching Supabase */
+  startDemo: () => void
 }
 
+/** Why the user is being signed out - "user" is an explicit sign out */
+export type LogoutReason = 'user' | 'session_expired'
+
+const SESSION_EXPIRED_NOTICE = 'Your session expired. Please sign in again.'
+
 const AuthContext = createContext<AuthContextType | null>(null)
 
 export function useAuth() {
@@ -28,12 +44,17 @@ interface AuthProviderProps {
 }
 
 export function AuthProvider({ children }: AuthProviderProps) {
-  const [isAuthenticated, setIsAuthenticated] = useState(false)
-  const [isLoading, setIsLoading] = useState(true)
-  const [user, setUser] = useState<User | null>(null)
-  const [session, setSession] = useState<Session | null>(null)
+  const [isDemo, setIsDemo] = useState(isDemoMode)
+  const [isAuthenticated, setIsAuthenticated] = useState(isDemo)
+  const [isLoading, setIsLoading] = useState(!isDemo)
+  const [user, setUser] = useState<User | null>(isDemo ? DEMO_USER : null)
+  const [session, setSession] = useState<Session | null>(() => (isDemo ? createDemoSession() : null))
+  const [authNotice, setAuthNotice] = useState<string | null>(null)
 
   useEffect(() => {
+    // The demo session is stubbed - Supabase is never consulted
+    if (isDemo) return
+
     // Get initial session
     supabase.auth.getSession().then(({ data: { session } }) => {
       setSession(session)
@@ -55,7 +76,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
     )
 
     return () => subscription.unsubscribe()
-  }, [])
+  }, [isDemo])
 
   const login = async (email: string, password: string): Promise<{ success: boolean; error?: string }> => {
     try {
@@ -72,6 +93,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
         setSession(data.session)
         setUser(data.user)
         setIsAuthenticated(true)
+        setAuthNotice(null)
         return { success: true }
       }
 
@@ -113,13 +135,72 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   }
 
-  const logout = async () => {
-    await supabase.auth.signOut()
+  const startDemo = () => {
+    enterDemoMode()
+    clearQueryCache()
+    setIsDemo(true)
+    setSession(createDemoSession())
+    setUser(DEMO_USER)
+    setIsAuthenticated(true)
+    setAuthNotice(null)
+  }
+
+  const logout = async (reason: LogoutReason = 'user') => {
+    if (isDemo) {
+      exitDemoMode()
+      clearQueryCache()
+      setIsDemo(isDemoMode())
+      setSession(null)
+      setUser(null)
+      setIsAuthenticated(false)
+      return
+    }
+
+    try {
+      // An expired session can't be revoked server-side, so only clear it locally
+      await supabase.auth.signOut(reason === 'session_expired' ? { scope: 'local' } : undefined)
+    } catch (error) {
+      console.warn('Sign out failed:', error)
+    }
+    // Drop cached responses and offline data so the next user never sees this
+    // user's data - snapshots and queued writes aren't keyed by user, so a
+    // write left in the queue would otherwise replay under the next user's token
+    clearQueryCache()
+    await clearOfflineStore()
     setSession(null)
     setUser(null)
     setIsAuthenticated(false)
+    setAuthNotice(reason === 'session_expired' ? SESSION_EXPIRED_NOTICE : null)
   }
 
+  const signOutOtherSessions = async (): Promise<{ success: boolean; error?: string }> => {
+    if (isDemo) {
+      return { success: false, error: 'Not available in demo mode' }
+    }
+
+    try {
+      const { error } = await supabase.auth.signOut({ scope: 'others' })
+      if (error) {
+        return { success: false, error: error.message }
+      }
+      return { success: true }
+    } catch (error) {
+      console.error('Sign out of other sessions failed:', error)
+      return { success: false, error: 'Connection error' }
+    }
+  }
+
+  // Route unrecoverable API auth failures (see apiFetch) through logout
+  const logoutRef = useRef(logout)
+  useEffect(() => {
+    logoutRef.current = logout
+  })
+  useEffect(() => {
+    return setAuthFailureHandler(() => {
+      logoutRef.current('session_expired')
+    })
+  }, [])
+
   return (
     <AuthContext.Provider value={{
       isAuthenticated,
@@ -128,7 +209,11 @@ export function AuthProvider({ children }: AuthProviderProps) {
       session,
       login,
       signup,
-      logout
+      logout,
+      signOutOtherSessions,
+      authNotice,
+      isDemo,
+      startDemo
     }}>
       {children}
     </AuthContext.Provider>
@@ -61,7 +61,7 @@ interface RealtimeProviderProps {
 }
 
 export function RealtimeProvider({ children }: RealtimeProviderProps) {
-  const { isAuthenticated } = useAuth();
+  const { isAuthenticated, isDemo } = useAuth();
   const [syncStatus, setSyncStatus] = useState<SyncStatus[]>([]);
   const [isConnected, setIsConnected] = useState(false);
   const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
@@ -105,7 +105,8 @@ export function RealtimeProvider({ children }: RealtimeProviderProps) {
 
   // Setup realtime subscription
   useEffect(() => {
-    if (!isAuthenticated) {
+    // Demo mode has no Supabase project - consumers fall back to polling the mock API
+    if (!isAuthenticated || isDemo) {
       // Clear state when not authenticated
       setSyncStatus([]);
       setIsConnected(false);
@@ -180,7 +181,7 @@ export function RealtimeProvider({ children }: RealtimeProviderProps) {
       }
       setIsConnected(false);
     };
-  }, [isAuthenticated, refreshSyncStatus]);
+  }, [isAuthenticated, isDemo, refreshSyncStatus]);
 
   // Cleanup channel on unmount
   useEffect(() => {
@@ -0,0 +1,71 @@
+import { useEffect, useSyncExternalStore } from 'react'
+import type { ReactNode } from 'react'
+import { useAuth } from './AuthContext'
+import { useApiQuery } from '@/hooks/useApiQuery'
+import { saveUserSettings, settingsStore } from '@/lib/settings'
+import type { UserSettings } from '@/lib/settings'
+import { SettingsContext } from '@/hooks/useSettings'
+import { getNumberFormat, setNumberFormat, subscribeNumberFormat } from '@/lib/utils'
+import { getStoreTimezone, setStoreTimezone, subscribeStoreTimezone } from '@/lib/date-utils'
+import { useUserStore } from '@/lib/user-store'
+import type { ShopInfo } from '@/components/layout/Sidebar'
+
+interface SettingsProviderProps {
+  children: ReactNode
+}
+
+export function SettingsProvider({ children }: SettingsProviderProps) {
+  const { isAuthenticated } = useAuth()
+  const { value: settings, isLoading, update } = useUserStore(settingsStore)
+
+  // Currency follows the store unless the user picked one
+  const { data: shopData } = useApiQuery<{ shop?: ShopInfo }>(
+    isAuthenticated ? `/api/shopify/shop` : null,
+    { staleTime: 10 * 60 * 1000 }
+  )
+  const currency = settings.currency || shopData?.shop?.currency || 'USD'
+  const locale = settings.numberLocale
+
+  useEffect(() => {
+    setNumberFormat({ locale, currency })
+  }, [locale, currency])
+
+  // "Today" and every preset follow the store's clock, not the phone's
+  const storeTimezone = shopData?.shop?.iana_timezone
+  useEffect(() => {
+    if (storeTimezone) setStoreTimezone(storeTimezone)
+  }, [storeTimezone])
+
+  // Re-render the app once formatters switch over
+  const numberFormat = useSyncExternalStore(subscribeNumberFormat, getNumberFormat)
+  const timezone = useSyncExternalStore(subscribeStoreTimezone, getStoreTimezone)
+
+  // Applied straight away; a change Supabase rejects is reverted to the last saved value
+  const updateSettings = (changes: Partial<UserSettings>) =>
+    update(
+      (current) => ({ ...current, ...changes }),
+      (userId) => saveUserSettings(userId, changes),
+      (current, saved) => {
+        const reverted = { ...current }
+        for (const key of Object.keys(changes) as (keyof UserSettings)[]) {
+          // Leave fields a later change has already replaced
+          if (current[key] === changes[key]) {
+            Object.assign(reverted, { [key]: saved[key] })
+          }
+        }
+        return reverted
+      }
+    )
+
+  return (
+    <SettingsContext.Provider value={{
+      settings,
+      isLoading,
+      updateSettings,
+      numberFormat,
+      timezone
+    }}>
+      {children}
+    </SettingsContext.Provider>
+  )
+}
@@ -0,0 +1,32 @@
+import { adTagsStore, saveAdTags, withAdTags } from "@/lib/meta-ad-tags"
+import type { AdTagMap } from "@/lib/meta-ad-tags"
+import type { ManualAdTags } from "@/lib/creative-tags"
+import { useUserStore } from "@/lib/user-store"
+
+export interface AdTagsState {
+  /** Hand-set tags keyed by ad id */
+  tags: AdTagMap
+  isLoading: boolean
+  /**
+   * Replaces one ad's hand-set tags
+   *
+   * @throws Error when the tags couldn't be saved to Supabase
+   */
+  save: (adId: string, tags: ManualAdTags) => Promise<void>
+}
+
+/**
+ * The signed-in user's hand-set Meta creative tags
+ */
+export function useAdTags(): AdTagsState {
+  const { value: tags, isLoading, update } = useUserStore(adTagsStore)
+
+  const save = (adId: string, adTags: ManualAdTags) =>
+    update(
+      (current) => withAdTags(current, adId, adTags),
+      (userId) => saveAdTags(userId, adId, adTags),
+      (current, saved) => withAdTags(current, adId, saved[adId] ?? {})
+    )
+
+  return { tags, isLoading, save }
+}
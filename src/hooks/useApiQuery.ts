@@ -0,0 +1,78 @@
+import { useCallback, useEffect, useSyncExternalStore } from "react"
+import {
+  fetchQuery,
+  getQuerySnapshot,
+  isAbortError,
+  subscribeQuery,
+  DEFAULT_STALE_TIME,
+} from "@/lib/api"
+
+interface UseApiQueryOptions {
+  /** Header refresh counter - bumping it refetches the query */
+  refreshKey?: number
+  /** Milliseconds before cached data is revalidated */
+  staleTime?: number
+}
+
+interface UseApiQueryResult<T> {
+  data: T | undefined
+  error: Error | undefined
+  /** True only while there is no cached data to show yet */
+  isLoading: boolean
+  /** True whenever a request is in flight, including background revalidation */
+  isFetching: boolean
+  /** When the shown data was fetched (ms since epoch), or undefined before it has been */
+  updatedAt: number | undefined
+  refetch: () => Promise<T | undefined>
+}
+
+/**
+ * Hook to read a GET endpoint through the shared query cache
+ *
+ * Cached data renders immediately (e.g. when swiping back to a tab) while
+ * stale entries revalidate in the background. Pass `null` as the endpoint
+ * to skip fetching.
+ *
+ * @param endpoint - The API endpoint including query string, or null
+ * @param options - refreshKey and staleTime
+ */
+export function useApiQuery<T>(
+  endpoint: string | null,
+  { refreshKey = 0, staleTime = DEFAULT_STALE_TIME }: UseApiQueryOptions = {}
+): UseApiQueryResult<T> {
+  const subscribe = useCallback(
+    (listener: () => void) => (endpoint ? subscribeQuery(endpoint, listener) : () => {}),
+    [endpoint]
+  )
+  const snapshot = useSyncExternalStore(
+    subscribe,
+    () => getQuerySnapshot<T>(endpoint ?? "")
+  )
+
+  useEffect(() => {
+    if (!endpoint) return
+
+    // Aborting on cleanup cancels the request once a newer range/refresh supersedes it
+    const controller = new AbortController()
+    fetchQuery<T>(endpoint, { refreshKey, staleTime, signal: controller.signal }).catch((err) => {
+      if (!isAbortError(err)) {
+        console.error(`Failed to fetch ${endpoint}:`, err)
+      }
+    })
+    return () => controller.abort()
+  }, [endpoint, refreshKey, staleTime])
+
+  const refetch = useCallback(async () => {
+    if (!endpoint) return undefined
+    return fetchQuery<T>(endpoint, { force: true })
+  }, [endpoint])
+
+  return {
+    data: snapshot.data,
+    error: snapshot.error,
+    isLoading: !!endpoint && snapshot.data === undefined && snapshot.error === undefined,
+    isFetching: snapshot.isFetching,
+    updatedAt: snapshot.updatedAt || undefined,
+    refetch,
+  }
+}
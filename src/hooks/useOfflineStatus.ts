@@ -0,0 +1,24 @@
+import { useSyncExternalStore } from "react"
+import { getOfflineDataSince, subscribeOfflineData } from "@/lib/api"
+import {
+  isOnline,
+  subscribeConnectivity,
+  getPendingWriteCount,
+  subscribePendingWrites,
+} from "@/lib/offline"
+
+/**
+ * Hook exposing connectivity, persisted-data age and pending offline writes
+ */
+export function useOfflineStatus() {
+  const online = useSyncExternalStore(subscribeConnectivity, isOnline)
+  const offlineDataSince = useSyncExternalStore(subscribeOfflineData, getOfflineDataSince)
+  const pendingWrites = useSyncExternalStore(subscribePendingWrites, getPendingWriteCount)
+
+  return {
+    isOffline: !online,
+    /** When the oldest snapshot on screen was saved, or null if all data is live */
+    offlineDataSince,
+    pendingWrites,
+  }
+}
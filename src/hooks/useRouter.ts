@@ -0,0 +1,60 @@
+import { useCallback, useMemo, useSyncExternalStore } from "react"
+import { carrySearch, getLocation, navigate, subscribeLocation, updateSearch } from "@/lib/router"
+
+/**
+ * Hook returning the current pathname and search string
+ */
+export function useLocation() {
+  return useSyncExternalStore(subscribeLocation, getLocation)
+}
+
+/**
+ * Hook returning navigate(), which carries the query string along unless the
+ * target supplies its own: filters are kept within a page, and only global
+ * params (the date range) when moving to another page
+ */
+export function useNavigate() {
+  return useCallback((to: string, options?: { replace?: boolean }) => {
+    navigate(to.includes("?") ? to : to + carrySearch(getLocation(), to), options)
+  }, [])
+}
+
+/**
+ * Hook binding a single query-string param to state
+ *
+ * The param is dropped from the URL while it equals the default, and values
+ * rejected by `allowed` (a list or a predicate) fall back to the default so
+ * a hand-edited link can't put a dashboard into an unknown state. Updates
+ * replace the history entry so filter tweaks don't flood the back button.
+ *
+ * @param key - Query-string param name
+ * @param defaultValue - Value used when the param is missing or invalid
+ * @param allowed - Optional list of accepted values, or a validator
+ */
+export function useQueryState<T extends string>(
+  key: string,
+  defaultValue: T,
+  allowed?: readonly T[] | ((value: string) => boolean)
+): [T, (value: T) => void] {
+  const { search } = useLocation()
+
+  const value = useMemo(() => {
+    const raw = new URLSearchParams(search).get(key)
+    if (raw === null) return defaultValue
+    if (typeof allowed === "function" ? !allowed(raw) : allowed && !allowed.includes(raw as T)) {
+      return defaultValue
+    }
+    return raw as T
+  }, [search, key, defaultValue, allowed])
+
+  const setValue = useCallback(
+    (next: T) => {
+      const { pathname, search: currentSearch } = getLocation()
+      const nextSearch = updateSearch(currentSearch, { [key]: next === defaultValue ? null : next })
+      navigate(pathname + nextSearch, { replace: true })
+    },
+    [key, defaultValue]
+  )
+
+  return [value, setValue]
+}
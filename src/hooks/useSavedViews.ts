@@ -0,0 +1,50 @@
+import { deleteSavedView, saveView, savedViewsStore, withView } from "@/lib/meta-views"
+import type { CampaignTableLayout, SavedView } from "@/lib/meta-views"
+import { useUserStore } from "@/lib/user-store"
+
+export interface SavedViewsState {
+  views: SavedView[]
+  isLoading: boolean
+  /**
+   * Saves a layout under a name, overwriting the view with `id` when given
+   *
+   * @throws Error when the view couldn't be saved to Supabase
+   */
+  save: (name: string, layout: CampaignTableLayout, id?: string) => Promise<SavedView>
+  /** @throws Error when the view couldn't be deleted from Supabase */
+  remove: (id: string) => Promise<void>
+}
+
+/**
+ * Puts a view back the way Supabase last accepted it (or drops it if it was never saved)
+ */
+function restoreView(views: SavedView[], saved: SavedView[], id: string): SavedView[] {
+  const previous = saved.find((v) => v.id === id)
+  return previous ? withView(views, previous) : views.filter((v) => v.id !== id)
+}
+
+/**
+ * The signed-in user's saved Meta campaign table views
+ */
+export function useSavedViews(): SavedViewsState {
+  const { value: views, isLoading, update } = useUserStore(savedViewsStore)
+
+  const save = async (name: string, layout: CampaignTableLayout, id?: string) => {
+    const view: SavedView = { id: id ?? crypto.randomUUID(), name, layout, updatedAt: new Date().toISOString() }
+    await update(
+      (current) => withView(current, view),
+      (userId) => saveView(userId, view),
+      (current, saved) => restoreView(current, saved, view.id)
+    )
+    return view
+  }
+
+  const remove = (id: string) =>
+    update(
+      (current) => current.filter((v) => v.id !== id),
+      (userId) => deleteSavedView(userId, id),
+      (current, saved) => restoreView(current, saved, id)
+    )
+
+  return { views, isLoading, save, remove }
+}
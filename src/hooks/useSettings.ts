@@ -0,0 +1,33 @@
+import { createContext, useContext } from "react"
+import type { UserSettings } from "@/lib/settings"
+import type { NumberFormatSettings } from "@/lib/utils"
+
+export interface SettingsContextType {
+  settings: UserSettings
+  /** Whether settings are still being fetched from Supabase */
+  isLoading: boolean
+  /**
+   * Applies and persists a change
+   *
+   * @throws Error when the change couldn't be saved to Supabase
+   */
+  updateSettings: (changes: Partial<UserSettings>) => Promise<void>
+  /** Locale/currency currently used by formatters */
+  numberFormat: NumberFormatSettings
+  /** Store IANA timezone that date ranges resolve in */
+  timezone: string
+}
+
+/** Provided by SettingsProvider (context/SettingsContext) */
+export const SettingsContext = createContext<SettingsContextType | null>(null)
+
+/**
+ * The signed-in user's settings and the formatters they drive
+ */
+export function useSettings() {
+  const context = useContext(SettingsContext)
+  if (!context) {
+    throw new Error("useSettings must be used within a SettingsProvider")
+  }
+  return context
+}
@@ -0,0 +1,41 @@
+import { useMemo } from "react"
+import { useApiQuery } from "@/hooks/useApiQuery"
+import { getStoreToday, toCustomRange, toISODateString } from "@/lib/date-utils"
+import { SUBSCRIPTION_LOOKBACK_DAYS, detectSubscriptions } from "@/lib/subscriptions"
+import type { Subscription } from "@/lib/subscriptions"
+import type { TransactionsResponse } from "@/lib/api-types"
+
+interface UseSubscriptionsOptions {
+  refreshKey?: number
+}
+
+export interface SubscriptionsState {
+  subscriptions: Subscription[]
+  isLoading: boolean
+  error: Error | undefined
+}
+
+// Enough for two years of bank activity in one request
+const TRANSACTION_LIMIT = 20000
+
+/**
+ * Recurring charges detected in the linked bank accounts' transactions
+ *
+ * Always reads the same SUBSCRIPTION_LOOKBACK_DAYS window, so every caller
+ * shares one cached request whatever date range it is showing.
+ */
+export function useSubscriptions({ refreshKey }: UseSubscriptionsOptions = {}): SubscriptionsState {
+  const today = getStoreToday()
+  const end = toISODateString(today)
+  const start = toISODateString(
+    new Date(today.getFullYear(), today.getMonth(), today.getDate() - SUBSCRIPTION_LOOKBACK_DAYS + 1, 12, 0, 0)
+  )
+
+  const { data, error, isLoading } = useApiQuery<TransactionsResponse>(
+    `/api/finance/transactions?range=${encodeURIComponent(toCustomRange(start, end))}&limit=${TRANSACTION_LIMIT}`,
+    { refreshKey }
+  )
+  const subscriptions = useMemo(() => detectSubscriptions(data?.transactions ?? []), [data])
+
+  return { subscriptions, isLoading, error }
+}
@@ -0,0 +1,121 @@
+import { useMemo } from "react"
+import { useApiQuery } from "@/hooks/useApiQuery"
+import { useQueryState } from "@/hooks/useRouter"
+import type { ResolvedDateRange } from "@/lib/date-utils"
+import {
+  YOY_ALIGNMENTS,
+  alignBaseline,
+  buildYoYComparison,
+  getDefaultBaseline,
+  getYoYPeriodOptions,
+  resolveYoYPeriod,
+} from "@/lib/yoy"
+import type { YoYAlignment, YoYComparison, YoYMetric, YoYPeriod } from "@/lib/yoy"
+
+interface UseYoYComparisonOptions<R, T> {
+  /** Endpoint returning daily rows for a window */
+  getEndpoint: (range: ResolvedDateRange) => string
+  /** Daily rows from the endpoint's response */
+  getRows: (response: R) => T[]
+  /** ISO date of a row */
+  getDate: (row: T) => string
+  metrics: YoYMetric<T>[]
+  /** Skip fetching while the comparison isn't on screen */
+  enabled?: boolean
+  refreshKey?: number
+}
+
+export interface YoYComparisonState<T> {
+  periodOptions: { value: YoYPeriod; label: string }[]
+  current: YoYPeriod
+  setCurrent: (period: YoYPeriod) => void
+  baseline: YoYPeriod
+  setBaseline: (period: YoYPeriod) => void
+  alignment: YoYAlignment
+  setAlignment: (alignment: YoYAlignment) => void
+  metrics: YoYMetric<T>[]
+  metric: YoYMetric<T>
+  setMetric: (value: string) => void
+  currentLabel: string
+  baselineLabel: string
+  /** null until both periods have loaded */
+  comparison: YoYComparison | null
+  isLoading: boolean
+}
+
+const ALIGNMENT_VALUES = YOY_ALIGNMENTS.map((alignment) => alignment.value)
+
+function isYoYPeriod(value: string): boolean {
+  return getYoYPeriodOptions().some((option) => option.value === value)
+}
+
+// The oldest year on offer has no counterpart, so it compares against the newest period
+function getBaselineFor(period: YoYPeriod): YoYPeriod {
+  const baseline = getDefaultBaseline(period)
+  return isYoYPeriod(baseline) ? baseline : getYoYPeriodOptions()[0].value
+}
+
+/**
+ * Hook comparing a daily series across two periods (years or trailing 12 months)
+ *
+ * The selected periods, alignment and metric live in the URL (yoy, yoy_vs,
+ * yoy_align, yoy_metric) like the rest of a dashboard's filters.
+ */
+export function useYoYComparison<R, T>({
+  getEndpoint,
+  getRows,
+  getDate,
+  metrics,
+  enabled = true,
+  refreshKey,
+}: UseYoYComparisonOptions<R, T>): YoYComparisonState<T> {
+  const periodOptions = getYoYPeriodOptions()
+  const [current, setCurrentParam] = useQueryState<YoYPeriod>("yoy", periodOptions[0].value, isYoYPeriod)
+  const [baseline, setBaseline] = useQueryState<YoYPeriod>("yoy_vs", getBaselineFor(current), isYoYPeriod)
+  const [alignment, setAlignment] = useQueryState<YoYAlignment>("yoy_align", "day_of_year", ALIGNMENT_VALUES)
+  const metricValues = useMemo(() => metrics.map((m) => m.value), [metrics])
+  const [metricValue, setMetric] = useQueryState<string>("yoy_metric", metrics[0].value, metricValues)
+  const metric = metrics.find((m) => m.value === metricValue) ?? metrics[0]
+
+  // Picking a new period resets the baseline to its usual counterpart
+  const setCurrent = (period: YoYPeriod) => {
+    setCurrentParam(period)
+    setBaseline(getBaselineFor(period))
+  }
+
+  const currentRange = resolveYoYPeriod(current)
+  const baselineRange = alignBaseline(currentRange, resolveYoYPeriod(baseline), alignment)
+
+  const { data: currentData, isLoading: currentLoading } = useApiQuery<R>(
+    enabled ? getEndpoint(currentRange) : null,
+    { refreshKey }
+  )
+  const { data: baselineData, isLoading: baselineLoading } = useApiQuery<R>(
+    enabled ? getEndpoint(baselineRange) : null,
+    { refreshKey }
+  )
+
+  const comparison =
+    currentData && baselineData
+      ? buildYoYComparison(getRows(currentData), getRows(baselineData), currentRange, baselineRange, metric, getDate)
+      : null
+
+  const labelOf = (period: YoYPeriod) => periodOptions.find((option) => option.value === period)?.label ?? period
+
+  return {
+    periodOptions,
+    current,
+    setCurrent,
+    baseline,
+    setBaseline,
+    alignment,
+    setAlignment,
+    metrics,
+    metric,
+    setMetric,
+    currentLabel: labelOf(current),
+    baselineLabel: labelOf(baseline),
+    comparison,
+    isLoading: currentLoading || baselineLoading,
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Bank Account Roles
+ *
+ * Cash position and payroll runway are built from whichever linked accounts
+ * the user has tagged as operations, payroll, etc. Roles are keyed by Plaid
+ * account id and stored with the rest of the account preferences, so
+ * replacing a bank account only means re-assigning its role.
+ *
+ * Backend contract (/api/finance/account-preferences, shared with PlaidLink's
+ * {enabledAccountIds, allAccountIds}):
+ *   GET  -> { roles: { [accountId]: role | null } }
+ *   POST    { roles: { [accountId]: role | null } } - merged into the stored roles
+ */
+
+import { apiPost, setQueryData } from '@/lib/api'
+import type { Account, AccountPreferencesResponse, AccountRole } from '@/lib/api-types'
+
+export const ACCOUNT_PREFERENCES_ENDPOINT = '/api/finance/account-preferences'
+
+export type AccountRoles = NonNullable<AccountPreferencesResponse['roles']>
+
+export const ACCOUNT_ROLES: { value: AccountRole; label: string; description: string }[] = [
+  { value: 'operations', label: 'Operations', description: 'Starting balance for operating cash' },
+  { value: 'payroll', label: 'Payroll', description: 'Funds payroll - drives runway' },
+  { value: 'tax_reserve', label: 'Tax Reserve', description: 'Set aside for taxes, excluded from cash' },
+  { value: 'savings', label: 'Savings', description: 'Reserve funds, excluded from cash' },
+  { value: 'credit', label: 'Credit', description: 'Balance owed, subtracted from cash' },
+]
+
+export function getAccountRoleLabel(role: AccountRole): string {
+  return ACCOUNT_ROLES.find((r) => r.value === role)?.label ?? role
+}
+
+/**
+ * Role of an account - the assigned one, or for accounts never assigned,
+ * credit for credit cards and savings for savings accounts
+ */
+export function getAccountRole(account: Account, roles: AccountRoles): AccountRole | null {
+  if (account.account_id in roles) return roles[account.account_id]
+  if (account.type === 'credit') return 'credit'
+  if (account.subtype === 'savings') return 'savings'
+  return null
+}
+
+export function getAccountsWithRole(accounts: Account[], roles: AccountRoles, role: AccountRole): Account[] {
+  return accounts.filter((account) => getAccountRole(account, roles) === role)
+}
+
+/**
+ * Sum of current balances across the accounts holding a role
+ */
+export function getRoleBalance(accounts: Account[], roles: AccountRoles, role: AccountRole): number {
+  return getAccountsWithRole(accounts, roles, role).reduce((sum, a) => sum + a.balances.current, 0)
+}
+
+/**
+ * Short label for a set of accounts, e.g. "•••8705" or "•••8705, •••1932"
+ */
+export function formatAccountMasks(accounts: Account[]): string {
+  return accounts.map((a) => `•••${a.mask}`).join(', ')
+}
+
+/**
+ * Assigns (or clears, with null) an account's role
+ *
+ * Applied to the cached preferences straight away and, if the backend
+ * rejects it, rolled back for this account only - saves for other accounts
+ * made meanwhile are kept.
+ *
+ * @throws ApiError when the preferences couldn't be saved
+ */
+export async function saveAccountRole(roles: AccountRoles, accountId: string, role: AccountRole | null): Promise<void> {
+  const assigned = accountId in roles
+  const previous = roles[accountId]
+  setQueryData<AccountPreferencesResponse>(ACCOUNT_PREFERENCES_ENDPOINT, (prev) => ({
+    ...prev,
+    roles: { ...prev?.roles, [accountId]: role },
+  }))
+  try {
+    await apiPost(ACCOUNT_PREFERENCES_ENDPOINT, { roles: { [accountId]: role } })
+  } catch (error) {
+    setQueryData<AccountPreferencesResponse>(ACCOUNT_PREFERENCES_ENDPOINT, (prev) => {
+      // A later save for the same account has already replaced this one
+      if (prev?.roles?.[accountId] !== role) return { ...prev }
+      const current = { ...prev.roles }
+      if (assigned) {
+        current[accountId] = previous
+      } else {
+        delete current[accountId]
+      }
+      return { ...prev, roles: current }
+    })
+    throw error
+  }
+}
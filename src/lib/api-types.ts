@@ -0,0 +1,417 @@
+/**
+ * API Response Contracts
+ *
+ * Shapes returned by the backend routes that are read through the shared
+ * query cache (see useApiQuery). Dashboards import these instead of
+ * redeclaring the same interfaces locally.
+ */
+
+// ============================================
+// METRICS (/api/metrics/*)
+// ============================================
+
+/** GET /api/metrics/overview */
+export interface OverviewMetrics {
+  mer: number
+  aov: number
+  roas: number
+  ncRoas: number
+  cac: number
+  grossSales: number
+  netSales: number
+  totalSales: number
+  cogs: number
+  shipping: number
+  adSpend: number
+  returns: number
+  contributionMargin: number
+  contributionMarginPercent: number
+  totalOrders: number
+  totalCustomers: number
+  newCustomers: number
+  returningCustomers: number
+  returningCustomerRate: number
+  newCustomerRevenue: number
+  returningCustomerRevenue: number
+  acquisitionMer: number
+  newCustomerOrders?: number
+  returningCustomerOrders?: number
+}
+
+/** GET /api/metrics/daily-metrics (one row per day) */
+export interface DailyMetric {
+  date: string
+  dateRaw: string
+  netSales: number
+  grossSales: number
+  totalSales: number
+  /** Not sent by every backend version - undefined means not reported, not zero */
+  discounts?: number
+  returns?: number
+  orders: number
+  adSpend: number
+  cogs: number
+  shipping: number
+  contributionMargin: number
+  newCustomerRevenue?: number
+  returningCustomerRevenue?: number
+}
+
+/** GET /api/metrics/customers-detailed */
+export interface CustomerMetrics {
+  totalCustomers: number
+  newCustomers: number
+  returningCustomers: number
+  returningCustomerRate: number
+  totalOrders: number
+  averageOrderValue: number
+}
+
+/** GET /api/metrics/top-products (array) */
+export interface TopProduct {
+  title: string
+  grossSales: number
+  orders: number
+}
+
+export interface CategoryMetrics {
+  category: string
+  netSales: number
+  cogs: number
+  grossProfit: number
+  marginPercent: number
+  unitsSold: number
+  orderCount: number
+  aov: number
+  percentOfTotal: number
+}
+
+/** GET /api/metrics/product-categories */
+export interface CategoryMetricsResponse {
+  categories: CategoryMetrics[]
+  totals: {
+    netSales: number
+    cogs: number
+    grossProfit: number
+    marginPercent: number
+  }
+}
+
+// ============================================
+// FINANCE (/api/finance/*)
+// ============================================
+
+/** Plaid account as returned by /api/finance/accounts */
+export interface Account {
+  account_id: string
+  name: string
+  official_name: string | null
+  type: "depository" | "credit" | "loan" | "investment" | "other"
+  subtype: string
+  balances: {
+    available: number | null
+    current: number
+    limit: number | null
+    iso_currency_code: string
+  }
+  mask: string
+}
+
+/** GET /api/finance/accounts and /api/finance/disabled-accounts */
+export interface AccountsResponse {
+  accounts: Account[]
+}
+
+/** What a linked account is used for, assigned by the user */
+export type AccountRole = "operations" | "payroll" | "tax_reserve" | "savings" | "credit"
+
+/** GET /api/finance/account-preferences - an explicit null role clears the default one */
+export interface AccountPreferencesResponse {
+  /** Missing until the user assigns a role */
+  roles?: Record<string, AccountRole | null>
+}
+
+/** GET /api/finance/status */
+export interface FinanceStatusResponse {
+  configured: boolean
+}
+
+/** Plaid transaction */
+export interface Transaction {
+  transaction_id: string
+  account_id: string
+  amount: number
+  date: string
+  name: string
+  merchant_name: string | null
+  category: string[]
+  pending: boolean
+  iso_currency_code: string
+}
+
+/** GET /api/finance/transactions */
+export interface TransactionsResponse {
+  transactions: Transaction[]
+}
+
+export interface PayrollSummary {
+  totalPayroll: number
+  averagePayroll: number
+  lastPayrollDate: string | null
+  payrollCount: number
+}
+
+/** GET /api/finance/payroll */
+export interface PayrollResponse {
+  summary: PayrollSummary
+  /** Payroll runs in the range, newest first (not sent by every backend version) */
+  transactions?: Transaction[]
+}
+
+// ============================================
+// SHOPIFY (/api/shopify/*)
+// ============================================
+
+export interface Payout {
+  id: number
+  date: string
+  currency: string
+  amount: string
+  status: "scheduled" | "in_transit" | "paid" | "failed" | "canceled"
+  /** Gross sales and the processing fees withheld from them (paid payouts only, not sent by every backend version) */
+  summary?: {
+    charges_gross_amount: string
+    charges_fee_amount: string
+    refunds_fee_amount: string
+    adjustments_fee_amount: string
+  }
+}
+
+/**
+ * GET /api/shopify/payouts
+ *
+ * recentPayouts is the last 10 paid payouts. `?range=` (a custom range)
+ * asks for every payout dated in the range instead; a backend that predates
+ * it ignores the parameter and still returns the last 10.
+ */
+export interface PayoutSummary {
+  pendingBalance: number
+  scheduledPayouts: Payout[]
+  inTransitPayouts: Payout[]
+  recentPayouts: Payout[]
+  totalScheduled: number
+  totalInTransit: number
+}
+
+/** GET /api/shopify/billing */
+export interface ShopifyBillingResponse {
+  currentBalance: number
+}
+
+/** A Shopify order with the UTM parameters of the visit that placed it */
+export interface UtmOrder {
+  id: string
+  /** YYYY-MM-DD in the store's timezone */
+  createdAt: string
+  netSales: number
+  utmSource: string | null
+  utmMedium: string | null
+  utmCampaign: string | null
+  utmContent: string | null
+}
+
+/** GET /api/shopify/orders/utm */
+export interface UtmOrdersResponse {
+  orders: UtmOrder[]
+}
+
+// ============================================
+// META (/api/meta/*)
+// ============================================
+
+/** One day of an ad's delivery */
+export interface AdDailyInsight {
+  date: string
+  spend: number
+  impressions: number
+  reach: number
+  clicks: number
+  purchases: number
+}
+
+/** GET /api/meta/ads/daily - daily rows keyed by ad id */
+export interface AdDailyInsightsResponse {
+  data: Record<string, AdDailyInsight[]>
+}
+
+/** Meta Insights `breakdowns` values supported by /api/meta/breakdowns */
+export type MetaBreakdown = "age" | "gender" | "region" | "publisher_platform" | "platform_position"
+
+export interface MetaBreakdownRow {
+  /** Raw Meta value, e.g. "25-34" or "instagram" */
+  value: string
+  label: string
+  spend: number
+  revenue: number
+  purchases: number
+  impressions: number
+  clicks: number
+  roas: number
+  cpa: number
+  ctr: number
+}
+
+/** GET /api/meta/breakdowns */
+export interface MetaBreakdownResponse {
+  breakdown: MetaBreakdown
+  rows: MetaBreakdownRow[]
+}
+
+/** Attribution windows /api/meta/attribution can report side by side */
+export type MetaAttributionWindow = "1d_click" | "7d_click" | "7d_click_1d_view"
+
+/** Conversion metrics credited under one attribution window */
+export interface AttributionWindowMetrics {
+  purchases: number
+  revenue: number
+  roas: number
+  cpa: number
+}
+
+/** GET /api/meta/attribution - metrics per window, keyed by campaign or ad id */
+export interface MetaAttributionResponse {
+  windows: MetaAttributionWindow[]
+  data: Record<string, Partial<Record<MetaAttributionWindow, AttributionWindowMetrics>>>
+}
+
+/** One day of a campaign's, ad set's or ad's delivery - the additive metrics only */
+export interface EntityDailyInsight {
+  date: string
+  spend: number
+  impressions: number
+  reach: number
+  clicks: number
+  linkClicks: number
+  purchases: number
+  revenue: number
+  addToCart: number
+  initiateCheckout: number
+  landingPageViews: number
+}
+
+/** GET /api/meta/insights/daily - daily rows keyed by entity id */
+export interface EntityDailyInsightsResponse {
+  entities: {
+    id: string
+    name: string
+    status: string
+    campaignId?: string
+    /** Cents; 0 when the entity has no daily budget of its own */
+    dailyBudget: number
+  }[]
+  data: Record<string, EntityDailyInsight[]>
+}
+
+export type MetaRuleLevel = "campaign" | "adset" | "ad"
+
+/** What approving a hit would do - simulated, nothing is sent to Meta */
+export type MetaRuleAction = "pause" | "increase_budget" | "decrease_budget" | "flag"
+
+/** One threshold a rule checks over its lookback window */
+export interface MetaRuleCondition {
+  /** A MetaMetricKey, e.g. "roas" or "spend" */
+  metric: string
+  operator: "lt" | "gt"
+  /** Absolute threshold, or percent away from `target` when one is set (-20 = 20% below) */
+  value: number
+  target?: number | null
+}
+
+export interface MetaRule {
+  id: string
+  name: string
+  level: MetaRuleLevel
+  /** All must hold for the rule to fire */
+  conditions: MetaRuleCondition[]
+  /** Days of delivery the conditions are evaluated over */
+  lookbackDays: number
+  action: MetaRuleAction
+  /** Budget change in percent for the budget actions */
+  actionValue: number
+  enabled: boolean
+  createdAt: string
+}
+
+/** A rule hit the media buyer approved or dismissed */
+export interface MetaRuleDecision {
+  ruleId: string
+  entityId: string
+  /** Last day of the window the rule fired on */
+  date: string
+  decision: "approved" | "dismissed"
+  decidedAt: string
+}
+
+/** GET /api/meta/rules */
+export interface MetaRulesResponse {
+  rules: MetaRule[]
+  decisions: MetaRuleDecision[]
+}
+
+/** GET /api/meta/billing */
+export interface MetaBillingResponse {
+  balance: number
+  /** false when the backend has no Meta credentials */
+  configured?: boolean
+}
+
+// ============================================
+// OMNISEND (/api/omnisend/*)
+// ============================================
+
+export interface SubscriberCounts {
+  emailSubscribers: number
+  smsSubscribers: number
+  totalContacts: number
+}
+
+export interface EmailCampaignMetric {
+  campaignID: string
+  name: string
+  sent: number
+  opened: number
+  clicked: number
+  bounced: number
+  unsubscribed: number
+  openRate: number
+  clickRate: number
+  bounceRate: number
+  unsubscribeRate: number
+  startedAt?: string
+  finishedAt?: string
+}
+
+/** GET /api/omnisend/dashboard */
+export interface EmailDashboardData {
+  subscribers: SubscriberCounts & { newSignups?: number }
+  campaigns: EmailCampaignMetric[]
+  totals: {
+    sent: number
+    opened: number
+    clicked: number
+    bounced: number
+    unsubscribed: number
+    avgOpenRate: number
+    avgClickRate: number
+  }
+  subscriberGrowth?: Array<{ date: string; email: number; sms: number }>
+}
+
+/** GET /api/omnisend/revenue */
+export interface EmailRevenueData {
+  totalRevenue: number
+  orderCount: number
+  averageOrderValue: number
+  dailyBreakdown: Array<{ date: string; revenue: number; orders: number }>
+  byCampaign: Array<{ campaign: string; revenue: number; orders: number }>
+}
@@ -1,14 +1,189 @@
 /**
  * API Utility for authenticated requests
  *
- * Automatically includes the Supabase auth token in all requests.
+ * Automatically includes the Supabase auth token in all requests. When the
+ * backend rejects the token (401/403) the session is refreshed once and the
+ * request retried; if the session cannot be recovered the registered auth
+ * failure handler (AuthContext) signs the user out.
+ *
+ * In demo mode requests never leave the device: they are answered by the
+ * local mock API instead.
  */
 
 import { supabase } from '@/config/supabase'
 import { API_BASE_URL } from '@/config/api'
+import { isDemoMode } from '@/lib/demo'
+import { loadSnapshot, saveSnapshot } from '@/lib/offline-store'
 
-interface FetchOptions extends RequestInit {
+export interface FetchOptions extends RequestInit {
   skipAuth?: boolean
+  /** Milliseconds before the request is aborted (default 30s, 0 disables) */
+  timeout?: number
+  /** Retries for network errors, timeouts and 5xx (default 2 for GET/HEAD, 0 otherwise) */
+  retries?: number
+  /** Base delay in milliseconds for the exponential backoff (default 500ms) */
+  retryDelay?: number
+}
+
+const DEFAULT_TIMEOUT = 30 * 1000
+const DEFAULT_RETRY_DELAY = 500
+const MAX_RETRY_DELAY = 8 * 1000
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD'])
+
+/**
+ * Structured error raised for non-ok API responses
+ *
+ * Mirrors the backend error body: `{ error, code?, message?, setupUrl? }`.
+ */
+export class ApiError extends Error {
+  status: number
+  code?: string
+  setupUrl?: string
+
+  constructor(status: number, message: string, details: { code?: string; setupUrl?: string } = {}) {
+    super(message)
+    this.name = 'ApiError'
+    this.status = status
+    this.code = details.code
+    this.setupUrl = details.setupUrl
+  }
+
+  /** True when the backend rejected the request's credentials */
+  get isAuthError(): boolean {
+    return this.status === 401 || this.status === 403
+  }
+}
+
+/**
+ * Builds an ApiError from a non-ok response
+ */
+export async function parseApiError(response: Response): Promise<ApiError> {
+  const body = await response.json().catch(() => ({}))
+  return new ApiError(
+    response.status,
+    body.error || body.message || `HTTP ${response.status}`,
+    { code: body.code, setupUrl: body.setupUrl }
+  )
+}
+
+/**
+ * True when a request was cancelled through its AbortSignal
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError'
+}
+
+/**
+ * True when the server could not be reached at all (offline, DNS, timeout)
+ */
+export function isNetworkError(error: unknown): boolean {
+  return error instanceof TypeError || (error instanceof ApiError && error.code === 'TIMEOUT')
+}
+
+// ============================================
+// TIMEOUTS & RETRIES
+// ============================================
+
+/**
+ * Exponential backoff with equal jitter so parallel retries spread out
+ */
+function getRetryDelay(attempt: number, baseDelay: number): number {
+  const delay = Math.min(MAX_RETRY_DELAY, baseDelay * 2 ** attempt)
+  return delay / 2 + Math.random() * (delay / 2)
+}
+
+/**
+ * Waits for the given time, rejecting early if the signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer)
+      reject(signal.reason)
+    }, { once: true })
+  })
+}
+
+/**
+ * fetch() that aborts after `timeout` ms while still honouring the caller's signal
+ *
+ * A timeout surfaces as an ApiError with code 'TIMEOUT'; a caller abort is
+ * rethrown unchanged so it can be told apart and never retried.
+ */
+async function fetchWithTimeout(url: string, init: RequestInit, timeout: number): Promise<Response> {
+  const callerSignal = init.signal
+  if (!timeout) {
+    return fetch(url, init)
+  }
+
+  const controller = new AbortController()
+  const abortFromCaller = () => controller.abort(callerSignal?.reason)
+  if (callerSignal?.aborted) {
+    abortFromCaller()
+  } else {
+    callerSignal?.addEventListener('abort', abortFromCaller, { once: true })
+  }
+
+  let timedOut = false
+  const timer = setTimeout(() => {
+    timedOut = true
+    controller.abort()
+  }, timeout)
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal })
+  } catch (error) {
+    if (timedOut && !callerSignal?.aborted) {
+      throw new ApiError(408, 'Request timed out', { code: 'TIMEOUT' })
+    }
+    throw error
+  } finally {
+    clearTimeout(timer)
+    callerSignal?.removeEventListener('abort', abortFromCaller)
+  }
+}
+
+// ============================================
+// AUTH FAILURE HANDLING
+// ============================================
+
+let authFailureHandler: (() => void) | null = null
+let refreshPromise: Promise<string | null> | null = null
+
+/**
+ * Registers the callback invoked when a session cannot be recovered
+ *
+ * @returns Unregister function
+ */
+export function setAuthFailureHandler(handler: () => void): () => void {
+  authFailureHandler = handler
+  return () => {
+    if (authFailureHandler === handler) {
+      authFailureHandler = null
+    }
+  }
+}
+
+/**
+ * Refreshes the Supabase session, sharing one refresh across concurrent callers
+ *
+ * @returns The new access token, or null if the session is gone
+ */
+function refreshAccessToken(): Promise<string | null> {
+  if (!refreshPromise) {
+    refreshPromise = supabase.auth.refreshSession()
+      .then(({ data, error }) => (error ? null : data.session?.access_token ?? null))
+      .catch(() => null)
+      .finally(() => {
+        refreshPromise = null
+      })
+  }
+  return refreshPromise
 }
 
 /**
@@ -22,7 +197,21 @@ export async function apiFetch(
   endpoint: string,
   options: FetchOptions = {}
 ): Promise<Response> {
-  const { skipAuth = false, ...fetchOptions } = options
+  const {
+    skipAuth = false,
+    timeout = DEFAULT_TIMEOUT,
+    retries,
+    retryDelay = DEFAULT_RETRY_DELAY,
+    ...fetchOptions
+  } = options
+
+  if (isDemoMode()) {
+    const { mockFetch } = await import('@/lib/mock-api')
+    return mockFetch(endpoint, fetchOptions)
+  }
+
+  const method = (fetchOptions.method || 'GET').toUpperCase()
+  const maxRetries = retries ?? (IDEMPOTENT_METHODS.has(method) ? 2 : 0)
 
   const headers = new Headers(fetchOptions.headers)
 
@@ -31,39 +220,80 @@ export async function apiFetch(
     headers.set('Content-Type', 'application/json')
   }
 
-  // Add auth token if available and not skipped
-  if (!skipAuth) {
-    const { data: { session } } = await supabase.auth.getSession()
+  const url = endpoint.startsWith('http')
+    ? endpoint
+    : `${API_BASE_URL}${endpoint}`
+
+  // Retry network errors, timeouts and 5xx with backoff; never retry a caller abort
+  const send = async (token: string | null): Promise<Response> => {
+    if (token) {
+      headers.set('Authorization', `Bearer ${token}`)
+    }
 
-    if (session?.access_token) {
-      headers.set('Authorization', `Bearer ${session.access_token}`)
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await fetchWithTimeout(url, { ...fetchOptions, headers }, timeout)
+        if (response.status < 500 || attempt >= maxRetries) {
+          return response
+        }
+      } catch (error) {
+        if (isAbortError(error) || attempt >= maxRetries) {
+          throw error
+        }
+      }
+      await sleep(getRetryDelay(attempt, retryDelay), fetchOptions.signal)
     }
   }
 
-  const url = endpoint.startsWith('http')
-    ? endpoint
-    : `${API_BASE_URL}${endpoint}`
+  if (skipAuth) {
+    return send(null)
+  }
 
-  return fetch(url, {
-    ...fetchOptions,
-    headers,
-  })
+  // Add auth token if available
+  const { data: { session } } = await supabase.auth.getSession()
+  const response = await send(session?.access_token ?? null)
+
+  if (response.status !== 401 && response.status !== 403) {
+    return response
+  }
+
+  // The token may have expired silently - refresh once and retry
+  const token = await refreshAccessToken()
+  if (!token) {
+    authFailureHandler?.()
+    return response
+  }
+
+  const retry = await send(token)
+
+  // A 403 after a fresh token is a permission error, not an expired session
+  if (retry.status === 401) {
+    authFailureHandler?.()
+  }
+
+  return retry
 }
 
 /**
- * Makes an authenticated GET request
+ * Parses a JSON response, throwing an ApiError when it is not ok
  */
-export async function apiGet<T>(endpoint: string): Promise<T> {
-  const response = await apiFetch(endpoint)
-
+async function parseResponse<T>(response: Response): Promise<T> {
   if (!response.ok) {
-    const error = await response.json().catch(() => ({ error: 'Request failed' }))
-    throw new Error(error.error || `HTTP ${response.status}`)
+    throw await parseApiError(response)
   }
 
   return response.json()
 }
 
+/**
+ * Makes an authenticated GET request
+ */
+export async function apiGet<T>(endpoint: string, options: FetchOptions = {}): Promise<T> {
+  const response = await apiFetch(endpoint, options)
+
+  return parseResponse<T>(response)
+}
+
 /**
  * Makes an authenticated POST request
  */
@@ -73,12 +303,7 @@ export async function apiPost<T>(endpoint: string, data?: unknown): Promise<T> {
     body: data ? JSON.stringify(data) : undefined,
   })
 
-  if (!response.ok) {
-    const error = await response.json().catch(() => ({ error: 'Request failed' }))
-    throw new Error(error.error || `HTTP ${response.status}`)
-  }
-
-  return response.json()
+  return parseResponse<T>(response)
 }
 
 /**
@@ -90,12 +315,7 @@ export async function apiPut<T>(endpoint: string, data?: unknown): Promise<T> {
     body: data ? JSON.stringify(data) : undefined,
   })
 
-  if (!response.ok) {
-    const error = await response.json().catch(() => ({ error: 'Request failed' }))
-    throw new Error(error.error || `HTTP ${response.status}`)
-  }
-
-  return response.json()
+  return parseResponse<T>(response)
 }
 
 /**
@@ -106,10 +326,313 @@ export async function apiDelete<T>(endpoint: string): Promise<T> {
     method: 'DELETE',
   })
 
-  if (!response.ok) {
-    const error = await response.json().catch(() => ({ error: 'Request failed' }))
-    throw new Error(error.error || `HTTP ${response.status}`)
+  return parseResponse<T>(response)
+}
+
+// ============================================
+// QUERY CACHE
+// ============================================
+//
+// Shared, keyed cache for GET endpoints. Each endpoint URL is its own cache
+// key. Concurrent requests for the same key share one in-flight promise, and
+// cached data is served immediately while a stale entry revalidates in the
+// background (stale-while-revalidate).
+//
+// Every successful response is also persisted to the offline store; when the
+// server can't be reached the last persisted snapshot is served instead.
+
+/** How long a cached response is considered fresh before revalidating */
+export const DEFAULT_STALE_TIME = 60 * 1000
+
+/** Snapshot of a single cache entry, consumed by useApiQuery */
+export interface QuerySnapshot<T = unknown> {
+  data: T | undefined
+  error: Error | undefined
+  updatedAt: number
+  isFetching: boolean
+  /** Data came from the offline store rather than the network */
+  isOfflineData: boolean
+}
+
+interface QueryEntry {
+  snapshot: QuerySnapshot
+  // refreshKey the cached data was fetched under - a higher key invalidates it
+  refreshKey: number
+  promise: Promise<unknown> | null
+  controller: AbortController | null
+  // Callers still waiting on the in-flight request; it is aborted at zero
+  consumers: number
+  listeners: Set<() => void>
+}
+
+export interface QueryOptions {
+  /** Header refresh counter; data fetched under an older key is refetched */
+  refreshKey?: number
+  /** Milliseconds before cached data is revalidated (default 60s) */
+  staleTime?: number
+  /** Ignore cached data and always hit the network */
+  force?: boolean
+  /** Aborting releases this caller; the request is cancelled once no caller remains */
+  signal?: AbortSignal
+}
+
+const EMPTY_SNAPSHOT: QuerySnapshot = {
+  data: undefined,
+  error: undefined,
+  updatedAt: 0,
+  isFetching: false,
+  isOfflineData: false,
+}
+
+const queryCache = new Map<string, QueryEntry>()
+
+function getEntry(key: string): QueryEntry {
+  let entry = queryCache.get(key)
+  if (!entry) {
+    entry = {
+      snapshot: EMPTY_SNAPSHOT,
+      refreshKey: -1,
+      promise: null,
+      controller: null,
+      consumers: 0,
+      listeners: new Set(),
+    }
+    queryCache.set(key, entry)
   }
+  return entry
+}
 
-  return response.json()
+function updateEntry(entry: QueryEntry, patch: Partial<QuerySnapshot>) {
+  entry.snapshot = { ...entry.snapshot, ...patch }
+  entry.listeners.forEach((listener) => listener())
+}
+
+function isFresh(entry: QueryEntry, refreshKey: number, staleTime: number): boolean {
+  return (
+    entry.snapshot.data !== undefined &&
+    entry.refreshKey >= refreshKey &&
+    Date.now() - entry.snapshot.updatedAt < staleTime
+  )
+}
+
+// ============================================
+// OFFLINE SNAPSHOTS
+// ============================================
+
+// Endpoints currently showing persisted data, mapped to when it was saved
+const offlineEntries = new Map<string, number>()
+const offlineListeners = new Set<() => void>()
+let offlineDataSince: number | null = null
+
+function setOfflineEntry(endpoint: string, savedAt: number | null) {
+  if (savedAt === null) {
+    if (!offlineEntries.delete(endpoint)) return
+  } else {
+    offlineEntries.set(endpoint, savedAt)
+  }
+  offlineDataSince = offlineEntries.size > 0 ? Math.min(...offlineEntries.values()) : null
+  offlineListeners.forEach((listener) => listener())
+}
+
+/**
+ * Timestamp of the oldest persisted snapshot currently being shown, or null
+ * when everything on screen came from the network
+ */
+export function getOfflineDataSince(): number | null {
+  return offlineDataSince
+}
+
+/**
+ * Subscribes to changes in getOfflineDataSince()
+ *
+ * @returns Unsubscribe function
+ */
+export function subscribeOfflineData(listener: () => void): () => void {
+  offlineListeners.add(listener)
+  return () => {
+    offlineListeners.delete(listener)
+  }
+}
+
+/**
+ * GETs an endpoint, falling back to its persisted snapshot when unreachable
+ *
+ * @returns The data and, when served from the offline store, when it was saved
+ */
+async function requestWithFallback<T>(
+  endpoint: string,
+  signal: AbortSignal
+): Promise<{ data: T; savedAt?: number }> {
+  // Fixtures are always available - and must never overwrite real snapshots
+  if (isDemoMode()) {
+    return { data: await apiGet<T>(endpoint, { signal }) }
+  }
+
+  // Known offline - skip the network (and its retries) if we have something to show
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+    const snapshot = await loadSnapshot<T>(endpoint)
+    if (snapshot) return { data: snapshot.data, savedAt: snapshot.savedAt }
+  }
+
+  try {
+    const data = await apiGet<T>(endpoint, { signal })
+    saveSnapshot(endpoint, data, Date.now())
+    return { data }
+  } catch (error) {
+    if (!isNetworkError(error)) throw error
+    const snapshot = await loadSnapshot<T>(endpoint)
+    if (!snapshot) throw error
+    return { data: snapshot.data, savedAt: snapshot.savedAt }
+  }
+}
+
+/**
+ * Registers a caller on the in-flight request for an entry
+ *
+ * Callers without a signal keep the request alive until it settles.
+ */
+function addConsumer(entry: QueryEntry, signal?: AbortSignal) {
+  entry.consumers++
+  if (!signal) return
+
+  const promise = entry.promise
+  signal.addEventListener('abort', () => {
+    if (entry.promise !== promise) return
+    entry.consumers--
+    if (entry.consumers === 0) {
+      // Superseded (e.g. the date range changed) - cancel and let the next read start fresh
+      entry.controller?.abort()
+      entry.promise = null
+      entry.controller = null
+      updateEntry(entry, { isFetching: false })
+    }
+  }, { once: true })
+}
+
+/**
+ * Fetches a GET endpoint through the shared query cache
+ *
+ * Returns cached data when fresh, otherwise joins the in-flight request for
+ * the same key or starts a new one.
+ */
+export function fetchQuery<T>(endpoint: string, options: QueryOptions = {}): Promise<T> {
+  const { refreshKey = 0, staleTime = DEFAULT_STALE_TIME, force = false, signal } = options
+  const entry = getEntry(endpoint)
+
+  if (signal?.aborted) {
+    return Promise.reject(signal.reason)
+  }
+
+  if (entry.promise) {
+    addConsumer(entry, signal)
+    return entry.promise as Promise<T>
+  }
+
+  if (!force && isFresh(entry, refreshKey, staleTime)) {
+    return Promise.resolve(entry.snapshot.data as T)
+  }
+
+  const controller = new AbortController()
+  const promise: Promise<T> = requestWithFallback<T>(endpoint, controller.signal)
+    .then(({ data, savedAt }) => {
+      // A cancelled request may still resolve after a newer one started
+      if (entry.promise === promise) {
+        entry.promise = null
+        entry.controller = null
+        if (savedAt === undefined) {
+          entry.refreshKey = Math.max(entry.refreshKey, refreshKey)
+          updateEntry(entry, { data, error: undefined, updatedAt: Date.now(), isFetching: false, isOfflineData: false })
+        } else {
+          // Keep refreshKey so the next read retries the network
+          updateEntry(entry, { data, error: undefined, updatedAt: savedAt, isFetching: false, isOfflineData: true })
+        }
+        setOfflineEntry(endpoint, savedAt ?? null)
+      }
+      return data
+    })
+    .catch((err: unknown) => {
+      const error = err instanceof Error ? err : new Error(String(err))
+      if (entry.promise === promise) {
+        entry.promise = null
+        entry.controller = null
+        updateEntry(entry, isAbortError(error) ? { isFetching: false } : { error, isFetching: false })
+      }
+      throw error
+    })
+
+  entry.promise = promise
+  entry.controller = controller
+  entry.consumers = 0
+  addConsumer(entry, signal)
+  updateEntry(entry, { isFetching: true })
+  return promise
+}
+
+/**
+ * Warms the cache for an endpoint without surfacing errors
+ */
+export function prefetchQuery(endpoint: string, options: QueryOptions = {}): void {
+  fetchQuery(endpoint, options).catch(() => {})
+}
+
+/**
+ * Marks cached entries as stale and refetches the ones currently on screen
+ *
+ * @param match - Endpoint prefix (e.g. '/api/finance') or predicate over keys
+ */
+export function invalidateQueries(match: string | ((key: string) => boolean)): void {
+  const predicate = typeof match === 'string'
+    ? (key: string) => key.startsWith(match)
+    : match
+
+  queryCache.forEach((entry, key) => {
+    if (!predicate(key)) return
+    entry.refreshKey = -1
+    updateEntry(entry, { updatedAt: 0 })
+    if (entry.listeners.size > 0) {
+      prefetchQuery(key, { force: true })
+    }
+  })
+}
+
+/**
+ * Replaces cached data for an endpoint, e.g. after a successful mutation
+ */
+export function setQueryData<T>(endpoint: string, updater: T | ((prev: T | undefined) => T)): void {
+  const entry = getEntry(endpoint)
+  const data = typeof updater === 'function'
+    ? (updater as (prev: T | undefined) => T)(entry.snapshot.data as T | undefined)
+    : updater
+  updateEntry(entry, { data, error: undefined, updatedAt: Date.now(), isOfflineData: false })
+  setOfflineEntry(endpoint, null)
+}
+
+/**
+ * Reads the current snapshot for an endpoint
+ */
+export function getQuerySnapshot<T>(endpoint: string): QuerySnapshot<T> {
+  return (queryCache.get(endpoint)?.snapshot ?? EMPTY_SNAPSHOT) as QuerySnapshot<T>
+}
+
+/**
+ * Subscribes to snapshot changes for an endpoint
+ *
+ * @returns Unsubscribe function
+ */
+export function subscribeQuery(endpoint: string, listener: () => void): () => void {
+  const entry = getEntry(endpoint)
+  entry.listeners.add(listener)
+  return () => {
+    entry.listeners.delete(listener)
+  }
+}
+
+/**
+ * Drops every cached response (used on logout)
+ */
+export function clearQueryCache(): void {
+  queryCache.clear()
+  offlineEntries.clear()
+  offlineDataSince = null
+  offlineListeners.forEach((listener) => listener())
 }
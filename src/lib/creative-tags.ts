@@ -0,0 +1,163 @@
+/**
+ * Creative Tags
+ *
+ * Attributes of an ad's creative - hook, style, video length, offer, product -
+ * read from its name and overridable by hand, so performance can be rolled up
+ * by what the creative is rather than which campaign it ran in.
+ *
+ * Names are parsed two ways:
+ * - explicit `key-value` tokens (`HOOK-testimonial_STYLE-ugc_LEN-15s`)
+ * - keywords anywhere in the name ("UGC Try-On 15s | Broad US")
+ */
+
+import { totalMetrics } from '@/lib/meta-columns'
+import type { MetaMetricValues } from '@/lib/meta-columns'
+
+export type TagDimension = 'hook' | 'style' | 'videoLength' | 'offer' | 'product'
+
+/** Tag values by dimension; a dimension is missing when the ad isn't tagged with it */
+export type AdTags = Partial<Record<TagDimension, string>>
+
+/**
+ * Hand-set tags for one ad. An empty string clears a tag parsed from the
+ * name; dimensions not listed keep the parsed value.
+ */
+export type ManualAdTags = Partial<Record<TagDimension, string>>
+
+export const TAG_DIMENSIONS: { key: TagDimension; label: string; prefixes: string[]; suggestions: string[] }[] = [
+  { key: 'hook', label: 'Hook', prefixes: ['hook'], suggestions: ['Demo', 'Founder Story', 'Social Proof', 'Offer', 'Product Detail', 'Problem/Solution'] },
+  { key: 'style', label: 'Style', prefixes: ['style', 'fmt', 'format'], suggestions: ['UGC', 'Studio'] },
+  { key: 'videoLength', label: 'Video Length', prefixes: ['len', 'length', 'dur'], suggestions: ['Static', '≤15s', '16-30s', '31-60s', '60s+'] },
+  { key: 'offer', label: 'Offer', prefixes: ['offer', 'ofr'], suggestions: ['Discount', 'Free Shipping', 'Bundle', 'No Offer'] },
+  { key: 'product', label: 'Product', prefixes: ['product', 'prd', 'sku'], suggestions: [] },
+]
+
+// Keyword fallbacks, checked in order - the first match wins per dimension
+const KEYWORDS: { dimension: TagDimension; pattern: RegExp; value: string }[] = [
+  { dimension: 'style', pattern: /\bugc\b|creator|try-?on/i, value: 'UGC' },
+  { dimension: 'style', pattern: /studio|flat ?lay|carousel|static/i, value: 'Studio' },
+  { dimension: 'hook', pattern: /try-?on|demo|how[- ]to|unbox/i, value: 'Demo' },
+  { dimension: 'hook', pattern: /founder|story|behind/i, value: 'Founder Story' },
+  { dimension: 'hook', pattern: /review|testimonial|quote|ugc/i, value: 'Social Proof' },
+  { dimension: 'hook', pattern: /offer|sale|promo|\d+% ?off/i, value: 'Offer' },
+  { dimension: 'hook', pattern: /carousel|lookbook|capsule|detail/i, value: 'Product Detail' },
+  { dimension: 'offer', pattern: /\d+% ?off|discount|sale|promo|offer/i, value: 'Discount' },
+  { dimension: 'offer', pattern: /free ?ship/i, value: 'Free Shipping' },
+  { dimension: 'offer', pattern: /bundle|bogo/i, value: 'Bundle' },
+  { dimension: 'videoLength', pattern: /static|carousel|image|flat ?lay|quote/i, value: 'Static' },
+]
+
+const TOKEN_SEPARATORS = /[\s|_/,]+/
+
+export const tagDimensionLabel = (dimension: TagDimension) =>
+  TAG_DIMENSIONS.find((d) => d.key === dimension)?.label ?? dimension
+
+/** Buckets a duration in seconds the way the Video Length suggestions do */
+export function videoLengthBucket(seconds: number): string {
+  if (seconds <= 15) return '≤15s'
+  if (seconds <= 30) return '16-30s'
+  if (seconds <= 60) return '31-60s'
+  return '60s+'
+}
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '')
+
+/** Matches a raw token value to a suggestion ("ugc" -> "UGC"), else title-cases it */
+function tokenValue(raw: string, suggestions: string[]): string {
+  const known = suggestions.find((s) => normalize(s) === normalize(raw))
+  if (known) return known
+  return raw.replace(/[-+]/g, ' ').replace(/\w\S*/g, (word) => word[0].toUpperCase() + word.slice(1).toLowerCase())
+}
+
+/**
+ * Reads tags from an ad name. Explicit `key-value` tokens win over keywords.
+ */
+export function parseAdName(name: string): AdTags {
+  const tags: AdTags = {}
+
+  for (const token of name.split(TOKEN_SEPARATORS)) {
+    const match = token.match(/^([a-z]+)[-=:](.+)$/i)
+    if (!match) continue
+    const dimension = TAG_DIMENSIONS.find((d) => d.prefixes.includes(match[1].toLowerCase()))
+    if (!dimension || tags[dimension.key]) continue
+    const seconds = match[2].match(/^(\d+)s$/i)
+    tags[dimension.key] =
+      dimension.key === 'videoLength' && seconds
+        ? videoLengthBucket(Number(seconds[1]))
+        : tokenValue(match[2], dimension.suggestions)
+  }
+
+  const duration = name.match(/\b(\d{1,3})s\b/i)
+  if (duration && !tags.videoLength) {
+    tags.videoLength = videoLengthBucket(Number(duration[1]))
+  }
+
+  for (const keyword of KEYWORDS) {
+    if (!tags[keyword.dimension] && keyword.pattern.test(name)) {
+      tags[keyword.dimension] = keyword.value
+    }
+  }
+
+  return tags
+}
+
+/** Parsed tags with the hand-set ones applied on top */
+export function resolveAdTags(name: string, manual: ManualAdTags | undefined): AdTags {
+  const tags: AdTags = { ...parseAdName(name) }
+  for (const [dimension, value] of Object.entries(manual ?? {}) as [TagDimension, string][]) {
+    if (value) tags[dimension] = value
+    else delete tags[dimension]
+  }
+  return tags
+}
+
+// ============================================
+// PERFORMANCE BY TAG
+// ============================================
+
+export interface TaggedAd {
+  id: string
+  tags: AdTags
+  metrics: MetaMetricValues
+}
+
+export interface TagPerformanceRow {
+  /** The tag value, or values joined with " + " for combinations */
+  label: string
+  values: string[]
+  adIds: string[]
+  metrics: MetaMetricValues
+  /** Share of the total spend across every ad passed in, 0-100 */
+  spendShare: number
+}
+
+export const UNTAGGED = 'Untagged'
+
+/**
+ * Rolls ad metrics up by the value of one dimension, or by each combination
+ * of values across several. Ads missing a dimension count as "Untagged".
+ */
+export function aggregateByTags(ads: TaggedAd[], dimensions: TagDimension[]): TagPerformanceRow[] {
+  const groups = new Map<string, { values: string[]; ads: TaggedAd[] }>()
+  for (const ad of ads) {
+    const values = dimensions.map((dimension) => ad.tags[dimension] || UNTAGGED)
+    const key = values.join('\u0000')
+    const group = groups.get(key) ?? { values, ads: [] }
+    group.ads.push(ad)
+    groups.set(key, group)
+  }
+
+  const totalSpend = ads.reduce((sum, ad) => sum + ad.metrics.spend, 0)
+  return [...groups.values()]
+    .map(({ values, ads: groupAds }) => {
+      const metrics = totalMetrics(groupAds.map((ad) => ad.metrics))
+      return {
+        label: values.join(' + '),
+        values,
+        adIds: groupAds.map((ad) => ad.id),
+        metrics,
+        spendShare: totalSpend > 0 ? (metrics.spend / totalSpend) * 100 : 0,
+      }
+    })
+    .sort((a, b) => b.metrics.spend - a.metrics.spend)
+}
@@ -0,0 +1,74 @@
+/**
+ * Date Range Labels
+ *
+ * Date range and comparison options, and the labels shown for them in the
+ * header and on dashboard cards.
+ */
+
+import { format } from 'date-fns'
+import { parseISODateAsLocal, resolveDateRange } from '@/lib/date-utils'
+
+export const dateRangeOptions = [
+  { label: 'Today', value: 'today', days: 1 },
+  { label: 'Yesterday', value: 'yesterday', days: 1 },
+  { label: 'Last 7 days', value: '7d', days: 7 },
+  { label: 'Last 14 days', value: '14d', days: 14 },
+  { label: 'Last 30 days', value: '30d', days: 30 },
+  { label: 'Last 90 days', value: '90d', days: 90 },
+  { label: 'This month', value: 'this_month', days: 30 },
+  { label: 'Last month', value: 'last_month', days: 30 },
+  { label: 'This year', value: 'this_year', days: 365 },
+]
+
+// DateRangeValue can be a preset string or a custom range string like "custom:2024-01-01:2024-01-31"
+export type DateRangeValue = typeof dateRangeOptions[number]['value'] | `custom:${string}:${string}`
+
+export const compareOptions = [
+  { label: 'No comparison', value: 'none' },
+  { label: 'Previous period', value: 'previous_period' },
+  { label: 'Same period last year', value: 'previous_year' },
+]
+
+// CompareValue is a preset or a custom range in the same format as DateRangeValue
+export type CompareValue = typeof compareOptions[number]['value'] | `custom:${string}:${string}`
+
+export interface CustomDateRange {
+  start: Date
+  end: Date
+}
+
+export function parseCustomRange(value: DateRangeValue | CompareValue): CustomDateRange | null {
+  if (typeof value === 'string' && value.startsWith('custom:')) {
+    const { start, end } = resolveDateRange(value)
+    return { start: parseISODateAsLocal(start), end: parseISODateAsLocal(end) }
+  }
+  return null
+}
+
+/**
+ * Label for a date range, e.g. "Last 7 days", "Jan 1 - Jan 31, 2026" or "2025"
+ */
+export function formatDateRangeLabel(value: string): string {
+  if (value.startsWith('custom:')) {
+    const { start, end } = resolveDateRange(value)
+    if (start === end) return format(parseISODateAsLocal(start), 'MMM d, yyyy')
+    return `${format(parseISODateAsLocal(start), 'MMM d')} - ${format(parseISODateAsLocal(end), 'MMM d, yyyy')}`
+  }
+  if (/^\d{4}$/.test(value)) return value
+  return dateRangeOptions.find((o) => o.value === value)?.label || `Last ${resolveDateRange(value).days} days`
+}
+
+/**
+ * Short label for a comparison, e.g. "vs previous period" or "vs Jan 1 - Jan 31, 2026"
+ */
+export function formatCompareLabel(value: CompareValue): string {
+  const custom = parseCustomRange(value)
+  if (custom) {
+    if (custom.start.getTime() === custom.end.getTime()) {
+      return `vs ${format(custom.start, 'MMM d, yyyy')}`
+    }
+    return `vs ${format(custom.start, 'MMM d')} - ${format(custom.end, 'MMM d, yyyy')}`
+  }
+  if (value === 'previous_year') return 'vs last year'
+  return 'vs previous period'
+}
@@ -7,6 +7,8 @@
  * This mirrors the backend's date-utils.ts logic for consistency.
  */
 
+import { getNumberFormat } from '@/lib/utils';
+
 /**
  * Parse an ISO date string (YYYY-MM-DD) as a local date
  * Uses noon (12:00) instead of midnight to avoid timezone shift issues
@@ -16,7 +18,8 @@
  * at 6PM CST when parsed as UTC midnight.
  */
 export function parseISODateAsLocal(dateStr: string): Date {
-  const [year, month, day] = dateStr.split('-').map(Number);
+  // Only the calendar date matters - ignore any time portion
+  const [year, month, day] = dateStr.slice(0, 10).split('-').map(Number);
   // Use noon (12:00) to provide a buffer against timezone shifts
   // This prevents off-by-one errors when server is in UTC but store is in CST
   return new Date(year, month - 1, day, 12, 0, 0);
@@ -34,6 +37,25 @@ export function formatDateForDisplay(isoDateStr: string): string {
   return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
 }
 
+/**
+ * Format an ISO date string with its weekday (e.g., "Monday, Jan 5") for chart tooltips
+ */
+export function formatDateWithWeekday(isoDateStr: string): string {
+  const date = parseISODateAsLocal(isoDateStr);
+  return date.toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric' });
+}
+
+/**
+ * Format a timestamp (e.g., a campaign's send time) as the store-local day ("Jan 5")
+ */
+export function formatTimestampForDisplay(timestamp: string): string {
+  return new Date(timestamp).toLocaleDateString('en-US', {
+    timeZone: getStoreTimezone(),
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
 /**
  * Format an ISO date string for full display (e.g., "January 5, 2026")
  */
@@ -61,9 +83,9 @@ export function formatDateForShortDisplay(isoDateStr: string): string {
  * Format currency values consistently across the app
  */
 export function formatCurrency(value: number): string {
-  return new Intl.NumberFormat('en-US', {
+  return new Intl.NumberFormat(getNumberFormat().locale, {
     style: 'currency',
-    currency: 'USD',
+    currency: getNumberFormat().currency,
     minimumFractionDigits: 0,
     maximumFractionDigits: 0,
   }).format(value);
@@ -83,4 +105,214 @@ export function formatCurrencyCompact(value: number): string {
  */
 export function isISODateString(dateStr: string): boolean {
   return /^\d{4}-\d{2}-\d{2}$/.test(dateStr);
-}
\ No newline at end of file
+}
+
+/**
+ * Format a Date as an ISO date string (YYYY-MM-DD) in local time
+ */
+export function toISODateString(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// ============================================
+// STORE TIMEZONE
+// ============================================
+
+// The store's IANA timezone (Shopify `iana_timezone`). Falls back to the
+// device timezone until the shop has loaded.
+let storeTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+const timezoneListeners = new Set<() => void>();
+
+export function getStoreTimezone(): string {
+  return storeTimezone;
+}
+
+export function setStoreTimezone(timezone: string) {
+  if (timezone === storeTimezone) return;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+  } catch {
+    console.warn(`Ignoring unknown store timezone: ${timezone}`);
+    return;
+  }
+  storeTimezone = timezone;
+  timezoneListeners.forEach((listener) => listener());
+}
+
+export function subscribeStoreTimezone(listener: () => void): () => void {
+  timezoneListeners.add(listener);
+  return () => timezoneListeners.delete(listener);
+}
+
+/**
+ * Today's calendar date in the store's timezone (as a local noon Date, like
+ * parseISODateAsLocal, so date arithmetic never crosses a day boundary)
+ */
+export function getStoreToday(now: Date = new Date(), timezone: string = storeTimezone): Date {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+  }).formatToParts(now);
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  return new Date(part('year'), part('month') - 1, part('day'), 12, 0, 0);
+}
+
+// ============================================
+// DATE RANGE RESOLUTION
+// ============================================
+
+export interface ResolvedDateRange {
+  /** Range value the bounds were resolved from */
+  value: string;
+  /** First day, inclusive (YYYY-MM-DD in the store's timezone) */
+  start: string;
+  /** Last day, inclusive */
+  end: string;
+  /** Number of calendar days covered */
+  days: number;
+}
+
+/**
+ * Number of days in an inclusive ISO start/end pair
+ */
+export function getDayCount(start: string, end: string): number {
+  const ms = parseISODateAsLocal(end).getTime() - parseISODateAsLocal(start).getTime();
+  return Math.round(ms / (24 * 60 * 60 * 1000)) + 1;
+}
+
+/**
+ * Build a custom range value from ISO start/end dates
+ */
+export function toCustomRange(start: string, end: string): `custom:${string}:${string}` {
+  return `custom:${start}:${end}`;
+}
+
+/**
+ * Range query parameter for API requests - the range resolved in the store's
+ * timezone and sent as explicit dates, so the server covers the same days as
+ * the comparison window, labels and chart axes resolved here
+ */
+export function toApiRange(range: string, now: Date = new Date()): string {
+  const { start, end } = resolveDateRange(range, now);
+  return encodeURIComponent(toCustomRange(start, end));
+}
+
+/**
+ * Resolve a date range value ("today", "7d", "this_month", "2025",
+ * "custom:YYYY-MM-DD:YYYY-MM-DD", ...) to concrete dates in the store's timezone
+ *
+ * This is the single source of truth for what a range covers on the client -
+ * day counts, comparison windows and chart axes all derive from it.
+ *
+ * @param range - Date range value
+ * @param now - Current instant (for tests and snapshots)
+ */
+export function resolveDateRange(range: string, now: Date = new Date()): ResolvedDateRange {
+  const resolved = (start: Date, end: Date): ResolvedDateRange => {
+    const startStr = toISODateString(start);
+    const endStr = toISODateString(end);
+    return { value: range, start: startStr, end: endStr, days: getDayCount(startStr, endStr) };
+  };
+
+  if (range.startsWith('custom:')) {
+    const [, start, end] = range.split(':');
+    return { value: range, start, end: end || start, days: getDayCount(start, end || start) };
+  }
+
+  const today = getStoreToday(now);
+  const daysAgo = (days: number) => new Date(today.getFullYear(), today.getMonth(), today.getDate() - days, 12, 0, 0);
+
+  switch (range) {
+    case 'today':
+      return resolved(today, today);
+    case 'yesterday':
+      return resolved(daysAgo(1), daysAgo(1));
+    case 'this_month':
+      return resolved(new Date(today.getFullYear(), today.getMonth(), 1, 12, 0, 0), today);
+    case 'last_month':
+      return resolved(
+        new Date(today.getFullYear(), today.getMonth() - 1, 1, 12, 0, 0),
+        new Date(today.getFullYear(), today.getMonth(), 0, 12, 0, 0)
+      );
+    case 'this_year':
+      return resolved(new Date(today.getFullYear(), 0, 1, 12, 0, 0), today);
+  }
+
+  // A calendar year ("2025"), cut off at today for the current year
+  if (/^\d{4}$/.test(range)) {
+    const year = Number(range);
+    const yearEnd = new Date(year, 11, 31, 12, 0, 0);
+    return resolved(new Date(year, 0, 1, 12, 0, 0), yearEnd < today ? yearEnd : today);
+  }
+
+  // Trailing day counts ("7d", or Meta's "last_7d"), defaulting to 30 days
+  const days = /^(?:last_)?(\d+)d$/.exec(range);
+  const count = days ? Number(days[1]) : 30;
+  return resolved(daysAgo(count - 1), today);
+}
+
+/**
+ * Resolve the window a range is compared against
+ *
+ * @param range - The selected date range value
+ * @param compareTo - "previous_period" (same number of days immediately before),
+ *   "previous_year" (same dates a year earlier), a custom range, or "none"
+ * @returns The comparison window (its value is a custom range), or null when comparison is off
+ */
+export function resolveComparisonRange(range: string, compareTo: string, now: Date = new Date()): ResolvedDateRange | null {
+  if (compareTo.startsWith('custom:')) {
+    const { start, end } = resolveDateRange(compareTo, now);
+    return resolveDateRange(toCustomRange(start, end), now);
+  }
+
+  const { start, end, days } = resolveDateRange(range, now);
+  const startDate = parseISODateAsLocal(start);
+  const endDate = parseISODateAsLocal(end);
+
+  if (compareTo === 'previous_period') {
+    const prevEnd = new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate() - 1, 12, 0, 0);
+    const prevStart = new Date(prevEnd.getFullYear(), prevEnd.getMonth(), prevEnd.getDate() - (days - 1), 12, 0, 0);
+    return resolveDateRange(toCustomRange(toISODateString(prevStart), toISODateString(prevEnd)), now);
+  }
+
+  if (compareTo === 'previous_year') {
+    // Clamp Feb 29 to Feb 28 rather than rolling into March
+    const lastYear = (date: Date) => {
+      const shifted = new Date(date.getFullYear() - 1, date.getMonth(), date.getDate(), 12, 0, 0);
+      return shifted.getMonth() === date.getMonth()
+        ? shifted
+        : new Date(date.getFullYear() - 1, date.getMonth() + 1, 0, 12, 0, 0);
+    };
+    return resolveDateRange(toCustomRange(toISODateString(lastYear(startDate)), toISODateString(lastYear(endDate))), now);
+  }
+
+  return null;
+}
+
+/**
+ * Every ISO date in a resolved range, oldest first - for chart axes that
+ * should show days with no data
+ */
+export function getRangeDates(range: ResolvedDateRange): string[] {
+  const start = parseISODateAsLocal(range.start);
+  return Array.from({ length: range.days }, (_, i) =>
+    toISODateString(new Date(start.getFullYear(), start.getMonth(), start.getDate() + i, 12, 0, 0))
+  );
+}
+
+/**
+ * Percent change from a comparison value (100% when growing from zero,
+ * -100% when falling below it)
+ *
+ * Measured against the magnitude of the previous value, so a negative metric
+ * (net profit, contribution margin) improving toward or past zero still reads
+ * as an increase.
+ */
+export function getPercentChange(current: number, previous: number): number {
+  if (previous === 0) return current > 0 ? 100 : current < 0 ? -100 : 0;
+  return ((current - previous) / Math.abs(previous)) * 100;
+}
@@ -0,0 +1,561 @@
+/**
+ * Demo Fixtures
+ *
+ * Deterministic data generators for the mock API. Every value is derived
+ * from a seeded hash of its key (usually the calendar day), so the same
+ * date range always produces the same numbers and totals agree across
+ * endpoints - the Overview, Meta and Finance pages tell one consistent story.
+ */
+
+import {
+  differenceInCalendarDays,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfYear,
+  format,
+  startOfDay,
+  startOfMonth,
+  startOfYear,
+  subDays,
+  subMonths,
+} from 'date-fns'
+import type {
+  Account,
+  CustomerMetrics,
+  DailyMetric,
+  OverviewMetrics,
+  Transaction,
+} from '@/lib/api-types'
+
+// ============================================
+// RANDOMNESS
+// ============================================
+
+/** FNV-1a hash of a string */
+export function hashString(value: string): number {
+  let hash = 2166136261
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 16777619)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Creates a seeded pseudo-random generator (mulberry32)
+ *
+ * @param seed - Any string; the same seed always yields the same sequence
+ * @returns Function returning numbers in [0, 1)
+ */
+export function seededRandom(seed: string): () => number {
+  let state = hashString(seed)
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/** Single random value in [min, max) for a key */
+export function noise(key: string, min = 0, max = 1): number {
+  return min + seededRandom(key)() * (max - min)
+}
+
+export function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+export function isoDate(date: Date): string {
+  return format(date, 'yyyy-MM-dd')
+}
+
+// ============================================
+// DATE RANGES
+// ============================================
+
+export interface DayRange {
+  start: Date
+  end: Date
+}
+
+/** Oldest day with store history */
+export const HISTORY_START = new Date(2024, 0, 1)
+
+/**
+ * Resolves a range parameter ('7d', 'this_month', 'custom:2025-01-01:2025-01-31', '2025', ...)
+ * into inclusive calendar days ending no later than today
+ */
+export function resolveRange(range: string | null, today = startOfDay(new Date())): DayRange {
+  const value = range || '30d'
+
+  if (value.startsWith('custom:')) {
+    const [, startStr, endStr] = value.split(':')
+    const [sy, sm, sd] = startStr.split('-').map(Number)
+    const [ey, em, ed] = (endStr || startStr).split('-').map(Number)
+    return { start: new Date(sy, sm - 1, sd), end: new Date(ey, em - 1, ed) }
+  }
+
+  const days = value.match(/^(\d+)d$/)
+  if (days) {
+    return { start: subDays(today, Number(days[1]) - 1), end: today }
+  }
+
+  if (/^\d{4}$/.test(value)) {
+    const year = new Date(Number(value), 0, 1)
+    const end = endOfYear(year)
+    return { start: year, end: end < today ? startOfDay(end) : today }
+  }
+
+  switch (value) {
+    case 'today':
+      return { start: today, end: today }
+    case 'yesterday':
+      return { start: subDays(today, 1), end: subDays(today, 1) }
+    case 'this_month':
+      return { start: startOfMonth(today), end: today }
+    case 'last_month': {
+      const lastMonth = subMonths(today, 1)
+      return { start: startOfMonth(lastMonth), end: startOfDay(endOfMonth(lastMonth)) }
+    }
+    case 'this_year':
+      return { start: startOfYear(today), end: today }
+    case 'all':
+      return { start: HISTORY_START, end: today }
+    default:
+      return { start: subDays(today, 29), end: today }
+  }
+}
+
+/** Maps a Meta datePreset ('last_7d', 'this_month', ...) to a range */
+export function resolveMetaPreset(preset: string | null): DayRange {
+  const days = preset?.match(/^last_(\d+)d$/)
+  if (days) return resolveRange(`${days[1]}d`)
+  return resolveRange(preset || '30d')
+}
+
+/** The equally long range immediately before `range` */
+export function previousRange(range: DayRange): DayRange {
+  const length = differenceInCalendarDays(range.end, range.start) + 1
+  return { start: subDays(range.start, length), end: subDays(range.start, 1) }
+}
+
+export function daysIn(range: DayRange): Date[] {
+  if (range.end < range.start) return []
+  return eachDayOfInterval(range)
+}
+
+// ============================================
+// STORE METRICS
+// ============================================
+
+export interface DayMetrics {
+  date: Date
+  grossSales: number
+  discounts: number
+  returns: number
+  netSales: number
+  totalSales: number
+  orders: number
+  newCustomers: number
+  returningCustomers: number
+  newCustomerRevenue: number
+  returningCustomerRevenue: number
+  adSpend: number
+  cogs: number
+  shipping: number
+}
+
+// Mon..Sun demand relative to the weekly average
+const WEEKDAY_FACTORS = [1.08, 1.02, 0.98, 1.0, 0.94, 0.92, 1.06]
+
+function seasonality(date: Date): number {
+  const month = date.getMonth()
+  const day = date.getDate()
+  // Black Friday / Cyber Monday week
+  if (month === 10 && day >= 24) return 2.3
+  if (month === 10) return 1.3
+  if (month === 11) return day <= 20 ? 1.45 : 0.9
+  if (month === 1 && day >= 7 && day <= 14) return 1.25
+  if (month === 0) return 0.82
+  return 1
+}
+
+const dayCache = new Map<string, DayMetrics>()
+
+/**
+ * Store performance for one calendar day
+ */
+export function dayMetrics(date: Date): DayMetrics {
+  const key = isoDate(date)
+  const cached = dayCache.get(key)
+  if (cached) return cached
+
+  const random = seededRandom(`day:${key}`)
+  const years = differenceInCalendarDays(date, HISTORY_START) / 365
+  const demand = 3600 * (1 + 0.32 * years) * WEEKDAY_FACTORS[(date.getDay() + 6) % 7] * seasonality(date)
+
+  const grossSales = demand * (0.82 + random() * 0.36)
+  const orders = Math.max(1, Math.round(grossSales / (64 + random() * 12)))
+  const discounts = grossSales * (0.05 + random() * 0.03)
+  const returns = grossSales * (0.02 + random() * 0.025)
+  const netSales = grossSales - discounts - returns
+  const newShare = 0.54 + random() * 0.14
+  const newCustomers = Math.round(orders * newShare)
+
+  const metrics: DayMetrics = {
+    date,
+    grossSales: round2(grossSales),
+    discounts: round2(discounts),
+    returns: round2(returns),
+    netSales: round2(netSales),
+    totalSales: round2(netSales * 1.09),
+    orders,
+    newCustomers,
+    returningCustomers: orders - newCustomers,
+    newCustomerRevenue: round2(netSales * newShare * 0.94),
+    returningCustomerRevenue: round2(netSales * (1 - newShare * 0.94)),
+    adSpend: round2(netSales * (0.22 + random() * 0.1)),
+    cogs: round2(netSales * (0.29 + random() * 0.04)),
+    shipping: round2(orders * (6.8 + random() * 1.9)),
+  }
+  dayCache.set(key, metrics)
+  return metrics
+}
+
+export function sumDays(range: DayRange): DayMetrics {
+  const total: DayMetrics = {
+    date: range.end,
+    grossSales: 0,
+    discounts: 0,
+    returns: 0,
+    netSales: 0,
+    totalSales: 0,
+    orders: 0,
+    newCustomers: 0,
+    returningCustomers: 0,
+    newCustomerRevenue: 0,
+    returningCustomerRevenue: 0,
+    adSpend: 0,
+    cogs: 0,
+    shipping: 0,
+  }
+  for (const day of daysIn(range)) {
+    const m = dayMetrics(day)
+    total.grossSales += m.grossSales
+    total.discounts += m.discounts
+    total.returns += m.returns
+    total.netSales += m.netSales
+    total.totalSales += m.totalSales
+    total.orders += m.orders
+    total.newCustomers += m.newCustomers
+    total.returningCustomers += m.returningCustomers
+    total.newCustomerRevenue += m.newCustomerRevenue
+    total.returningCustomerRevenue += m.returningCustomerRevenue
+    total.adSpend += m.adSpend
+    total.cogs += m.cogs
+    total.shipping += m.shipping
+  }
+  return total
+}
+
+const ratio = (a: number, b: number) => (b > 0 ? a / b : 0)
+
+export function overviewMetrics(range: DayRange): OverviewMetrics {
+  const t = sumDays(range)
+  const contributionMargin = t.netSales - t.cogs - t.shipping - t.adSpend
+  const customers = t.newCustomers + t.returningCustomers
+  // Platform-reported ROAS runs below blended MER
+  const roas = ratio(t.netSales, t.adSpend) * 0.68
+
+  return {
+    mer: round2(ratio(t.totalSales, t.adSpend)),
+    aov: round2(ratio(t.netSales, t.orders)),
+    roas: round2(roas),
+    ncRoas: round2(roas * 0.61),
+    cac: round2(ratio(t.adSpend, t.newCustomers)),
+    grossSales: round2(t.grossSales),
+    netSales: round2(t.netSales),
+    totalSales: round2(t.totalSales),
+    cogs: round2(t.cogs),
+    shipping: round2(t.shipping),
+    adSpend: round2(t.adSpend),
+    returns: round2(t.returns),
+    contributionMargin: round2(contributionMargin),
+    contributionMarginPercent: round2(ratio(contributionMargin, t.netSales) * 100),
+    totalOrders: t.orders,
+    totalCustomers: customers,
+    newCustomers: t.newCustomers,
+    returningCustomers: t.returningCustomers,
+    returningCustomerRate: round2(ratio(t.returningCustomers, customers) * 100),
+    newCustomerRevenue: round2(t.newCustomerRevenue),
+    returningCustomerRevenue: round2(t.returningCustomerRevenue),
+    acquisitionMer: round2(ratio(t.newCustomerRevenue, t.adSpend)),
+    newCustomerOrders: t.newCustomers,
+    returningCustomerOrders: t.returningCustomers,
+  }
+}
+
+export function customerMetrics(range: DayRange): CustomerMetrics {
+  const t = sumDays(range)
+  const customers = t.newCustomers + t.returningCustomers
+  return {
+    totalCustomers: customers,
+    newCustomers: t.newCustomers,
+    returningCustomers: t.returningCustomers,
+    returningCustomerRate: round2(ratio(t.returningCustomers, customers) * 100),
+    totalOrders: t.orders,
+    averageOrderValue: round2(ratio(t.netSales, t.orders)),
+  }
+}
+
+export function dailyMetric(date: Date): DailyMetric {
+  const m = dayMetrics(date)
+  return {
+    date: format(date, 'MMM d'),
+    dateRaw: isoDate(date),
+    netSales: m.netSales,
+    grossSales: m.grossSales,
+    totalSales: m.totalSales,
+    discounts: m.discounts,
+    returns: m.returns,
+    orders: m.orders,
+    adSpend: m.adSpend,
+    cogs: m.cogs,
+    shipping: m.shipping,
+    contributionMargin: round2(m.netSales - m.cogs - m.shipping - m.adSpend),
+    newCustomerRevenue: m.newCustomerRevenue,
+    returningCustomerRevenue: m.returningCustomerRevenue,
+  }
+}
+
+// ============================================
+// CATALOG
+// ============================================
+
+export interface DemoProduct {
+  id: number
+  title: string
+  category: string
+  price: number
+  cost: number
+  /** Share of store revenue */
+  weight: number
+  variants: string[]
+}
+
+export const PRODUCTS: DemoProduct[] = [
+  { id: 8101, title: 'Everyday Linen Tee', category: 'Tops', price: 48, cost: 14.2, weight: 0.16, variants: ['XS', 'S', 'M', 'L', 'XL'] },
+  { id: 8102, title: 'Relaxed Cotton Crew', category: 'Tops', price: 42, cost: 11.8, weight: 0.11, variants: ['S', 'M', 'L', 'XL'] },
+  { id: 8103, title: 'Merino Layering Top', category: 'Tops', price: 78, cost: 24.5, weight: 0.07, variants: ['S', 'M', 'L'] },
+  { id: 8201, title: 'Wide Leg Trouser', category: 'Bottoms', price: 98, cost: 29.4, weight: 0.12, variants: ['24', '26', '28', '30', '32'] },
+  { id: 8202, title: 'Utility Short', category: 'Bottoms', price: 64, cost: 18.1, weight: 0.06, variants: ['S', 'M', 'L'] },
+  { id: 8301, title: 'Weekend Wrap Dress', category: 'Dresses', price: 128, cost: 36.9, weight: 0.13, variants: ['XS', 'S', 'M', 'L'] },
+  { id: 8302, title: 'Slip Midi Dress', category: 'Dresses', price: 112, cost: 31.2, weight: 0.08, variants: ['S', 'M', 'L'] },
+  { id: 8401, title: 'Canvas Market Tote', category: 'Accessories', price: 38, cost: 8.6, weight: 0.09, variants: ['Natural', 'Black'] },
+  { id: 8402, title: 'Silk Hair Scarf', category: 'Accessories', price: 28, cost: 5.9, weight: 0.05, variants: ['Sage', 'Rust', 'Ivory'] },
+  { id: 8501, title: 'Overshirt Jacket', category: 'Outerwear', price: 148, cost: 44.3, weight: 0.08, variants: ['S', 'M', 'L', 'XL'] },
+  { id: 8601, title: 'Gift Card', category: 'Gift Cards', price: 50, cost: 0, weight: 0.05, variants: ['$50'] },
+]
+
+// ============================================
+// FINANCE
+// ============================================
+
+function account(
+  id: string,
+  name: string,
+  type: Account['type'],
+  subtype: string,
+  mask: string,
+  current: number,
+  limit: number | null = null
+): Account {
+  return {
+    account_id: id,
+    name,
+    official_name: name,
+    type,
+    subtype,
+    balances: {
+      available: type === 'credit' && limit ? round2(limit - current) : current,
+      current,
+      limit,
+      iso_currency_code: 'USD',
+    },
+    mask,
+  }
+}
+
+export function createAccounts(): { enabled: Account[]; disabled: Account[] } {
+  return {
+    enabled: [
+      account('demo-acct-ops', 'Mercury Operations', 'depository', 'checking', '8705', 184236.18),
+      account('demo-acct-payroll', 'Mercury Payroll', 'depository', 'checking', '4804', 62410.55),
+      account('demo-acct-savings', 'Mercury Treasury', 'depository', 'savings', '1932', 250000),
+      account('demo-acct-amex', 'Amex Business Platinum', 'credit', 'credit card', '31005', 18442.9, 75000),
+      account('demo-acct-chase', 'Chase Ink Business', 'credit', 'credit card', '7731', 6208.41, 25000),
+    ],
+    disabled: [
+      account('demo-acct-reserve', 'Mercury Reserve', 'depository', 'checking', '5521', 15000),
+    ],
+  }
+}
+
+interface Merchant {
+  name: string
+  category: string[]
+  accountId: string
+  /** Day of month it bills; omit for daily activity */
+  billingDay?: number
+  /** Month (0-11) it bills in, for annual plans */
+  billingMonth?: number
+  amount: [number, number]
+  /** Price charged for the last few weeks, so the demo has a price increase to flag */
+  raisedTo?: number
+}
+
+// Recurring bills (SaaS, rent, insurance) plus day-to-day spend
+const RECURRING: Merchant[] = [
+  { name: 'Shopify', category: ['Service', 'Software'], accountId: 'demo-acct-amex', billingDay: 3, amount: [399, 399] },
+  { name: 'Omnisend', category: ['Service', 'Software'], accountId: 'demo-acct-amex', billingDay: 5, amount: [260, 310] },
+  { name: 'Google Workspace', category: ['Service', 'Software'], accountId: 'demo-acct-amex', billingDay: 1, amount: [86.4, 86.4] },
+  { name: 'Slack', category: ['Service', 'Software'], accountId: 'demo-acct-amex', billingDay: 12, amount: [52.5, 52.5], raisedTo: 61.25 },
+  { name: 'Notion Labs', category: ['Service', 'Software'], accountId: 'demo-acct-chase', billingDay: 14, amount: [40, 40] },
+  { name: 'Adobe', category: ['Service', 'Software'], accountId: 'demo-acct-chase', billingDay: 18, amount: [89.99, 89.99] },
+  { name: 'Figma', category: ['Service', 'Software'], accountId: 'demo-acct-chase', billingDay: 21, amount: [45, 45] },
+  { name: 'ShipStation', category: ['Service', 'Software'], accountId: 'demo-acct-amex', billingDay: 9, amount: [159, 159] },
+  { name: 'QuickBooks Online', category: ['Service', 'Software'], accountId: 'demo-acct-ops', billingDay: 7, amount: [90, 90] },
+  { name: 'Canva', category: ['Service', 'Software'], accountId: 'demo-acct-chase', billingDay: 25, amount: [14.99, 14.99] },
+  { name: '1Password', category: ['Service', 'Software'], accountId: 'demo-acct-amex', billingDay: 8, billingMonth: 2, amount: [479.52, 479.52] },
+  { name: 'WeWork', category: ['Payment', 'Rent'], accountId: 'demo-acct-ops', billingDay: 1, amount: [2400, 2400] },
+  { name: 'Hiscox Insurance', category: ['Service', 'Insurance'], accountId: 'demo-acct-ops', billingDay: 15, amount: [212.4, 212.4] },
+]
+
+const DAILY: Merchant[] = [
+  { name: 'USPS', category: ['Service', 'Shipping and Freight'], accountId: 'demo-acct-amex', amount: [180, 620] },
+  { name: 'UPS', category: ['Service', 'Shipping and Freight'], accountId: 'demo-acct-amex', amount: [90, 410] },
+  { name: 'Uline', category: ['Shops', 'Supplies'], accountId: 'demo-acct-chase', amount: [120, 780] },
+  { name: 'Uber', category: ['Travel', 'Taxi'], accountId: 'demo-acct-chase', amount: [14, 46] },
+  { name: 'Blue Bottle Coffee', category: ['Food and Drink', 'Coffee Shop'], accountId: 'demo-acct-chase', amount: [6, 24] },
+  { name: 'Amazon', category: ['Shops', 'Supplies'], accountId: 'demo-acct-chase', amount: [18, 240] },
+  { name: 'Google Ads', category: ['Service', 'Advertising and Marketing'], accountId: 'demo-acct-amex', amount: [40, 180] },
+]
+
+const PAYROLL_ACCOUNT = 'demo-acct-payroll'
+// Payroll runs every other Friday starting from this date
+const FIRST_PAYROLL = new Date(2024, 0, 12)
+
+function transaction(
+  date: Date,
+  key: string,
+  merchant: Pick<Merchant, 'name' | 'category' | 'accountId'>,
+  amount: number,
+  today: Date
+): Transaction {
+  return {
+    transaction_id: `demo-txn-${hashString(`${isoDate(date)}:${key}`).toString(36)}`,
+    account_id: merchant.accountId,
+    amount: round2(amount),
+    date: isoDate(date),
+    name: merchant.name.toUpperCase(),
+    merchant_name: merchant.name,
+    category: merchant.category,
+    // Last two days are still settling
+    pending: differenceInCalendarDays(today, date) < 2,
+    iso_currency_code: 'USD',
+  }
+}
+
+/** Whether payroll runs on this day */
+export function isPayrollDay(date: Date): boolean {
+  const diff = differenceInCalendarDays(date, FIRST_PAYROLL)
+  return diff >= 0 && diff % 14 === 0
+}
+
+export function payrollAmount(date: Date): number {
+  const years = differenceInCalendarDays(date, HISTORY_START) / 365
+  return round2((31000 + years * 6500) * noise(`payroll:${isoDate(date)}`, 0.97, 1.04))
+}
+
+/**
+ * Plaid-style transactions for one day (positive amounts are money out)
+ */
+export function transactionsForDay(date: Date, today = startOfDay(new Date())): Transaction[] {
+  const random = seededRandom(`txn:${isoDate(date)}`)
+  const result: Transaction[] = []
+
+  for (const merchant of RECURRING) {
+    if (merchant.billingDay === date.getDate() && (merchant.billingMonth ?? date.getMonth()) === date.getMonth()) {
+      const [min, max] = merchant.amount
+      const amount = min + random() * (max - min)
+      const raised = differenceInCalendarDays(today, date) < 45 ? merchant.raisedTo : undefined
+      result.push(transaction(date, merchant.name, merchant, raised ?? amount, today))
+    }
+  }
+
+  for (const merchant of DAILY) {
+    if (random() < 0.45) {
+      const [min, max] = merchant.amount
+      result.push(transaction(date, merchant.name, merchant, min + random() * (max - min), today))
+    }
+  }
+
+  // Meta bills the card at its billing threshold a few times a week
+  if (random() < 0.4) {
+    const spend = dayMetrics(date).adSpend * (2 + random())
+    result.push(transaction(date, 'meta', { name: 'Facebook Ads', category: ['Service', 'Advertising and Marketing'], accountId: 'demo-acct-amex' }, spend, today))
+  }
+
+  // Shopify pays out most weekdays (inflow, so negative)
+  if (date.getDay() !== 0 && date.getDay() !== 6) {
+    const payout = -dayMetrics(subDays(date, 2)).totalSales * 0.96
+    result.push(transaction(date, 'payout', { name: 'Shopify Payments', category: ['Transfer', 'Deposit'], accountId: 'demo-acct-ops' }, payout, today))
+  }
+
+  if (isPayrollDay(date)) {
+    result.push(transaction(date, 'payroll', { name: 'Gusto', category: ['Transfer', 'Payroll'], accountId: PAYROLL_ACCOUNT }, payrollAmount(date), today))
+  }
+
+  return result
+}
+
+export function transactionsInRange(range: DayRange): Transaction[] {
+  return daysIn(range)
+    .reverse()
+    .flatMap((day) => transactionsForDay(day))
+}
+
+// ============================================
+// CREATIVE
+// ============================================
+
+const CREATIVE_PALETTES = [
+  ['#0f766e', '#99f6e4'],
+  ['#9a3412', '#fed7aa'],
+  ['#1e3a8a', '#bfdbfe'],
+  ['#701a75', '#f5d0fe'],
+  ['#365314', '#d9f99d'],
+  ['#78350f', '#fde68a'],
+]
+
+/**
+ * Generates an inline SVG thumbnail so demo ads have artwork without
+ * fetching anything
+ */
+export function creativeThumbnail(seed: string, label: string): string {
+  const random = seededRandom(`creative:${seed}`)
+  const [dark, light] = CREATIVE_PALETTES[Math.floor(random() * CREATIVE_PALETTES.length)]
+  const text = label.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+  const cx = Math.round(60 + random() * 180)
+  const cy = Math.round(60 + random() * 180)
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="300" height="300" viewBox="0 0 300 300">` +
+    `<rect width="300" height="300" fill="${light}"/>` +
+    `<circle cx="${cx}" cy="${cy}" r="${Math.round(70 + random() * 60)}" fill="${dark}" opacity="0.85"/>` +
+    `<rect x="24" y="232" width="252" height="44" rx="8" fill="#ffffff" opacity="0.9"/>` +
+    `<text x="150" y="260" font-family="Helvetica, Arial, sans-serif" font-size="16" text-anchor="middle" fill="${dark}">${text}</text>` +
+    `</svg>`
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`
+}
@@ -0,0 +1,86 @@
+/**
+ * Demo Mode
+ *
+ * Runs the app without the Railway backend or Supabase: every /api request
+ * is answered by the local mock API (see mock-api.ts) and auth uses a
+ * stubbed session. Enabled with VITE_DEMO_MODE=true, the "Explore demo"
+ * button on the login screen, or by opening the app with ?demo=1.
+ */
+
+import type { Session, User } from '@supabase/supabase-js'
+
+const DEMO_MODE_KEY = 'lg-demo-mode'
+
+function readStoredFlag(): boolean {
+  try {
+    return localStorage.getItem(DEMO_MODE_KEY) === 'true'
+  } catch {
+    return false
+  }
+}
+
+function writeStoredFlag(enabled: boolean) {
+  try {
+    if (enabled) {
+      localStorage.setItem(DEMO_MODE_KEY, 'true')
+    } else {
+      localStorage.removeItem(DEMO_MODE_KEY)
+    }
+  } catch {
+    // Storage unavailable (private mode) - the flag just won't survive a reload
+  }
+}
+
+function readUrlFlag(): boolean {
+  if (typeof window === 'undefined') return false
+  const value = new URLSearchParams(window.location.search).get('demo')
+  return value === '1' || value === 'true'
+}
+
+let demoMode = import.meta.env.VITE_DEMO_MODE === 'true' || readStoredFlag() || readUrlFlag()
+
+// Remember a ?demo=1 link so the flag survives navigation
+if (demoMode && readUrlFlag()) {
+  writeStoredFlag(true)
+}
+
+export function isDemoMode(): boolean {
+  return demoMode
+}
+
+export function enterDemoMode() {
+  demoMode = true
+  writeStoredFlag(true)
+}
+
+export function exitDemoMode() {
+  demoMode = import.meta.env.VITE_DEMO_MODE === 'true'
+  writeStoredFlag(false)
+}
+
+// ============================================
+// STUB SESSION
+// ============================================
+
+export const DEMO_USER: User = {
+  id: '00000000-0000-4000-8000-000000000001',
+  aud: 'authenticated',
+  role: 'authenticated',
+  email: 'demo@example.com',
+  app_metadata: { provider: 'email', providers: ['email'] },
+  user_metadata: { full_name: 'Demo User' },
+  created_at: '2024-01-01T00:00:00.000Z',
+}
+
+/**
+ * Builds a session for the demo user that never expires
+ */
+export function createDemoSession(): Session {
+  return {
+    access_token: 'demo-access-token',
+    refresh_token: 'demo-refresh-token',
+    token_type: 'bearer',
+    expires_in: 60 * 60 * 24 * 365,
+    user: DEMO_USER,
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Meta Ad Tags
+ *
+ * Hand-set creative tags, persisted per user and ad in the Supabase
+ * `meta_ad_tags` table (supabase/migrations/*_meta_ad_tags.sql).
+ *
+ * Read and written through the shared user store (see lib/user-store).
+ */
+
+import { supabase } from '@/config/supabase'
+import type { ManualAdTags } from '@/lib/creative-tags'
+import { createUserStore } from '@/lib/user-store'
+
+const TAGS_TABLE = 'meta_ad_tags'
+const CACHE_KEY_PREFIX = 'lg-meta-ad-tags:'
+
+/** Hand-set tags keyed by ad id */
+export type AdTagMap = Record<string, ManualAdTags>
+
+export const adTagsStore = createUserStore<AdTagMap>({
+  label: 'ad tags',
+  cacheKeyPrefix: CACHE_KEY_PREFIX,
+  empty: {},
+  fetch: async (userId) => {
+    const { data, error } = await supabase.from(TAGS_TABLE).select('ad_id, tags').eq('user_id', userId)
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    return Object.fromEntries((data ?? []).map((row) => [row.ad_id as string, row.tags as ManualAdTags]))
+  },
+})
+
+/**
+ * Replaces one ad's hand-set tags in a tag map (an empty set removes the ad)
+ */
+export function withAdTags(tagMap: AdTagMap, adId: string, tags: ManualAdTags): AdTagMap {
+  const next = { ...tagMap }
+  if (Object.keys(tags).length === 0) delete next[adId]
+  else next[adId] = tags
+  return next
+}
+
+/**
+ * Replaces one ad's hand-set tags. An empty set deletes the row.
+ *
+ * @throws Error when Supabase rejects the write
+ */
+export function saveAdTags(userId: string, adId: string, tags: ManualAdTags): Promise<void> {
+  return adTagsStore.save(
+    userId,
+    (tagMap) => withAdTags(tagMap, adId, tags),
+    async () => {
+      const { error } = Object.keys(tags).length === 0
+        ? await supabase.from(TAGS_TABLE).delete().eq('user_id', userId).eq('ad_id', adId)
+        : await supabase
+            .from(TAGS_TABLE)
+            .upsert({ user_id: userId, ad_id: adId, tags, updated_at: new Date().toISOString() })
+
+      if (error) {
+        throw new Error(error.message)
+      }
+    }
+  )
+}
@@ -0,0 +1,48 @@
+/**
+ * Attribution Window Comparison
+ *
+ * The same campaign credited under several attribution windows at once, so
+ * the gap between click-only and click + view shows how much of a result
+ * depends on people who saw an ad but never clicked it.
+ */
+
+import type { AttributionWindowMetrics, MetaAttributionWindow } from '@/lib/api-types'
+
+export const COMPARISON_WINDOWS: { value: MetaAttributionWindow; label: string }[] = [
+  { value: '1d_click', label: '1d click' },
+  { value: '7d_click', label: '7d click' },
+  { value: '7d_click_1d_view', label: '7d click + 1d view' },
+]
+
+export type AttributionByWindow = Partial<Record<MetaAttributionWindow, AttributionWindowMetrics>>
+
+/**
+ * Percent of 7d click + 1d view revenue that only view-through credits
+ *
+ * @returns null when either window is missing or there was no revenue
+ */
+export function getViewThroughShare(byWindow: AttributionByWindow | undefined): number | null {
+  const click = byWindow?.['7d_click']
+  const clickAndView = byWindow?.['7d_click_1d_view']
+  if (!click || !clickAndView || clickAndView.revenue <= 0) return null
+  return Math.max(((clickAndView.revenue - click.revenue) / clickAndView.revenue) * 100, 0)
+}
+
+/**
+ * Totals per window across entities, with ROAS and CPA rederived from spend
+ */
+export function sumAttributionWindows(rows: { spend: number; byWindow: AttributionByWindow | undefined }[]): AttributionByWindow {
+  const spend = rows.reduce((sum, row) => sum + row.spend, 0)
+  const totals: AttributionByWindow = {}
+  for (const { value } of COMPARISON_WINDOWS) {
+    const purchases = rows.reduce((sum, row) => sum + (row.byWindow?.[value]?.purchases ?? 0), 0)
+    const revenue = rows.reduce((sum, row) => sum + (row.byWindow?.[value]?.revenue ?? 0), 0)
+    totals[value] = {
+      purchases,
+      revenue,
+      roas: spend > 0 ? revenue / spend : 0,
+      cpa: purchases > 0 ? spend / purchases : 0,
+    }
+  }
+  return totals
+}
@@ -0,0 +1,158 @@
+/**
+ * Meta Table Columns
+ *
+ * The columns a Meta entity table can show: any metric Meta reports, plus
+ * computed columns that divide one metric by another (cost per add to cart,
+ * landing page view rate, ...). A column is referenced by id - the metric key
+ * for metrics, `computed:<id>` for computed columns.
+ */
+
+export type MetaMetricKey =
+  | 'spend'
+  | 'impressions'
+  | 'reach'
+  | 'frequency'
+  | 'clicks'
+  | 'linkClicks'
+  | 'cpm'
+  | 'ctr'
+  | 'linkCtr'
+  | 'cpc'
+  | 'cpcLink'
+  | 'purchases'
+  | 'revenue'
+  | 'roas'
+  | 'cpa'
+  | 'addToCart'
+  | 'initiateCheckout'
+  | 'landingPageViews'
+
+export type MetaMetricValues = Record<MetaMetricKey, number>
+
+export type ColumnFormat = 'currency' | 'number' | 'percent' | 'ratio' | 'decimal'
+
+export interface ComputedColumn {
+  /** Stable id, referenced as `computed:<id>` */
+  id: string
+  label: string
+  numerator: MetaMetricKey
+  denominator: MetaMetricKey
+  /** 100 for a percentage, 1000 for "per thousand", otherwise 1 */
+  multiplier: number
+  format: ColumnFormat
+}
+
+export interface ResolvedColumn {
+  id: string
+  label: string
+  format: ColumnFormat
+  /** Colour ROAS-style values green at or above 1x */
+  isReturn?: boolean
+  value: (metrics: MetaMetricValues) => number
+}
+
+export const METRIC_COLUMNS: { key: MetaMetricKey; label: string; format: ColumnFormat }[] = [
+  { key: 'spend', label: 'Spend', format: 'currency' },
+  { key: 'roas', label: 'ROAS', format: 'ratio' },
+  { key: 'purchases', label: 'Purchases', format: 'number' },
+  { key: 'revenue', label: 'Revenue', format: 'currency' },
+  { key: 'cpa', label: 'CPA', format: 'currency' },
+  { key: 'cpm', label: 'CPM', format: 'currency' },
+  { key: 'ctr', label: 'CTR', format: 'percent' },
+  { key: 'linkCtr', label: 'Link CTR', format: 'percent' },
+  { key: 'cpc', label: 'CPC', format: 'currency' },
+  { key: 'cpcLink', label: 'Link CPC', format: 'currency' },
+  { key: 'impressions', label: 'Impressions', format: 'number' },
+  { key: 'reach', label: 'Reach', format: 'number' },
+  { key: 'frequency', label: 'Frequency', format: 'decimal' },
+  { key: 'clicks', label: 'Clicks', format: 'number' },
+  { key: 'linkClicks', label: 'Link Clicks', format: 'number' },
+  { key: 'landingPageViews', label: 'Landing Page Views', format: 'number' },
+  { key: 'addToCart', label: 'Add to Cart', format: 'number' },
+  { key: 'initiateCheckout', label: 'Initiate Checkout', format: 'number' },
+]
+
+export const METRIC_KEYS = METRIC_COLUMNS.map((column) => column.key)
+
+/** The table's columns before anyone customises it */
+export const DEFAULT_CAMPAIGN_COLUMNS = ['spend', 'roas', 'purchases', 'revenue', 'cpa', 'cpm', 'ctr', 'impressions']
+
+/** Computed columns offered as one-click additions */
+export const COMPUTED_COLUMN_PRESETS: ComputedColumn[] = [
+  { id: 'cost_per_atc', label: 'Cost per ATC', numerator: 'spend', denominator: 'addToCart', multiplier: 1, format: 'currency' },
+  { id: 'lpv_rate', label: 'LPV Rate', numerator: 'landingPageViews', denominator: 'linkClicks', multiplier: 100, format: 'percent' },
+  { id: 'atc_rate', label: 'ATC Rate', numerator: 'addToCart', denominator: 'landingPageViews', multiplier: 100, format: 'percent' },
+  { id: 'cost_per_checkout', label: 'Cost per Checkout', numerator: 'spend', denominator: 'initiateCheckout', multiplier: 1, format: 'currency' },
+  { id: 'checkout_conversion', label: 'Checkout Conv.', numerator: 'purchases', denominator: 'initiateCheckout', multiplier: 100, format: 'percent' },
+]
+
+const COMPUTED_PREFIX = 'computed:'
+
+export const computedColumnId = (column: ComputedColumn) => `${COMPUTED_PREFIX}${column.id}`
+
+/**
+ * Looks a column id up among the metrics and the given computed columns
+ *
+ * @returns null for ids that no longer resolve (e.g. a deleted computed column)
+ */
+export function resolveColumn(id: string, computed: ComputedColumn[]): ResolvedColumn | null {
+  if (id.startsWith(COMPUTED_PREFIX)) {
+    const column = computed.find((c) => computedColumnId(c) === id)
+    if (!column) return null
+    return {
+      id,
+      label: column.label,
+      format: column.format,
+      isReturn: column.format === 'ratio',
+      value: (m) => (m[column.denominator] > 0 ? (m[column.numerator] / m[column.denominator]) * column.multiplier : 0),
+    }
+  }
+
+  const metric = METRIC_COLUMNS.find((c) => c.key === id)
+  if (!metric) return null
+  return { id, label: metric.label, format: metric.format, isReturn: metric.key === 'roas', value: (m) => m[metric.key] ?? 0 }
+}
+
+export function resolveColumns(ids: string[], computed: ComputedColumn[]): ResolvedColumn[] {
+  return ids.map((id) => resolveColumn(id, computed)).filter((column): column is ResolvedColumn => column !== null)
+}
+
+/**
+ * Sums the additive metrics and re-derives every rate from the sums, so a
+ * totals row can run through the same columns as the entity rows. Rows only
+ * need the additive metrics - daily insight rows work as well as entity rows.
+ */
+export function totalMetrics(rows: Partial<MetaMetricValues>[]): MetaMetricValues {
+  const sum = (key: MetaMetricKey) => rows.reduce((total, row) => total + (row[key] ?? 0), 0)
+  const ratio = (a: number, b: number) => (b > 0 ? a / b : 0)
+
+  const spend = sum('spend')
+  const impressions = sum('impressions')
+  const reach = sum('reach')
+  const clicks = sum('clicks')
+  const linkClicks = sum('linkClicks')
+  const purchases = sum('purchases')
+  const revenue = sum('revenue')
+
+  return {
+    spend,
+    impressions,
+    // Reach overlaps between campaigns, so this overstates it - but it's the best a sum can do
+    reach,
+    frequency: ratio(impressions, reach),
+    clicks,
+    linkClicks,
+    cpm: ratio(spend, impressions) * 1000,
+    ctr: ratio(clicks, impressions) * 100,
+    linkCtr: ratio(linkClicks, impressions) * 100,
+    cpc: ratio(spend, clicks),
+    cpcLink: ratio(spend, linkClicks),
+    purchases,
+    revenue,
+    roas: ratio(revenue, spend),
+    cpa: ratio(spend, purchases),
+    addToCart: sum('addToCart'),
+    initiateCheckout: sum('initiateCheckout'),
+    landingPageViews: sum('landingPageViews'),
+  }
+}
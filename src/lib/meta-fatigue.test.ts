@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest'
+import { getFatigueTrend, scoreAdFatigue, scoreAdsFatigue } from '@/lib/meta-fatigue'
+import type { AdDailyInsight } from '@/lib/api-types'
+
+type DayTotals = Omit<AdDailyInsight, 'date'>
+
+/** `count` consecutive days of identical delivery starting on `start` */
+function days(start: string, count: number, totals: DayTotals): AdDailyInsight[] {
+  const first = new Date(`${start}T12:00:00Z`)
+  return Array.from({ length: count }, (_, i) => {
+    const date = new Date(first.getTime() + i * 86_400_000).toISOString().slice(0, 10)
+    return { date, ...totals }
+  })
+}
+
+const steady: DayTotals = { spend: 100, impressions: 1000, reach: 500, clicks: 20, purchases: 5 }
+// Frequency up 25%, CTR halved, CPA up 150%
+const wornOut: DayTotals = { spend: 100, impressions: 1000, reach: 400, clicks: 10, purchases: 2 }
+
+describe('scoreAdFatigue', () => {
+  it('needs two full windows of history', () => {
+    expect(scoreAdFatigue([])).toBeNull()
+    expect(scoreAdFatigue(days('2026-01-01', 13, steady))).toBeNull()
+  })
+
+  it('flags an ad whose frequency rises while CTR falls and CPA rises', () => {
+    const score = scoreAdFatigue([...days('2026-01-25', 7, steady), ...days('2026-02-01', 7, wornOut)])
+    expect(score).toMatchObject({ score: 100, isFatigued: true, frequencyChange: 25, ctrChange: -50, cpaChange: 150 })
+    expect(score?.reasons).toEqual(['Frequency up 25%', 'CTR down 50%', 'CPA up 150%'])
+  })
+
+  it('compares the latest days however the rows are ordered', () => {
+    const ordered = [...days('2026-01-25', 7, steady), ...days('2026-02-01', 7, wornOut)]
+    expect(scoreAdFatigue([...ordered].reverse())).toEqual(scoreAdFatigue(ordered))
+  })
+
+  it("doesn't flag a CTR dip without rising frequency", () => {
+    const score = scoreAdFatigue([
+      ...days('2026-01-01', 7, steady),
+      ...days('2026-01-08', 7, { ...wornOut, reach: 500 }),
+    ])
+    expect(score?.score).toBe(70)
+    expect(score?.isFatigued).toBe(false)
+  })
+
+  it("doesn't flag ads with too few impressions to judge", () => {
+    const scale = (totals: DayTotals): DayTotals => ({
+      ...totals,
+      impressions: totals.impressions / 10,
+      reach: totals.reach / 10,
+      clicks: totals.clicks / 10,
+    })
+    const score = scoreAdFatigue([...days('2026-01-01', 7, scale(steady)), ...days('2026-01-08', 7, scale(wornOut))])
+    expect(score?.score).toBe(100)
+    expect(score?.isFatigued).toBe(false)
+  })
+
+  it('leaves CPA out when a window has no purchases', () => {
+    const score = scoreAdFatigue([...days('2026-01-01', 7, steady), ...days('2026-01-08', 7, { ...steady, purchases: 0 })])
+    expect(score).toMatchObject({ score: 0, cpaChange: null, reasons: [] })
+  })
+})
+
+describe('getFatigueTrend', () => {
+  it('has one window per day with a full window behind it', () => {
+    const trend = getFatigueTrend(days('2026-02-20', 10, steady))
+    expect(trend.map((w) => w.date)).toEqual(['2026-02-26', '2026-02-27', '2026-02-28', '2026-03-01'])
+    expect(trend[0]).toEqual({ date: '2026-02-26', impressions: 7000, frequency: 2, ctr: 2, cpa: 20 })
+  })
+
+  it('is empty without a full window', () => {
+    expect(getFatigueTrend([])).toEqual([])
+    expect(getFatigueTrend(days('2026-01-01', 6, steady))).toEqual([])
+  })
+})
+
+describe('scoreAdsFatigue', () => {
+  it('skips ads without enough history', () => {
+    const scores = scoreAdsFatigue({
+      fresh: days('2026-01-01', 3, steady),
+      tired: [...days('2026-01-01', 7, steady), ...days('2026-01-08', 7, wornOut)],
+    })
+    expect([...scores.keys()]).toEqual(['tired'])
+  })
+})
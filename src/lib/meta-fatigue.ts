@@ -0,0 +1,136 @@
+/**
+ * Creative Fatigue
+ *
+ * Scores each ad from its daily delivery: an ad is fatigued when the same
+ * people keep seeing it (frequency rising) while they stop engaging (CTR
+ * falling) and conversions get more expensive (CPA rising). The latest
+ * rolling window is compared with the one before it.
+ */
+
+import type { AdDailyInsight } from '@/lib/api-types'
+import { getPercentChange } from '@/lib/date-utils'
+
+/** Days in each rolling window */
+export const FATIGUE_WINDOW_DAYS = 7
+
+/** Days of history fetched per ad - enough for the trend chart and two windows */
+export const FATIGUE_LOOKBACK_DAYS = 28
+
+// Score (0-100) at which an ad is flagged
+const FATIGUE_THRESHOLD = 60
+
+// Below this many impressions in the latest window the ratios are too noisy to judge
+const MIN_WINDOW_IMPRESSIONS = 1000
+
+// Percent moves that count as a full-strength signal
+const FREQUENCY_RISE_FULL = 25
+const CTR_DROP_FULL = 25
+const CPA_RISE_FULL = 30
+
+export interface FatigueWindow {
+  /** Last day of the window */
+  date: string
+  impressions: number
+  frequency: number
+  /** Percent */
+  ctr: number
+  /** null when the window had no purchases */
+  cpa: number | null
+}
+
+export interface FatigueScore {
+  /** 0 (fresh) to 100 (worn out) */
+  score: number
+  isFatigued: boolean
+  frequencyChange: number
+  ctrChange: number
+  cpaChange: number | null
+  /** Human-readable signals, e.g. "CTR down 28%" */
+  reasons: string[]
+}
+
+function summarizeWindow(days: AdDailyInsight[]): FatigueWindow {
+  const total = days.reduce(
+    (sum, d) => ({
+      spend: sum.spend + d.spend,
+      impressions: sum.impressions + d.impressions,
+      reach: sum.reach + d.reach,
+      clicks: sum.clicks + d.clicks,
+      purchases: sum.purchases + d.purchases,
+    }),
+    { spend: 0, impressions: 0, reach: 0, clicks: 0, purchases: 0 }
+  )
+  return {
+    date: days[days.length - 1]?.date ?? '',
+    impressions: total.impressions,
+    frequency: total.reach > 0 ? total.impressions / total.reach : 0,
+    ctr: total.impressions > 0 ? (total.clicks / total.impressions) * 100 : 0,
+    cpa: total.purchases > 0 ? total.spend / total.purchases : null,
+  }
+}
+
+const byDate = (a: AdDailyInsight, b: AdDailyInsight) => a.date.localeCompare(b.date)
+
+/**
+ * Rolling-window frequency, CTR and CPA for each day that has a full window behind it
+ */
+export function getFatigueTrend(days: AdDailyInsight[], windowDays = FATIGUE_WINDOW_DAYS): FatigueWindow[] {
+  const sorted = [...days].sort(byDate)
+  const trend: FatigueWindow[] = []
+  for (let end = windowDays; end <= sorted.length; end++) {
+    trend.push(summarizeWindow(sorted.slice(end - windowDays, end)))
+  }
+  return trend
+}
+
+/**
+ * Score an ad by comparing its latest window with the one before
+ *
+ * @returns null when there isn't two windows of history yet
+ */
+export function scoreAdFatigue(days: AdDailyInsight[], windowDays = FATIGUE_WINDOW_DAYS): FatigueScore | null {
+  const sorted = [...days].sort(byDate)
+  if (sorted.length < windowDays * 2) return null
+
+  const recent = summarizeWindow(sorted.slice(-windowDays))
+  const prior = summarizeWindow(sorted.slice(-windowDays * 2, -windowDays))
+
+  const frequencyChange = getPercentChange(recent.frequency, prior.frequency)
+  const ctrChange = getPercentChange(recent.ctr, prior.ctr)
+  const cpaChange = recent.cpa !== null && prior.cpa !== null ? getPercentChange(recent.cpa, prior.cpa) : null
+
+  const strength = (change: number, full: number) => Math.min(Math.max(change / full, 0), 1)
+  const score = Math.round(
+    100 *
+      (0.3 * strength(frequencyChange, FREQUENCY_RISE_FULL) +
+        0.4 * strength(-ctrChange, CTR_DROP_FULL) +
+        0.3 * strength(cpaChange ?? 0, CPA_RISE_FULL))
+  )
+
+  const reasons: string[] = []
+  if (frequencyChange > 0) reasons.push(`Frequency up ${frequencyChange.toFixed(0)}%`)
+  if (ctrChange < 0) reasons.push(`CTR down ${Math.abs(ctrChange).toFixed(0)}%`)
+  if (cpaChange !== null && cpaChange > 0) reasons.push(`CPA up ${cpaChange.toFixed(0)}%`)
+
+  return {
+    score,
+    // Rising frequency is required - a CTR dip alone is more likely seasonality than fatigue
+    isFatigued: score >= FATIGUE_THRESHOLD && frequencyChange > 0 && recent.impressions >= MIN_WINDOW_IMPRESSIONS,
+    frequencyChange,
+    ctrChange,
+    cpaChange,
+    reasons,
+  }
+}
+
+/**
+ * Score every ad in a daily insights response
+ */
+export function scoreAdsFatigue(data: Record<string, AdDailyInsight[]>): Map<string, FatigueScore> {
+  const scores = new Map<string, FatigueScore>()
+  for (const [adId, days] of Object.entries(data)) {
+    const score = scoreAdFatigue(days)
+    if (score) scores.set(adId, score)
+  }
+  return scores
+}
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest'
+import { getAccountPacing, getCampaignPacing, getMonthProgress } from '@/lib/meta-pacing'
+import type { MonthProgress, PacingInput } from '@/lib/meta-pacing'
+
+const campaign = (overrides: Partial<PacingInput> = {}): PacingInput => ({
+  id: '1',
+  name: 'Prospecting',
+  status: 'ACTIVE',
+  dailyBudget: 10000,
+  todaySpend: 0,
+  monthSpend: 0,
+  ...overrides,
+})
+
+// Noon on the 11th of a 30-day month
+const midMonth: MonthProgress = { dayProgress: 0.5, elapsedDays: 10.5, daysInMonth: 30 }
+
+describe('getMonthProgress', () => {
+  it('counts the elapsed part of today', () => {
+    expect(getMonthProgress(new Date('2026-02-28T18:00:00Z'), 'UTC')).toEqual({
+      dayProgress: 0.75,
+      elapsedDays: 27.75,
+      daysInMonth: 28,
+    })
+  })
+
+  it('has 29 days in a leap February', () => {
+    expect(getMonthProgress(new Date('2024-02-29T06:00:00Z'), 'UTC')).toEqual({
+      dayProgress: 0.25,
+      elapsedDays: 28.25,
+      daysInMonth: 29,
+    })
+  })
+
+  it("follows the store's clock across a month boundary", () => {
+    // Already March in UTC, still the evening of Feb 28 in Chicago
+    expect(getMonthProgress(new Date('2026-03-01T03:00:00Z'), 'America/Chicago')).toEqual({
+      dayProgress: 0.875,
+      elapsedDays: 27.875,
+      daysInMonth: 28,
+    })
+  })
+
+  it('starts the month at zero', () => {
+    expect(getMonthProgress(new Date('2026-03-01T00:00:00Z'), 'UTC')).toEqual({
+      dayProgress: 0,
+      elapsedDays: 0,
+      daysInMonth: 31,
+    })
+  })
+})
+
+describe('getCampaignPacing', () => {
+  it('converts the budget to dollars and projects the run rate to month end', () => {
+    const pacing = getCampaignPacing(campaign({ todaySpend: 40, monthSpend: 1050 }), 15, midMonth)
+    expect(pacing).toMatchObject({
+      dailyBudget: 100,
+      todayExpected: 50,
+      monthExpected: 1050,
+      monthBudget: 3000,
+      projectedMonthSpend: 3000,
+      deviation: 0,
+      pacing: 'on_track',
+    })
+  })
+
+  it('flags campaigns off pace by more than the threshold', () => {
+    expect(getCampaignPacing(campaign({ monthSpend: 1365 }), 15, midMonth)).toMatchObject({ pacing: 'over' })
+    expect(getCampaignPacing(campaign({ monthSpend: 840 }), 15, midMonth)).toMatchObject({ pacing: 'under' })
+    expect(getCampaignPacing(campaign({ monthSpend: 840 }), 25, midMonth)).toMatchObject({ pacing: 'on_track' })
+  })
+
+  it('has no budget to pace paused campaigns or ad set budgets against', () => {
+    for (const input of [campaign({ status: 'PAUSED', monthSpend: 500 }), campaign({ dailyBudget: 0, monthSpend: 500 })]) {
+      expect(getCampaignPacing(input, 15, midMonth)).toMatchObject({
+        dailyBudget: null,
+        monthExpected: 0,
+        monthBudget: 0,
+        deviation: null,
+        pacing: 'no_budget',
+      })
+    }
+  })
+
+  it('is on track at the very start of the month', () => {
+    const pacing = getCampaignPacing(campaign(), 15, { dayProgress: 0, elapsedDays: 0, daysInMonth: 31 })
+    expect(pacing).toMatchObject({ projectedMonthSpend: 0, deviation: null, pacing: 'on_track' })
+  })
+})
+
+describe('getAccountPacing', () => {
+  it('is empty without campaigns', () => {
+    expect(getAccountPacing([])).toEqual({
+      todaySpend: 0,
+      todayExpected: 0,
+      monthSpend: 0,
+      monthExpected: 0,
+      monthBudget: 0,
+      projectedMonthSpend: 0,
+      deviation: null,
+      flagged: 0,
+    })
+  })
+
+  it('totals all spend but measures deviation on budgeted campaigns only', () => {
+    const account = getAccountPacing([
+      getCampaignPacing(campaign({ monthSpend: 1365 }), 15, midMonth),
+      getCampaignPacing(campaign({ id: '2', monthSpend: 1050 }), 15, midMonth),
+      getCampaignPacing(campaign({ id: '3', status: 'PAUSED', monthSpend: 600 }), 15, midMonth),
+    ])
+    expect(account.monthSpend).toBe(3015)
+    expect(account.monthExpected).toBe(2100)
+    expect(account.deviation).toBeCloseTo(15)
+    expect(account.flagged).toBe(1)
+  })
+})
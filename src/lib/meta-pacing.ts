@@ -0,0 +1,141 @@
+/**
+ * Meta Budget Pacing
+ *
+ * Compares each campaign's spend with what its daily budget should have
+ * delivered so far - today and month to date - and projects month-end spend
+ * from the month's run rate. Budgets come from Meta in cents; everything
+ * here is in dollars. "Now" is measured on the store's clock.
+ */
+
+import { getStoreTimezone, getStoreToday } from '@/lib/date-utils'
+
+export type PacingStatus = 'on_track' | 'under' | 'over' | 'no_budget'
+
+/** Thresholds (percent off the expected month-to-date spend) offered in settings */
+export const PACING_THRESHOLD_OPTIONS = [10, 15, 20, 25, 30]
+
+export interface PacingInput {
+  id: string
+  name: string
+  status: string
+  /** Cents; 0 when the budget lives on the ad sets or is a lifetime budget */
+  dailyBudget: number
+  todaySpend: number
+  monthSpend: number
+}
+
+export interface CampaignPacing {
+  id: string
+  name: string
+  status: string
+  /** Dollars, or null when the campaign has no daily budget */
+  dailyBudget: number | null
+  todaySpend: number
+  /** What the budget should have spent by now today */
+  todayExpected: number
+  monthSpend: number
+  monthExpected: number
+  /** Daily budget for every day of the month */
+  monthBudget: number
+  projectedMonthSpend: number
+  /** Percent above (+) or below (-) the expected month-to-date spend */
+  deviation: number | null
+  pacing: PacingStatus
+}
+
+export interface AccountPacing {
+  todaySpend: number
+  todayExpected: number
+  monthSpend: number
+  monthExpected: number
+  monthBudget: number
+  projectedMonthSpend: number
+  deviation: number | null
+  /** Campaigns off pace by more than the threshold */
+  flagged: number
+}
+
+export interface MonthProgress {
+  /** Share of today elapsed (0-1) */
+  dayProgress: number
+  /** Days elapsed this month, including today's fraction */
+  elapsedDays: number
+  daysInMonth: number
+}
+
+/**
+ * How far through today and this month the store is
+ */
+export function getMonthProgress(now: Date = new Date(), timezone: string = getStoreTimezone()): MonthProgress {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hour: 'numeric',
+    minute: 'numeric',
+    hourCycle: 'h23',
+  }).formatToParts(now)
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value)
+  const dayProgress = (part('hour') * 60 + part('minute')) / (24 * 60)
+
+  const today = getStoreToday(now, timezone)
+  const daysInMonth = new Date(today.getFullYear(), today.getMonth() + 1, 0).getDate()
+  return { dayProgress, elapsedDays: today.getDate() - 1 + dayProgress, daysInMonth }
+}
+
+function getPacingStatus(dailyBudget: number | null, deviation: number | null, threshold: number): PacingStatus {
+  if (dailyBudget === null) return 'no_budget'
+  // Nothing is expected yet at the very start of the month
+  if (deviation === null) return 'on_track'
+  if (deviation < -threshold) return 'under'
+  if (deviation > threshold) return 'over'
+  return 'on_track'
+}
+
+/**
+ * Pace one campaign against its daily budget
+ *
+ * @param threshold - Percent off the expected spend before a campaign is flagged
+ */
+export function getCampaignPacing(input: PacingInput, threshold: number, progress: MonthProgress): CampaignPacing {
+  const dailyBudget = input.status === 'ACTIVE' && input.dailyBudget > 0 ? input.dailyBudget / 100 : null
+  const runRate = progress.elapsedDays > 0 ? input.monthSpend / progress.elapsedDays : 0
+  const projectedMonthSpend = input.monthSpend + runRate * (progress.daysInMonth - progress.elapsedDays)
+
+  const monthExpected = dailyBudget !== null ? dailyBudget * progress.elapsedDays : 0
+  const deviation = dailyBudget !== null && monthExpected > 0 ? (input.monthSpend / monthExpected - 1) * 100 : null
+
+  return {
+    id: input.id,
+    name: input.name,
+    status: input.status,
+    dailyBudget,
+    todaySpend: input.todaySpend,
+    todayExpected: dailyBudget !== null ? dailyBudget * progress.dayProgress : 0,
+    monthSpend: input.monthSpend,
+    monthExpected,
+    monthBudget: dailyBudget !== null ? dailyBudget * progress.daysInMonth : 0,
+    projectedMonthSpend,
+    deviation,
+    pacing: getPacingStatus(dailyBudget, deviation, threshold),
+  }
+}
+
+/**
+ * Account totals - spend includes every campaign, budgets only active ones
+ */
+export function getAccountPacing(campaigns: CampaignPacing[]): AccountPacing {
+  const sum = (key: keyof Pick<CampaignPacing, 'todaySpend' | 'todayExpected' | 'monthSpend' | 'monthExpected' | 'monthBudget' | 'projectedMonthSpend'>) =>
+    campaigns.reduce((total, c) => total + c[key], 0)
+  const monthExpected = sum('monthExpected')
+  // Only campaigns with a budget can be ahead of or behind it
+  const budgetedSpend = campaigns.filter((c) => c.dailyBudget !== null).reduce((total, c) => total + c.monthSpend, 0)
+  return {
+    todaySpend: sum('todaySpend'),
+    todayExpected: sum('todayExpected'),
+    monthSpend: sum('monthSpend'),
+    monthExpected,
+    monthBudget: sum('monthBudget'),
+    projectedMonthSpend: sum('projectedMonthSpend'),
+    deviation: monthExpected > 0 ? (budgetedSpend / monthExpected - 1) * 100 : null,
+    flagged: campaigns.filter((c) => c.pacing === 'under' || c.pacing === 'over').length,
+  }
+}
@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest'
+import { conditionThreshold, describeRule, dryRunRule, evaluateRule, proposedBudget, windowMetrics } from '@/lib/meta-rules'
+import type { EntityDailyInsight, EntityDailyInsightsResponse, MetaRule } from '@/lib/api-types'
+
+const row = (date: string, spend: number, revenue: number, purchases = 1): EntityDailyInsight => ({
+  date,
+  spend,
+  impressions: 1000,
+  reach: 800,
+  clicks: 20,
+  linkClicks: 15,
+  purchases,
+  revenue,
+  addToCart: 0,
+  initiateCheckout: 0,
+  landingPageViews: 0,
+})
+
+const rule = (overrides: Partial<MetaRule> = {}): MetaRule => ({
+  id: 'r1',
+  name: 'Low ROAS',
+  level: 'campaign',
+  conditions: [
+    { metric: 'roas', operator: 'lt', value: 1.2 },
+    { metric: 'spend', operator: 'gt', value: 100 },
+  ],
+  lookbackDays: 3,
+  action: 'pause',
+  actionValue: 20,
+  enabled: true,
+  createdAt: '2026-01-01T00:00:00Z',
+  ...overrides,
+})
+
+const insights = (data: Record<string, EntityDailyInsight[]>): EntityDailyInsightsResponse => ({
+  entities: Object.keys(data).map((id) => ({ id, name: `Campaign ${id}`, status: 'ACTIVE', dailyBudget: 5000 })),
+  data,
+})
+
+describe('windowMetrics', () => {
+  it('counts calendar days, not rows, when days are missing', () => {
+    const days = [row('2026-02-25', 50, 100), row('2026-02-26', 50, 100), row('2026-03-01', 40, 20)]
+    expect(windowMetrics(days, '2026-03-01', 3)).toMatchObject({ spend: 40, revenue: 20 })
+  })
+
+  it('crosses a leap day', () => {
+    const days = [row('2024-02-27', 1, 0), row('2024-02-28', 10, 0), row('2024-02-29', 20, 0), row('2024-03-01', 30, 0)]
+    expect(windowMetrics(days, '2024-03-01', 3)?.spend).toBe(60)
+  })
+
+  it("is null until the entity's history reaches the start of the window", () => {
+    expect(windowMetrics([], '2026-03-01', 3)).toBeNull()
+    expect(windowMetrics([row('2026-02-28', 10, 0), row('2026-03-01', 10, 0)], '2026-03-01', 3)).toBeNull()
+  })
+})
+
+describe('conditionThreshold', () => {
+  it('is the value itself, or a percent away from the target', () => {
+    expect(conditionThreshold({ metric: 'roas', operator: 'lt', value: 1.2 })).toBe(1.2)
+    expect(conditionThreshold({ metric: 'cpa', operator: 'gt', value: 25, target: 40 })).toBe(50)
+  })
+})
+
+describe('evaluateRule', () => {
+  const data = insights({
+    losing: [row('2026-03-01', 60, 40), row('2026-03-02', 60, 40), row('2026-03-03', 60, 40)],
+    winning: [row('2026-03-01', 60, 200), row('2026-03-02', 60, 200), row('2026-03-03', 60, 200)],
+    idle: [row('2026-03-01', 0, 0), row('2026-03-02', 0, 0), row('2026-03-03', 0, 0)],
+  })
+
+  it('fires when every condition holds over the window', () => {
+    const hits = evaluateRule(rule(), data, '2026-03-03')
+    expect(hits.map((hit) => hit.entityId)).toEqual(['losing'])
+    expect(hits[0].metrics).toMatchObject({ spend: 180, revenue: 120 })
+  })
+
+  it('never fires without conditions or on entities without spend', () => {
+    expect(evaluateRule(rule({ conditions: [] }), data, '2026-03-03')).toEqual([])
+    // ROAS is 0 without spend, but there's nothing to judge
+    const hits = evaluateRule(rule({ conditions: [{ metric: 'roas', operator: 'lt', value: 1 }] }), data, '2026-03-03')
+    expect(hits.map((hit) => hit.entityId)).toEqual(['losing'])
+  })
+
+  it('treats a cost metric with nothing to divide by as unboundedly expensive', () => {
+    const noPurchases = insights({ a: [row('2026-03-01', 80, 0, 0)] })
+    const cpaRule = rule({ lookbackDays: 1, conditions: [{ metric: 'cpa', operator: 'gt', value: 50 }] })
+    expect(evaluateRule(cpaRule, noPurchases, '2026-03-01')).toHaveLength(1)
+  })
+})
+
+describe('dryRunRule', () => {
+  it('replays the rule over the last days that have data', () => {
+    const data = insights({
+      a: [
+        row('2026-02-26', 60, 10),
+        row('2026-02-27', 60, 10),
+        row('2026-02-28', 60, 10),
+        row('2026-03-01', 60, 500),
+        row('2026-03-02', 60, 10),
+      ],
+    })
+    const result = dryRunRule(rule(), data, '2026-03-02', 3)
+    expect(result.dates).toEqual(['2026-02-28', '2026-03-01', '2026-03-02'])
+    expect(result.entities).toEqual([{ entityId: 'a', entityName: 'Campaign a', hitDates: ['2026-02-28'] }])
+  })
+
+  it('is empty without data', () => {
+    expect(dryRunRule(rule(), { entities: [], data: {} }, '2026-03-02')).toEqual({ dates: [], entities: [] })
+  })
+})
+
+describe('proposedBudget', () => {
+  const hit = (overrides: Partial<MetaRule>, dailyBudget = 5000) => ({
+    rule: rule(overrides),
+    entityId: 'a',
+    entityName: 'A',
+    dailyBudget,
+    date: '2026-03-01',
+    metrics: windowMetrics([row('2026-03-01', 10, 10)], '2026-03-01', 1)!,
+  })
+
+  it('applies the percent change to the daily budget in dollars', () => {
+    expect(proposedBudget(hit({ action: 'increase_budget', actionValue: 20 }))).toBe(60)
+    expect(proposedBudget(hit({ action: 'decrease_budget', actionValue: 20 }))).toBe(40)
+  })
+
+  it('is null for other actions and entities without a budget of their own', () => {
+    expect(proposedBudget(hit({ action: 'pause' }))).toBeNull()
+    expect(proposedBudget(hit({ action: 'increase_budget' }, 0))).toBeNull()
+  })
+})
+
+describe('describeRule', () => {
+  it('reads as a sentence', () => {
+    expect(describeRule(rule())).toBe('If 3-day ROAS < 1.20x and Spend > $100, pause')
+  })
+})
@@ -0,0 +1,209 @@
+/**
+ * Meta Rules
+ *
+ * Automated rules like "if 3-day ROAS < 1.2 and spend > $100, flag for pause"
+ * evaluated against daily campaign, ad set and ad insights. Rules never act
+ * on their own - each hit waits in an inbox to be approved or dismissed.
+ */
+
+import type {
+  EntityDailyInsight,
+  EntityDailyInsightsResponse,
+  MetaRule,
+  MetaRuleAction,
+  MetaRuleCondition,
+  MetaRuleLevel,
+} from '@/lib/api-types'
+import { subDays } from 'date-fns'
+import { formatCurrency, parseISODateAsLocal, toISODateString } from '@/lib/date-utils'
+import { METRIC_COLUMNS, totalMetrics } from '@/lib/meta-columns'
+import type { MetaMetricKey, MetaMetricValues } from '@/lib/meta-columns'
+
+export interface RuleHit {
+  rule: MetaRule
+  entityId: string
+  entityName: string
+  /** Cents; 0 when the entity has no daily budget of its own */
+  dailyBudget: number
+  /** Last day of the lookback window the rule fired on */
+  date: string
+  /** The entity's metrics over the lookback window */
+  metrics: MetaMetricValues
+}
+
+/** A rule being created (no id yet) or edited */
+export type MetaRuleDraft = Omit<MetaRule, 'id' | 'createdAt'> & { id?: string }
+
+export interface DryRunEntity {
+  entityId: string
+  entityName: string
+  /** Days the rule would have fired on, oldest first */
+  hitDates: string[]
+}
+
+export interface DryRunResult {
+  /** Every day evaluated, oldest first */
+  dates: string[]
+  /** Entities the rule would have fired on at least once, most hits first */
+  entities: DryRunEntity[]
+}
+
+export const RULE_LEVELS: { value: MetaRuleLevel; label: string }[] = [
+  { value: 'campaign', label: 'Campaigns' },
+  { value: 'adset', label: 'Ad sets' },
+  { value: 'ad', label: 'Ads' },
+]
+
+export const RULE_ACTIONS: { value: MetaRuleAction; label: string }[] = [
+  { value: 'flag', label: 'Flag for review' },
+  { value: 'pause', label: 'Pause' },
+  { value: 'increase_budget', label: 'Increase budget' },
+  { value: 'decrease_budget', label: 'Decrease budget' },
+]
+
+export const RULE_LOOKBACK_OPTIONS = [1, 3, 7, 14]
+
+export const EMPTY_RULE_DRAFT: MetaRuleDraft = {
+  name: '',
+  level: 'campaign',
+  conditions: [{ metric: 'roas', operator: 'lt', value: 1 }],
+  lookbackDays: 7,
+  action: 'flag',
+  actionValue: 20,
+  enabled: true,
+}
+
+/** Days the dry run replays a rule over */
+export const DRY_RUN_DAYS = 30
+
+// Cost metrics divide by a count - with nothing to divide by they're
+// unboundedly expensive, not free
+const COST_METRICS: MetaMetricKey[] = ['cpa', 'cpc', 'cpcLink', 'cpm']
+
+const isBudgetAction = (action: MetaRuleAction) => action === 'increase_budget' || action === 'decrease_budget'
+
+// ============================================
+// EVALUATION
+// ============================================
+
+/**
+ * An entity's metrics over the `lookbackDays` calendar days ending on
+ * `endDate`. Days without a row (no delivery) count as zero.
+ *
+ * @returns null when the entity's history doesn't reach back to the start of the window
+ */
+export function windowMetrics(days: EntityDailyInsight[], endDate: string, lookbackDays: number): MetaMetricValues | null {
+  const startDate = toISODateString(subDays(parseISODateAsLocal(endDate), lookbackDays - 1))
+  if (!days.some((day) => day.date <= startDate)) return null
+  return totalMetrics(days.filter((day) => day.date >= startDate && day.date <= endDate))
+}
+
+/** The absolute value a condition compares against */
+export function conditionThreshold(condition: MetaRuleCondition): number {
+  return condition.target != null ? condition.target * (1 + condition.value / 100) : condition.value
+}
+
+function conditionHolds(condition: MetaRuleCondition, metrics: MetaMetricValues): boolean {
+  const key = condition.metric as MetaMetricKey
+  if (!(key in metrics)) return false
+  const actual = COST_METRICS.includes(key) && metrics[key] === 0 ? Infinity : metrics[key]
+  const threshold = conditionThreshold(condition)
+  return condition.operator === 'lt' ? actual < threshold : actual > threshold
+}
+
+/**
+ * The entities a rule fires on for the window ending on `date`. Entities
+ * without spend in the window are skipped - there's nothing to judge.
+ */
+export function evaluateRule(rule: MetaRule, insights: EntityDailyInsightsResponse, date: string): RuleHit[] {
+  if (rule.conditions.length === 0) return []
+
+  const hits: RuleHit[] = []
+  for (const entity of insights.entities) {
+    const metrics = windowMetrics(insights.data[entity.id] ?? [], date, rule.lookbackDays)
+    if (!metrics || metrics.spend === 0) continue
+    if (!rule.conditions.every((condition) => conditionHolds(condition, metrics))) continue
+    hits.push({ rule, entityId: entity.id, entityName: entity.name, dailyBudget: entity.dailyBudget, date, metrics })
+  }
+  return hits
+}
+
+/**
+ * Replays a rule over each of the last `days` days up to `endDate`, as if it
+ * had been running all along
+ */
+export function dryRunRule(
+  rule: MetaRule,
+  insights: EntityDailyInsightsResponse,
+  endDate: string,
+  days = DRY_RUN_DAYS
+): DryRunResult {
+  const allDates = new Set(Object.values(insights.data).flatMap((rows) => rows.map((row) => row.date)))
+  const dates = [...allDates].filter((date) => date <= endDate).sort().slice(-days)
+
+  const byEntity = new Map<string, DryRunEntity>()
+  for (const date of dates) {
+    for (const hit of evaluateRule(rule, insights, date)) {
+      const entity = byEntity.get(hit.entityId) ?? { entityId: hit.entityId, entityName: hit.entityName, hitDates: [] }
+      entity.hitDates.push(date)
+      byEntity.set(hit.entityId, entity)
+    }
+  }
+
+  return { dates, entities: [...byEntity.values()].sort((a, b) => b.hitDates.length - a.hitDates.length) }
+}
+
+/**
+ * The daily budget (dollars) approving a budget hit would set
+ *
+ * @returns null for other actions, or entities without a budget of their own
+ */
+export function proposedBudget(hit: RuleHit): number | null {
+  if (!isBudgetAction(hit.rule.action) || hit.dailyBudget <= 0) return null
+  const change = hit.rule.action === 'increase_budget' ? hit.rule.actionValue : -hit.rule.actionValue
+  return (hit.dailyBudget / 100) * (1 + change / 100)
+}
+
+// ============================================
+// DESCRIPTIONS
+// ============================================
+
+export function metricLabel(metric: string): string {
+  return METRIC_COLUMNS.find((column) => column.key === metric)?.label ?? metric
+}
+
+/** Formats a value the way its metric's column would */
+export function formatMetricValue(metric: string, value: number): string {
+  switch (METRIC_COLUMNS.find((column) => column.key === metric)?.format) {
+    case 'currency':
+      return value >= 10 ? formatCurrency(value) : `$${value.toFixed(2)}`
+    case 'ratio':
+      return `${value.toFixed(2)}x`
+    case 'percent':
+      return `${value.toFixed(2)}%`
+    case 'decimal':
+      return value.toFixed(2)
+    default:
+      return Math.round(value).toLocaleString()
+  }
+}
+
+/** e.g. "ROAS < 1.20x" or "CPA < $32.00 (20% below $40 target)" */
+export function describeCondition(condition: MetaRuleCondition): string {
+  const operator = condition.operator === 'lt' ? '<' : '>'
+  const threshold = `${metricLabel(condition.metric)} ${operator} ${formatMetricValue(condition.metric, conditionThreshold(condition))}`
+  if (condition.target == null) return threshold
+  const direction = condition.value < 0 ? 'below' : 'above'
+  return `${threshold} (${Math.abs(condition.value)}% ${direction} ${formatMetricValue(condition.metric, condition.target)} target)`
+}
+
+export function describeAction(rule: Pick<MetaRule, 'action' | 'actionValue'>): string {
+  const label = RULE_ACTIONS.find((a) => a.value === rule.action)?.label ?? rule.action
+  return isBudgetAction(rule.action) ? `${label} ${rule.actionValue}%` : label
+}
+
+/** e.g. "If 3-day ROAS < 1.20x and Spend > $100, pause" */
+export function describeRule(rule: MetaRule): string {
+  const conditions = rule.conditions.map(describeCondition).join(' and ') || 'no conditions'
+  return `If ${rule.lookbackDays}-day ${conditions}, ${describeAction(rule).toLowerCase()}`
+}
@@ -0,0 +1,119 @@
+/**
+ * Saved Meta Views
+ *
+ * Named layouts of the Meta campaigns table, persisted per user in the
+ * Supabase `meta_saved_views` table (supabase/migrations/*_meta_saved_views.sql).
+ *
+ * Read and written through the shared user store (see lib/user-store).
+ */
+
+import { supabase } from '@/config/supabase'
+import { DEFAULT_CAMPAIGN_COLUMNS } from '@/lib/meta-columns'
+import type { ComputedColumn } from '@/lib/meta-columns'
+import { createUserStore } from '@/lib/user-store'
+
+const VIEWS_TABLE = 'meta_saved_views'
+const CACHE_KEY_PREFIX = 'lg-meta-views:'
+
+export interface CampaignTableLayout {
+  /** Column ids in display order */
+  columns: string[]
+  computedColumns: ComputedColumn[]
+  sortField: string
+  sortDirection: 'asc' | 'desc'
+  hidePaused: boolean
+  attribution: string
+}
+
+export interface SavedView {
+  id: string
+  name: string
+  layout: CampaignTableLayout
+  updatedAt: string
+}
+
+export const DEFAULT_LAYOUT: CampaignTableLayout = {
+  columns: DEFAULT_CAMPAIGN_COLUMNS,
+  computedColumns: [],
+  sortField: 'spend',
+  sortDirection: 'desc',
+  hidePaused: false,
+  attribution: '7d_click',
+}
+
+/**
+ * Fills in fields missing from a stored layout (saved by an older version)
+ */
+function withDefaults(stored: Partial<CampaignTableLayout> | null | undefined): CampaignTableLayout {
+  return { ...DEFAULT_LAYOUT, ...stored }
+}
+
+/**
+ * Adds or replaces a view, keeping the list in name order
+ */
+export function withView(views: SavedView[], view: SavedView): SavedView[] {
+  return [...views.filter((v) => v.id !== view.id), view].sort((a, b) => a.name.localeCompare(b.name))
+}
+
+export const savedViewsStore = createUserStore<SavedView[]>({
+  label: 'saved views',
+  cacheKeyPrefix: CACHE_KEY_PREFIX,
+  empty: [],
+  fromCache: (views) => views.map((view) => ({ ...view, layout: withDefaults(view.layout) })),
+  fetch: async (userId) => {
+    const { data, error } = await supabase
+      .from(VIEWS_TABLE)
+      .select('id, name, layout, updated_at')
+      .eq('user_id', userId)
+      .order('name')
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    return (data ?? []).map((row) => ({
+      id: row.id as string,
+      name: row.name as string,
+      layout: withDefaults(row.layout as Partial<CampaignTableLayout>),
+      updatedAt: row.updated_at as string,
+    }))
+  },
+})
+
+/**
+ * Creates or overwrites a view
+ *
+ * @throws Error when Supabase rejects the write
+ */
+export function saveView(userId: string, view: SavedView): Promise<void> {
+  return savedViewsStore.save(
+    userId,
+    (views) => withView(views, view),
+    async () => {
+      const { error } = await supabase
+        .from(VIEWS_TABLE)
+        .upsert({ id: view.id, user_id: userId, name: view.name, layout: view.layout, updated_at: view.updatedAt })
+
+      if (error) {
+        throw new Error(error.message)
+      }
+    }
+  )
+}
+
+/**
+ * @throws Error when Supabase rejects the delete
+ */
+export function deleteSavedView(userId: string, viewId: string): Promise<void> {
+  return savedViewsStore.save(
+    userId,
+    (views) => views.filter((v) => v.id !== viewId),
+    async () => {
+      const { error } = await supabase.from(VIEWS_TABLE).delete().eq('id', viewId).eq('user_id', userId)
+
+      if (error) {
+        throw new Error(error.message)
+      }
+    }
+  )
+}
@@ -0,0 +1,2017 @@
+/**
+ * Mock API
+ *
+ * Answers every /api route the app calls with generated fixtures when demo
+ * mode is on (see demo.ts). Responses are real Response objects so apiFetch
+ * callers can't tell the difference. Writes (stock adjustments, scenarios,
+ * account toggles) mutate in-memory state for the rest of the session.
+ *
+ * Loaded lazily by apiFetch, so none of this ships in the normal bundle path.
+ */
+
+import {
+  addDays,
+  differenceInCalendarDays,
+  endOfYear,
+  format,
+  getQuarter,
+  startOfDay,
+  startOfWeek,
+  startOfYear,
+  subDays,
+  subMinutes,
+  subMonths,
+  startOfMonth,
+  endOfMonth,
+} from 'date-fns'
+import type { Account, AccountRole, MetaRule, MetaRuleDecision, Transaction } from '@/lib/api-types'
+import {
+  PRODUCTS,
+  createAccounts,
+  creativeThumbnail,
+  customerMetrics,
+  dailyMetric,
+  dayMetrics,
+  daysIn,
+  isPayrollDay,
+  isoDate,
+  noise,
+  overviewMetrics,
+  payrollAmount,
+  previousRange,
+  resolveMetaPreset,
+  resolveRange,
+  round2,
+  seededRandom,
+  sumDays,
+  transactionsInRange,
+} from '@/lib/demo-fixtures'
+import type { DayRange } from '@/lib/demo-fixtures'
+
+// ============================================
+// ROUTING
+// ============================================
+
+interface MockRequest {
+  method: string
+  query: URLSearchParams
+  params: Record<string, string>
+  body: Record<string, unknown>
+}
+
+type MockHandler = (request: MockRequest) => unknown
+
+interface MockRoute {
+  method: string
+  pattern: RegExp
+  keys: string[]
+  handler: MockHandler
+}
+
+/** Thrown by handlers to answer with an error status */
+class MockHttpError extends Error {
+  status: number
+
+  constructor(status: number, message: string) {
+    super(message)
+    this.name = 'MockHttpError'
+    this.status = status
+  }
+}
+
+const routes: MockRoute[] = []
+
+function route(method: string, path: string, handler: MockHandler) {
+  const keys: string[] = []
+  const source = path.replace(/:(\w+)/g, (_, key: string) => {
+    keys.push(key)
+    return '([^/]+)'
+  })
+  routes.push({ method, pattern: new RegExp(`^${source}$`), keys, handler })
+}
+
+function notFound(what: string): never {
+  throw new MockHttpError(404, `${what} not found`)
+}
+
+const MIN_LATENCY = 120
+const MAX_LATENCY = 380
+
+function delay(signal?: AbortSignal | null): Promise<void> {
+  const ms = MIN_LATENCY + Math.random() * (MAX_LATENCY - MIN_LATENCY)
+  return new Promise((resolve, reject) => {
+    const abort = () => {
+      clearTimeout(timer)
+      reject(new DOMException('The operation was aborted.', 'AbortError'))
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', abort)
+      resolve()
+    }, ms)
+    if (signal?.aborted) abort()
+    else signal?.addEventListener('abort', abort, { once: true })
+  })
+}
+
+function json(status: number, payload: unknown): Response {
+  return new Response(JSON.stringify(payload), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  })
+}
+
+/**
+ * Serves an API request from fixtures
+ *
+ * @param endpoint - Path and query, e.g. '/api/metrics/overview?range=7d'
+ * @param init - Method, JSON body and abort signal
+ * @returns A JSON response (404 for unknown routes)
+ */
+export async function mockFetch(endpoint: string, init: RequestInit = {}): Promise<Response> {
+  const url = new URL(endpoint, 'http://demo.local')
+  const method = (init.method || 'GET').toUpperCase()
+
+  await delay(init.signal)
+
+  const match = routes
+    .filter((r) => r.method === method)
+    .map((r) => ({ route: r, result: r.pattern.exec(url.pathname) }))
+    .find((m) => m.result)
+
+  if (!match?.result) {
+    return json(404, { error: `No demo data for ${method} ${url.pathname}` })
+  }
+
+  const params: Record<string, string> = {}
+  match.route.keys.forEach((key, i) => {
+    params[key] = decodeURIComponent(match.result![i + 1])
+  })
+
+  let body: Record<string, unknown> = {}
+  if (typeof init.body === 'string' && init.body) {
+    try {
+      body = JSON.parse(init.body)
+    } catch {
+      return json(400, { error: 'Invalid JSON body' })
+    }
+  }
+
+  try {
+    const payload = match.route.handler({ method, query: url.searchParams, params, body })
+    return json(200, payload ?? { success: true })
+  } catch (error) {
+    if (error instanceof MockHttpError) {
+      return json(error.status, { error: error.message })
+    }
+    console.error('[demo] Mock handler failed:', error)
+    return json(500, { error: 'Demo data generation failed' })
+  }
+}
+
+// ============================================
+// HELPERS
+// ============================================
+//
+// Mutable state (accounts, materials, scenarios) is created on first use,
+// so every demo session starts from the same data.
+
+function today(): Date {
+  return startOfDay(new Date())
+}
+
+const ratio = (a: number, b: number) => (b > 0 ? a / b : 0)
+
+// ============================================
+// METRICS (/api/metrics/*)
+// ============================================
+
+route('GET', '/api/metrics/overview', ({ query }) => overviewMetrics(resolveRange(query.get('range'))))
+
+route('GET', '/api/metrics/daily-metrics', ({ query }) => daysIn(resolveRange(query.get('range'))).map(dailyMetric))
+
+route('GET', '/api/metrics/revenue', ({ query }) => {
+  const t = sumDays(resolveRange(query.get('range')))
+  return {
+    grossSales: round2(t.grossSales),
+    netSales: round2(t.netSales),
+    totalSales: round2(t.totalSales),
+    discounts: round2(t.discounts),
+    returns: round2(t.returns),
+  }
+})
+
+route('GET', '/api/metrics/revenue-chart', ({ query }) =>
+  daysIn(resolveRange(query.get('range'))).map((day) => {
+    const m = dayMetrics(day)
+    return { date: format(day, 'MMM d'), revenue: m.netSales, orders: m.orders }
+  })
+)
+
+route('GET', '/api/metrics/customers-detailed', ({ query }) => customerMetrics(resolveRange(query.get('range'))))
+
+/** Revenue and orders per product for a range */
+function productSales(range: DayRange) {
+  const t = sumDays(range)
+  const key = `${isoDate(range.start)}:${isoDate(range.end)}`
+  return PRODUCTS.map((product) => {
+    const share = product.weight * noise(`product:${product.id}:${key}`, 0.85, 1.15)
+    const grossSales = t.grossSales * share
+    const netSales = t.netSales * share
+    const unitsSold = Math.max(0, Math.round(grossSales / product.price))
+    return {
+      product,
+      grossSales: round2(grossSales),
+      netSales: round2(netSales),
+      cogs: round2(unitsSold * product.cost),
+      unitsSold,
+      orders: Math.round(t.orders * share * 1.05),
+    }
+  })
+}
+
+route('GET', '/api/metrics/top-products', ({ query }) => {
+  const limit = Number(query.get('limit') || 10)
+  return productSales(resolveRange(query.get('range')))
+    .sort((a, b) => b.grossSales - a.grossSales)
+    .slice(0, limit)
+    .map((p) => ({ title: p.product.title, grossSales: p.grossSales, orders: p.orders }))
+})
+
+route('GET', '/api/metrics/product-categories', ({ query }) => {
+  const sales = productSales(resolveRange(query.get('range')))
+  const byCategory = new Map<string, { netSales: number; cogs: number; unitsSold: number; orderCount: number }>()
+  for (const p of sales) {
+    const entry = byCategory.get(p.product.category) ?? { netSales: 0, cogs: 0, unitsSold: 0, orderCount: 0 }
+    entry.netSales += p.netSales
+    entry.cogs += p.cogs
+    entry.unitsSold += p.unitsSold
+    entry.orderCount += p.orders
+    byCategory.set(p.product.category, entry)
+  }
+
+  const totalNet = sales.reduce((sum, p) => sum + p.netSales, 0)
+  const totalCogs = sales.reduce((sum, p) => sum + p.cogs, 0)
+  const categories = [...byCategory.entries()]
+    .map(([category, c]) => ({
+      category,
+      netSales: round2(c.netSales),
+      cogs: round2(c.cogs),
+      grossProfit: round2(c.netSales - c.cogs),
+      marginPercent: round2(ratio(c.netSales - c.cogs, c.netSales) * 100),
+      unitsSold: c.unitsSold,
+      orderCount: c.orderCount,
+      aov: round2(ratio(c.netSales, c.orderCount)),
+      percentOfTotal: round2(ratio(c.netSales, totalNet) * 100),
+    }))
+    .sort((a, b) => b.netSales - a.netSales)
+
+  return {
+    categories,
+    totals: {
+      netSales: round2(totalNet),
+      cogs: round2(totalCogs),
+      grossProfit: round2(totalNet - totalCogs),
+      marginPercent: round2(ratio(totalNet - totalCogs, totalNet) * 100),
+    },
+  }
+})
+
+route('GET', '/api/metrics/daily-kpis', ({ query }) => {
+  const page = Number(query.get('page') || 1)
+  const pageSize = Number(query.get('pageSize') || 25)
+  const days = daysIn(resolveRange(query.get('range'))).reverse()
+  const slice = days.slice((page - 1) * pageSize, page * pageSize)
+
+  const dailyKPIs = slice.map((day) => {
+    const m = dayMetrics(day)
+    const customers = m.newCustomers + m.returningCustomers
+    const contributionMargin = m.netSales - m.cogs - m.shipping - m.adSpend
+    return {
+      date: format(day, 'MMM d, yyyy'),
+      dateRaw: isoDate(day),
+      totalSales: m.totalSales,
+      netSales: m.netSales,
+      grossSales: m.grossSales,
+      orders: m.orders,
+      customers,
+      cogs: m.cogs,
+      adSpend: m.adSpend,
+      shipping: m.shipping,
+      returns: m.returns,
+      contributionMargin: round2(contributionMargin),
+      contributionMarginPercent: round2(ratio(contributionMargin, m.netSales) * 100),
+      aov: round2(ratio(m.netSales, m.orders)),
+      mer: round2(ratio(m.totalSales, m.adSpend)),
+      roas: round2(ratio(m.netSales, m.adSpend) * 0.68),
+      ncRoas: round2(ratio(m.netSales, m.adSpend) * 0.41),
+      cac: round2(ratio(m.adSpend, m.newCustomers)),
+      returningCustomerRate: round2(ratio(m.returningCustomers, customers) * 100),
+      cogsPercent: round2(ratio(m.cogs, m.netSales) * 100),
+      adSpendPercent: round2(ratio(m.adSpend, m.netSales) * 100),
+      shippingPercent: round2(ratio(m.shipping, m.netSales) * 100),
+      returnsPercent: round2(ratio(m.returns, m.grossSales) * 100),
+    }
+  })
+
+  return { dailyKPIs, hasMore: page * pageSize < days.length }
+})
+
+route('GET', '/api/metrics/cohort-analysis', ({ query }) => {
+  const months = Number(query.get('months') || 6)
+  const now = today()
+  const cohorts = Array.from({ length: months }, (_, i) => {
+    const start = startOfMonth(subMonths(now, months - 1 - i))
+    const end = endOfMonth(start) < now ? startOfDay(endOfMonth(start)) : now
+    const t = sumDays({ start, end })
+    const aov = ratio(t.netSales, t.orders)
+    const periodCount = months - i
+    const periods = Array.from({ length: periodCount }, (_, period) => {
+      const retention = period === 0 ? 1 : 0.24 * Math.pow(0.82, period - 1) * noise(`cohort:${isoDate(start)}:${period}`, 0.9, 1.1)
+      const customers = Math.round(t.newCustomers * retention)
+      const orders = Math.round(customers * (period === 0 ? 1.08 : 1.15))
+      return { period, revenue: round2(orders * aov), orders, customers }
+    })
+    const totalRevenue = periods.reduce((sum, p) => sum + p.revenue, 0)
+    return {
+      name: format(start, 'MMM yyyy'),
+      startDate: isoDate(start),
+      customerCount: t.newCustomers,
+      periods,
+      totalRevenue: round2(totalRevenue),
+      averageLTV: round2(ratio(totalRevenue, t.newCustomers)),
+    }
+  })
+
+  return {
+    cohorts,
+    periodLabels: Array.from({ length: months }, (_, i) => `Month ${i}`),
+    maxPeriods: months,
+  }
+})
+
+// ============================================
+// META (/api/meta/*)
+// ============================================
+
+interface MetaTotals {
+  spend: number
+  impressions: number
+  reach: number
+  clicks: number
+  linkClicks: number
+  purchases: number
+  revenue: number
+  addToCart: number
+  initiateCheckout: number
+  landingPageViews: number
+}
+
+// Revenue credited to ads under each window relative to 7-day click
+const ATTRIBUTION_FACTORS: Record<string, number> = {
+  '1d_click': 0.72,
+  '7d_click': 1,
+  '28d_click': 1.14,
+  '1d_view': 0.34,
+  '7d_view': 0.48,
+  '7d_click_1d_view': 1.22,
+}
+
+// How much of an entity's result rests on view-through varies - broad
+// prospecting leans on it far more than retargeting does
+function attributionFactor(attribution: string, entityId: string): number {
+  const factor = ATTRIBUTION_FACTORS[attribution] ?? 1
+  if (!attribution.includes('view')) return factor
+  const viewReliance = noise(`view-through:${entityId}`, 0.4, 1.8)
+  return attribution.includes('click') ? 1 + (factor - 1) * viewReliance : factor * viewReliance
+}
+
+function metaDay(date: Date, attribution: string): MetaTotals {
+  const m = dayMetrics(date)
+  const random = seededRandom(`meta:${isoDate(date)}`)
+  const factor = ATTRIBUTION_FACTORS[attribution] ?? 1
+  const impressions = (m.adSpend / (14 + random() * 7)) * 1000
+  const clicks = impressions * (0.012 + random() * 0.008)
+  const linkClicks = clicks * 0.68
+  const landingPageViews = linkClicks * 0.82
+  const addToCart = landingPageViews * (0.09 + random() * 0.04)
+  return {
+    spend: m.adSpend,
+    impressions,
+    reach: impressions / (1.5 + random() * 0.6),
+    clicks,
+    linkClicks,
+    landingPageViews,
+    addToCart,
+    initiateCheckout: addToCart * 0.52,
+    purchases: m.orders * 0.48 * factor,
+    revenue: m.netSales * 0.52 * factor,
+  }
+}
+
+function emptyTotals(): MetaTotals {
+  return {
+    spend: 0,
+    impressions: 0,
+    reach: 0,
+    clicks: 0,
+    linkClicks: 0,
+    purchases: 0,
+    revenue: 0,
+    addToCart: 0,
+    initiateCheckout: 0,
+    landingPageViews: 0,
+  }
+}
+
+function metaTotals(range: DayRange, attribution: string): MetaTotals {
+  const total = emptyTotals()
+  for (const day of daysIn(range)) {
+    const d = metaDay(day, attribution)
+    for (const key of Object.keys(total) as (keyof MetaTotals)[]) {
+      total[key] += d[key]
+    }
+  }
+  return total
+}
+
+/** Rounds raw totals and derives the rate metrics */
+function metaMetrics(t: MetaTotals) {
+  const impressions = Math.round(t.impressions)
+  const clicks = Math.round(t.clicks)
+  const linkClicks = Math.round(t.linkClicks)
+  const purchases = Math.round(t.purchases)
+  const reach = Math.round(t.reach)
+  return {
+    spend: round2(t.spend),
+    impressions,
+    reach,
+    frequency: round2(ratio(impressions, reach)),
+    clicks,
+    linkClicks,
+    cpm: round2(ratio(t.spend, impressions) * 1000),
+    ctr: round2(ratio(clicks, impressions) * 100),
+    linkCtr: round2(ratio(linkClicks, impressions) * 100),
+    cpc: round2(ratio(t.spend, clicks)),
+    cpcLink: round2(ratio(t.spend, linkClicks)),
+    purchases,
+    revenue: round2(t.revenue),
+    roas: round2(ratio(t.revenue, t.spend)),
+    cpa: round2(ratio(t.spend, purchases)),
+    addToCart: Math.round(t.addToCart),
+    initiateCheckout: Math.round(t.initiateCheckout),
+    landingPageViews: Math.round(t.landingPageViews),
+  }
+}
+
+/** Scales account totals to an entity's share of spend and relative efficiency */
+function entityMetrics(t: MetaTotals, share: number, efficiency: number) {
+  const scaled = emptyTotals()
+  for (const key of Object.keys(t) as (keyof MetaTotals)[]) {
+    scaled[key] = t[key] * share
+  }
+  scaled.purchases *= efficiency
+  scaled.revenue *= efficiency
+  scaled.addToCart *= efficiency
+  scaled.initiateCheckout *= efficiency
+  return metaMetrics(scaled)
+}
+
+interface DemoAd {
+  id: string
+  name: string
+  status: string
+  campaignId: string
+  adsetId: string
+  share: number
+  efficiency: number
+  title: string
+  body: string
+  cta: string
+  hasVideo: boolean
+  createdTime: string
+}
+
+interface DemoAdSet {
+  id: string
+  name: string
+  status: string
+  campaignId: string
+  dailyBudget: number
+  share: number
+  efficiency: number
+  ads: DemoAd[]
+}
+
+interface DemoCampaign {
+  id: string
+  name: string
+  status: string
+  objective: string
+  dailyBudget: number
+  lifetimeBudget: number
+  share: number
+  efficiency: number
+  createdTime: string
+  adsets: DemoAdSet[]
+}
+
+const CAMPAIGN_SPECS = [
+  { name: 'Prospecting | Advantage+ Shopping', objective: 'OUTCOME_SALES', status: 'ACTIVE', share: 0.36, efficiency: 1.12, audiences: ['Broad US', 'Broad CA'] },
+  { name: 'Prospecting | Interest Stack', objective: 'OUTCOME_SALES', status: 'ACTIVE', share: 0.18, efficiency: 0.94, audiences: ['Sustainable Fashion', 'Linen & Natural Fibers', 'Slow Living'] },
+  { name: 'Retargeting | Site Visitors 30d', objective: 'OUTCOME_SALES', status: 'ACTIVE', share: 0.14, efficiency: 1.58, audiences: ['ATC 14d', 'Viewed Content 30d'] },
+  { name: 'Prospecting | Lookalike 1%', objective: 'OUTCOME_SALES', status: 'ACTIVE', share: 0.16, efficiency: 1.03, audiences: ['LAL Purchasers 1%', 'LAL High AOV 1%'] },
+  { name: 'Creative Testing | Q-Rotation', objective: 'OUTCOME_SALES', status: 'ACTIVE', share: 0.09, efficiency: 0.81, audiences: ['Broad Test A', 'Broad Test B', 'Broad Test C'] },
+  { name: 'Brand Awareness | Video Views', objective: 'OUTCOME_AWARENESS', status: 'PAUSED', share: 0.04, efficiency: 0.32, audiences: ['Broad 25-54'] },
+  { name: 'Holiday Gift Guide', objective: 'OUTCOME_SALES', status: 'PAUSED', share: 0.03, efficiency: 1.21, audiences: ['Gifting Intent', 'Past Purchasers'] },
+]
+
+const AD_CONCEPTS = [
+  { name: 'UGC Try-On 15s', title: 'The tee you will live in', body: 'Breathable linen that softens with every wash. Free shipping over $75.', cta: 'SHOP_NOW', hasVideo: true },
+  { name: 'Founder Story 45s', title: 'Made slowly, on purpose', body: 'Small batches from family-run mills. Meet the people behind your wardrobe.', cta: 'LEARN_MORE', hasVideo: true },
+  { name: 'Flat Lay Carousel', title: 'Build your summer capsule', body: 'Five pieces, endless outfits. Mix and match the new collection.', cta: 'SHOP_NOW', hasVideo: false },
+  { name: 'Review Quote', title: '"Softest thing I own"', body: 'Join 40,000+ customers who made the switch to natural fibers.', cta: 'SHOP_NOW', hasVideo: false },
+  { name: 'Offer Static', title: '15% off your first order', body: 'Welcome to slower fashion. Code applied automatically at checkout.', cta: 'GET_OFFER', hasVideo: false },
+  { name: 'Behind the Seams 30s', title: 'Every stitch, accounted for', body: 'See how your dress is made, from flax field to finished hem.', cta: 'WATCH_MORE', hasVideo: true },
+]
+
+let metaTree: DemoCampaign[] | null = null
+
+/** Campaign > ad set > ad hierarchy, built once per session */
+function campaigns(): DemoCampaign[] {
+  if (metaTree) return metaTree
+
+  metaTree = CAMPAIGN_SPECS.map((spec, c) => {
+    const campaignId = `2385000000${c + 1}`
+    const random = seededRandom(`campaign:${campaignId}`)
+    const created = subDays(today(), 30 + Math.floor(random() * 300)).toISOString()
+    // Budget relative to actual delivery, so some campaigns run under or over pace
+    const pacing = noise(`pacing:${campaignId}`, 0.8, 1.3)
+    const adsetShares = spec.audiences.map(() => 0.5 + random())
+    const adsetTotal = adsetShares.reduce((a, b) => a + b, 0)
+
+    const adsets = spec.audiences.map((audience, s): DemoAdSet => {
+      const adsetId = `${campaignId}0${s + 1}`
+      const adCount = 2 + Math.floor(random() * 3)
+      const adShares = Array.from({ length: adCount }, () => 0.3 + random())
+      const adTotal = adShares.reduce((a, b) => a + b, 0)
+      const adsetShare = (spec.share * adsetShares[s]) / adsetTotal
+      const adsetEfficiency = spec.efficiency * (0.85 + random() * 0.3)
+
+      const ads = adShares.map((adShare, a): DemoAd => {
+        const concept = AD_CONCEPTS[(c + s + a) % AD_CONCEPTS.length]
+        return {
+          id: `${adsetId}0${a + 1}`,
+          name: `${concept.name} | ${audience} | v${a + 1}`,
+          status: spec.status === 'PAUSED' || random() < 0.15 ? 'PAUSED' : 'ACTIVE',
+          campaignId,
+          adsetId,
+          share: (adsetShare * adShare) / adTotal,
+          efficiency: adsetEfficiency * (0.7 + random() * 0.6),
+          title: concept.title,
+          body: concept.body,
+          cta: concept.cta,
+          hasVideo: concept.hasVideo,
+          createdTime: subDays(today(), Math.floor(random() * 60)).toISOString(),
+        }
+      })
+
+      return {
+        id: adsetId,
+        name: `${audience} | ${spec.objective === 'OUTCOME_SALES' ? 'Purchase' : 'ThruPlay'}`,
+        status: spec.status,
+        campaignId,
+        // Budgets are in cents, like the Marketing API
+        dailyBudget: Math.round((spec.share * 1700 * pacing) / spec.audiences.length / 5) * 500,
+        share: adsetShare,
+        efficiency: adsetEfficiency,
+        ads,
+      }
+    })
+
+    return {
+      id: campaignId,
+      name: spec.name,
+      status: spec.status,
+      objective: spec.objective,
+      dailyBudget: Math.round((spec.share * 1700 * pacing) / 10) * 1000,
+      lifetimeBudget: 0,
+      share: spec.share,
+      efficiency: spec.efficiency,
+      createdTime: created,
+      adsets,
+    }
+  })
+  return metaTree
+}
+
+type MetricsRow = { metrics: ReturnType<typeof metaMetrics> }
+
+function sortByMetric<T extends MetricsRow>(rows: T[], field: string | null, direction: string | null): T[] {
+  const key = (field || 'spend') as keyof MetricsRow['metrics']
+  const sign = direction === 'asc' ? 1 : -1
+  return [...rows].sort((a, b) => sign * ((a.metrics[key] ?? 0) - (b.metrics[key] ?? 0)))
+}
+
+route('GET', '/api/meta/overview', ({ query }) => {
+  // since/until (YYYY-MM-DD) override the preset, e.g. for year-over-year windows
+  const since = query.get('since')
+  const until = query.get('until')
+  const range = since && until ? resolveRange(`custom:${since}:${until}`) : resolveMetaPreset(query.get('datePreset'))
+  const attribution = query.get('attribution') || '7d_click'
+  return {
+    kpis: metaMetrics(metaTotals(range, attribution)),
+    previousKpis: metaMetrics(metaTotals(previousRange(range), attribution)),
+    timeSeries: daysIn(range).map((day) => ({ date: isoDate(day), ...metaMetrics(metaDay(day, attribution)) })),
+    configured: true,
+  }
+})
+
+route('GET', '/api/meta/entities', ({ query }) => {
+  const totals = metaTotals(resolveMetaPreset(query.get('datePreset')), query.get('attribution') || '7d_click')
+  const limit = Number(query.get('limit') || 50)
+  const campaignId = query.get('campaignId')
+
+  if (query.get('level') === 'adset') {
+    const adsets = campaigns()
+      .filter((c) => !campaignId || c.id === campaignId)
+      .flatMap((c) => c.adsets)
+      .map((s) => ({
+        id: s.id,
+        name: s.name,
+        status: s.status,
+        campaignId: s.campaignId,
+        dailyBudget: s.dailyBudget,
+        lifetimeBudget: 0,
+        metrics: entityMetrics(totals, s.share, s.efficiency),
+      }))
+    return { data: sortByMetric(adsets, query.get('sortField'), query.get('sortDirection')).slice(0, limit) }
+  }
+
+  const rows = campaigns().map((c) => ({
+    id: c.id,
+    name: c.name,
+    status: c.status,
+    objective: c.objective,
+    dailyBudget: c.dailyBudget,
+    lifetimeBudget: c.lifetimeBudget,
+    createdTime: c.createdTime,
+    updatedTime: c.createdTime,
+    metrics: entityMetrics(totals, c.share, c.efficiency),
+  }))
+  return { data: sortByMetric(rows, query.get('sortField'), query.get('sortDirection')).slice(0, limit) }
+})
+
+route('GET', '/api/meta/ads', ({ query }) => {
+  const totals = metaTotals(resolveMetaPreset(query.get('datePreset')), query.get('attribution') || '7d_click')
+  const limit = Number(query.get('limit') || 100)
+  const campaignId = query.get('campaignId')
+  const statuses = query.get('status')?.split(',').filter(Boolean) ?? []
+  const search = query.get('search')?.toLowerCase()
+
+  const ads = campaigns()
+    .filter((c) => !campaignId || c.id === campaignId)
+    .flatMap((c) => c.adsets.flatMap((s) => s.ads))
+    .filter((ad) => statuses.length === 0 || statuses.includes(ad.status))
+    .filter((ad) => !search || ad.name.toLowerCase().includes(search))
+    .map((ad) => ({
+      id: ad.id,
+      name: ad.name,
+      status: ad.status,
+      campaignId: ad.campaignId,
+      adsetId: ad.adsetId,
+      createdTime: ad.createdTime,
+      updatedTime: ad.createdTime,
+      creative: {
+        id: `cr-${ad.id}`,
+        thumbnailUrl: creativeThumbnail(ad.id, ad.name.split(' | ')[0]),
+        title: ad.title,
+        body: ad.body,
+        cta: ad.cta,
+        linkUrl: 'https://demo-goods.example.com/collections/new',
+        hasVideo: ad.hasVideo,
+      },
+      metrics: entityMetrics(totals, ad.share, ad.efficiency),
+    }))
+
+  return { data: sortByMetric(ads, query.get('sortField'), query.get('sortDirection')).slice(0, limit) }
+})
+
+// [value, label, share of spend, relative efficiency]
+const META_BREAKDOWN_SEGMENTS: Record<string, [string, string, number, number][]> = {
+  age: [
+    ['18-24', '18-24', 0.12, 0.68],
+    ['25-34', '25-34', 0.31, 1.04],
+    ['35-44', '35-44', 0.27, 1.16],
+    ['45-54', '45-54', 0.17, 1.02],
+    ['55-64', '55-64', 0.09, 0.88],
+    ['65+', '65+', 0.04, 0.76],
+  ],
+  gender: [
+    ['female', 'Female', 0.64, 1.1],
+    ['male', 'Male', 0.33, 0.82],
+    ['unknown', 'Unknown', 0.03, 0.7],
+  ],
+  region: [
+    ['New York', 'New York', 0.22, 1.12],
+    ['California', 'California', 0.18, 1.05],
+    ['Texas', 'Texas', 0.09, 0.86],
+    ['Florida', 'Florida', 0.08, 0.91],
+    ['Illinois', 'Illinois', 0.06, 0.97],
+    ['Massachusetts', 'Massachusetts', 0.05, 1.18],
+    ['other', 'Other regions', 0.32, 0.93],
+  ],
+  publisher_platform: [
+    ['facebook', 'Facebook', 0.46, 0.98],
+    ['instagram', 'Instagram', 0.49, 1.09],
+    ['audience_network', 'Audience Network', 0.05, 0.42],
+  ],
+  platform_position: [
+    ['feed', 'Feed', 0.52, 1.1],
+    ['story', 'Stories', 0.2, 0.9],
+    ['reels', 'Reels', 0.2, 0.96],
+    ['marketplace', 'Marketplace', 0.04, 0.72],
+    ['right_hand_column', 'Right column', 0.04, 0.48],
+  ],
+}
+
+route('GET', '/api/meta/breakdowns', ({ query }) => {
+  const breakdown = query.get('breakdown') || 'age'
+  const segments = META_BREAKDOWN_SEGMENTS[breakdown]
+  if (!segments) throw new MockHttpError(400, `Unsupported breakdown: ${breakdown}`)
+
+  const id = query.get('id')
+  const tree = campaigns()
+  const entity =
+    query.get('level') === 'ad'
+      ? tree.flatMap((c) => c.adsets.flatMap((s) => s.ads)).find((ad) => ad.id === id)
+      : tree.find((c) => c.id === id)
+  if (!entity) notFound('Entity')
+
+  const totals = metaTotals(resolveMetaPreset(query.get('datePreset')), query.get('attribution') || '7d_click')
+  const rows = segments.map(([value, label, share, efficiency]) => {
+    // Engagement varies by segment too, not just conversion
+    const engagement = noise(`breakdown-ctr:${breakdown}:${value}`, 0.75, 1.3)
+    const scaled = { ...totals, clicks: totals.clicks * engagement, linkClicks: totals.linkClicks * engagement }
+    const m = entityMetrics(scaled, entity.share * share, entity.efficiency * efficiency)
+    return { value, label, spend: m.spend, revenue: m.revenue, purchases: m.purchases, impressions: m.impressions, clicks: m.clicks, roas: m.roas, cpa: m.cpa, ctr: m.ctr }
+  })
+
+  return { breakdown, rows }
+})
+
+const ATTRIBUTION_COMPARISON_WINDOWS = ['1d_click', '7d_click', '7d_click_1d_view']
+
+route('GET', '/api/meta/attribution', ({ query }) => {
+  const windows = query.get('windows')?.split(',').filter(Boolean) ?? ATTRIBUTION_COMPARISON_WINDOWS
+  const unsupported = windows.find((w) => !(w in ATTRIBUTION_FACTORS))
+  if (unsupported) throw new MockHttpError(400, `Unsupported attribution window: ${unsupported}`)
+
+  const campaignId = query.get('campaignId')
+  const id = query.get('id')
+  const tree = campaigns().filter((c) => !campaignId || c.id === campaignId)
+  // Ads follow their campaign's view-through reliance so the two levels agree
+  const entities =
+    query.get('level') === 'ad'
+      ? tree.flatMap((c) => c.adsets.flatMap((s) => s.ads)).map((ad) => ({ ...ad, viewKey: ad.campaignId }))
+      : tree.map((c) => ({ ...c, viewKey: c.id }))
+
+  const totals = metaTotals(resolveMetaPreset(query.get('datePreset')), '7d_click')
+  const data: Record<string, Record<string, { purchases: number; revenue: number; roas: number; cpa: number }>> = {}
+  for (const entity of entities.filter((e) => !id || e.id === id)) {
+    data[entity.id] = Object.fromEntries(
+      windows.map((w) => {
+        const m = entityMetrics(totals, entity.share, entity.efficiency * attributionFactor(w, entity.viewKey))
+        return [w, { purchases: m.purchases, revenue: m.revenue, roas: m.roas, cpa: m.cpa }]
+      })
+    )
+  }
+
+  return { windows, data }
+})
+
+// Roughly one ad in five has been running to the same people for too long
+function isFatiguedDemoAd(adId: string) {
+  return noise(`fatigue:${adId}`) < 0.2
+}
+
+route('GET', '/api/meta/ads/daily', ({ query }) => {
+  const range = resolveRange(`${Number(query.get('days') || 28)}d`)
+  const attribution = query.get('attribution') || '7d_click'
+  const days = daysIn(range)
+  const accountDays = days.map((day) => metaDay(day, attribution))
+
+  const data: Record<string, object[]> = {}
+  for (const ad of campaigns().flatMap((c) => c.adsets.flatMap((s) => s.ads))) {
+    const fatigued = isFatiguedDemoAd(ad.id)
+    data[ad.id] = days.map((day, i) => {
+      // 0 at the start of the range, 1 today - fatigue builds over the window
+      const wear = fatigued ? i / Math.max(days.length - 1, 1) : 0
+      const t = accountDays[i]
+      const impressions = t.impressions * ad.share
+      const clicks = t.clicks * ad.share * (1 - 0.45 * wear)
+      return {
+        date: isoDate(day),
+        spend: round2(t.spend * ad.share),
+        impressions: Math.round(impressions),
+        reach: Math.round((t.reach * ad.share) / (1 + 0.9 * wear)),
+        clicks: Math.round(clicks),
+        purchases: Math.round(t.purchases * ad.share * ad.efficiency * (1 - 0.5 * wear)),
+      }
+    })
+  }
+  return { data }
+})
+
+route('GET', '/api/meta/insights/daily', ({ query }) => {
+  const days = daysIn(resolveRange(`${Number(query.get('days') || 30)}d`))
+  const attribution = query.get('attribution') || '7d_click'
+  const accountDays = days.map((day) => metaDay(day, attribution))
+  const level = query.get('level') || 'campaign'
+  const campaignId = query.get('campaignId')
+  const tree = campaigns().filter((c) => !campaignId || c.id === campaignId)
+  const entities =
+    level === 'ad'
+      ? tree.flatMap((c) => c.adsets.flatMap((s) => s.ads)).map((ad) => ({ ...ad, dailyBudget: 0 }))
+      : level === 'adset'
+        ? tree.flatMap((c) => c.adsets)
+        : tree.map((c) => ({ ...c, campaignId: undefined }))
+
+  const data: Record<string, object[]> = {}
+  for (const entity of entities) {
+    // Performance drifts in and out of good runs, so rules fire on some days and not others
+    const phase = noise(`rule-phase:${entity.id}`) * Math.PI * 2
+    data[entity.id] = days.map((day, i) => {
+      const t = accountDays[i]
+      const delivery = entity.share * noise(`rule-delivery:${entity.id}:${isoDate(day)}`, 0.75, 1.25)
+      const efficiency = entity.efficiency * (1 + 0.35 * Math.sin(i / 9 + phase))
+      return {
+        date: isoDate(day),
+        spend: round2(t.spend * delivery),
+        impressions: Math.round(t.impressions * delivery),
+        reach: Math.round(t.reach * delivery),
+        clicks: Math.round(t.clicks * delivery),
+        linkClicks: Math.round(t.linkClicks * delivery),
+        purchases: Math.round(t.purchases * delivery * efficiency),
+        revenue: round2(t.revenue * delivery * efficiency),
+        addToCart: Math.round(t.addToCart * delivery * efficiency),
+        initiateCheckout: Math.round(t.initiateCheckout * delivery * efficiency),
+        landingPageViews: Math.round(t.landingPageViews * delivery),
+      }
+    })
+  }
+
+  return {
+    entities: entities.map((e) => ({ id: e.id, name: e.name, status: e.status, campaignId: e.campaignId, dailyBudget: e.dailyBudget })),
+    data,
+  }
+})
+
+// ============================================
+// META RULES (/api/meta/rules*)
+// ============================================
+//
+// Rules and decisions are stored server-side; approving a hit only records
+// it - the demo never calls Meta.
+
+let metaRuleState: { rules: MetaRule[]; decisions: MetaRuleDecision[]; nextId: number } | null = null
+
+function metaRules() {
+  if (!metaRuleState) {
+    const createdAt = subDays(today(), 21).toISOString()
+    metaRuleState = {
+      rules: [
+        {
+          id: 'demo-rule-1',
+          name: 'Pause losing ads',
+          level: 'ad',
+          conditions: [
+            { metric: 'roas', operator: 'lt', value: 1.2 },
+            { metric: 'spend', operator: 'gt', value: 100 },
+          ],
+          lookbackDays: 3,
+          action: 'pause',
+          actionValue: 0,
+          enabled: true,
+          createdAt,
+        },
+        {
+          id: 'demo-rule-2',
+          name: 'Scale efficient campaigns',
+          level: 'campaign',
+          conditions: [{ metric: 'cpa', operator: 'lt', value: -20, target: 40 }],
+          lookbackDays: 7,
+          action: 'increase_budget',
+          actionValue: 20,
+          enabled: true,
+          createdAt,
+        },
+      ],
+      decisions: [],
+      nextId: 3,
+    }
+  }
+  return metaRuleState
+}
+
+function findMetaRule(id: string): MetaRule {
+  return metaRules().rules.find((r) => r.id === id) ?? notFound('Rule')
+}
+
+route('GET', '/api/meta/rules', () => metaRules())
+
+route('POST', '/api/meta/rules', ({ body }) => {
+  const state = metaRules()
+  const rule: MetaRule = {
+    name: 'New rule',
+    level: 'campaign',
+    conditions: [],
+    lookbackDays: 7,
+    action: 'flag',
+    actionValue: 0,
+    enabled: true,
+    ...(body as Partial<MetaRule>),
+    id: `demo-rule-${state.nextId++}`,
+    createdAt: new Date().toISOString(),
+  }
+  state.rules.push(rule)
+  return { rule }
+})
+
+route('PATCH', '/api/meta/rules/:id', ({ params, body }) => {
+  const rule = findMetaRule(params.id)
+  Object.assign(rule, body, { id: rule.id, createdAt: rule.createdAt })
+  return { rule }
+})
+
+route('DELETE', '/api/meta/rules/:id', ({ params }) => {
+  const state = metaRules()
+  findMetaRule(params.id)
+  state.rules = state.rules.filter((r) => r.id !== params.id)
+  return { success: true }
+})
+
+route('POST', '/api/meta/rules/decisions', ({ body }) => {
+  const { ruleId, entityId, date, decision } = body as Partial<MetaRuleDecision>
+  if (!ruleId || !entityId || !date || (decision !== 'approved' && decision !== 'dismissed')) {
+    throw new MockHttpError(400, 'ruleId, entityId, date and decision are required')
+  }
+  findMetaRule(ruleId)
+  const state = metaRules()
+  const recorded: MetaRuleDecision = { ruleId, entityId, date, decision, decidedAt: new Date().toISOString() }
+  state.decisions = [
+    ...state.decisions.filter((d) => !(d.ruleId === ruleId && d.entityId === entityId && d.date === date)),
+    recorded,
+  ]
+  return { decision: recorded }
+})
+
+route('POST', '/api/meta/refresh', () => ({ success: true }))
+
+route('GET', '/api/meta/billing', () => ({ balance: 1842.16, currency: 'USD', configured: true }))
+
+// ============================================
+// FINANCE (/api/finance/*)
+// ============================================
+
+let accountState: { enabled: Account[]; disabled: Account[] } | null = null
+
+function accounts() {
+  if (!accountState) accountState = createAccounts()
+  return accountState
+}
+
+function moveAccount(accountId: unknown, from: Account[], to: Account[]) {
+  const index = from.findIndex((a) => a.account_id === accountId)
+  if (index < 0) notFound('Account')
+  to.push(...from.splice(index, 1))
+}
+
+/** Most specific Plaid category, used for filtering */
+function primaryCategory(transaction: Transaction): string {
+  return transaction.category[transaction.category.length - 1]
+}
+
+route('GET', '/api/finance/status', () => ({ configured: true }))
+
+route('GET', '/api/finance/accounts', () => ({ accounts: accounts().enabled }))
+
+route('GET', '/api/finance/disabled-accounts', () => ({ accounts: accounts().disabled }))
+
+route('POST', '/api/finance/unlink-account', ({ body }) => {
+  moveAccount(body.accountId, accounts().enabled, accounts().disabled)
+  return { success: true }
+})
+
+route('POST', '/api/finance/enable-account', ({ body }) => {
+  moveAccount(body.accountId, accounts().disabled, accounts().enabled)
+  return { success: true }
+})
+
+// Demo operations/payroll accounts start assigned; the rest use the default roles
+let accountRoles: Record<string, AccountRole | null> = {
+  'demo-acct-ops': 'operations',
+  'demo-acct-payroll': 'payroll',
+}
+
+route('GET', '/api/finance/account-preferences', () => ({ roles: accountRoles }))
+
+route('POST', '/api/finance/account-preferences', ({ body }) => {
+  if (body.roles) {
+    accountRoles = { ...accountRoles, ...(body.roles as Record<string, AccountRole | null>) }
+  }
+  return { success: true }
+})
+
+route('GET', '/api/finance/item-status', () => ({ items: [] }))
+
+for (const path of ['/api/finance/link-token', '/api/finance/update-link-token', '/api/finance/exchange-token']) {
+  route('POST', path, () => {
+    throw new MockHttpError(503, 'Bank linking is not available in demo mode')
+  })
+}
+
+route('GET', '/api/finance/transactions', ({ query }) => {
+  const limit = Number(query.get('limit') || 100)
+  const pendingOnly = query.get('pending') === 'true'
+  const transactions = transactionsInRange(resolveRange(query.get('range')))
+    .filter((t) => !pendingOnly || t.pending)
+    .slice(0, limit)
+  return { transactions }
+})
+
+route('GET', '/api/finance/transactions/categories', () => {
+  const categories = new Set(transactionsInRange(resolveRange('90d')).map(primaryCategory))
+  return { categories: [...categories].sort() }
+})
+
+route('GET', '/api/finance/transactions/list', ({ query }) => {
+  const page = Number(query.get('page') || 1)
+  const pageSize = Number(query.get('pageSize') || 25)
+  const search = query.get('search')?.toLowerCase()
+  const category = query.get('category')
+  const accountId = query.get('accountId')
+  const minAmount = query.get('minAmount')
+  const maxAmount = query.get('maxAmount')
+  const sortBy = query.get('sortBy') || 'date'
+  const sign = query.get('sortOrder') === 'asc' ? 1 : -1
+
+  const rows = transactionsInRange(resolveRange(query.get('range')))
+    .map((t) => ({ ...t, primary_category: primaryCategory(t), payment_channel: 'online' }))
+    .filter((t) => !search || `${t.name} ${t.merchant_name ?? ''}`.toLowerCase().includes(search))
+    .filter((t) => !category || t.primary_category === category)
+    .filter((t) => !accountId || t.account_id === accountId)
+    .filter((t) => !minAmount || Math.abs(t.amount) >= Number(minAmount))
+    .filter((t) => !maxAmount || Math.abs(t.amount) <= Number(maxAmount))
+    .sort((a, b) => {
+      if (sortBy === 'amount') return sign * (a.amount - b.amount)
+      if (sortBy === 'merchant_name') return sign * (a.merchant_name ?? '').localeCompare(b.merchant_name ?? '')
+      return sign * a.date.localeCompare(b.date)
+    })
+
+  return {
+    transactions: rows.slice((page - 1) * pageSize, page * pageSize),
+    pagination: {
+      page,
+      pageSize,
+      total: rows.length,
+      totalPages: Math.max(1, Math.ceil(rows.length / pageSize)),
+    },
+  }
+})
+
+route('GET', '/api/finance/payroll', ({ query }) => {
+  const transactions = daysIn(resolveRange(query.get('range')))
+    .filter(isPayrollDay)
+    .reverse()
+    .map((day) => ({
+      transaction_id: `demo-payroll-${isoDate(day)}`,
+      account_id: 'demo-acct-payroll',
+      amount: payrollAmount(day),
+      date: isoDate(day),
+      name: 'GUSTO PAYROLL',
+      merchant_name: 'Gusto',
+      category: ['Transfer', 'Payroll'],
+      pending: false,
+    }))
+  const totalPayroll = transactions.reduce((sum, t) => sum + t.amount, 0)
+
+  return {
+    summary: {
+      totalPayroll: round2(totalPayroll),
+      averagePayroll: round2(ratio(totalPayroll, transactions.length)),
+      lastPayrollDate: transactions[0]?.date ?? null,
+      payrollCount: transactions.length,
+    },
+    transactions,
+  }
+})
+
+// ============================================
+// SHOPIFY (/api/shopify/*)
+// ============================================
+
+route('GET', '/api/shopify/shop', () => ({
+  shop: {
+    name: 'Demo Goods Co.',
+    domain: 'demo-goods.myshopify.com',
+    currency: 'USD',
+    plan_display_name: 'Shopify',
+    shop_owner: 'Demo User',
+    email: 'demo@example.com',
+    created_at: '2023-06-14T10:00:00-04:00',
+    iana_timezone: 'America/New_York',
+  },
+}))
+
+route('GET', '/api/shopify/payouts', ({ query }) => {
+  const now = today()
+  const payout = (date: Date, status: string) => {
+    const gross = dayMetrics(subDays(date, 2)).totalSales
+    return {
+      id: 90000 + differenceInCalendarDays(date, new Date(2024, 0, 1)),
+      date: isoDate(date),
+      currency: 'USD',
+      amount: (gross * 0.96).toFixed(2),
+      status,
+      ...(status === 'paid' && {
+        summary: {
+          charges_gross_amount: gross.toFixed(2),
+          charges_fee_amount: (gross * 0.04).toFixed(2),
+          refunds_fee_amount: '0.00',
+          adjustments_fee_amount: '0.00',
+        },
+      }),
+    }
+  }
+  const scheduledPayouts = [payout(addDays(now, 1), 'scheduled'), payout(addDays(now, 2), 'scheduled')]
+  const inTransitPayouts = [payout(now, 'in_transit')]
+  // Without a range this is the last 10 deposits; with one, every deposit in it
+  const range = query.get('range')
+  const recentPayouts = range
+    ? daysIn(resolveRange(range))
+        .filter((day) => day < now)
+        .reverse()
+        .map((day) => payout(day, 'paid'))
+    : Array.from({ length: 10 }, (_, i) => payout(subDays(now, i + 1), 'paid'))
+  const total = (payouts: { amount: string }[]) => round2(payouts.reduce((sum, p) => sum + Number(p.amount), 0))
+
+  return {
+    pendingBalance: round2(dayMetrics(now).totalSales * 0.96),
+    scheduledPayouts,
+    inTransitPayouts,
+    recentPayouts,
+    totalScheduled: total(scheduledPayouts),
+    totalInTransit: total(inTransitPayouts),
+  }
+})
+
+route('GET', '/api/shopify/billing', () => ({ currentBalance: 412.37 }))
+
+// utm_source values Meta traffic arrives with, depending on how each ad's URL parameters were set up
+const META_UTM_SOURCES = ['facebook', 'fb', 'instagram', 'ig']
+
+// [utm_source, utm_medium, share of orders] for everything that isn't Meta
+const OTHER_UTM_SOURCES: [string, string, number][] = [
+  ['google', 'cpc', 0.13],
+  ['omnisend', 'email', 0.11],
+  ['tiktok', 'paid_social', 0.04],
+]
+
+/** Each order's landing-page UTMs - Meta orders point at a campaign and ad by id or by name */
+function utmOrders(range: DayRange) {
+  const ads = campaigns().flatMap((c) => c.adsets.flatMap((s) => s.ads.map((ad) => ({ ad, campaign: c }))))
+  // The Pixel over-credits some campaigns more than others, so fewer of their orders carry UTMs
+  const weights = ads.map(({ ad, campaign }) => (ad.share * ad.efficiency) / noise(`utm-over:${campaign.id}`, 1.05, 1.7))
+  const totalWeight = weights.reduce((a, b) => a + b, 0)
+
+  return daysIn(range).flatMap((day) => {
+    const m = dayMetrics(day)
+    const random = seededRandom(`utm-orders:${isoDate(day)}`)
+    const aov = ratio(m.netSales, m.orders)
+
+    return Array.from({ length: m.orders }, (_, i) => {
+      const order = {
+        id: `${isoDate(day)}-${i + 1}`,
+        createdAt: isoDate(day),
+        netSales: round2(aov * (0.6 + random() * 0.8)),
+        utmSource: null as string | null,
+        utmMedium: null as string | null,
+        utmCampaign: null as string | null,
+        utmContent: null as string | null,
+      }
+      const roll = random()
+
+      if (roll < 0.46) {
+        let pick = random() * totalWeight
+        let index = 0
+        while (index < weights.length - 1 && pick > weights[index]) pick -= weights[index++]
+        const { ad, campaign } = ads[index]
+        const byId = random() < 0.5
+        return {
+          ...order,
+          utmSource: META_UTM_SOURCES[Math.floor(random() * META_UTM_SOURCES.length)],
+          utmMedium: 'paid_social',
+          utmCampaign: byId ? campaign.id : campaign.name,
+          // Some ads were set up without utm_content
+          utmContent: random() < 0.1 ? null : byId ? ad.id : ad.name,
+        }
+      }
+      // Links from since-deleted campaigns still get clicked
+      if (roll < 0.48) {
+        return { ...order, utmSource: 'facebook', utmMedium: 'paid_social', utmCampaign: 'Spring Launch 2024' }
+      }
+
+      let rest = roll - 0.48
+      for (const [utmSource, utmMedium, share] of OTHER_UTM_SOURCES) {
+        if (rest < share) return { ...order, utmSource, utmMedium, utmCampaign: `${utmSource}-${utmMedium}` }
+        rest -= share
+      }
+      return order
+    })
+  })
+}
+
+route('GET', '/api/shopify/orders/utm', ({ query }) => ({ orders: utmOrders(resolveRange(query.get('range'))) }))
+
+// ============================================
+// OMNISEND (/api/omnisend/*)
+// ============================================
+
+const EMAIL_CAMPAIGNS = [
+  'New Arrivals: Summer Linen',
+  'Restock Alert: Wrap Dress',
+  'The Slow Fashion Journal',
+  'Weekend Edit',
+  'Customer Favorites',
+  'Last Chance: Seasonal Sale',
+  'Styling Notes: 5 Ways to Wear',
+  'Behind the Mill',
+]
+
+function emailCampaignsInRange(range: DayRange) {
+  // Sends go out on Tuesdays and Fridays
+  return daysIn(range)
+    .filter((day) => day.getDay() === 2 || day.getDay() === 5)
+    .reverse()
+    .map((day) => {
+      const random = seededRandom(`email:${isoDate(day)}`)
+      const sent = Math.round(24000 + random() * 5000)
+      const openRate = 38 + random() * 11
+      const clickRate = 1.8 + random() * 1.8
+      const bounceRate = 0.3 + random() * 0.5
+      const unsubscribeRate = 0.1 + random() * 0.2
+      return {
+        campaignID: `demo-email-${isoDate(day)}`,
+        name: EMAIL_CAMPAIGNS[differenceInCalendarDays(day, new Date(2024, 0, 1)) % EMAIL_CAMPAIGNS.length],
+        sent,
+        opened: Math.round((sent * openRate) / 100),
+        clicked: Math.round((sent * clickRate) / 100),
+        bounced: Math.round((sent * bounceRate) / 100),
+        unsubscribed: Math.round((sent * unsubscribeRate) / 100),
+        openRate: round2(openRate),
+        clickRate: round2(clickRate),
+        bounceRate: round2(bounceRate),
+        unsubscribeRate: round2(unsubscribeRate),
+        startedAt: `${isoDate(day)}T14:00:00Z`,
+        finishedAt: `${isoDate(day)}T14:42:00Z`,
+      }
+    })
+}
+
+// Explicit startDate/endDate win over the older days/range params
+function omnisendRange(query: URLSearchParams): DayRange {
+  const start = query.get('startDate')
+  const end = query.get('endDate')
+  if (start && end) return resolveRange(`custom:${start}:${end}`)
+  return resolveRange(query.get('range') ?? `${Number(query.get('days') || 30)}d`)
+}
+
+route('GET', '/api/omnisend/dashboard', ({ query }) => {
+  const range = omnisendRange(query)
+  const campaignList = emailCampaignsInRange(range)
+  const sum = (key: 'sent' | 'opened' | 'clicked' | 'bounced' | 'unsubscribed') =>
+    campaignList.reduce((total, c) => total + c[key], 0)
+  const sent = sum('sent')
+
+  const subscriberGrowth = daysIn(range).map((day) => ({
+    date: isoDate(day),
+    email: Math.round(dayMetrics(day).newCustomers * noise(`signup:${isoDate(day)}`, 0.9, 1.5)),
+    sms: Math.round(dayMetrics(day).newCustomers * noise(`sms:${isoDate(day)}`, 0.2, 0.45)),
+  }))
+
+  return {
+    subscribers: {
+      emailSubscribers: 28412,
+      smsSubscribers: 6930,
+      totalContacts: 31588,
+      newSignups: subscriberGrowth.reduce((total, d) => total + d.email, 0),
+    },
+    campaigns: campaignList,
+    totals: {
+      sent,
+      opened: sum('opened'),
+      clicked: sum('clicked'),
+      bounced: sum('bounced'),
+      unsubscribed: sum('unsubscribed'),
+      avgOpenRate: round2(ratio(sum('opened'), sent) * 100),
+      avgClickRate: round2(ratio(sum('clicked'), sent) * 100),
+    },
+    subscriberGrowth,
+  }
+})
+
+route('GET', '/api/omnisend/revenue', ({ query }) => {
+  const range = omnisendRange(query)
+  const dailyBreakdown = daysIn(range).map((day) => {
+    const m = dayMetrics(day)
+    const share = noise(`email-revenue:${isoDate(day)}`, 0.12, 0.22)
+    return { date: isoDate(day), revenue: round2(m.netSales * share), orders: Math.round(m.orders * share) }
+  })
+  const totalRevenue = dailyBreakdown.reduce((sum, d) => sum + d.revenue, 0)
+  const orderCount = dailyBreakdown.reduce((sum, d) => sum + d.orders, 0)
+  const campaignList = emailCampaignsInRange(range)
+  const byCampaign = campaignList.slice(0, 8).map((c, i) => {
+    const share = 0.22 / (i + 1)
+    return { campaign: c.name, revenue: round2(totalRevenue * share), orders: Math.round(orderCount * share) }
+  })
+
+  return {
+    totalRevenue: round2(totalRevenue),
+    orderCount,
+    averageOrderValue: round2(ratio(totalRevenue, orderCount)),
+    dailyBreakdown,
+    byCampaign,
+  }
+})
+
+// ============================================
+// INVENTORY (/api/inventory/*)
+// ============================================
+
+const LOCATIONS = [
+  { id: 'demo-loc-1', location_id: 71001, name: 'Brooklyn Warehouse', city: 'Brooklyn', province: 'NY', country: 'US', active: true },
+  { id: 'demo-loc-2', location_id: 71002, name: 'Retail Studio', city: 'Hudson', province: 'NY', country: 'US', active: true },
+]
+
+// Discontinued variants only appear with activeOnly=false
+const DISCONTINUED = new Set(['8103-L', '8202-S'])
+
+function inventoryLevels(date = today()) {
+  return PRODUCTS.filter((p) => p.category !== 'Gift Cards').flatMap((product) =>
+    product.variants.flatMap((variant, v) =>
+      LOCATIONS.map((location, l) => {
+        const key = `${product.id}-${variant}`
+        const random = seededRandom(`stock:${key}:${location.id}:${isoDate(date)}`)
+        const base = l === 0 ? 40 + Math.floor(noise(`stock-base:${key}`) * 160) : 4 + Math.floor(noise(`studio:${key}`) * 18)
+        const onHand = DISCONTINUED.has(key) ? 0 : Math.max(0, Math.round(base * (0.8 + random() * 0.4)) - (v === 0 && l === 0 ? base : 0))
+        const committed = Math.min(onHand, Math.floor(random() * 6))
+        return {
+          id: `demo-level-${key}-${location.location_id}`,
+          inventory_item_id: 4400000 + product.id * 10 + v,
+          location_id: location.location_id,
+          product_id: product.id,
+          variant_id: product.id * 100 + v,
+          sku: `DG-${product.id}-${variant.toUpperCase().replace(/[^A-Z0-9]/g, '')}`,
+          product_title: product.title,
+          variant_title: variant,
+          available: onHand - committed,
+          committed,
+          incoming: onHand < 10 && l === 0 ? 60 : 0,
+          on_hand: onHand,
+          unavailable: 0,
+          price: product.price,
+          cost: product.cost,
+          active: !DISCONTINUED.has(key),
+        }
+      })
+    )
+  )
+}
+
+type InventoryLevelRow = ReturnType<typeof inventoryLevels>[number]
+
+function categoryOf(level: InventoryLevelRow): string {
+  return PRODUCTS.find((p) => p.id === level.product_id)?.category ?? 'Other'
+}
+
+function shopifySummary() {
+  const levels = inventoryLevels().filter((l) => l.active)
+  const bySku = new Map<string, InventoryLevelRow[]>()
+  for (const level of levels) {
+    bySku.set(level.sku, [...(bySku.get(level.sku) ?? []), level])
+  }
+  const skuUnits = [...bySku.values()].map((rows) => rows.reduce((sum, r) => sum + r.available, 0))
+  const inventoryValue = levels.reduce((sum, l) => sum + l.available * (l.price ?? 0), 0)
+  const inventoryCost = levels.reduce((sum, l) => sum + l.available * (l.cost ?? 0), 0)
+
+  const categories = [...new Set(levels.map(categoryOf))].map((category) => {
+    const rows = levels.filter((l) => categoryOf(l) === category)
+    return {
+      category,
+      skuCount: new Set(rows.map((r) => r.sku)).size,
+      units: rows.reduce((sum, r) => sum + r.available, 0),
+      inventoryValue: round2(rows.reduce((sum, r) => sum + r.available * (r.price ?? 0), 0)),
+      inventoryCost: round2(rows.reduce((sum, r) => sum + r.available * (r.cost ?? 0), 0)),
+    }
+  })
+
+  return {
+    totalSkus: bySku.size,
+    totalUnits: skuUnits.reduce((a, b) => a + b, 0),
+    inStockSkus: skuUnits.filter((u) => u > 0).length,
+    outOfStockSkus: skuUnits.filter((u) => u <= 0).length,
+    inventoryValue: round2(inventoryValue),
+    inventoryCost: round2(inventoryCost),
+    potentialProfit: round2(inventoryValue - inventoryCost),
+    categories,
+  }
+}
+
+interface DemoMaterial {
+  id: string
+  name: string
+  sku: string | null
+  description: string | null
+  category: string
+  unit: string
+  quantity_on_hand: number
+  cost_per_unit: number
+  reorder_point: number
+  reorder_quantity: number
+  lead_time_days: number
+  supplier_name: string | null
+  supplier_contact: string | null
+  notes: string | null
+  active: boolean
+}
+
+interface DemoBomEntry {
+  id: string
+  product_id: number
+  variant_id: number | null
+  material_id: string
+  quantity_required: number
+  notes: string | null
+}
+
+function material(
+  id: number,
+  name: string,
+  category: string,
+  unit: string,
+  quantity: number,
+  cost: number,
+  reorderPoint: number,
+  supplier: string
+): DemoMaterial {
+  return {
+    id: `demo-mat-${id}`,
+    name,
+    sku: `RM-${String(id).padStart(3, '0')}`,
+    description: null,
+    category,
+    unit,
+    quantity_on_hand: quantity,
+    cost_per_unit: cost,
+    reorder_point: reorderPoint,
+    reorder_quantity: reorderPoint * 3,
+    lead_time_days: category === 'packaging' ? 7 : 21,
+    supplier_name: supplier,
+    supplier_contact: null,
+    notes: null,
+    active: true,
+  }
+}
+
+let inventoryState: { materials: DemoMaterial[]; bom: DemoBomEntry[]; nextId: number } | null = null
+
+function inventory() {
+  if (!inventoryState) {
+    inventoryState = {
+      materials: [
+        material(1, 'Mailer Box (Small)', 'packaging', 'unit', 1840, 0.62, 500, 'Uline'),
+        material(2, 'Mailer Box (Large)', 'packaging', 'unit', 310, 0.94, 400, 'Uline'),
+        material(3, 'Compostable Poly Mailer', 'packaging', 'unit', 5200, 0.18, 1500, 'noissue'),
+        material(4, 'Tissue Paper (Printed)', 'packaging', 'sheet', 960, 0.09, 1200, 'noissue'),
+        material(5, 'Thank You Card', 'packaging', 'unit', 2300, 0.11, 800, 'Moo Print'),
+        material(6, 'Linen Fabric (Natural)', 'ingredient', 'roll', 14, 212, 10, 'Baltic Flax Mills'),
+        material(7, 'Organic Cotton Jersey', 'ingredient', 'roll', 22, 168, 8, 'Gujarat Organic Co-op'),
+        material(8, 'Corozo Buttons', 'component', 'box', 3, 38, 5, 'Button Works'),
+        material(9, 'Woven Care Labels', 'component', 'roll', 9, 54, 4, 'Label Lab'),
+        material(10, 'Hang Tags + Cord', 'supply', 'box', 18, 26, 6, 'Moo Print'),
+      ],
+      bom: [
+        { id: 'demo-bom-1', product_id: 8101, variant_id: null, material_id: 'demo-mat-3', quantity_required: 1, notes: null },
+        { id: 'demo-bom-2', product_id: 8101, variant_id: null, material_id: 'demo-mat-9', quantity_required: 0.01, notes: null },
+        { id: 'demo-bom-3', product_id: 8301, variant_id: null, material_id: 'demo-mat-1', quantity_required: 1, notes: null },
+        { id: 'demo-bom-4', product_id: 8301, variant_id: null, material_id: 'demo-mat-4', quantity_required: 2, notes: null },
+        { id: 'demo-bom-5', product_id: 8501, variant_id: null, material_id: 'demo-mat-8', quantity_required: 0.05, notes: 'Six buttons per jacket' },
+      ],
+      nextId: 100,
+    }
+  }
+  return inventoryState
+}
+
+function findMaterial(id: string): DemoMaterial {
+  return inventory().materials.find((m) => m.id === id) ?? notFound('Material')
+}
+
+function materialSuggestions() {
+  return inventory()
+    .materials.filter((m) => m.active && m.quantity_on_hand <= m.reorder_point * 1.5)
+    .map((m) => {
+      const coverage = ratio(m.quantity_on_hand, m.reorder_point)
+      const urgency: 'critical' | 'high' | 'medium' | 'low' =
+        coverage <= 0.25 ? 'critical' : coverage <= 0.75 ? 'high' : coverage <= 1 ? 'medium' : 'low'
+      return {
+        id: m.id,
+        name: m.name,
+        sku: m.sku,
+        current_quantity: m.quantity_on_hand,
+        reorder_point: m.reorder_point,
+        reorder_quantity: m.reorder_quantity,
+        suggested_order: Math.max(m.reorder_quantity, m.reorder_point * 2 - m.quantity_on_hand),
+        urgency,
+        lead_time_days: m.lead_time_days,
+        supplier_name: m.supplier_name,
+      }
+    })
+}
+
+function inventoryAlerts() {
+  const materialAlerts = inventory()
+    .materials.filter((m) => m.active && m.quantity_on_hand <= m.reorder_point)
+    .map((m) => ({
+      id: `demo-alert-${m.id}`,
+      alert_type: m.quantity_on_hand <= 0 ? 'out_of_stock' : 'low_stock',
+      source_type: 'raw_material',
+      source_id: m.id,
+      source_name: m.name,
+      current_quantity: m.quantity_on_hand,
+      threshold_quantity: m.reorder_point,
+      suggested_reorder: m.reorder_quantity,
+      status: 'active',
+    }))
+
+  const productAlerts = inventoryLevels()
+    .filter((l) => l.active && l.location_id === LOCATIONS[0].location_id && l.available < 10)
+    .map((l) => ({
+      id: `demo-alert-${l.id}`,
+      alert_type: l.available <= 0 ? 'out_of_stock' : 'low_stock',
+      source_type: 'shopify_product',
+      source_id: String(l.variant_id),
+      source_name: `${l.product_title} - ${l.variant_title}`,
+      current_quantity: l.available,
+      threshold_quantity: 10,
+      suggested_reorder: 60,
+      status: 'active',
+    }))
+
+  return [...materialAlerts, ...productAlerts]
+}
+
+route('GET', '/api/inventory/locations', () => ({ locations: LOCATIONS }))
+
+route('GET', '/api/inventory/levels', ({ query }) => {
+  const locationId = query.get('locationId')
+  const category = query.get('category')
+  const activeOnly = query.get('activeOnly') !== 'false'
+  const sortBy = (query.get('sortBy') || 'product_title') as keyof InventoryLevelRow
+  const sign = query.get('sortOrder') === 'desc' ? -1 : 1
+
+  const levels = inventoryLevels()
+    .filter((l) => !locationId || String(l.location_id) === locationId)
+    .filter((l) => !category || categoryOf(l) === category)
+    .filter((l) => !activeOnly || l.active)
+    .sort((a, b) => {
+      const x = a[sortBy] ?? ''
+      const y = b[sortBy] ?? ''
+      return sign * (typeof x === 'number' && typeof y === 'number' ? x - y : String(x).localeCompare(String(y)))
+    })
+  return { levels }
+})
+
+route('GET', '/api/inventory/categories', () => {
+  const levels = inventoryLevels().filter((l) => l.active)
+  const categories = [...new Set(levels.map(categoryOf))].map((category) => {
+    const skus = new Map<string, number>()
+    for (const l of levels.filter((row) => categoryOf(row) === category)) {
+      skus.set(l.sku, (skus.get(l.sku) ?? 0) + l.available)
+    }
+    const units = [...skus.values()]
+    return {
+      category,
+      count: skus.size,
+      inStock: units.filter((u) => u > 0).length,
+      outOfStock: units.filter((u) => u <= 0).length,
+    }
+  })
+  return { categories }
+})
+
+route('GET', '/api/inventory/shopify-summary', () => shopifySummary())
+
+route('GET', '/api/inventory/history/dates', () => ({
+  dates: Array.from({ length: 30 }, (_, i) => isoDate(subDays(today(), i + 1))),
+}))
+
+route('GET', '/api/inventory/history', ({ query }) => {
+  const date = query.get('date')
+  if (!date) throw new MockHttpError(400, 'date is required')
+  const [year, month, day] = date.split('-').map(Number)
+  const category = query.get('category')
+  const history = inventoryLevels(new Date(year, month - 1, day))
+    .filter((l) => l.active && (!category || categoryOf(l) === category))
+    .map((l) => ({
+      id: `${l.id}-${date}`,
+      inventory_item_id: l.inventory_item_id,
+      location_id: l.location_id,
+      sku: l.sku,
+      product_title: l.product_title,
+      variant_title: l.variant_title,
+      available: l.available,
+      on_hand: l.on_hand,
+      price: l.price,
+      cost: l.cost,
+      snapshot_date: date,
+    }))
+  return { history }
+})
+
+route('POST', '/api/inventory/sync-shopify', () => ({ success: true, synced: inventoryLevels().length }))
+
+route('GET', '/api/inventory/materials', ({ query }) => {
+  const category = query.get('category')
+  const search = query.get('search')?.toLowerCase()
+  const materials = inventory()
+    .materials.filter((m) => m.active)
+    .filter((m) => !category || m.category === category)
+    .filter((m) => !search || `${m.name} ${m.sku ?? ''}`.toLowerCase().includes(search))
+  return { materials }
+})
+
+route('POST', '/api/inventory/materials', ({ body }) => {
+  const state = inventory()
+  const created: DemoMaterial = {
+    ...material(state.nextId++, String(body.name || 'New material'), String(body.category || 'other'), String(body.unit || 'unit'), 0, 0, 0, ''),
+    ...(body as Partial<DemoMaterial>),
+    active: true,
+  }
+  created.id = `demo-mat-${state.nextId - 1}`
+  state.materials.push(created)
+  return { material: created }
+})
+
+route('PATCH', '/api/inventory/materials/:id', ({ params, body }) => {
+  const target = findMaterial(params.id)
+  Object.assign(target, body, { id: target.id })
+  return { material: target }
+})
+
+route('DELETE', '/api/inventory/materials/:id', ({ params }) => {
+  findMaterial(params.id).active = false
+  return { success: true }
+})
+
+route('POST', '/api/inventory/materials/:id/:action', ({ params, body }) => {
+  const target = findMaterial(params.id)
+  const quantity = Number(body.quantity)
+  if (!Number.isFinite(quantity)) throw new MockHttpError(400, 'quantity must be a number')
+
+  if (params.action === 'add-stock') target.quantity_on_hand += quantity
+  else if (params.action === 'deduct-stock') target.quantity_on_hand = Math.max(0, target.quantity_on_hand - quantity)
+  else if (params.action === 'adjust-stock') target.quantity_on_hand = quantity
+  else notFound('Stock action')
+
+  return { material: target }
+})
+
+route('GET', '/api/inventory/bom', () => {
+  const state = inventory()
+  const materials = state.bom.map((entry) => {
+    const m = state.materials.find((row) => row.id === entry.material_id)
+    const product = PRODUCTS.find((p) => p.id === entry.product_id)
+    return {
+      ...entry,
+      material_name: m?.name,
+      material_unit: m?.unit,
+      product_title: product?.title,
+      variant_title: entry.variant_id !== null ? product?.variants[entry.variant_id % 100] : undefined,
+    }
+  })
+  return { materials }
+})
+
+route('POST', '/api/inventory/bom', ({ body }) => {
+  const state = inventory()
+  const entry: DemoBomEntry = {
+    id: `demo-bom-${state.nextId++}`,
+    product_id: Number(body.productId),
+    variant_id: body.variantId ? Number(body.variantId) : null,
+    material_id: String(body.materialId),
+    quantity_required: Number(body.quantityRequired),
+    notes: null,
+  }
+  state.bom.push(entry)
+  return { entry }
+})
+
+route('DELETE', '/api/inventory/bom', ({ body }) => {
+  const state = inventory()
+  state.bom = state.bom.filter(
+    (e) =>
+      !(
+        e.product_id === Number(body.productId) &&
+        e.material_id === body.materialId &&
+        (e.variant_id ?? undefined) === (body.variantId ?? undefined)
+      )
+  )
+  return { success: true }
+})
+
+route('GET', '/api/inventory/alerts', () => ({ alerts: inventoryAlerts() }))
+
+route('GET', '/api/inventory/reorder-suggestions', () => ({ suggestions: materialSuggestions() }))
+
+route('GET', '/api/inventory/summary', () => {
+  const levels = inventoryLevels().filter((l) => l.active)
+  const materials = inventory().materials.filter((m) => m.active)
+  const summary = shopifySummary()
+  return {
+    totalShopifyProducts: summary.totalSkus,
+    lowStockProducts: new Set(
+      levels.filter((l) => l.location_id === LOCATIONS[0].location_id && l.available < 10).map((l) => l.sku)
+    ).size,
+    totalRawMaterials: materials.length,
+    lowStockMaterials: materials.filter((m) => m.quantity_on_hand <= m.reorder_point).length,
+    activeAlerts: inventoryAlerts().length,
+    totalInventoryValue: round2(
+      summary.inventoryCost + materials.reduce((sum, m) => sum + m.quantity_on_hand * m.cost_per_unit, 0)
+    ),
+  }
+})
+
+// ============================================
+// FORECASTING (/api/forecasting/*)
+// ============================================
+
+interface DemoScenario {
+  id: string
+  name: string
+  startDate: string
+  endDate: string
+  revenueTarget: number
+  roas: number
+  autoCatchUpEnabled: boolean
+  revenueSource: 'shopify' | 'etsy' | 'combined'
+  useMonthlyTargets: boolean
+  monthlyTargets: { month: string; target: number }[]
+  createdAt: string
+  updatedAt: string
+}
+
+// Revenue relative to Shopify for each source
+const REVENUE_SOURCE_FACTORS = { shopify: 1, etsy: 0.14, combined: 1.14 }
+
+let scenarioState: DemoScenario[] | null = null
+let nextScenarioId = 1
+
+function parseDay(value: string): Date {
+  const [year, month, day] = value.split('-').map(Number)
+  return new Date(year, month - 1, day)
+}
+
+function scenarios(): DemoScenario[] {
+  if (!scenarioState) {
+    const start = startOfYear(today())
+    const end = startOfDay(endOfYear(start))
+    const lastYear = sumDays({ start: subDays(start, 365), end: subDays(start, 1) })
+    const created = subDays(today(), 40).toISOString()
+    scenarioState = [
+      {
+        id: `demo-scenario-${nextScenarioId++}`,
+        name: `${format(start, 'yyyy')} Growth Plan`,
+        startDate: isoDate(start),
+        endDate: isoDate(end),
+        revenueTarget: Math.round((lastYear.netSales * 1.35) / 1000) * 1000,
+        roas: 2.8,
+        autoCatchUpEnabled: true,
+        revenueSource: 'shopify',
+        useMonthlyTargets: false,
+        monthlyTargets: [],
+        createdAt: created,
+        updatedAt: created,
+      },
+    ]
+  }
+  return scenarioState
+}
+
+function findScenario(id: string): DemoScenario {
+  return scenarios().find((s) => s.id === id) ?? notFound('Scenario')
+}
+
+/** Calendar months overlapping a range, with the number of days inside it */
+function monthsInRange(start: Date, end: Date) {
+  const months: { month: string; monthName: string; daysInMonth: number }[] = []
+  for (let cursor = startOfMonth(start); cursor <= end; cursor = startOfMonth(addDays(endOfMonth(cursor), 1))) {
+    const from = cursor < start ? start : cursor
+    const to = endOfMonth(cursor) > end ? end : startOfDay(endOfMonth(cursor))
+    months.push({
+      month: format(cursor, 'yyyy-MM'),
+      monthName: format(cursor, 'MMMM yyyy'),
+      daysInMonth: differenceInCalendarDays(to, from) + 1,
+    })
+  }
+  return months
+}
+
+function aggregate(actual: number, forecast: number) {
+  return {
+    actualRevenue: round2(actual),
+    forecastRevenue: round2(forecast),
+    delta: round2(actual - forecast),
+    deltaPercent: round2(ratio(actual - forecast, forecast) * 100),
+  }
+}
+
+function computeForecast(scenario: DemoScenario) {
+  const start = parseDay(scenario.startDate)
+  const end = parseDay(scenario.endDate)
+  const days = daysIn({ start, end })
+  const now = today()
+  const sourceFactor = REVENUE_SOURCE_FACTORS[scenario.revenueSource] ?? 1
+
+  const months = monthsInRange(start, end)
+  const dailyTargetFor = (day: Date) => {
+    if (scenario.useMonthlyTargets && scenario.monthlyTargets.length > 0) {
+      const month = format(day, 'yyyy-MM')
+      const target = scenario.monthlyTargets.find((t) => t.month === month)?.target ?? 0
+      const daysInMonth = months.find((m) => m.month === month)?.daysInMonth ?? 1
+      return target / daysInMonth
+    }
+    return scenario.revenueTarget / Math.max(1, days.length)
+  }
+
+  let cumulativeActual = 0
+  let cumulativeForecast = 0
+  const dailyData = days.map((day) => {
+    const forecastRevenue = dailyTargetFor(day)
+    const hasActual = day <= now
+    const m = dayMetrics(day)
+    const actualRevenue = hasActual ? m.netSales * sourceFactor : null
+    cumulativeForecast += forecastRevenue
+    if (actualRevenue !== null) cumulativeActual += actualRevenue
+    return {
+      date: isoDate(day),
+      actualRevenue: actualRevenue === null ? null : round2(actualRevenue),
+      actualAdSpend: hasActual ? m.adSpend : null,
+      forecastRevenue: round2(forecastRevenue),
+      forecastAdSpend: round2(forecastRevenue / scenario.roas),
+      cumulativeActualRevenue: round2(cumulativeActual),
+      cumulativeForecastRevenue: round2(cumulativeForecast),
+    }
+  })
+
+  const elapsed = dailyData.filter((d) => d.actualRevenue !== null)
+  const actualRevenueToDate = elapsed.reduce((sum, d) => sum + (d.actualRevenue ?? 0), 0)
+  const actualAdSpendToDate = elapsed.reduce((sum, d) => sum + (d.actualAdSpend ?? 0), 0)
+  const forecastRevenueToDate = elapsed.reduce((sum, d) => sum + d.forecastRevenue, 0)
+  const delta = actualRevenueToDate - forecastRevenueToDate
+  const deltaPercent = ratio(delta, forecastRevenueToDate) * 100
+  const daysRemaining = days.length - elapsed.length
+  const remainingRevenueNeeded = Math.max(0, scenario.revenueTarget - actualRevenueToDate)
+  const catchUpDailyRevenue = daysRemaining > 0 ? remainingRevenueNeeded / daysRemaining : 0
+  const requiredAdSpendTotal = scenario.revenueTarget / scenario.roas
+
+  const weeks = new Map<string, typeof dailyData>()
+  for (const d of dailyData) {
+    const week = isoDate(startOfWeek(parseDay(d.date), { weekStartsOn: 1 }))
+    weeks.set(week, [...(weeks.get(week) ?? []), d])
+  }
+  const sumActual = (rows: typeof dailyData) => rows.reduce((sum, d) => sum + (d.actualRevenue ?? 0), 0)
+  const sumForecast = (rows: typeof dailyData) => rows.reduce((sum, d) => sum + d.forecastRevenue, 0)
+
+  const weeklyData = [...weeks.values()].map((rows, i) => ({
+    weekStart: rows[0].date,
+    weekEnd: rows[rows.length - 1].date,
+    weekNumber: i + 1,
+    ...aggregate(sumActual(rows), sumForecast(rows)),
+  }))
+
+  const monthlyData = months.map((m) => {
+    const rows = dailyData.filter((d) => d.date.startsWith(m.month))
+    return { month: m.month, monthName: format(parseDay(`${m.month}-01`), 'MMM'), ...aggregate(sumActual(rows), sumForecast(rows)) }
+  })
+
+  const quarters = new Map<string, typeof dailyData>()
+  for (const d of dailyData) {
+    const day = parseDay(d.date)
+    const key = `${day.getFullYear()}-Q${getQuarter(day)}`
+    quarters.set(key, [...(quarters.get(key) ?? []), d])
+  }
+  const quarterlyData = [...quarters.entries()].map(([key, rows]) => {
+    const [year, quarter] = key.split('-')
+    return { quarter, year: Number(year), ...aggregate(sumActual(rows), sumForecast(rows)) }
+  })
+
+  return {
+    scenario,
+    metrics: {
+      requiredAdSpendTotal: round2(requiredAdSpendTotal),
+      baseRequiredDailyAdSpend: round2(requiredAdSpendTotal / Math.max(1, days.length)),
+      baseRequiredDailyRevenue: round2(scenario.revenueTarget / Math.max(1, days.length)),
+      totalDaysInRange: days.length,
+      elapsedDays: elapsed.length,
+      daysRemaining,
+      actualRevenueToDate: round2(actualRevenueToDate),
+      actualAdSpendToDate: round2(actualAdSpendToDate),
+      forecastRevenueToDate: round2(forecastRevenueToDate),
+      delta: round2(delta),
+      deltaPercent: round2(deltaPercent),
+      status: deltaPercent > 5 ? 'ahead' : deltaPercent < -5 ? 'behind' : 'on_track',
+      remainingRevenueNeeded: round2(remainingRevenueNeeded),
+      remainingAdSpendNeeded: round2(remainingRevenueNeeded / scenario.roas),
+      catchUpDailyAdSpend: round2(catchUpDailyRevenue / scenario.roas),
+      catchUpDailyRevenue: round2(catchUpDailyRevenue),
+    },
+    dailyData,
+    weeklyData,
+    monthlyData,
+    quarterlyData,
+  }
+}
+
+route('GET', '/api/forecasting/scenarios', () => ({ scenarios: scenarios() }))
+
+route('POST', '/api/forecasting/scenarios', ({ body }) => {
+  const now = new Date().toISOString()
+  const scenario: DemoScenario = {
+    id: `demo-scenario-${nextScenarioId++}`,
+    name: String(body.name || 'Untitled scenario'),
+    startDate: String(body.startDate),
+    endDate: String(body.endDate),
+    revenueTarget: Number(body.revenueTarget) || 0,
+    roas: Number(body.roas) || 2.5,
+    autoCatchUpEnabled: Boolean(body.autoCatchUpEnabled),
+    revenueSource: (body.revenueSource as DemoScenario['revenueSource']) || 'shopify',
+    useMonthlyTargets: Boolean(body.useMonthlyTargets),
+    monthlyTargets: (body.monthlyTargets as DemoScenario['monthlyTargets']) || [],
+    createdAt: now,
+    updatedAt: now,
+  }
+  scenarios().unshift(scenario)
+  return { scenario }
+})
+
+route('PATCH', '/api/forecasting/scenarios/:id', ({ params, body }) => {
+  const scenario = findScenario(params.id)
+  Object.assign(scenario, body, { id: scenario.id, updatedAt: new Date().toISOString() })
+  return { scenario }
+})
+
+route('DELETE', '/api/forecasting/scenarios/:id', ({ params }) => {
+  findScenario(params.id)
+  scenarioState = scenarios().filter((s) => s.id !== params.id)
+  return { success: true }
+})
+
+route('GET', '/api/forecasting/months', ({ query }) => {
+  const start = query.get('start')
+  const end = query.get('end')
+  if (!start || !end) throw new MockHttpError(400, 'start and end are required')
+  return { months: monthsInRange(parseDay(start), parseDay(end)) }
+})
+
+route('GET', '/api/forecasting/running-year', () => {
+  const start = startOfYear(today())
+  return { startDate: isoDate(start), endDate: isoDate(endOfYear(start)) }
+})
+
+route('POST', '/api/forecasting/compute', ({ body }) => computeForecast(findScenario(String(body.scenarioId))))
+
+// ============================================
+// SYNC (/api/sync/*)
+// ============================================
+
+let lastSync = subMinutes(new Date(), 14)
+
+route('GET', '/api/sync/status', () =>
+  [
+    { source: 'shopify', records: 1284 },
+    { source: 'meta', records: 412 },
+    { source: 'plaid', records: 236 },
+    { source: 'omnisend', records: 58 },
+  ].map((s, i) => ({
+    source: s.source,
+    status: 'completed',
+    completed_at: subMinutes(lastSync, i * 3).toISOString(),
+    records_synced: s.records,
+  }))
+)
+
+route('POST', '/api/sync/all', () => {
+  lastSync = new Date()
+  return { success: true, message: 'Sync started' }
+})
@@ -0,0 +1,142 @@
+/**
+ * Offline Store
+ *
+ * IndexedDB persistence for the Capacitor iOS build: the last successful
+ * response for each GET endpoint (served when the device is offline) and
+ * the queue of writes made while offline (replayed on reconnect).
+ *
+ * Every function degrades to a no-op when IndexedDB is unavailable.
+ */
+
+const DB_NAME = 'lg-offline'
+const DB_VERSION = 1
+const SNAPSHOT_STORE = 'snapshots'
+const WRITE_STORE = 'writes'
+
+/** Last successful response for an endpoint */
+export interface PersistedSnapshot<T = unknown> {
+  endpoint: string
+  data: T
+  savedAt: number
+}
+
+/** A mutating request captured while offline */
+export interface QueuedWrite {
+  id?: number
+  endpoint: string
+  method: string
+  body?: string
+  /** Human readable description, e.g. 'Add stock: Cotton' */
+  label: string
+  createdAt: number
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null)
+        return
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+          db.createObjectStore(SNAPSHOT_STORE, { keyPath: 'endpoint' })
+        }
+        if (!db.objectStoreNames.contains(WRITE_STORE)) {
+          db.createObjectStore(WRITE_STORE, { keyPath: 'id', autoIncrement: true })
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        console.warn('Offline store unavailable:', request.error)
+        resolve(null)
+      }
+    })
+  }
+  return dbPromise
+}
+
+/**
+ * Runs a single request against an object store, resolving to its result
+ * (or undefined when the store cannot be opened)
+ */
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T | undefined> {
+  const db = await openDb()
+  if (!db) return undefined
+
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(storeName, mode).objectStore(storeName))
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// ============================================
+// SNAPSHOTS
+// ============================================
+
+export async function loadSnapshot<T>(endpoint: string): Promise<PersistedSnapshot<T> | undefined> {
+  try {
+    return await withStore<PersistedSnapshot<T>>(SNAPSHOT_STORE, 'readonly', (store) => store.get(endpoint))
+  } catch (error) {
+    console.warn('Failed to read offline snapshot:', error)
+    return undefined
+  }
+}
+
+export async function saveSnapshot<T>(endpoint: string, data: T, savedAt: number): Promise<void> {
+  try {
+    await withStore(SNAPSHOT_STORE, 'readwrite', (store) => store.put({ endpoint, data, savedAt }))
+  } catch (error) {
+    console.warn('Failed to persist offline snapshot:', error)
+  }
+}
+
+// ============================================
+// WRITE QUEUE
+// ============================================
+
+/**
+ * Adds a write to the queue
+ *
+ * @returns False when IndexedDB is unavailable and nothing was stored
+ */
+export async function addQueuedWrite(write: QueuedWrite): Promise<boolean> {
+  const id = await withStore(WRITE_STORE, 'readwrite', (store) => store.add(write))
+  return id !== undefined
+}
+
+/** Queued writes in the order they were made */
+export async function listQueuedWrites(): Promise<QueuedWrite[]> {
+  try {
+    const writes = await withStore<QueuedWrite[]>(WRITE_STORE, 'readonly', (store) => store.getAll())
+    return (writes || []).sort((a, b) => (a.id ?? 0) - (b.id ?? 0))
+  } catch (error) {
+    console.warn('Failed to read queued writes:', error)
+    return []
+  }
+}
+
+export async function removeQueuedWrite(id: number): Promise<void> {
+  await withStore(WRITE_STORE, 'readwrite', (store) => store.delete(id))
+}
+
+/**
+ * Wipes snapshots and queued writes (used on logout)
+ */
+export async function clearOfflineStore(): Promise<void> {
+  try {
+    await withStore(SNAPSHOT_STORE, 'readwrite', (store) => store.clear())
+    await withStore(WRITE_STORE, 'readwrite', (store) => store.clear())
+  } catch (error) {
+    console.warn('Failed to clear offline store:', error)
+  }
+}
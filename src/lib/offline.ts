@@ -0,0 +1,176 @@
+/**
+ * Offline Sync
+ *
+ * Tracks connectivity and queues writes made while offline (inventory stock
+ * adjustments, forecast scenario saves) so they are replayed in order once
+ * the device is back online.
+ */
+
+import { apiFetch, invalidateQueries, isNetworkError } from '@/lib/api'
+import { isDemoMode } from '@/lib/demo'
+import { addQueuedWrite, listQueuedWrites, removeQueuedWrite } from '@/lib/offline-store'
+
+// ============================================
+// CONNECTIVITY
+// ============================================
+
+export function isOnline(): boolean {
+  // The demo API runs on-device, so demo mode is never offline
+  return isDemoMode() || typeof navigator === 'undefined' || navigator.onLine !== false
+}
+
+/**
+ * Subscribes to online/offline transitions
+ *
+ * @returns Unsubscribe function
+ */
+export function subscribeConnectivity(listener: () => void): () => void {
+  window.addEventListener('online', listener)
+  window.addEventListener('offline', listener)
+  return () => {
+    window.removeEventListener('online', listener)
+    window.removeEventListener('offline', listener)
+  }
+}
+
+// ============================================
+// WRITE QUEUE
+// ============================================
+
+let pendingWriteCount = 0
+let replaying = false
+const pendingListeners = new Set<() => void>()
+const replayListeners = new Set<() => void>()
+
+function setPendingWriteCount(count: number) {
+  pendingWriteCount = count
+  pendingListeners.forEach((listener) => listener())
+}
+
+export function getPendingWriteCount(): number {
+  return pendingWriteCount
+}
+
+/**
+ * Subscribes to changes in getPendingWriteCount()
+ *
+ * @returns Unsubscribe function
+ */
+export function subscribePendingWrites(listener: () => void): () => void {
+  pendingListeners.add(listener)
+  return () => {
+    pendingListeners.delete(listener)
+  }
+}
+
+/**
+ * Registers a callback run after queued writes have been replayed, so
+ * screens holding local copies of the affected data can refetch
+ *
+ * @returns Unsubscribe function
+ */
+export function onQueuedWritesReplayed(listener: () => void): () => void {
+  replayListeners.add(listener)
+  return () => {
+    replayListeners.delete(listener)
+  }
+}
+
+async function queueWrite(endpoint: string, init: { method: string; body?: string }, label: string) {
+  const queued = await addQueuedWrite({ endpoint, method: init.method, body: init.body, label, createdAt: Date.now() })
+  if (!queued) {
+    throw new Error(`Couldn't save "${label}" - offline storage is unavailable`)
+  }
+  setPendingWriteCount(pendingWriteCount + 1)
+}
+
+/**
+ * Sends a write, or queues it for replay when the server can't be reached
+ *
+ * @param endpoint - The API endpoint
+ * @param init - HTTP method and JSON body
+ * @param label - Description shown while the write is pending
+ * @returns The response, or null when the write was queued
+ * @throws Error when offline and the write couldn't be queued
+ */
+export async function sendOrQueue(
+  endpoint: string,
+  init: { method: string; body?: string },
+  label: string
+): Promise<Response | null> {
+  if (!isOnline()) {
+    await queueWrite(endpoint, init, label)
+    return null
+  }
+
+  try {
+    return await apiFetch(endpoint, init)
+  } catch (error) {
+    if (!isNetworkError(error)) throw error
+    await queueWrite(endpoint, init, label)
+    return null
+  }
+}
+
+/**
+ * Replays queued writes in order, stopping at the first network failure or
+ * server error so the rest are retried later
+ */
+export async function replayQueuedWrites(): Promise<void> {
+  // Writes queued by a real session belong to the real backend, not the demo API
+  if (replaying || !isOnline() || isDemoMode()) return
+  replaying = true
+
+  let replayed = 0
+  try {
+    const writes = await listQueuedWrites()
+    setPendingWriteCount(writes.length)
+
+    for (const write of writes) {
+      try {
+        const response = await apiFetch(write.endpoint, { method: write.method, body: write.body })
+        if (response.status >= 500) {
+          // Server trouble - keep it queued and try again on the next sync
+          console.warn(`Queued write "${write.label}" failed with HTTP ${response.status}, will retry`)
+          break
+        }
+        if (!response.ok) {
+          // The server rejected it - retrying won't help, so drop it
+          console.error(`Queued write "${write.label}" was rejected with HTTP ${response.status}`)
+        }
+      } catch (error) {
+        if (!isNetworkError(error)) {
+          console.error(`Queued write "${write.label}" failed, will retry:`, error)
+        }
+        break
+      }
+      if (write.id !== undefined) {
+        await removeQueuedWrite(write.id)
+      }
+      replayed++
+      setPendingWriteCount(writes.length - replayed)
+    }
+  } finally {
+    replaying = false
+  }
+
+  if (replayed > 0) {
+    replayListeners.forEach((listener) => listener())
+  }
+}
+
+/**
+ * Starts replaying the write queue now and whenever connectivity returns
+ *
+ * @returns Stop function
+ */
+export function startOfflineSync(): () => void {
+  const sync = () => {
+    if (!isOnline()) return
+    // Replay first, then swap persisted snapshots (and data the writes changed) for live data
+    replayQueuedWrites().finally(() => invalidateQueries('/api'))
+  }
+
+  sync()
+  return subscribeConnectivity(sync)
+}
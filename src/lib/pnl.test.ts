@@ -0,0 +1,170 @@
+import { describe, expect, it } from 'vitest'
+import { buildPnlLines, buildPnlRows, classifyTransaction, formatPnlMonth, pnlMonths } from '@/lib/pnl'
+import type { PnlSources } from '@/lib/pnl'
+import type { DailyMetric, Payout, Transaction } from '@/lib/api-types'
+
+const at = (iso: string) => new Date(`${iso}T12:00:00Z`)
+
+const day = (dateRaw: string, overrides: Partial<DailyMetric> = {}): DailyMetric => ({
+  date: dateRaw,
+  dateRaw,
+  netSales: 0,
+  grossSales: 1000,
+  totalSales: 0,
+  discounts: 100,
+  returns: 50,
+  orders: 10,
+  adSpend: 0,
+  cogs: 300,
+  shipping: 80,
+  contributionMargin: 0,
+  ...overrides,
+})
+
+let transactionId = 0
+const transaction = (date: string, amount: number, category: string[], merchant: string | null = null): Transaction => ({
+  transaction_id: String(++transactionId),
+  account_id: 'ops',
+  amount,
+  date,
+  name: merchant ?? 'CARD PURCHASE',
+  merchant_name: merchant,
+  category,
+  pending: false,
+  iso_currency_code: 'USD',
+})
+
+const payout = (date: string, fee: string | null): Payout => ({
+  id: 1,
+  date,
+  currency: 'USD',
+  amount: '900.00',
+  status: 'paid',
+  ...(fee !== null && {
+    summary: { charges_gross_amount: '1000.00', charges_fee_amount: fee, refunds_fee_amount: '0.00', adjustments_fee_amount: '0.00' },
+  }),
+})
+
+const noSources: PnlSources = { daily: [], metaDaily: [], payouts: [], payroll: [], transactions: [] }
+
+describe('pnlMonths', () => {
+  it('runs from the first of the oldest month to today', () => {
+    expect(pnlMonths(3, at('2026-03-15'))).toEqual({ months: ['2026-01', '2026-02', '2026-03'], start: '2026-01-01', end: '2026-03-15' })
+  })
+
+  it('crosses a year boundary and month ends without skipping months', () => {
+    expect(pnlMonths(3, at('2026-01-31')).months).toEqual(['2025-11', '2025-12', '2026-01'])
+    expect(pnlMonths(2, at('2026-03-31')).months).toEqual(['2026-02', '2026-03'])
+  })
+})
+
+describe('formatPnlMonth', () => {
+  it('shows the short month and year', () => {
+    expect(formatPnlMonth('2024-02')).toBe('Feb 2024')
+  })
+})
+
+describe('classifyTransaction', () => {
+  it('skips income, transfers and costs counted from other sources', () => {
+    expect(classifyTransaction(transaction('2026-03-01', -500, ['Transfer', 'Deposit']))).toBeNull()
+    expect(classifyTransaction(transaction('2026-03-01', 500, ['Transfer', 'Payroll']))).toBeNull()
+    expect(classifyTransaction(transaction('2026-03-01', 500, ['Service', 'Shipping and Freight'], 'UPS'))).toBeNull()
+    expect(classifyTransaction(transaction('2026-03-01', 500, ['Service', 'Advertising and Marketing'], 'Facebook'))).toBeNull()
+  })
+
+  it('puts other ad platforms, software and operating costs on their own lines', () => {
+    expect(classifyTransaction(transaction('2026-03-01', 500, ['Service', 'Advertising and Marketing'], 'Google Ads'))).toEqual({
+      id: 'ads:Google Ads',
+      label: 'Ad Spend · Google Ads',
+      section: 'marketing',
+    })
+    expect(classifyTransaction(transaction('2026-03-01', 50, ['Service', 'Software'], 'Figma'))?.id).toBe('software')
+    expect(classifyTransaction(transaction('2026-03-01', 2400, ['Payment', 'Rent']))?.id).toBe('opex:Rent')
+  })
+})
+
+describe('buildPnlLines', () => {
+  it('keeps the fixed lines when there is no data', () => {
+    const lines = buildPnlLines(noSources)
+    expect(lines.map((line) => line.id)).toEqual([
+      'gross_sales',
+      'discounts',
+      'returns',
+      'cogs',
+      'shipping',
+      'merchant_fees',
+      'ads:Meta',
+      'payroll',
+      'software',
+    ])
+    expect(lines.every((line) => line.entries.length === 0 && !line.unreported)).toBe(true)
+  })
+
+  it('marks figures the sources leave out as not reported', () => {
+    const lines = buildPnlLines({
+      ...noSources,
+      daily: [day('2026-03-01', { discounts: undefined, returns: undefined })],
+      payouts: [payout('2026-03-02', null)],
+      payroll: undefined,
+    })
+    const unreported = lines.filter((line) => line.unreported).map((line) => line.id)
+    expect(unreported).toEqual(['discounts', 'returns', 'merchant_fees', 'payroll'])
+  })
+
+  it('sorts bank-only lines by size after the fixed ones', () => {
+    const lines = buildPnlLines({
+      ...noSources,
+      transactions: [
+        transaction('2026-03-01', 100, ['Service', 'Insurance']),
+        transaction('2026-03-02', 2400, ['Payment', 'Rent']),
+        transaction('2026-03-03', 300, ['Service', 'Insurance']),
+      ],
+    })
+    expect(lines.slice(-2).map((line) => [line.id, line.entries.length])).toEqual([
+      ['opex:Rent', 1],
+      ['opex:Insurance', 2],
+    ])
+  })
+})
+
+describe('buildPnlRows', () => {
+  const sources: PnlSources = {
+    ...noSources,
+    // Month-end and leap days land in their own month
+    daily: [day('2024-01-31'), day('2024-02-29')],
+    payouts: [payout('2024-02-29', '29.30')],
+    metaDaily: [{ date: '2024-01-31', spend: 200 }],
+    payroll: [transaction('2024-02-01', 400, ['Transfer', 'Payroll'], 'Gusto')],
+    transactions: [transaction('2024-02-15', 50, ['Service', 'Software'], 'Figma')],
+  }
+  const rows = buildPnlRows(buildPnlLines(sources), ['2024-01', '2024-02'])
+  const values = (id: string) => rows.find((row) => row.id === id)?.values
+
+  it('signs revenue positive and contra revenue and costs negative', () => {
+    expect(values('gross_sales')).toEqual([1000, 1000])
+    expect(values('discounts')).toEqual([-100, -100])
+    expect(values('cogs')).toEqual([-300, -300])
+    expect(values('merchant_fees')).toEqual([0, -29.3])
+    expect(Object.is(values('merchant_fees')?.[0], -0)).toBe(false)
+  })
+
+  it('runs each subtotal on from the one before', () => {
+    expect(values('subtotal:revenue')).toEqual([850, 850])
+    expect(values('subtotal:cost_of_sales')).toEqual([470, 440.7])
+    expect(values('subtotal:marketing')).toEqual([270, 440.7])
+    const [january, february] = values('subtotal:operating') ?? []
+    expect(january).toBe(270)
+    expect(february).toBeCloseTo(-9.3)
+    expect(rows.find((row) => row.id === 'subtotal:operating')?.total).toBeCloseTo(260.7)
+  })
+
+  it('has a heading and subtotal for every section', () => {
+    expect(rows.filter((row) => row.kind === 'heading')).toHaveLength(4)
+    expect(rows.filter((row) => row.kind === 'subtotal').map((row) => row.label)).toEqual([
+      'Net Sales',
+      'Gross Profit',
+      'Contribution Margin',
+      'Net Profit',
+    ])
+  })
+})
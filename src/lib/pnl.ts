@@ -0,0 +1,239 @@
+/**
+ * Profit & Loss
+ *
+ * Builds a monthly P&L from the sources the rest of the app already reads:
+ * Shopify sales (daily metrics and payouts), Meta spend, payroll runs and
+ * Plaid bank transactions. Every line keeps the records it was summed from,
+ * so any cell can be drilled into.
+ *
+ * Bank transactions only fill in costs no other source reports. Meta billing,
+ * payroll, Shopify payouts and transfers between accounts are skipped there
+ * so nothing is counted twice. Carrier charges are skipped too - Shopify's
+ * shipping cost already includes the labels bought through it.
+ */
+
+import { getStoreToday, parseISODateAsLocal, toISODateString } from '@/lib/date-utils'
+import type { DailyMetric, Payout, Transaction } from '@/lib/api-types'
+
+export type PnlSection = 'revenue' | 'cost_of_sales' | 'marketing' | 'operating'
+
+/** One record behind a P&L amount - a day of Shopify sales, a payout, a transaction */
+export interface PnlEntry {
+  date: string
+  description: string
+  /** Where the record came from, e.g. "Shopify" or the bank category */
+  source: string
+  /** Always positive - the line decides whether it adds or subtracts */
+  amount: number
+}
+
+export interface PnlLine {
+  id: string
+  label: string
+  section: PnlSection
+  /** Discounts and returns come off revenue rather than being costs */
+  contra?: boolean
+  /** The source has data for the period but doesn't report this figure - the line is blank, not zero */
+  unreported?: boolean
+  entries: PnlEntry[]
+}
+
+export interface PnlSources {
+  daily: DailyMetric[]
+  /** Meta's daily account spend (/api/meta/overview time series) */
+  metaDaily: { date: string; spend: number }[]
+  payouts: Payout[]
+  /** Undefined when the payroll endpoint doesn't list its runs */
+  payroll?: Transaction[]
+  transactions: Transaction[]
+}
+
+export interface PnlRow {
+  id: string
+  label: string
+  kind: 'heading' | 'line' | 'subtotal'
+  /** Signed amount per month, in statement month order (revenue positive, costs negative) */
+  values: number[]
+  total: number
+  /** The line behind the row, for drill-down */
+  line?: PnlLine
+}
+
+export const PNL_MONTH_OPTIONS = ['3', '6', '12']
+
+export const PNL_SECTIONS: { key: PnlSection; label: string; subtotal: string }[] = [
+  { key: 'revenue', label: 'Revenue', subtotal: 'Net Sales' },
+  { key: 'cost_of_sales', label: 'Cost of Sales', subtotal: 'Gross Profit' },
+  { key: 'marketing', label: 'Marketing', subtotal: 'Contribution Margin' },
+  { key: 'operating', label: 'Operating Expenses', subtotal: 'Net Profit' },
+]
+
+// Bank charges that are Meta's own billing - its spend comes from the Meta API instead
+const META_BILLING = /facebook|meta|instagram/i
+
+// ============================================
+// MONTHS
+// ============================================
+
+/**
+ * The last `count` calendar months up to today, oldest first, and the dates
+ * they span. The current month runs to today.
+ */
+export function pnlMonths(count: number, now: Date = new Date()): { months: string[]; start: string; end: string } {
+  const today = getStoreToday(now)
+  const months = Array.from({ length: count }, (_, i) =>
+    toISODateString(new Date(today.getFullYear(), today.getMonth() - (count - 1 - i), 1)).slice(0, 7)
+  )
+  return { months, start: `${months[0]}-01`, end: toISODateString(today) }
+}
+
+/** "Sep 2026" for "2026-09" */
+export function formatPnlMonth(month: string): string {
+  return parseISODateAsLocal(`${month}-01`).toLocaleDateString('en-US', { month: 'short', year: 'numeric' })
+}
+
+// ============================================
+// LINES
+// ============================================
+
+/**
+ * Which P&L line a bank transaction belongs on, or null when it's income,
+ * a transfer, or already counted from another source
+ */
+export function classifyTransaction(transaction: Transaction): Pick<PnlLine, 'id' | 'label' | 'section'> | null {
+  if (transaction.amount <= 0) return null
+  const [top] = transaction.category
+  const primary = transaction.category[transaction.category.length - 1] ?? 'Uncategorized'
+  if (top === 'Transfer' || primary === 'Credit Card' || primary === 'Shipping and Freight') return null
+
+  const merchant = transaction.merchant_name || transaction.name
+  if (primary === 'Advertising and Marketing') {
+    if (META_BILLING.test(merchant)) return null
+    return { id: `ads:${merchant}`, label: `Ad Spend · ${merchant}`, section: 'marketing' }
+  }
+  if (primary === 'Software') return { id: 'software', label: 'Software & SaaS', section: 'operating' }
+  return { id: `opex:${primary}`, label: primary, section: 'operating' }
+}
+
+const transactionEntry = (t: Transaction): PnlEntry => ({
+  date: t.date,
+  description: t.merchant_name || t.name,
+  source: t.category[t.category.length - 1] ?? 'Bank',
+  amount: t.amount,
+})
+
+const payoutFees = (payout: Payout) =>
+  payout.summary
+    ? Number(payout.summary.charges_fee_amount) +
+      Number(payout.summary.refunds_fee_amount) +
+      Number(payout.summary.adjustments_fee_amount)
+    : 0
+
+/**
+ * Every P&L line for the period with the records behind it, in statement order.
+ * Ad platforms and other operating costs are sorted by size.
+ */
+export function buildPnlLines(sources: PnlSources): PnlLine[] {
+  type ShopifyField = 'grossSales' | 'discounts' | 'returns' | 'cogs' | 'shipping'
+  const shopifyLine = (id: string, label: string, section: PnlSection, field: ShopifyField, contra = false): PnlLine => ({
+    id,
+    label,
+    section,
+    contra,
+    unreported: sources.daily.length > 0 && sources.daily.every((day) => day[field] === undefined),
+    entries: sources.daily
+      .filter((day) => (day[field] ?? 0) > 0)
+      .map((day) => ({ date: day.dateRaw, description: `${day.orders} orders`, source: 'Shopify', amount: day[field] ?? 0 })),
+  })
+
+  const lines: PnlLine[] = [
+    shopifyLine('gross_sales', 'Gross Sales', 'revenue', 'grossSales'),
+    shopifyLine('discounts', 'Discounts', 'revenue', 'discounts', true),
+    shopifyLine('returns', 'Returns', 'revenue', 'returns', true),
+    shopifyLine('cogs', 'Cost of Goods Sold', 'cost_of_sales', 'cogs'),
+    shopifyLine('shipping', 'Shipping', 'cost_of_sales', 'shipping'),
+    {
+      id: 'merchant_fees',
+      label: 'Merchant Fees',
+      section: 'cost_of_sales',
+      unreported: sources.payouts.length > 0 && sources.payouts.every((payout) => !payout.summary),
+      entries: sources.payouts
+        .filter((payout) => payoutFees(payout) > 0)
+        .map((payout) => ({ date: payout.date, description: `Payout #${payout.id}`, source: 'Shopify Payments', amount: payoutFees(payout) })),
+    },
+    {
+      id: 'ads:Meta',
+      label: 'Ad Spend · Meta',
+      section: 'marketing',
+      entries: sources.metaDaily
+        .filter((day) => day.spend > 0)
+        .map((day) => ({ date: day.date, description: 'Daily spend', source: 'Meta Ads', amount: day.spend })),
+    },
+    {
+      id: 'payroll',
+      label: 'Payroll',
+      section: 'operating',
+      unreported: !sources.payroll,
+      entries: (sources.payroll ?? []).map(transactionEntry),
+    },
+  ]
+
+  const byId = new Map(lines.map((line) => [line.id, line]))
+  for (const transaction of sources.transactions) {
+    const target = classifyTransaction(transaction)
+    if (!target) continue
+    const line = byId.get(target.id) ?? { ...target, entries: [] }
+    line.entries.push(transactionEntry(transaction))
+    if (!byId.has(target.id)) {
+      byId.set(target.id, line)
+      lines.push(line)
+    }
+  }
+  if (!byId.has('software')) lines.push({ id: 'software', label: 'Software & SaaS', section: 'operating', entries: [] })
+
+  // Fixed lines keep their order; the ones found in bank data follow, largest first
+  const fixed = lines.filter((line) => !line.id.startsWith('opex:') && !(line.id.startsWith('ads:') && line.id !== 'ads:Meta'))
+  const found = lines
+    .filter((line) => !fixed.includes(line))
+    .sort((a, b) => sumEntries(b.entries) - sumEntries(a.entries))
+  return [...fixed, ...found]
+}
+
+function sumEntries(entries: PnlEntry[]): number {
+  return entries.reduce((sum, entry) => sum + entry.amount, 0)
+}
+
+/** The entries of a line that fall in a month ("YYYY-MM"), or all of them */
+export function lineEntries(line: PnlLine, month?: string): PnlEntry[] {
+  return month ? line.entries.filter((entry) => entry.date.startsWith(month)) : line.entries
+}
+
+// ============================================
+// STATEMENT
+// ============================================
+
+/**
+ * Rows of the statement: a heading, lines and a running subtotal for each
+ * section. Values are signed so subtotals are plain sums - revenue is
+ * positive, discounts, returns and costs negative.
+ */
+export function buildPnlRows(lines: PnlLine[], months: string[]): PnlRow[] {
+  const rows: PnlRow[] = []
+  let running = months.map(() => 0)
+
+  for (const section of PNL_SECTIONS) {
+    rows.push({ id: `heading:${section.key}`, label: section.label, kind: 'heading', values: [], total: 0 })
+    for (const line of lines.filter((l) => l.section === section.key)) {
+      const sign = section.key === 'revenue' && !line.contra ? 1 : -1
+      // `|| 0` keeps empty cost months from showing as -$0
+      const values = months.map((month) => sign * sumEntries(lineEntries(line, month)) || 0)
+      running = running.map((value, i) => value + values[i])
+      rows.push({ id: line.id, label: line.label, kind: 'line', values, total: sum(values), line })
+    }
+    rows.push({ id: `subtotal:${section.key}`, label: section.subtotal, kind: 'subtotal', values: running, total: sum(running) })
+  }
+
+  return rows
+}
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0)
@@ -0,0 +1,152 @@
+/**
+ * Router
+ *
+ * Minimal history-API router. The current location lives in the URL
+ * (path for the page and any nested entity, query string for filters) so a
+ * link to any view can be shared and survives reloads. Components read it
+ * through the hooks in useRouter.ts.
+ */
+
+export interface RouterLocation {
+  pathname: string
+  search: string
+}
+
+export type RouteParams = Record<string, string>
+
+/** Query params shared by every page - the rest belong to the page that set them */
+const GLOBAL_QUERY_PARAMS = ['range', 'compare']
+
+const listeners = new Set<() => void>()
+
+let snapshot: RouterLocation = readLocation()
+
+function readLocation(): RouterLocation {
+  if (typeof window === 'undefined') return { pathname: '/', search: '' }
+  return { pathname: window.location.pathname || '/', search: window.location.search }
+}
+
+function emitChange() {
+  const next = readLocation()
+  // Keep the snapshot stable when nothing changed so subscribers don't re-render
+  if (next.pathname === snapshot.pathname && next.search === snapshot.search) return
+  snapshot = next
+  listeners.forEach((listener) => listener())
+}
+
+// Links from before the router used '#/page' - move them onto the path
+if (typeof window !== 'undefined' && window.location.hash.startsWith('#/')) {
+  const legacyPath = window.location.hash.slice(1)
+  window.history.replaceState(window.history.state, '', legacyPath + window.location.search)
+  snapshot = readLocation()
+}
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('popstate', emitChange)
+}
+
+// ============================================
+// LOCATION
+// ============================================
+
+export function getLocation(): RouterLocation {
+  return snapshot
+}
+
+/**
+ * Subscribes to location changes (navigate() calls and back/forward)
+ *
+ * @returns Unsubscribe function
+ */
+export function subscribeLocation(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/**
+ * Navigates to a path (optionally with a query string)
+ *
+ * @param to - Target, e.g. '/meta/campaigns/123?range=7d'
+ * @param options.replace - Replace the current history entry instead of pushing one
+ */
+export function navigate(to: string, options: { replace?: boolean } = {}) {
+  const current = window.location.pathname + window.location.search
+  if (to === current) return
+
+  if (options.replace) {
+    window.history.replaceState(null, '', to)
+  } else {
+    window.history.pushState(null, '', to)
+  }
+  emitChange()
+}
+
+// ============================================
+// MATCHING
+// ============================================
+
+/**
+ * Matches a pathname against a route pattern such as '/meta/campaigns/:campaignId'
+ *
+ * @returns The decoded params, or null if the path doesn't match
+ */
+export function matchPath(pattern: string, pathname: string): RouteParams | null {
+  const patternParts = pattern.split('/').filter(Boolean)
+  const pathParts = pathname.split('/').filter(Boolean)
+  if (patternParts.length !== pathParts.length) return null
+
+  const params: RouteParams = {}
+  for (let i = 0; i < patternParts.length; i++) {
+    const part = patternParts[i]
+    if (part.startsWith(':')) {
+      try {
+        params[part.slice(1)] = decodeURIComponent(pathParts[i])
+      } catch {
+        return null
+      }
+    } else if (part !== pathParts[i]) {
+      return null
+    }
+  }
+  return params
+}
+
+// ============================================
+// QUERY STRING
+// ============================================
+
+/**
+ * Query string to carry over when navigating from `from` to `pathname`:
+ * everything while staying on the same page, only global params otherwise
+ */
+export function carrySearch(from: RouterLocation, pathname: string): string {
+  const section = (path: string) => path.split('/')[1] || ''
+  if (section(from.pathname) === section(pathname)) return from.search
+
+  const params = new URLSearchParams(from.search)
+  const kept = new URLSearchParams()
+  for (const key of GLOBAL_QUERY_PARAMS) {
+    const value = params.get(key)
+    if (value !== null) kept.set(key, value)
+  }
+  const query = kept.toString()
+  return query ? `?${query}` : ''
+}
+
+/**
+ * Returns the search string with the given params set (null/empty removes them)
+ */
+export function updateSearch(search: string, updates: Record<string, string | null>): string {
+  const params = new URLSearchParams(search)
+  for (const [key, value] of Object.entries(updates)) {
+    if (value === null || value === '') {
+      params.delete(key)
+    } else {
+      params.set(key, value)
+    }
+  }
+  const query = params.toString()
+  return query ? `?${query}` : ''
+}
@@ -0,0 +1,107 @@
+/**
+ * User Settings
+ *
+ * Per-user preferences persisted as one JSON document per user in the
+ * Supabase `user_settings` table (supabase/migrations/*_user_settings.sql).
+ *
+ * Read and written through the shared user store (see lib/user-store), whose
+ * cache lets defaults such as the landing page apply before Supabase responds.
+ */
+
+import { supabase } from '@/config/supabase'
+import { createUserStore } from '@/lib/user-store'
+import type { DateRangeValue } from '@/lib/date-range-labels'
+
+const SETTINGS_TABLE = 'user_settings'
+const CACHE_KEY_PREFIX = 'lg-settings:'
+
+export interface NotificationPreferences {
+  /** A Shopify/Meta/Plaid/Omnisend sync failed */
+  syncFailures: boolean
+  /** Raw materials or products fell below their reorder point */
+  lowStock: boolean
+  /** Morning summary of yesterday's sales and spend */
+  dailySummary: boolean
+  /** Monday recap of the previous week */
+  weeklyReport: boolean
+}
+
+export interface UserSettings {
+  /** Date range applied when a link doesn't specify one */
+  defaultDateRange: DateRangeValue
+  /** Page opened when the app starts at the root */
+  defaultLandingPage: string
+  /** BCP 47 locale used for number and currency formatting */
+  numberLocale: string
+  /** ISO 4217 display currency, or null to follow the store's currency */
+  currency: string | null
+  /** Percent off budget before a Meta campaign is flagged as under- or over-delivering */
+  pacingThreshold: number
+  notifications: NotificationPreferences
+}
+
+export const DEFAULT_SETTINGS: UserSettings = {
+  defaultDateRange: 'today',
+  defaultLandingPage: '/',
+  numberLocale: 'en-US',
+  currency: null,
+  pacingThreshold: 15,
+  notifications: {
+    syncFailures: true,
+    lowStock: true,
+    dailySummary: false,
+    weeklyReport: false,
+  },
+}
+
+/**
+ * Fills in fields missing from stored settings (saved by an older version)
+ */
+function withDefaults(stored: Partial<UserSettings> | null | undefined): UserSettings {
+  return {
+    ...DEFAULT_SETTINGS,
+    ...stored,
+    notifications: { ...DEFAULT_SETTINGS.notifications, ...stored?.notifications },
+  }
+}
+
+export const settingsStore = createUserStore<UserSettings>({
+  label: 'settings',
+  cacheKeyPrefix: CACHE_KEY_PREFIX,
+  empty: DEFAULT_SETTINGS,
+  fromCache: withDefaults,
+  fetch: async (userId) => {
+    const { data, error } = await supabase
+      .from(SETTINGS_TABLE)
+      .select('settings')
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    return withDefaults(data?.settings as Partial<UserSettings> | undefined)
+  },
+})
+
+/**
+ * Merges a change into the user's saved settings
+ *
+ * @throws Error when Supabase rejects the write
+ */
+export function saveUserSettings(userId: string, changes: Partial<UserSettings>): Promise<void> {
+  return settingsStore.save(
+    userId,
+    (settings) => ({ ...settings, ...changes }),
+    async (settings) => {
+      const { error } = await supabase
+        .from(SETTINGS_TABLE)
+        .upsert({ user_id: userId, settings, updated_at: new Date().toISOString() })
+
+      if (error) {
+        throw new Error(error.message)
+      }
+    }
+  )
+}
@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest'
+import { detectSubscriptions, priceChangeAlerts, softwareSpend } from '@/lib/subscriptions'
+import type { Transaction } from '@/lib/api-types'
+
+const at = (iso: string) => new Date(`${iso}T12:00:00Z`)
+
+let transactionId = 0
+const charge = (
+  date: string,
+  amount: number,
+  name: string,
+  overrides: Partial<Transaction> = {}
+): Transaction => ({
+  transaction_id: String(++transactionId),
+  account_id: 'ops',
+  amount,
+  date,
+  name,
+  merchant_name: null,
+  category: ['Service', 'Software'],
+  pending: false,
+  iso_currency_code: 'USD',
+  ...overrides,
+})
+
+/** One charge on the 5th of each month, starting from a YYYY-MM month */
+const monthly = (from: string, amounts: number[], name: string, overrides: Partial<Transaction> = {}) =>
+  amounts.map((amount, i) => {
+    const [year, month] = from.split('-').map(Number)
+    const d = new Date(Date.UTC(year, month - 1 + i, 5))
+    return charge(d.toISOString().slice(0, 10), amount, name, overrides)
+  })
+
+describe('detectSubscriptions', () => {
+  it('finds a monthly charge and groups varying descriptors', () => {
+    const transactions = [
+      charge('2026-03-05', 80, 'SLACK T0123'),
+      charge('2026-04-05', 80, 'Slack'),
+      charge('2026-05-05', 80, 'SLACK* T0456'),
+    ]
+    const [slack, ...rest] = detectSubscriptions(transactions, at('2026-05-20'))
+    expect(rest).toEqual([])
+    expect(slack).toMatchObject({
+      id: 'slack',
+      cadence: 'monthly',
+      isSoftware: true,
+      nextExpected: '2026-06-05',
+      annualizedCost: 960,
+      priceChange: null,
+      isLapsed: false,
+    })
+    expect(slack.charges).toHaveLength(3)
+  })
+
+  it('needs three monthly charges but only two annual renewals', () => {
+    const transactions = [
+      ...monthly('2026-04', [20, 20], 'Notion'),
+      charge('2025-01-10', 300, '1Password'),
+      charge('2026-01-10', 300, '1Password'),
+    ]
+    const subscriptions = detectSubscriptions(transactions, at('2026-05-20'))
+    expect(subscriptions.map((s) => [s.id, s.cadence, s.annualizedCost])).toEqual([['password', 'annual', 300]])
+  })
+
+  it('ignores refunds, transfers and one-off purchases at the same merchant', () => {
+    const transactions = [
+      ...monthly('2026-02', [50, 50, 50, 50], 'Adobe'),
+      charge('2026-03-20', 900, 'Adobe'),
+      charge('2026-04-06', -50, 'Adobe'),
+      ...monthly('2026-02', [1000, 1000, 1000], 'Gusto', { category: ['Transfer', 'Payroll'] }),
+    ]
+    const [adobe, ...rest] = detectSubscriptions(transactions, at('2026-05-20'))
+    expect(rest).toEqual([])
+    expect(adobe.charges.map((c) => c.amount)).toEqual([50, 50, 50, 50])
+  })
+
+  it('clamps the next charge to the end of shorter months', () => {
+    const monthEnd = [
+      charge('2023-11-30', 15, 'Loom'),
+      charge('2023-12-31', 15, 'Loom'),
+      charge('2024-01-31', 15, 'Loom'),
+    ]
+    expect(detectSubscriptions(monthEnd, at('2024-02-10'))[0].nextExpected).toBe('2024-02-29')
+
+    const leapDay = [charge('2023-02-28', 120, 'Zoom'), charge('2024-02-29', 120, 'Zoom')]
+    expect(detectSubscriptions(leapDay, at('2024-03-10'))[0].nextExpected).toBe('2025-02-28')
+  })
+
+  it('calls a subscription lapsed once a charge is overdue past the cadence slack', () => {
+    const transactions = monthly('2026-01', [30, 30, 30], 'Canva')
+    // Next charge 2026-04-05; ten days of slack for monthly plans
+    expect(detectSubscriptions(transactions, at('2026-04-15'))[0].isLapsed).toBe(false)
+    expect(detectSubscriptions(transactions, at('2026-04-16'))[0]).toMatchObject({ isLapsed: true, annualizedCost: 0 })
+  })
+
+  it('sorts by annualized cost, largest first', () => {
+    const transactions = [...monthly('2026-02', [10, 10, 10], 'Figma'), ...monthly('2026-02', [99, 99, 99], 'Klaviyo')]
+    expect(detectSubscriptions(transactions, at('2026-04-20')).map((s) => s.id)).toEqual(['klaviyo', 'figma'])
+  })
+})
+
+describe('price changes', () => {
+  it('flags a move between two stable prices', () => {
+    const transactions = monthly('2026-01', [10, 10, 10, 12, 12], 'Figma')
+    expect(detectSubscriptions(transactions, at('2026-05-20'))[0].priceChange).toEqual({
+      previous: 10,
+      current: 12,
+      percent: 20,
+      date: '2026-04-05',
+    })
+  })
+
+  it('ignores usage-billed swings and changes without a stable history', () => {
+    const usage = monthly('2026-01', [100, 110, 95, 105, 115], 'Klaviyo')
+    const tooSoon = monthly('2026-02', [10, 10, 12, 12], 'Figma')
+    const subscriptions = detectSubscriptions([...usage, ...tooSoon], at('2026-05-20'))
+    expect(subscriptions.map((s) => s.priceChange)).toEqual([null, null])
+  })
+
+  it('alerts on recent changes only, newest first', () => {
+    const transactions = [
+      ...monthly('2025-01', [10, 10, 10, 12], 'Old'),
+      ...monthly('2026-01', [20, 20, 20, 25], 'Notion'),
+      ...monthly('2026-02', [30, 30, 30, 36], 'Figma'),
+    ]
+    const now = at('2026-05-10')
+    const alerts = priceChangeAlerts(detectSubscriptions(transactions, now), now)
+    expect(alerts.map((s) => s.id)).toEqual(['figma', 'notion'])
+  })
+})
+
+describe('softwareSpend', () => {
+  it('sums software charges within the range, inclusive', () => {
+    const subscriptions = detectSubscriptions(
+      [
+        ...monthly('2026-01', [10, 10, 10, 10], 'Figma'),
+        ...monthly('2026-01', [2400, 2400, 2400, 2400], 'WeWork', { category: ['Payment', 'Rent'] }),
+      ],
+      at('2026-04-20')
+    )
+    expect(softwareSpend(subscriptions, '2026-02-05', '2026-03-05')).toBe(20)
+    expect(softwareSpend(subscriptions, '2026-02-06', '2026-03-04')).toBe(0)
+  })
+})
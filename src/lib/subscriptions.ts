@@ -0,0 +1,204 @@
+/**
+ * Subscription Detection
+ *
+ * Finds recurring charges in Plaid transactions - the same merchant billing a
+ * similar amount every month or every year - so software spend is counted
+ * without anyone keeping a list by hand. Each subscription carries its next
+ * expected charge, annualized cost and its latest price change.
+ *
+ * Usage-billed tools (email platforms, shipping apps) still count as
+ * subscriptions, but their month-to-month swings aren't price changes.
+ */
+
+import { getStoreToday, parseISODateAsLocal, toISODateString } from '@/lib/date-utils'
+import type { Transaction } from '@/lib/api-types'
+
+export type SubscriptionCadence = 'monthly' | 'annual'
+
+export interface SubscriptionCharge {
+  transactionId: string
+  date: string
+  amount: number
+}
+
+export interface PriceChange {
+  previous: number
+  current: number
+  /** Percent change from the previous price */
+  percent: number
+  /** First charge at the new price */
+  date: string
+}
+
+export interface Subscription {
+  /** Normalized merchant name */
+  id: string
+  merchant: string
+  /** Most specific Plaid category of the latest charge */
+  category: string
+  cadence: SubscriptionCadence
+  /** Software/SaaS, as opposed to rent, insurance and other recurring bills */
+  isSoftware: boolean
+  /** Oldest first */
+  charges: SubscriptionCharge[]
+  lastCharge: SubscriptionCharge
+  nextExpected: string
+  /** Latest charge times charges per year - 0 once lapsed */
+  annualizedCost: number
+  priceChange: PriceChange | null
+  /** A charge was due and never came - most likely cancelled */
+  isLapsed: boolean
+}
+
+/** Days of transaction history detection needs - two annual renewals */
+export const SUBSCRIPTION_LOOKBACK_DAYS = 800
+
+/** Price changes newer than this are flagged */
+export const PRICE_ALERT_DAYS = 90
+
+const CADENCES: { cadence: SubscriptionCadence; minGap: number; maxGap: number; perYear: number; minCharges: number }[] = [
+  { cadence: 'monthly', minGap: 25, maxGap: 35, perYear: 12, minCharges: 3 },
+  { cadence: 'annual', minGap: 350, maxGap: 380, perYear: 1, minCharges: 2 },
+]
+
+// Share of gaps between charges that must fit the cadence (a skipped or late charge is fine)
+const CADENCE_MATCH = 0.75
+// How far a charge can stray from the merchant's usual amount and still be the subscription
+const AMOUNT_TOLERANCE = 0.3
+// Charges within this of each other are the same price
+const SAME_PRICE = 0.02
+// Smallest move between two stable prices that counts as a price change
+const PRICE_CHANGE_MIN = 0.05
+// Charges in a row at the old price before a change counts
+const STABLE_CHARGES = 3
+
+const SOFTWARE_CATEGORIES = ['Software', 'Subscription']
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const daysBetween = (a: string, b: string) =>
+  Math.round((parseISODateAsLocal(b).getTime() - parseISODateAsLocal(a).getTime()) / DAY_MS)
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+const samePrice = (a: number, b: number) => Math.abs(a - b) <= b * SAME_PRICE
+
+/** Merchant key that survives Plaid's varying descriptors ("SLACK T0123" and "Slack") */
+function merchantKey(transaction: Transaction): string {
+  return (transaction.merchant_name || transaction.name)
+    .toLowerCase()
+    // Drop trailing reference codes before stripping digits, or "T0123" leaves a stray "t"
+    .replace(/\s\S*\d\S*/g, ' ')
+    .replace(/[^a-z ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/** The charge date one cadence after a date, clamped to the end of shorter months */
+function nextChargeDate(date: string, cadence: SubscriptionCadence): string {
+  const d = parseISODateAsLocal(date)
+  const year = d.getFullYear() + (cadence === 'annual' ? 1 : 0)
+  const month = d.getMonth() + (cadence === 'monthly' ? 1 : 0)
+  const lastDay = new Date(year, month + 1, 0).getDate()
+  return toISODateString(new Date(year, month, Math.min(d.getDate(), lastDay), 12, 0, 0))
+}
+
+/**
+ * The latest move between two stable prices. The old price has to have
+ * held for a few charges in a row, so usage-based bills don't register.
+ */
+function detectPriceChange(charges: SubscriptionCharge[]): PriceChange | null {
+  const last = charges[charges.length - 1]
+  let start = charges.length - 1
+  while (start > 0 && samePrice(charges[start - 1].amount, last.amount)) start--
+  if (start < STABLE_CHARGES) return null
+
+  const previous = charges[start - 1].amount
+  const held = charges.slice(start - STABLE_CHARGES, start)
+  if (!held.every((charge) => samePrice(charge.amount, previous))) return null
+  const percent = ((last.amount - previous) / previous) * 100
+  if (Math.abs(percent) < PRICE_CHANGE_MIN * 100) return null
+  return { previous, current: last.amount, percent, date: charges[start].date }
+}
+
+/**
+ * Recurring charges found in a set of transactions, largest annualized cost first
+ *
+ * @param transactions - Ideally SUBSCRIPTION_LOOKBACK_DAYS of history; annual plans need two renewals to show up
+ * @param now - Current instant (for tests and snapshots)
+ */
+export function detectSubscriptions(transactions: Transaction[], now: Date = new Date()): Subscription[] {
+  const today = toISODateString(getStoreToday(now))
+  const byMerchant = new Map<string, Transaction[]>()
+  for (const transaction of transactions) {
+    // Money in and moves between accounts are never subscriptions
+    if (transaction.amount <= 0 || transaction.category[0] === 'Transfer') continue
+    const key = merchantKey(transaction)
+    const group = byMerchant.get(key) ?? []
+    group.push(transaction)
+    byMerchant.set(key, group)
+  }
+
+  const subscriptions: Subscription[] = []
+  for (const [id, merchantTransactions] of byMerchant) {
+    const usual = median(merchantTransactions.map((t) => t.amount))
+    const charges = merchantTransactions
+      .filter((t) => Math.abs(t.amount - usual) <= usual * AMOUNT_TOLERANCE)
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .map((t) => ({ transactionId: t.transaction_id, date: t.date, amount: t.amount }))
+    if (charges.length < 2) continue
+
+    const gaps = charges.slice(1).map((charge, i) => daysBetween(charges[i].date, charge.date))
+    const fit = CADENCES.find(
+      (c) =>
+        charges.length >= c.minCharges &&
+        gaps.filter((gap) => gap >= c.minGap && gap <= c.maxGap).length >= gaps.length * CADENCE_MATCH
+    )
+    if (!fit) continue
+
+    const lastCharge = charges[charges.length - 1]
+    const latest = merchantTransactions.find((t) => t.transaction_id === lastCharge.transactionId) ?? merchantTransactions[0]
+    const nextExpected = nextChargeDate(lastCharge.date, fit.cadence)
+    // Allow a late charge before calling it cancelled
+    const isLapsed = daysBetween(nextExpected, today) > fit.maxGap - fit.minGap
+
+    subscriptions.push({
+      id,
+      merchant: latest.merchant_name || latest.name,
+      category: latest.category[latest.category.length - 1] ?? 'Uncategorized',
+      cadence: fit.cadence,
+      isSoftware: latest.category.some((category) => SOFTWARE_CATEGORIES.includes(category)),
+      charges,
+      lastCharge,
+      nextExpected,
+      annualizedCost: isLapsed ? 0 : lastCharge.amount * fit.perYear,
+      priceChange: detectPriceChange(charges),
+      isLapsed,
+    })
+  }
+
+  return subscriptions.sort((a, b) => b.annualizedCost - a.annualizedCost)
+}
+
+/**
+ * What software subscriptions actually charged between two ISO dates (inclusive)
+ */
+export function softwareSpend(subscriptions: Subscription[], start: string, end: string): number {
+  return subscriptions
+    .filter((subscription) => subscription.isSoftware)
+    .flatMap((subscription) => subscription.charges)
+    .filter((charge) => charge.date >= start && charge.date <= end)
+    .reduce((sum, charge) => sum + charge.amount, 0)
+}
+
+/** Subscriptions whose price changed in the last PRICE_ALERT_DAYS, newest first */
+export function priceChangeAlerts(subscriptions: Subscription[], now: Date = new Date()): Subscription[] {
+  const today = toISODateString(getStoreToday(now))
+  return subscriptions
+    .filter((s) => s.priceChange && !s.isLapsed && daysBetween(s.priceChange.date, today) <= PRICE_ALERT_DAYS)
+    .sort((a, b) => (b.priceChange?.date ?? '').localeCompare(a.priceChange?.date ?? ''))
+}
@@ -0,0 +1,166 @@
+/**
+ * User Store
+ *
+ * Per-user data kept in Supabase tables with row level security restricting
+ * each user to their own rows (settings, saved Meta views, ad tags). The last
+ * copy read from or accepted by Supabase is cached in localStorage, so it is
+ * available before Supabase responds and when it can't be reached. Demo mode
+ * only uses the cache.
+ *
+ * Writes run one at a time, each applied to a fresh read of the user's rows
+ * so a device with a stale cache can't overwrite changes made on another.
+ * They reach the cache only once Supabase accepts them - a rejected write
+ * throws and leaves the cache as it was, so callers applying changes
+ * optimistically should roll back; useUserStore does that for components.
+ */
+
+import { useEffect, useState } from 'react'
+import { useAuth } from '@/context/AuthContext'
+import { isDemoMode } from '@/lib/demo'
+
+export interface UserStoreOptions<T> {
+  /** What the store holds, for warnings (e.g. 'saved views') */
+  label: string
+  /** localStorage key prefix; the user id is appended */
+  cacheKeyPrefix: string
+  /** Value when nothing has been stored yet */
+  empty: T
+  /** Normalizes a cached value, e.g. filling in fields added since it was written */
+  fromCache?: (cached: T) => T
+  /**
+   * Reads the user's rows from Supabase
+   *
+   * @throws Error when Supabase rejects the read
+   */
+  fetch: (userId: string) => Promise<T>
+}
+
+export interface UserStore<T> {
+  /** Last known value for a user (empty when signed out or nothing is cached) */
+  readCached: (userId: string | null) => T
+  /** Loads from Supabase, falling back to the cached copy when it can't be reached */
+  load: (userId: string) => Promise<T>
+  /**
+   * Applies `update` to the value currently in Supabase and writes the
+   * result, caching it once the write succeeds
+   *
+   * @throws Error when Supabase rejects the read or write (the cache is left unchanged)
+   */
+  save: (userId: string, update: (current: T) => T, write: (next: T) => Promise<void>) => Promise<void>
+}
+
+export function createUserStore<T>({ label, cacheKeyPrefix, empty, fromCache, fetch }: UserStoreOptions<T>): UserStore<T> {
+  const readCached = (userId: string | null): T => {
+    if (!userId) return empty
+    try {
+      const raw = localStorage.getItem(cacheKeyPrefix + userId)
+      if (!raw) return empty
+      const cached = JSON.parse(raw) as T
+      return fromCache ? fromCache(cached) : cached
+    } catch {
+      return empty
+    }
+  }
+
+  const writeCached = (userId: string, value: T) => {
+    try {
+      localStorage.setItem(cacheKeyPrefix + userId, JSON.stringify(value))
+    } catch {
+      // Storage unavailable - the value still loads from Supabase next time
+    }
+  }
+
+  const load = async (userId: string): Promise<T> => {
+    if (isDemoMode()) return readCached(userId)
+
+    try {
+      const value = await fetch(userId)
+      writeCached(userId, value)
+      return value
+    } catch (error) {
+      console.warn(`Failed to load ${label}:`, error instanceof Error ? error.message : error)
+      return readCached(userId)
+    }
+  }
+
+  // Saves queue behind each other so a quick second change can't overwrite the first
+  let pending: Promise<unknown> = Promise.resolve()
+
+  const save = (userId: string, update: (current: T) => T, write: (next: T) => Promise<void>) => {
+    const run = pending.then(async () => {
+      if (isDemoMode()) {
+        writeCached(userId, update(readCached(userId)))
+        return
+      }
+      const next = update(await fetch(userId))
+      await write(next)
+      writeCached(userId, next)
+    })
+    pending = run.catch(() => {})
+    return run
+  }
+
+  return { readCached, load, save }
+}
+
+export interface UserStoreState<T> {
+  /** The signed-in user's value, including changes still being saved */
+  value: T
+  /** Whether the value is still being fetched from Supabase */
+  isLoading: boolean
+  /**
+   * Shows `change` straight away and runs `save`. If the save is rejected,
+   * `rollback` gets the value shown by then and the last one Supabase
+   * accepted, and returns what to show instead.
+   *
+   * @throws Error when the save was rejected
+   */
+  update: (
+    change: (current: T) => T,
+    save: (userId: string) => Promise<void>,
+    rollback: (current: T, saved: T) => T
+  ) => Promise<void>
+}
+
+/**
+ * Hook to read and optimistically update the signed-in user's value in a store
+ */
+export function useUserStore<T>(store: UserStore<T>): UserStoreState<T> {
+  const { user, isDemo } = useAuth()
+  const userId = user?.id ?? null
+
+  // Keyed by user so switching accounts never shows the previous user's data
+  const [state, setState] = useState(() => ({
+    userId,
+    value: store.readCached(userId),
+    isLoading: userId !== null,
+  }))
+  if (state.userId !== userId) {
+    setState({ userId, value: store.readCached(userId), isLoading: userId !== null })
+  }
+
+  useEffect(() => {
+    if (!userId) return
+    let cancelled = false
+    store.load(userId).then((value) => {
+      if (!cancelled) setState({ userId, value, isLoading: false })
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [store, userId, isDemo])
+
+  const update: UserStoreState<T>['update'] = async (change, save, rollback) => {
+    if (!userId) return
+    setState((prev) => (prev.userId === userId ? { ...prev, value: change(prev.value) } : prev))
+    try {
+      await save(userId)
+    } catch (error) {
+      const saved = store.readCached(userId)
+      setState((prev) => (prev.userId === userId ? { ...prev, value: rollback(prev.value, saved) } : prev))
+      throw error
+    }
+  }
+
+  return { value: state.value, isLoading: state.isLoading, update }
+}
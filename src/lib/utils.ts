@@ -5,15 +5,53 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
 
+// ============================================
+// NUMBER FORMAT
+// ============================================
+
+/** Locale and currency used by every number/currency formatter in the app */
+export interface NumberFormatSettings {
+  locale: string
+  currency: string
+}
+
+let numberFormat: NumberFormatSettings = { locale: 'en-US', currency: 'USD' }
+const numberFormatListeners = new Set<() => void>()
+
+export function getNumberFormat(): NumberFormatSettings {
+  return numberFormat
+}
+
+/**
+ * Switches the app-wide number format (from the user's settings)
+ */
+export function setNumberFormat(next: NumberFormatSettings) {
+  if (next.locale === numberFormat.locale && next.currency === numberFormat.currency) return
+  numberFormat = next
+  numberFormatListeners.forEach((listener) => listener())
+}
+
+/**
+ * Subscribes to changes in getNumberFormat()
+ *
+ * @returns Unsubscribe function
+ */
+export function subscribeNumberFormat(listener: () => void): () => void {
+  numberFormatListeners.add(listener)
+  return () => {
+    numberFormatListeners.delete(listener)
+  }
+}
+
 export function formatCurrency(value: number): string {
-  return new Intl.NumberFormat('en-US', {
+  return new Intl.NumberFormat(numberFormat.locale, {
     style: 'currency',
-    currency: 'USD',
+    currency: numberFormat.currency,
   }).format(value)
 }
 
 export function formatPercentage(value: number): string {
-  return new Intl.NumberFormat('en-US', {
+  return new Intl.NumberFormat(numberFormat.locale, {
     style: 'percent',
     minimumFractionDigits: 1,
     maximumFractionDigits: 1,
@@ -21,5 +59,5 @@ export function formatPercentage(value: number): string {
 }
 
 export function formatNumber(value: number): string {
-  return new Intl.NumberFormat('en-US').format(value)
+  return new Intl.NumberFormat(numberFormat.locale).format(value)
 }
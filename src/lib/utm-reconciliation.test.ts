@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest'
+import { isMetaSource, reconcileMetaWithShopify } from '@/lib/utm-reconciliation'
+import type { PlatformEntity } from '@/lib/utm-reconciliation'
+import type { UtmOrder } from '@/lib/api-types'
+
+let orderId = 0
+const order = (netSales: number, utm: Partial<Pick<UtmOrder, 'utmSource' | 'utmCampaign' | 'utmContent'>> = {}): UtmOrder => ({
+  id: String(++orderId),
+  createdAt: '2026-03-01',
+  netSales,
+  utmSource: 'facebook',
+  utmMedium: 'paid',
+  utmCampaign: null,
+  utmContent: null,
+  ...utm,
+})
+
+const campaigns: PlatformEntity[] = [
+  { id: 'c1', name: 'Spring Sale', spend: 100, revenue: 500, purchases: 5 },
+  { id: 'c2', name: 'Retargeting', spend: 50, revenue: 100, purchases: 1 },
+]
+const ads: PlatformEntity[] = [
+  { id: 'a1', name: 'Video A', campaignId: 'c1', spend: 60, revenue: 300, purchases: 3 },
+  { id: 'a2', name: 'Carousel', campaignId: 'c1', spend: 40, revenue: 200, purchases: 2 },
+]
+
+describe('isMetaSource', () => {
+  it('recognizes Meta sources in any case', () => {
+    expect(isMetaSource('Facebook')).toBe(true)
+    expect(isMetaSource(' IG ')).toBe(true)
+    expect(isMetaSource('google')).toBe(false)
+    expect(isMetaSource(null)).toBe(false)
+  })
+})
+
+describe('reconcileMetaWithShopify', () => {
+  it('is empty without orders or campaigns', () => {
+    const result = reconcileMetaWithShopify([], [], [])
+    expect(result.campaigns).toEqual([])
+    expect(result.total).toMatchObject({ spend: 0, shopifyRevenue: 0, overReporting: null, isOverReported: false })
+    expect(result.unmatched).toEqual({ orders: 0, revenue: 0 })
+    expect(result.allOrders).toEqual({ orders: 0, revenue: 0 })
+  })
+
+  it('matches utm_campaign by id or by encoded, differently cased name', () => {
+    const result = reconcileMetaWithShopify(
+      [order(200, { utmCampaign: 'c1' }), order(150, { utmCampaign: 'spring%20sale' }), order(50, { utmCampaign: 'SPRING+SALE' })],
+      campaigns,
+      ads
+    )
+    expect(result.campaigns[0]).toMatchObject({ shopifyOrders: 3, shopifyRevenue: 400, shopifyRoas: 4, overReporting: 25 })
+    // Exactly at the threshold isn't flagged
+    expect(result.campaigns[0].isOverReported).toBe(false)
+  })
+
+  it('flags revenue Meta claims with no matching orders', () => {
+    const result = reconcileMetaWithShopify([], campaigns, ads)
+    expect(result.campaigns[1]).toMatchObject({ shopifyRevenue: 0, overReporting: null, isOverReported: true })
+  })
+
+  it("credits an ad match without utm_campaign to the ad's campaign", () => {
+    const result = reconcileMetaWithShopify([order(120, { utmContent: 'Video A' })], campaigns, ads)
+    expect(result.campaigns[0]).toMatchObject({ shopifyOrders: 1, shopifyRevenue: 120 })
+    expect(result.ads.get('c1')?.map((row) => [row.id, row.shopifyRevenue])).toEqual([
+      ['a1', 120],
+      ['a2', 0],
+    ])
+  })
+
+  it("doesn't credit an ad when utm_campaign names another campaign", () => {
+    const result = reconcileMetaWithShopify([order(80, { utmCampaign: 'c2', utmContent: 'a1' })], campaigns, ads)
+    expect(result.campaigns[1].shopifyRevenue).toBe(80)
+    expect(result.ads.get('c1')?.[0].shopifyRevenue).toBe(0)
+  })
+
+  it('keeps unmatched Meta orders and non-Meta orders apart', () => {
+    const result = reconcileMetaWithShopify(
+      [order(70, { utmCampaign: 'Deleted campaign' }), order(30, { utmSource: 'google', utmCampaign: 'c1' }), order(10, { utmSource: null })],
+      campaigns,
+      ads
+    )
+    expect(result.unmatched).toEqual({ orders: 1, revenue: 70 })
+    expect(result.allOrders).toEqual({ orders: 3, revenue: 110 })
+    expect(result.total.shopifyRevenue).toBe(0)
+  })
+})
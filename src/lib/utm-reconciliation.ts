@@ -0,0 +1,164 @@
+/**
+ * Meta vs Shopify Reconciliation
+ *
+ * Meta's revenue comes from the Pixel, which credits any purchase inside the
+ * attribution window - including ones another channel drove. Shopify orders
+ * carry the UTM parameters of the visit that placed them, so matching
+ * utm_campaign / utm_content to Meta campaign and ad ids or names gives a
+ * second, independent revenue figure to hold the Pixel's against.
+ */
+
+import type { UtmOrder } from '@/lib/api-types'
+
+/** utm_source values that mean the visit came from a Meta ad */
+export const META_UTM_SOURCES = ['facebook', 'fb', 'instagram', 'ig', 'meta', 'an', 'messenger']
+
+/** Percent Meta may report above matched Shopify revenue before a row is flagged */
+export const OVER_REPORTING_THRESHOLD = 25
+
+/** A Meta campaign or ad as reported by the platform */
+export interface PlatformEntity {
+  id: string
+  name: string
+  /** Set on ads */
+  campaignId?: string
+  spend: number
+  revenue: number
+  purchases: number
+}
+
+export interface ReconciledRow {
+  id: string
+  name: string
+  spend: number
+  metaRevenue: number
+  metaPurchases: number
+  metaRoas: number
+  shopifyRevenue: number
+  shopifyOrders: number
+  shopifyRoas: number
+  /** Percent Meta reports above Shopify, or null when Shopify matched nothing */
+  overReporting: number | null
+  isOverReported: boolean
+}
+
+export interface Reconciliation {
+  campaigns: ReconciledRow[]
+  /** Ad rows keyed by campaign id */
+  ads: Map<string, ReconciledRow[]>
+  total: ReconciledRow
+  /** Meta-sourced orders whose UTMs name no campaign in the account */
+  unmatched: { orders: number; revenue: number }
+  /** Every order in the period, for the share that came through Meta */
+  allOrders: { orders: number; revenue: number }
+}
+
+/** UTM values arrive URL-encoded and in whatever case the template produced */
+function normalize(value: string): string {
+  let decoded = value.replace(/\+/g, ' ')
+  try {
+    decoded = decodeURIComponent(decoded)
+  } catch {
+    // Keep the raw value when it isn't valid percent-encoding
+  }
+  return decoded.trim().toLowerCase()
+}
+
+export function isMetaSource(utmSource: string | null): boolean {
+  return utmSource !== null && META_UTM_SOURCES.includes(normalize(utmSource))
+}
+
+/** Looks entities up by id first, then by name */
+function indexEntities(entities: PlatformEntity[]) {
+  const byId = new Map(entities.map((e) => [e.id, e]))
+  const byName = new Map<string, PlatformEntity>()
+  for (const entity of entities) {
+    const name = normalize(entity.name)
+    if (!byName.has(name)) byName.set(name, entity)
+  }
+  return (value: string | null) => (value ? byId.get(value.trim()) ?? byName.get(normalize(value)) : undefined)
+}
+
+function reconcileRow(entity: Omit<PlatformEntity, 'campaignId'>, matched: { orders: number; revenue: number } | undefined): ReconciledRow {
+  const shopifyRevenue = matched?.revenue ?? 0
+  const overReporting = shopifyRevenue > 0 ? (entity.revenue / shopifyRevenue - 1) * 100 : null
+  return {
+    id: entity.id,
+    name: entity.name,
+    spend: entity.spend,
+    metaRevenue: entity.revenue,
+    metaPurchases: entity.purchases,
+    metaRoas: entity.spend > 0 ? entity.revenue / entity.spend : 0,
+    shopifyRevenue,
+    shopifyOrders: matched?.orders ?? 0,
+    shopifyRoas: entity.spend > 0 ? shopifyRevenue / entity.spend : 0,
+    overReporting,
+    // Revenue Meta claims with no matching orders at all is over-reporting too
+    isOverReported: overReporting === null ? entity.revenue > 0 : overReporting > OVER_REPORTING_THRESHOLD,
+  }
+}
+
+/**
+ * Match orders to Meta campaigns and ads and line both revenue figures up
+ *
+ * An order matches a campaign when utm_campaign is its id or name, and an ad
+ * of that campaign when utm_content is the ad's id or name. An ad match with
+ * no utm_campaign still counts toward the ad's campaign.
+ */
+export function reconcileMetaWithShopify(
+  orders: UtmOrder[],
+  campaigns: PlatformEntity[],
+  ads: PlatformEntity[]
+): Reconciliation {
+  const findCampaign = indexEntities(campaigns)
+  const findAd = indexEntities(ads)
+  const campaignTotals = new Map<string, { orders: number; revenue: number }>()
+  const adTotals = new Map<string, { orders: number; revenue: number }>()
+  const unmatched = { orders: 0, revenue: 0 }
+  const allOrders = { orders: 0, revenue: 0 }
+
+  const add = (totals: Map<string, { orders: number; revenue: number }>, id: string, revenue: number) => {
+    const current = totals.get(id) ?? { orders: 0, revenue: 0 }
+    totals.set(id, { orders: current.orders + 1, revenue: current.revenue + revenue })
+  }
+
+  for (const order of orders) {
+    allOrders.orders += 1
+    allOrders.revenue += order.netSales
+    if (!isMetaSource(order.utmSource)) continue
+
+    const ad = findAd(order.utmContent)
+    const campaign = findCampaign(order.utmCampaign) ?? (ad?.campaignId ? findCampaign(ad.campaignId) : undefined)
+    if (!campaign) {
+      unmatched.orders += 1
+      unmatched.revenue += order.netSales
+      continue
+    }
+
+    add(campaignTotals, campaign.id, order.netSales)
+    if (ad && ad.campaignId === campaign.id) add(adTotals, ad.id, order.netSales)
+  }
+
+  const adRows = new Map<string, ReconciledRow[]>()
+  for (const ad of ads) {
+    if (!ad.campaignId) continue
+    adRows.set(ad.campaignId, [...(adRows.get(ad.campaignId) ?? []), reconcileRow(ad, adTotals.get(ad.id))])
+  }
+
+  const sum = (key: 'spend' | 'revenue' | 'purchases') => campaigns.reduce((total, c) => total + c[key], 0)
+  const matchedTotal = [...campaignTotals.values()].reduce(
+    (total, m) => ({ orders: total.orders + m.orders, revenue: total.revenue + m.revenue }),
+    { orders: 0, revenue: 0 }
+  )
+
+  return {
+    campaigns: campaigns.map((c) => reconcileRow(c, campaignTotals.get(c.id))),
+    ads: adRows,
+    total: reconcileRow(
+      { id: 'total', name: 'Total', spend: sum('spend'), revenue: sum('revenue'), purchases: sum('purchases') },
+      matchedTotal
+    ),
+    unmatched,
+    allOrders,
+  }
+}
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest'
+import { alignBaseline, buildYoYComparison, getDefaultBaseline, getYoYPeriodOptions, resolveYoYPeriod } from '@/lib/yoy'
+import type { YoYMetric } from '@/lib/yoy'
+import { resolveDateRange } from '@/lib/date-utils'
+
+interface Row {
+  date: string
+  revenue: number
+  spend: number
+}
+
+const revenue: YoYMetric<Row> = { value: 'revenue', label: 'Revenue', numerator: (row) => row.revenue, format: 'currency' }
+const roas: YoYMetric<Row> = {
+  value: 'roas',
+  label: 'ROAS',
+  numerator: (row) => row.revenue,
+  denominator: (row) => row.spend,
+  format: 'ratio',
+}
+
+const at = (iso: string) => new Date(`${iso}T12:00:00Z`)
+
+describe('resolveYoYPeriod', () => {
+  it('cuts the current year off at today', () => {
+    expect(resolveYoYPeriod('2026', at('2026-03-15'))).toMatchObject({ start: '2026-01-01', end: '2026-03-15', days: 74 })
+  })
+
+  it('covers a whole leap year', () => {
+    expect(resolveYoYPeriod('2024', at('2026-03-15'))).toMatchObject({ start: '2024-01-01', end: '2024-12-31', days: 366 })
+  })
+
+  it('ends the trailing 12 months today and the prior 12 months a year earlier', () => {
+    expect(resolveYoYPeriod('ttm', at('2026-03-15'))).toMatchObject({ start: '2025-03-16', end: '2026-03-15', days: 365 })
+    expect(resolveYoYPeriod('ttm_prev', at('2026-03-15'))).toMatchObject({ start: '2024-03-16', end: '2025-03-15', days: 365 })
+  })
+
+  it('keeps the trailing windows back to back on a leap day', () => {
+    const ttm = resolveYoYPeriod('ttm', at('2024-02-29'))
+    const prev = resolveYoYPeriod('ttm_prev', at('2024-02-29'))
+    expect(ttm).toMatchObject({ start: '2023-03-02', end: '2024-02-29' })
+    expect(prev.end).toBe('2023-03-01')
+  })
+})
+
+describe('getYoYPeriodOptions', () => {
+  it('starts from the current year on New Year\'s Day', () => {
+    const options = getYoYPeriodOptions(at('2026-01-01'))
+    expect(options.map((o) => o.value)).toEqual(['2026', '2025', '2024', '2023', 'ttm', 'ttm_prev'])
+    expect(options[0].label).toBe('2026 YTD')
+  })
+})
+
+describe('getDefaultBaseline', () => {
+  it('compares a year with the one before and the trailing windows with each other', () => {
+    expect(getDefaultBaseline('2026')).toBe('2025')
+    expect(getDefaultBaseline('ttm')).toBe('ttm_prev')
+    expect(getDefaultBaseline('ttm_prev')).toBe('ttm')
+  })
+})
+
+describe('alignBaseline', () => {
+  const now = at('2027-06-01')
+
+  it('leaves the baseline alone when aligning by calendar day', () => {
+    const baseline = resolveDateRange('2025', now)
+    expect(alignBaseline(resolveDateRange('2026', now), baseline, 'day_of_year')).toBe(baseline)
+  })
+
+  it('shifts the baseline forward to the same weekday', () => {
+    // Jan 1 2026 is a Thursday, Jan 1 2025 a Wednesday
+    const aligned = alignBaseline(resolveDateRange('2026', now), resolveDateRange('2025', now), 'weekday')
+    expect(aligned).toMatchObject({ start: '2025-01-02', end: '2026-01-01', days: 365 })
+  })
+
+  it('shifts backward when that is nearer', () => {
+    // Monday vs Thursday - three days back rather than four forward
+    const aligned = alignBaseline(
+      resolveDateRange('custom:2024-01-01:2024-01-31', now),
+      resolveDateRange('custom:2023-01-05:2023-02-04', now),
+      'weekday'
+    )
+    expect(aligned).toMatchObject({ start: '2023-01-02', end: '2023-02-01' })
+  })
+})
+
+describe('buildYoYComparison', () => {
+  const now = at('2026-12-31')
+
+  it('returns empty points and a zero change without data', () => {
+    const current = resolveDateRange('custom:2026-02-01:2026-02-28', now)
+    const baseline = resolveDateRange('custom:2025-02-01:2025-02-28', now)
+    const result = buildYoYComparison<Row>([], [], current, baseline, revenue, (row) => row.date)
+    expect(result.points).toHaveLength(28)
+    expect(result.points.every((p) => p.current === 0 && p.baseline === 0)).toBe(true)
+    expect(result.summary).toEqual({ current: 0, baseline: 0, change: 0 })
+  })
+
+  it('runs past a shorter current period and only totals the days it reached', () => {
+    // February 2024 has a leap day, February 2025 doesn't
+    const current = resolveDateRange('custom:2025-02-01:2025-02-28', now)
+    const baseline = resolveDateRange('custom:2024-02-01:2024-02-29', now)
+    const rows = (year: number, days: number, amount: number) =>
+      Array.from({ length: days }, (_, i) => ({
+        date: `${year}-02-${String(i + 1).padStart(2, '0')}`,
+        revenue: amount,
+        spend: 10,
+      }))
+
+    const result = buildYoYComparison(rows(2025, 28, 150), rows(2024, 29, 100), current, baseline, revenue, (row) => row.date)
+    expect(result.points).toHaveLength(29)
+    expect(result.points[28]).toMatchObject({ currentDate: null, current: null, baselineDate: '2024-02-29', baseline: 100 })
+    expect(result.summary).toEqual({ current: 4200, baseline: 2800, change: 50 })
+  })
+
+  it('sums both sides of a ratio before dividing', () => {
+    const current = resolveDateRange('custom:2026-03-01:2026-03-02', now)
+    const baseline = resolveDateRange('custom:2025-03-01:2025-03-02', now)
+    const result = buildYoYComparison(
+      [
+        { date: '2026-03-01', revenue: 300, spend: 100 },
+        { date: '2026-03-02', revenue: 100, spend: 0 },
+      ],
+      [{ date: '2025-03-01', revenue: 200, spend: 100 }],
+      current,
+      baseline,
+      roas,
+      (row) => row.date
+    )
+    // No spend that day - no ratio rather than infinity
+    expect(result.points[1].current).toBeNull()
+    expect(result.points[1].baseline).toBeNull()
+    expect(result.summary).toEqual({ current: 4, baseline: 2, change: 100 })
+  })
+})
@@ -0,0 +1,224 @@
+/**
+ * Year-over-Year Comparison
+ *
+ * Lines up a daily series for one period against another (two calendar
+ * years, or two trailing-12-month windows) so charts can draw them on the
+ * same axis. Periods resolve through date-utils, so they follow the store's
+ * timezone like every other range in the app.
+ */
+
+import {
+  formatCurrency,
+  formatDateForDisplay,
+  getPercentChange,
+  getStoreToday,
+  parseISODateAsLocal,
+  resolveDateRange,
+  toCustomRange,
+  toISODateString,
+} from '@/lib/date-utils'
+import type { ResolvedDateRange } from '@/lib/date-utils'
+
+// ============================================
+// TYPES
+// ============================================
+
+/** A calendar year ("2025") or a trailing-12-month window ("ttm", "ttm_prev") */
+export type YoYPeriod = string
+
+/**
+ * How baseline days are paired with current days
+ * - day_of_year: Jan 1 with Jan 1
+ * - weekday: the baseline shifts up to 3 days so Mondays line up with Mondays
+ */
+export type YoYAlignment = 'day_of_year' | 'weekday'
+
+export interface YoYMetric<T> {
+  value: string
+  label: string
+  /** Summed per day and across the period */
+  numerator: (row: T) => number
+  /** Set for ratio metrics (e.g. ROAS = revenue / spend) - both sides are summed before dividing */
+  denominator?: (row: T) => number
+  format: 'currency' | 'ratio' | 'number'
+}
+
+export interface YoYPoint {
+  /** Day offset from the start of both periods */
+  index: number
+  /** Axis label ("Jan 5") */
+  label: string
+  currentDate: string | null
+  baselineDate: string | null
+  /** null past the end of a period (e.g. the rest of a year in progress) */
+  current: number | null
+  baseline: number | null
+}
+
+export interface YoYSummary {
+  current: number
+  /** Baseline over the same number of days as the current period */
+  baseline: number
+  change: number
+}
+
+export interface YoYComparison {
+  points: YoYPoint[]
+  summary: YoYSummary
+}
+
+// ============================================
+// PERIODS
+// ============================================
+
+// Past calendar years offered next to the current one
+const YOY_YEAR_COUNT = 3
+
+export const YOY_ALIGNMENTS: { value: YoYAlignment; label: string }[] = [
+  { value: 'day_of_year', label: 'Calendar day' },
+  { value: 'weekday', label: 'Weekday' },
+]
+
+/**
+ * Periods that can be compared, newest first
+ */
+export function getYoYPeriodOptions(now: Date = new Date()): { value: YoYPeriod; label: string }[] {
+  const year = getStoreToday(now).getFullYear()
+  const years = Array.from({ length: YOY_YEAR_COUNT + 1 }, (_, i) => ({
+    value: String(year - i),
+    label: i === 0 ? `${year} YTD` : String(year - i),
+  }))
+  return [
+    ...years,
+    { value: 'ttm', label: 'Last 12 months' },
+    { value: 'ttm_prev', label: 'Prior 12 months' },
+  ]
+}
+
+/**
+ * The period a selection is usually compared against
+ */
+export function getDefaultBaseline(period: YoYPeriod): YoYPeriod {
+  if (period === 'ttm') return 'ttm_prev'
+  if (period === 'ttm_prev') return 'ttm'
+  return String(Number(period) - 1)
+}
+
+/**
+ * Resolve a period to concrete dates - years stop at today, trailing windows end today
+ * (or a year earlier for "ttm_prev")
+ */
+export function resolveYoYPeriod(period: YoYPeriod, now: Date = new Date()): ResolvedDateRange {
+  if (period === 'ttm' || period === 'ttm_prev') {
+    const today = getStoreToday(now)
+    const yearsBack = period === 'ttm' ? 0 : 1
+    const end = new Date(today.getFullYear() - yearsBack, today.getMonth(), today.getDate(), 12, 0, 0)
+    const start = new Date(end.getFullYear() - 1, end.getMonth(), end.getDate() + 1, 12, 0, 0)
+    return { ...resolveDateRange(toCustomRange(toISODateString(start), toISODateString(end)), now), value: period }
+  }
+  return resolveDateRange(period, now)
+}
+
+/**
+ * Shift the baseline window so its days pair up with the current window
+ * under the chosen alignment
+ */
+export function alignBaseline(
+  current: ResolvedDateRange,
+  baseline: ResolvedDateRange,
+  alignment: YoYAlignment
+): ResolvedDateRange {
+  if (alignment === 'day_of_year') return baseline
+
+  const currentStart = parseISODateAsLocal(current.start)
+  const baselineStart = parseISODateAsLocal(baseline.start)
+  const baselineEnd = parseISODateAsLocal(baseline.end)
+  // Nearest shift (-3..+3 days) that lands on the same weekday
+  let shift = (currentStart.getDay() - baselineStart.getDay() + 7) % 7
+  if (shift > 3) shift -= 7
+  if (shift === 0) return baseline
+
+  const shiftDate = (date: Date) =>
+    toISODateString(new Date(date.getFullYear(), date.getMonth(), date.getDate() + shift, 12, 0, 0))
+  return { ...baseline, start: shiftDate(baselineStart), end: shiftDate(baselineEnd) }
+}
+
+// ============================================
+// SERIES
+// ============================================
+
+function addDays(iso: string, days: number): string {
+  const date = parseISODateAsLocal(iso)
+  return toISODateString(new Date(date.getFullYear(), date.getMonth(), date.getDate() + days, 12, 0, 0))
+}
+
+/**
+ * Pair two daily series day by day and total them like-for-like
+ *
+ * @param currentRows - Daily rows covering the current period
+ * @param baselineRows - Daily rows covering the (aligned) baseline period
+ * @param getDate - ISO date of a row
+ */
+export function buildYoYComparison<T>(
+  currentRows: T[],
+  baselineRows: T[],
+  current: ResolvedDateRange,
+  baseline: ResolvedDateRange,
+  metric: YoYMetric<T>,
+  getDate: (row: T) => string
+): YoYComparison {
+  const byDate = (rows: T[]) => new Map(rows.map((row) => [getDate(row).slice(0, 10), row]))
+  const currentByDate = byDate(currentRows)
+  const baselineByDate = byDate(baselineRows)
+
+  const valueOf = (numerator: number, denominator: number) =>
+    metric.denominator ? (denominator > 0 ? numerator / denominator : null) : numerator
+
+  const totals = { current: 0, currentDenominator: 0, baseline: 0, baselineDenominator: 0 }
+  const points: YoYPoint[] = []
+
+  for (let index = 0; index < Math.max(current.days, baseline.days); index++) {
+    const currentDate = index < current.days ? addDays(current.start, index) : null
+    const baselineDate = index < baseline.days ? addDays(baseline.start, index) : null
+    const currentRow = currentDate ? currentByDate.get(currentDate) : undefined
+    const baselineRow = baselineDate ? baselineByDate.get(baselineDate) : undefined
+
+    const currentNumerator = currentRow ? metric.numerator(currentRow) : 0
+    const currentDenominator = currentRow && metric.denominator ? metric.denominator(currentRow) : 0
+    const baselineNumerator = baselineRow ? metric.numerator(baselineRow) : 0
+    const baselineDenominator = baselineRow && metric.denominator ? metric.denominator(baselineRow) : 0
+
+    // Only days the current period has reached count towards the totals
+    if (currentDate) {
+      totals.current += currentNumerator
+      totals.currentDenominator += currentDenominator
+      totals.baseline += baselineNumerator
+      totals.baselineDenominator += baselineDenominator
+    }
+
+    points.push({
+      index,
+      label: formatDateForDisplay(currentDate ?? addDays(current.start, index)),
+      currentDate,
+      baselineDate,
+      current: currentDate ? valueOf(currentNumerator, currentDenominator) : null,
+      baseline: baselineDate ? valueOf(baselineNumerator, baselineDenominator) : null,
+    })
+  }
+
+  const currentTotal = valueOf(totals.current, totals.currentDenominator) ?? 0
+  const baselineTotal = valueOf(totals.baseline, totals.baselineDenominator) ?? 0
+  return {
+    points,
+    summary: { current: currentTotal, baseline: baselineTotal, change: getPercentChange(currentTotal, baselineTotal) },
+  }
+}
+
+/**
+ * Format a metric value for axes, tooltips and summaries
+ */
+export function formatYoYValue(value: number, format: YoYMetric<unknown>['format']): string {
+  if (format === 'currency') return formatCurrency(value)
+  if (format === 'ratio') return `${value.toFixed(2)}x`
+  return Math.round(value).toLocaleString()
+}
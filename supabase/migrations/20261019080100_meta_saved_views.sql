@@ -0,0 +1,30 @@
+-- Named layouts of the Meta campaigns table (src/lib/meta-views.ts)
+
+create table if not exists public.meta_saved_views (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  layout jsonb not null,
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists meta_saved_views_user_id_idx on public.meta_saved_views (user_id);
+
+alter table public.meta_saved_views enable row level security;
+
+create policy "Users can read their own saved views"
+  on public.meta_saved_views for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their own saved views"
+  on public.meta_saved_views for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own saved views"
+  on public.meta_saved_views for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete their own saved views"
+  on public.meta_saved_views for delete
+  using (auth.uid() = user_id);
@@ -0,0 +1,28 @@
+-- Hand-set Meta creative tags (src/lib/meta-ad-tags.ts)
+
+create table if not exists public.meta_ad_tags (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  ad_id text not null,
+  tags jsonb not null,
+  updated_at timestamptz not null default now(),
+  primary key (user_id, ad_id)
+);
+
+alter table public.meta_ad_tags enable row level security;
+
+create policy "Users can read their own ad tags"
+  on public.meta_ad_tags for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their own ad tags"
+  on public.meta_ad_tags for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own ad tags"
+  on public.meta_ad_tags for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete their own ad tags"
+  on public.meta_ad_tags for delete
+  using (auth.uid() = user_id);
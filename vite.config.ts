@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import tailwindcss from '@tailwindcss/vite'
@@ -11,4 +12,9 @@ export default defineConfig({
       '@': path.resolve(__dirname, './src'),
     },
   },
+  test: {
+    include: ['src/**/*.test.ts'],
+    // Date helpers work in local time - pin it so results don't depend on the machine
+    env: { TZ: 'UTC' },
+  },
 })